@@ -1,19 +1,449 @@
+-- Auth² Service Database Schema (Heroku)
+-- Same schema as data/init.sql - apply every change to both files
+-- Includes both email and phone verification
 
+-- Drop existing tables if they exist (for development)
+DROP TABLE IF EXISTS Account_Audit CASCADE;
+DROP TABLE IF EXISTS Data_Export CASCADE;
+DROP TABLE IF EXISTS Rate_Limit_Counter CASCADE;
+DROP TABLE IF EXISTS Password_History CASCADE;
+DROP TABLE IF EXISTS Login_Attempt CASCADE;
+DROP TABLE IF EXISTS Login_Lockout CASCADE;
+DROP TABLE IF EXISTS SMS_Login_Code CASCADE;
+DROP TABLE IF EXISTS Magic_Link_Token CASCADE;
+DROP TABLE IF EXISTS Password_Reset_Token CASCADE;
+DROP TABLE IF EXISTS WebAuthn_Challenge CASCADE;
+DROP TABLE IF EXISTS WebAuthn_Credential CASCADE;
+DROP TABLE IF EXISTS MFA_Recovery_Code CASCADE;
+DROP TABLE IF EXISTS Account_MFA CASCADE;
+DROP TABLE IF EXISTS Service_Client CASCADE;
+DROP TABLE IF EXISTS OAuth_Authorization_Code CASCADE;
+DROP TABLE IF EXISTS Revoked_Token CASCADE;
+DROP TABLE IF EXISTS Refresh_Token CASCADE;
+DROP TABLE IF EXISTS OAuth_Client CASCADE;
+DROP TABLE IF EXISTS Email_Verification CASCADE;
+DROP TABLE IF EXISTS Phone_Verification CASCADE;
+DROP TABLE IF EXISTS Account_Credential CASCADE;
 DROP TABLE IF EXISTS Account CASCADE;
-CREATE TABLE Account (Account_ID SERIAL PRIMARY KEY,
-                      FirstName VARCHAR(255) NOT NULL,
-		              LastName VARCHAR(255) NOT NULL,
-                      Username VARCHAR(255) NOT NULL UNIQUE,
-                      Email VARCHAR(255) NOT NULL UNIQUE,
-                      Phone VARCHAR(15) NOT NULL UNIQUE,
-                      Account_Role int NOT NULL
-);
-
-
-DROP TABLE IF EXISTS Account_Credential;
-CREATE TABLE Account_Credential (Credential_ID SERIAL PRIMARY KEY,
-                      Account_ID INT NOT NULL,
-                      Salted_Hash VARCHAR(255) NOT NULL,
-                      salt VARCHAR(255),
-                      FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID)
-);
\ No newline at end of file
+
+-- Account table with verification status for both email and phone
+CREATE TABLE Account (
+    Account_ID SERIAL PRIMARY KEY,
+    FirstName VARCHAR(255) NOT NULL,
+    LastName VARCHAR(255) NOT NULL,
+    Username VARCHAR(255) NOT NULL UNIQUE,
+    Email VARCHAR(255) NOT NULL UNIQUE,
+    Email_Verified BOOLEAN DEFAULT FALSE,
+    Phone VARCHAR(15) NOT NULL UNIQUE,
+    Phone_Verified BOOLEAN DEFAULT FALSE,
+    Account_Role INT NOT NULL,
+    Account_Status VARCHAR(20) DEFAULT 'pending', -- 'pending', 'active', 'suspended', 'locked', 'deleted'
+    Token_Version INT NOT NULL DEFAULT 0,
+    Deletion_Scheduled_For TIMESTAMPTZ, -- Set while a self-service closure is in its grace period
+    Deletion_Reason VARCHAR(500),
+    Deleted_At TIMESTAMPTZ,
+    Created_At TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    Updated_At TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Account credentials table
+CREATE TABLE Account_Credential (
+    Credential_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Salted_Hash VARCHAR(255) NOT NULL,
+    Salt VARCHAR(255),
+    Hash_Algorithm VARCHAR(20) NOT NULL DEFAULT 'sha256', -- 'sha256' (legacy), 'scrypt'
+    Hash_Params VARCHAR(100),
+    Password_Breached BOOLEAN NOT NULL DEFAULT FALSE,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Phone verification codes table (SMS)
+CREATE TABLE Phone_Verification (
+    Verification_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Phone VARCHAR(15) NOT NULL,
+    Verification_Code VARCHAR(6) NOT NULL,
+    Code_Expires TIMESTAMPTZ NOT NULL,
+    Attempts INT DEFAULT 0,
+    Verified BOOLEAN DEFAULT FALSE,
+    Purpose VARCHAR(20) NOT NULL DEFAULT 'verify', -- verify or change
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Email verification tokens table
+CREATE TABLE Email_Verification (
+    Verification_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Email VARCHAR(255) NOT NULL,
+    Verification_Token VARCHAR(64) NOT NULL UNIQUE, -- Longer token for email links
+    Token_Expires TIMESTAMPTZ NOT NULL,
+    Verified BOOLEAN DEFAULT FALSE,
+    Purpose VARCHAR(20) NOT NULL DEFAULT 'verify', -- verify, change, cancel_change or restore
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Applications registered to sign users in through /oauth/authorize
+-- Public clients (browser/mobile apps) have no secret and rely on PKCE
+CREATE TABLE OAuth_Client (
+    Client_ID VARCHAR(64) PRIMARY KEY,
+    Client_Name VARCHAR(255) NOT NULL,
+    Client_Secret_Hash VARCHAR(64),
+    Redirect_URIs TEXT[] NOT NULL,
+    Allowed_Scopes VARCHAR(255) NOT NULL DEFAULT 'openid profile email phone',
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Refresh tokens (stored hashed, rotated on every use)
+-- All tokens descending from one login share a Family_ID so a replayed token
+-- can revoke the whole chain
+CREATE TABLE Refresh_Token (
+    Token_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Family_ID VARCHAR(36) NOT NULL,
+    Token_Hash VARCHAR(64) NOT NULL UNIQUE,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Revoked_At TIMESTAMPTZ,
+    Replaced_By INT,
+    Client_ID VARCHAR(64),
+    Scope VARCHAR(255),
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    FOREIGN KEY(Client_ID) REFERENCES OAuth_Client(Client_ID) ON DELETE CASCADE
+);
+
+-- Individually revoked access tokens (logout)
+-- Rows can be removed once the token would have expired anyway
+CREATE TABLE Revoked_Token (
+    JTI VARCHAR(36) PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Revoked_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Single-use authorization codes from /oauth/authorize (stored hashed)
+CREATE TABLE OAuth_Authorization_Code (
+    Code_Hash VARCHAR(64) PRIMARY KEY,
+    Client_ID VARCHAR(64) NOT NULL,
+    Account_ID INT NOT NULL,
+    Redirect_URI TEXT NOT NULL,
+    Scope VARCHAR(255) NOT NULL,
+    Code_Challenge VARCHAR(128) NOT NULL,
+    Nonce VARCHAR(255),
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Used_At TIMESTAMPTZ,
+    Refresh_Family_ID VARCHAR(36),
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Client_ID) REFERENCES OAuth_Client(Client_ID) ON DELETE CASCADE,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Machine clients for service-to-service calls (client_credentials grant)
+-- Tokens are issued to the client itself, not to an Account
+CREATE TABLE Service_Client (
+    Client_ID VARCHAR(64) PRIMARY KEY,
+    Client_Name VARCHAR(255) NOT NULL,
+    Client_Secret_Hash VARCHAR(64) NOT NULL,
+    Allowed_Scopes VARCHAR(1000) NOT NULL DEFAULT '',
+    Owner_Account_ID INT NOT NULL,
+    Is_Active BOOLEAN NOT NULL DEFAULT TRUE,
+    Token_Version INT NOT NULL DEFAULT 0,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Updated_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Owner_Account_ID) REFERENCES Account(Account_ID)
+);
+
+-- Two-factor authentication settings, one row per enrolled account
+-- The TOTP secret is encrypted (AES-256-GCM) - it is as sensitive as a password
+CREATE TABLE Account_MFA (
+    Account_ID INT PRIMARY KEY,
+    TOTP_Secret TEXT NOT NULL,
+    TOTP_Enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    TOTP_Last_Step BIGINT,
+    Failed_Attempts INT NOT NULL DEFAULT 0, -- Wrong second factors in a row
+    Locked_Until TIMESTAMPTZ,               -- Second factor refused until then
+    Enabled_At TIMESTAMPTZ,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Single-use recovery codes for when the authenticator device is lost
+-- Only hashes are stored; removing the MFA enrollment removes the codes
+CREATE TABLE MFA_Recovery_Code (
+    Code_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Code_Hash VARCHAR(64) NOT NULL,
+    Used_At TIMESTAMPTZ,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account_MFA(Account_ID) ON DELETE CASCADE
+);
+
+-- Passkeys (WebAuthn credentials) registered to an account
+CREATE TABLE WebAuthn_Credential (
+    Credential_ID TEXT PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Public_Key TEXT NOT NULL,
+    Public_Key_Alg INT NOT NULL,
+    Sign_Count BIGINT NOT NULL DEFAULT 0,
+    Transports TEXT[],
+    AAGUID VARCHAR(36),
+    Attestation_Format VARCHAR(32),
+    Name VARCHAR(100) NOT NULL,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    Last_Used_At TIMESTAMPTZ,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Outstanding WebAuthn challenges, deleted when used
+CREATE TABLE WebAuthn_Challenge (
+    Challenge VARCHAR(64) PRIMARY KEY,
+    Ceremony VARCHAR(20) NOT NULL, -- 'registration', 'authentication'
+    Account_ID INT,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Password reset links sent by email (hashed, single-use)
+CREATE TABLE Password_Reset_Token (
+    Token_Hash VARCHAR(64) PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Email VARCHAR(255) NOT NULL,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Used_At TIMESTAMPTZ,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Passwordless sign-in links sent by email (hashed, single-use)
+CREATE TABLE Magic_Link_Token (
+    Token_Hash VARCHAR(64) PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Email VARCHAR(255) NOT NULL,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Used_At TIMESTAMPTZ,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- One-time sign-in codes texted to verified phones (hashed, one per account)
+CREATE TABLE SMS_Login_Code (
+    Account_ID INT PRIMARY KEY,
+    Phone VARCHAR(15) NOT NULL,
+    Code_Hash VARCHAR(64) NOT NULL,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Attempts INT DEFAULT 0,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Passwords an account has replaced, so recent ones can't be reused
+CREATE TABLE Password_History (
+    History_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Salted_Hash VARCHAR(255) NOT NULL,
+    Salt VARCHAR(255),
+    Hash_Algorithm VARCHAR(20) NOT NULL,
+    Hash_Params VARCHAR(100),
+    Replaced_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Password sign-in attempts, for per-account and per-IP lockouts
+CREATE TABLE Login_Attempt (
+    Attempt_ID SERIAL PRIMARY KEY,
+    Email VARCHAR(255) NOT NULL,
+    Account_ID INT,
+    IP_Address VARCHAR(45),
+    Succeeded BOOLEAN NOT NULL,
+    Attempted_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE
+);
+
+-- Consecutive failures and temporary lockouts, keyed by email
+CREATE TABLE Login_Lockout (
+    Email VARCHAR(255) PRIMARY KEY,
+    Failed_Count INT NOT NULL DEFAULT 0,
+    Lockout_Count INT NOT NULL DEFAULT 0,
+    Locked_Until TIMESTAMPTZ,
+    Updated_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Request counters for the rate-limit middleware (RATE_LIMIT_STORE=postgres)
+CREATE TABLE Rate_Limit_Counter (
+    Bucket_Key VARCHAR(255) NOT NULL,
+    Window_Start TIMESTAMPTZ NOT NULL,
+    Hit_Count INT NOT NULL DEFAULT 0,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (Bucket_Key, Window_Start)
+);
+
+-- Personal data exports; large ones are built in the background and emailed as a link
+CREATE TABLE Data_Export (
+    Export_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Requested_By INT,
+    Format VARCHAR(10) NOT NULL DEFAULT 'json', -- 'json', 'zip'
+    Status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'ready', 'failed'
+    Token_Hash VARCHAR(64) NOT NULL UNIQUE,
+    Bundle TEXT,
+    Attempts INT NOT NULL DEFAULT 0,
+    Last_Attempt_At TIMESTAMPTZ,
+    Last_Error TEXT,
+    Expires_At TIMESTAMPTZ NOT NULL,
+    Completed_At TIMESTAMPTZ,
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    FOREIGN KEY(Requested_By) REFERENCES Account(Account_ID) ON DELETE SET NULL
+);
+
+-- Security events and admin actions on an account, included in its data export
+CREATE TABLE Account_Audit (
+    Audit_ID SERIAL PRIMARY KEY,
+    Account_ID INT NOT NULL,
+    Actor_ID INT, -- The admin who acted; NULL for automatic events such as lockouts
+    Action VARCHAR(30) NOT NULL, -- 'locked_out', 'mfa_locked', 'unlocked', 'mfa_reset', 'password_reset', 'role_changed', 'status_changed', 'profile_updated', 'deleted'
+    Details TEXT, -- JSON
+    Created_At TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(Account_ID) REFERENCES Account(Account_ID) ON DELETE CASCADE,
+    FOREIGN KEY(Actor_ID) REFERENCES Account(Account_ID) ON DELETE SET NULL
+);
+
+-- Indexes for performance
+CREATE INDEX idx_account_email ON Account(Email);
+CREATE INDEX idx_account_phone ON Account(Phone);
+CREATE INDEX idx_account_username ON Account(Username);
+CREATE INDEX idx_account_status ON Account(Account_Status);
+CREATE INDEX idx_account_deletion_scheduled ON Account(Deletion_Scheduled_For);
+
+CREATE INDEX idx_phone_verification_account ON Phone_Verification(Account_ID);
+CREATE INDEX idx_phone_verification_code ON Phone_Verification(Verification_Code);
+CREATE INDEX idx_phone_verification_expires ON Phone_Verification(Code_Expires);
+
+CREATE INDEX idx_email_verification_account ON Email_Verification(Account_ID);
+CREATE INDEX idx_email_verification_token ON Email_Verification(Verification_Token);
+CREATE INDEX idx_email_verification_expires ON Email_Verification(Token_Expires);
+
+CREATE INDEX idx_refresh_token_account ON Refresh_Token(Account_ID);
+CREATE INDEX idx_refresh_token_family ON Refresh_Token(Family_ID);
+
+CREATE INDEX idx_revoked_token_expires ON Revoked_Token(Expires_At);
+
+CREATE INDEX idx_oauth_code_expires ON OAuth_Authorization_Code(Expires_At);
+
+CREATE INDEX idx_service_client_owner ON Service_Client(Owner_Account_ID);
+
+CREATE INDEX idx_mfa_recovery_code_account ON MFA_Recovery_Code(Account_ID);
+
+CREATE INDEX idx_webauthn_credential_account ON WebAuthn_Credential(Account_ID);
+CREATE INDEX idx_webauthn_challenge_expires ON WebAuthn_Challenge(Expires_At);
+
+CREATE INDEX idx_password_reset_account ON Password_Reset_Token(Account_ID);
+CREATE INDEX idx_magic_link_account ON Magic_Link_Token(Account_ID);
+
+CREATE INDEX idx_password_history_account ON Password_History(Account_ID, History_ID);
+
+CREATE INDEX idx_login_attempt_ip ON Login_Attempt(IP_Address, Attempted_At);
+CREATE INDEX idx_login_attempt_account ON Login_Attempt(Account_ID);
+
+CREATE INDEX idx_rate_limit_counter_expires ON Rate_Limit_Counter(Expires_At);
+
+CREATE INDEX idx_data_export_account ON Data_Export(Account_ID);
+CREATE INDEX idx_data_export_expires ON Data_Export(Expires_At);
+
+CREATE INDEX idx_account_audit_account ON Account_Audit(Account_ID, Audit_ID);
+
+-- Comments for documentation
+COMMENT ON TABLE Account IS 'Main user account table for Auth² Service';
+COMMENT ON COLUMN Account.Email_Verified IS 'Whether the email address has been verified via email link';
+COMMENT ON COLUMN Account.Phone_Verified IS 'Whether the phone number has been verified via SMS';
+COMMENT ON COLUMN Account.Token_Version IS 'Incremented to invalidate every access token issued so far';
+COMMENT ON COLUMN Account.Account_Status IS 'Account status: pending (awaiting verification), active, suspended, locked, or deleted';
+COMMENT ON COLUMN Account.Deletion_Scheduled_For IS 'When a closed account will be anonymized; signing in or the emailed restore link clears it';
+COMMENT ON COLUMN Account.Deletion_Reason IS 'Optional reason given when the account was closed or deleted';
+COMMENT ON COLUMN Account.Deleted_At IS 'When the account was deleted by an administrator or anonymized after closure';
+
+COMMENT ON COLUMN Account_Credential.Hash_Algorithm IS 'Password hash format; legacy sha256 hashes are upgraded to scrypt on the next login';
+COMMENT ON COLUMN Account_Credential.Hash_Params IS 'KDF parameters for the hash, e.g. N=131072,r=8,p=1 for scrypt; NULL for sha256';
+COMMENT ON COLUMN Account_Credential.Password_Breached IS 'Whether the password was in the breached-password corpus at the last sign-in';
+
+COMMENT ON TABLE Email_Verification IS 'Stores email verification tokens for account activation';
+COMMENT ON COLUMN Email_Verification.Verification_Token IS 'Unique token sent in email verification link';
+COMMENT ON COLUMN Email_Verification.Token_Expires IS 'Expiration time for email token (typically 24-48 hours)';
+COMMENT ON COLUMN Email_Verification.Purpose IS 'verify: confirms the current address; change: confirms a new address (Email); cancel_change: calls the change off from the old address; restore: cancels a scheduled account deletion. Change and restore tokens are stored as SHA256 hex digests';
+
+COMMENT ON TABLE Phone_Verification IS 'Stores SMS verification codes and attempts';
+COMMENT ON COLUMN Phone_Verification.Verification_Code IS '6-digit code sent via SMS';
+COMMENT ON COLUMN Phone_Verification.Code_Expires IS 'Expiration time for SMS code (typically 10-15 minutes)';
+COMMENT ON COLUMN Phone_Verification.Attempts IS 'Number of failed verification attempts for security';
+COMMENT ON COLUMN Phone_Verification.Purpose IS 'verify: confirms the current number; change: confirms a new number (Phone), which replaces the current one once the code is entered';
+
+COMMENT ON TABLE Refresh_Token IS 'Stores hashed refresh tokens grouped into rotation families';
+COMMENT ON COLUMN Refresh_Token.Family_ID IS 'Shared by every token rotated from the same login';
+COMMENT ON COLUMN Refresh_Token.Replaced_By IS 'Token issued when this one was rotated (set means already used)';
+COMMENT ON COLUMN Refresh_Token.Client_ID IS 'OAuth client the token was issued to (NULL for first-party login)';
+COMMENT ON COLUMN Refresh_Token.Scope IS 'Scopes granted to the OAuth client (NULL for first-party login)';
+
+COMMENT ON TABLE Revoked_Token IS 'Access tokens revoked before expiry, keyed by JWT ID (jti)';
+
+COMMENT ON TABLE OAuth_Client IS 'Applications allowed to use the authorization code flow';
+COMMENT ON COLUMN OAuth_Client.Client_Secret_Hash IS 'SHA256 of the client secret; NULL for public clients that rely on PKCE';
+COMMENT ON COLUMN OAuth_Client.Redirect_URIs IS 'Exact redirect URIs the client may use';
+COMMENT ON COLUMN OAuth_Client.Allowed_Scopes IS 'Space-separated scopes the client may request';
+
+COMMENT ON TABLE OAuth_Authorization_Code IS 'Short-lived, single-use codes exchanged at /oauth/token';
+COMMENT ON COLUMN OAuth_Authorization_Code.Code_Challenge IS 'PKCE S256 challenge the code_verifier must match';
+COMMENT ON COLUMN OAuth_Authorization_Code.Nonce IS 'OpenID Connect nonce from the authorization request, echoed in the id_token';
+COMMENT ON COLUMN OAuth_Authorization_Code.Refresh_Family_ID IS 'Tokens issued for this code, revoked if the code is replayed';
+
+COMMENT ON TABLE Service_Client IS 'Machine clients that get tokens via the client_credentials grant';
+COMMENT ON COLUMN Service_Client.Client_Secret_Hash IS 'SHA256 of the generated client secret (shown once at creation/rotation)';
+COMMENT ON COLUMN Service_Client.Owner_Account_ID IS 'Account responsible for this client';
+COMMENT ON COLUMN Service_Client.Token_Version IS 'Incremented to invalidate every token issued to the client';
+
+COMMENT ON TABLE Account_MFA IS 'Per-account two-factor settings; a row with TOTP_Enabled = FALSE is an unconfirmed enrollment';
+COMMENT ON COLUMN Account_MFA.TOTP_Secret IS 'Encrypted base32 TOTP secret (see encryptionUtils)';
+COMMENT ON COLUMN Account_MFA.TOTP_Last_Step IS 'Time step of the last accepted code, so a code cannot be replayed';
+
+COMMENT ON TABLE MFA_Recovery_Code IS 'One-time recovery codes, accepted in place of a TOTP code at login';
+COMMENT ON COLUMN MFA_Recovery_Code.Code_Hash IS 'SHA256 hex digest of the normalized code';
+COMMENT ON COLUMN MFA_Recovery_Code.Used_At IS 'When the code was redeemed; NULL while still usable';
+
+COMMENT ON TABLE WebAuthn_Credential IS 'Passkeys for phishing-resistant sign-in';
+COMMENT ON COLUMN WebAuthn_Credential.Credential_ID IS 'Base64url credential ID chosen by the authenticator';
+COMMENT ON COLUMN WebAuthn_Credential.Public_Key IS 'Base64url SPKI (DER) public key, converted from the COSE key at registration';
+COMMENT ON COLUMN WebAuthn_Credential.Public_Key_Alg IS 'COSE algorithm: -7 ES256, -8 EdDSA, -257 RS256';
+COMMENT ON COLUMN WebAuthn_Credential.Sign_Count IS 'Last signature counter seen; must increase if the authenticator keeps one';
+COMMENT ON TABLE WebAuthn_Challenge IS 'Single-use challenges for registration and sign-in ceremonies';
+COMMENT ON COLUMN WebAuthn_Challenge.Account_ID IS 'Account registering a passkey; NULL for sign-in, where the account is not yet known';
+
+COMMENT ON TABLE Password_Reset_Token IS 'Emailed password reset links; a new link or any password change cancels the outstanding ones';
+COMMENT ON COLUMN Password_Reset_Token.Token_Hash IS 'SHA256 hex digest of the token in the link';
+COMMENT ON COLUMN Password_Reset_Token.Email IS 'Address the link was sent to; the link stops working if the account email changes';
+
+COMMENT ON TABLE Magic_Link_Token IS 'Emailed passwordless sign-in links; issuing a new one deletes the previous';
+COMMENT ON COLUMN Magic_Link_Token.Token_Hash IS 'SHA256 hex digest of the token in the link';
+COMMENT ON COLUMN Magic_Link_Token.Email IS 'Address the link was sent to; the link stops working if the account email changes';
+
+COMMENT ON TABLE SMS_Login_Code IS 'Texted passwordless sign-in codes; issuing a new one replaces the previous';
+COMMENT ON COLUMN SMS_Login_Code.Code_Hash IS 'SHA256 hex digest of the 6-digit code';
+COMMENT ON COLUMN SMS_Login_Code.Attempts IS 'Wrong codes submitted; the code stops working after 3';
+
+COMMENT ON TABLE Password_History IS 'Replaced password hashes; only the most recent PASSWORD_HISTORY_COUNT - 1 are kept';
+
+COMMENT ON TABLE Login_Attempt IS 'Every password sign-in attempt, including unknown emails (Account_ID NULL)';
+COMMENT ON TABLE Login_Lockout IS 'Temporary lockouts after repeated failures; unknown emails lock too so lockouts do not reveal which accounts exist';
+COMMENT ON COLUMN Login_Lockout.Email IS 'Lower-cased email as typed at sign-in';
+COMMENT ON COLUMN Login_Lockout.Lockout_Count IS 'Lockouts since the last successful sign-in; each one doubles the next lock';
+
+COMMENT ON TABLE Rate_Limit_Counter IS 'Hits per limit key and window, shared by every app instance';
+COMMENT ON COLUMN Rate_Limit_Counter.Bucket_Key IS 'Limit name plus what it counts, e.g. login:ip:203.0.113.5';
+COMMENT ON COLUMN Rate_Limit_Counter.Expires_At IS 'End of the following window; sliding windows still read the counter until then';
+
+COMMENT ON TABLE Data_Export IS 'Personal data exports waiting to be downloaded from an emailed link';
+COMMENT ON COLUMN Data_Export.Requested_By IS 'Account that asked for the export: the user themselves, or an administrator';
+COMMENT ON COLUMN Data_Export.Token_Hash IS 'SHA256 hex digest of the token in the download link';
+COMMENT ON COLUMN Data_Export.Bundle IS 'The export as JSON, set once Status is ready; packaged as a ZIP on download when Format is zip';
@@ -24,11 +24,14 @@ module.exports = {
     moduleNameMapper: {
         '^@core/(.*)$': '<rootDir>/src/core/$1',
         '^@routes/(.*)$': '<rootDir>/src/routes/$1',
+        '^@controllers$': '<rootDir>/src/controllers/index',
         '^@utilities$': '<rootDir>/src/core/utilities/index',
         '^@middleware$': '<rootDir>/src/core/middleware/index',
         '^@models$': '<rootDir>/src/core/models/index',
-        '^@db$': '<rootDir>/src/core/utilities/sql_conn',
+        '^@db$': '<rootDir>/src/core/utilities/database',
         '^@auth$': '<rootDir>/src/core/utilities/credentialingUtils',
+        // marked only ships ESM as its main entry; use its UMD build under Jest
+        '^marked$': '<rootDir>/node_modules/marked/lib/marked.umd.js',
     },
 
     // Setup files to run before tests
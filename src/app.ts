@@ -21,6 +21,12 @@ export const createApp = (): Express => {
 
     const app: Express = express();
 
+    // Behind a proxy, take the client IP (used for sign-in lockouts) from X-Forwarded-For
+    const trustProxy = process.env.TRUST_PROXY;
+    if (trustProxy) {
+        app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy);
+    }
+
     // Middleware
     app.use(cors());
     // app.use(cors({
@@ -28,6 +34,8 @@ export const createApp = (): Express => {
     //     credentials: true
     // }));
     app.use(express.json());
+    // OAuth endpoints receive application/x-www-form-urlencoded bodies
+    app.use(express.urlencoded({ extended: false }));
 
     // Serve static files from public directory
     app.use(express.static(path.join(__dirname, '../public')));
@@ -0,0 +1,148 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { purgeClosedAccounts } from '../../core/utilities/accountClosureUtils';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import * as emailService from '../../core/utilities/emailService';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('Account closure', () => {
+    let database: TestDatabase;
+    let closureSpy: jest.SpyInstance;
+
+    const authFor = (accountId: number, role = 1) => {
+        return `Bearer ${generateAccessToken({ id: accountId, email: 'unused@example.com', role, tokenVersion: 0 })}`;
+    };
+
+    const closeAccount = (accountId: number, body: Record<string, string>) => {
+        return request(app).delete('/auth/user/me').set('Authorization', authFor(accountId)).send(body);
+    };
+
+    const login = (email: string) => {
+        return request(app).post('/auth/login').send({ email, password: 'Password123!' });
+    };
+
+    /**
+     * Close an account and return the token from the emailed restore link
+     */
+    const closeAndGetRestoreToken = async (accountId: number): Promise<string> => {
+        closureSpy.mockClear();
+        const response = await closeAccount(accountId, { password: 'Password123!' });
+        expect(response.status).toBe(200);
+        return new URL(closureSpy.mock.calls[0][2]).searchParams.get('token');
+    };
+
+    const getAccount = async (accountId: number) => {
+        const result = await database.pool.query(
+            `SELECT Email, Username, Account_Status, Deletion_Scheduled_For, Deletion_Reason, Deleted_At
+             FROM Account WHERE Account_ID = $1`,
+            [accountId]
+        );
+        return result.rows[0];
+    };
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+        closureSpy = jest.spyOn(emailService, 'sendAccountClosureEmail').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        closureSpy.mockRestore();
+    });
+
+    it('should schedule deletion, sign out everywhere and be undone by signing in', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'closing@example.com' });
+
+        const closed = await closeAccount(accountId, { password: 'Password123!', reason: 'Moving on' });
+
+        expect(closed.status).toBe(200);
+        const account = await getAccount(accountId);
+        const graceMs = new Date(account.deletion_scheduled_for).getTime() - Date.now();
+        expect(graceMs).toBeGreaterThan(29 * 24 * 60 * 60 * 1000);
+        expect(account.deletion_reason).toBe('Moving on');
+        expect(closureSpy.mock.calls[0][0]).toBe('closing@example.com');
+        expect((await request(app).get('/auth/user/me').set('Authorization', authFor(accountId))).status).toBe(401);
+
+        expect((await login('closing@example.com')).status).toBe(200);
+        expect((await getAccount(accountId)).deletion_scheduled_for).toBeNull();
+    });
+
+    it('should refuse a wrong password', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'not-closing@example.com' });
+
+        const response = await closeAccount(accountId, { password: 'NotMyPassword1!' });
+
+        expect(response.status).toBe(400);
+        expect(response.body.errorCode).toBe('AUTH001');
+        expect((await getAccount(accountId)).deletion_scheduled_for).toBeNull();
+        expect(closureSpy).not.toHaveBeenCalled();
+    });
+
+    it('should restore the account from the emailed link once', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'restoring@example.com' });
+        const token = await closeAndGetRestoreToken(accountId);
+
+        const restored = await request(app).get('/auth/user/restore').query({ token }).set('Accept', 'text/html');
+        const again = await request(app).get('/auth/user/restore').query({ token }).set('Accept', 'application/json');
+
+        expect(restored.status).toBe(200);
+        expect(restored.text).toContain('Account restored');
+        expect(again.status).toBe(400);
+        expect(again.body.errorCode).toBe('AUTH010');
+        expect((await getAccount(accountId)).deletion_scheduled_for).toBeNull();
+    });
+
+    it('should anonymize accounts once their grace period is over', async () => {
+        const dueId = await createTestAccount(database.pool, { email: 'due@example.com' });
+        const waitingId = await createTestAccount(database.pool, { email: 'waiting@example.com' });
+        const token = await closeAndGetRestoreToken(dueId);
+        await closeAndGetRestoreToken(waitingId);
+        await database.pool.query(
+            `UPDATE Account SET Deletion_Scheduled_For = NOW() - INTERVAL '1 minute' WHERE Account_ID = $1`,
+            [dueId]
+        );
+
+        expect(await purgeClosedAccounts()).toBe(1);
+
+        const due = await getAccount(dueId);
+        expect(due.account_status).toBe('deleted');
+        expect(due.email).toBe(`deleted-${dueId}@deleted.invalid`);
+        expect(due.username).toBe(`deleted-${dueId}`);
+        expect(due.deleted_at).not.toBeNull();
+        const credentials = await database.pool.query('SELECT Credential_ID FROM Account_Credential WHERE Account_ID = $1', [dueId]);
+        expect(credentials.rows).toHaveLength(0);
+        expect((await login('due@example.com')).status).toBe(401);
+        expect((await request(app).get('/auth/user/restore').query({ token }).set('Accept', 'application/json')).status).toBe(400);
+
+        expect((await getAccount(waitingId)).email).toBe('waiting@example.com');
+    });
+
+    it('should record when and why an administrator deleted an account', async () => {
+        const adminId = await createTestAccount(database.pool, { email: 'closure-admin@example.com', role: 3 });
+        const accountId = await createTestAccount(database.pool, { email: 'removed@example.com' });
+
+        const response = await request(app)
+            .delete(`/admin/users/${accountId}`)
+            .set('Authorization', authFor(adminId, 3))
+            .send({ reason: 'Spam' });
+
+        expect(response.status).toBe(200);
+        const account = await getAccount(accountId);
+        expect(account.account_status).toBe('deleted');
+        expect(account.deletion_reason).toBe('Spam');
+        expect(account.deleted_at).not.toBeNull();
+    });
+});
@@ -0,0 +1,210 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+const INTROSPECTION_CREDENTIALS = 'resource-server:introspection-secret';
+
+describe('Service clients', () => {
+    let database: TestDatabase;
+    let adminToken: string;
+    let moderatorToken: string;
+    let previousIntrospectionClients: string | undefined;
+
+    const createClient = (scopes: string[] = ['reports:read', 'reports:write']) => {
+        return request(app)
+            .post('/admin/clients')
+            .set('Authorization', `Bearer ${adminToken}`)
+            .send({ name: 'Reporting job', scopes });
+    };
+
+    const requestToken = (clientId: string, clientSecret: string, scope?: string) => {
+        return request(app)
+            .post('/oauth/token')
+            .auth(clientId, clientSecret)
+            .type('form')
+            .send({ grant_type: 'client_credentials', ...(scope && { scope }) });
+    };
+
+    const introspect = (token: string) => {
+        const [id, secret] = INTROSPECTION_CREDENTIALS.split(':');
+        return request(app)
+            .post('/oauth/introspect')
+            .auth(id, secret)
+            .type('form')
+            .send({ token });
+    };
+
+    beforeAll(async () => {
+        previousIntrospectionClients = process.env.INTROSPECTION_CLIENTS;
+        process.env.INTROSPECTION_CLIENTS = INTROSPECTION_CREDENTIALS;
+
+        database = createTestDatabase();
+        const adminId = await createTestAccount(database.pool, { email: 'admin@example.com', role: 3 });
+        const moderatorId = await createTestAccount(database.pool, { email: 'mod@example.com', role: 2 });
+
+        adminToken = generateAccessToken({ id: adminId, email: 'admin@example.com', role: 3, tokenVersion: 0 });
+        moderatorToken = generateAccessToken({ id: moderatorId, email: 'mod@example.com', role: 2, tokenVersion: 0 });
+    });
+
+    afterAll(async () => {
+        if (previousIntrospectionClients === undefined) {
+            delete process.env.INTROSPECTION_CLIENTS;
+        } else {
+            process.env.INTROSPECTION_CLIENTS = previousIntrospectionClients;
+        }
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+    });
+
+    describe('/admin/clients', () => {
+        it('should create a client and show its secret once', async () => {
+            const created = await createClient();
+
+            expect(created.status).toBe(201);
+            expect(created.body.data.client_id).toMatch(/^svc_[0-9a-f]{16}$/);
+            expect(created.body.data.client_secret).toBeTruthy();
+            expect(created.body.data.scopes).toEqual(['reports:read', 'reports:write']);
+
+            const fetched = await request(app)
+                .get(`/admin/clients/${created.body.data.client_id}`)
+                .set('Authorization', `Bearer ${adminToken}`);
+
+            expect(fetched.status).toBe(200);
+            expect(fetched.body.data.client_secret).toBeUndefined();
+            expect(fetched.body.data.client_secret_hash).toBeUndefined();
+        });
+
+        it('should require the admin role', async () => {
+            const response = await request(app)
+                .get('/admin/clients')
+                .set('Authorization', `Bearer ${moderatorToken}`);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should reject invalid scope names', async () => {
+            const response = await createClient(['Reports Read']);
+
+            expect(response.status).toBe(400);
+        });
+
+        it('should delete a client', async () => {
+            const created = await createClient();
+            const clientId = created.body.data.client_id;
+
+            const deleted = await request(app)
+                .delete(`/admin/clients/${clientId}`)
+                .set('Authorization', `Bearer ${adminToken}`);
+            const fetched = await request(app)
+                .get(`/admin/clients/${clientId}`)
+                .set('Authorization', `Bearer ${adminToken}`);
+
+            expect(deleted.status).toBe(200);
+            expect(fetched.status).toBe(404);
+        });
+    });
+
+    describe('client_credentials grant', () => {
+        it('should issue a token with the client as subject', async () => {
+            const { client_id: clientId, client_secret: clientSecret } = (await createClient()).body.data;
+
+            const response = await requestToken(clientId, clientSecret, 'reports:read');
+
+            expect(response.status).toBe(200);
+            expect(response.headers['cache-control']).toBe('no-store');
+            expect(response.body).toEqual(expect.objectContaining({
+                token_type: 'Bearer',
+                scope: 'reports:read',
+                expires_in: 900,
+            }));
+            expect(response.body.refresh_token).toBeUndefined();
+            expect(jwt.decode(response.body.access_token)).toEqual(
+                expect.objectContaining({ sub: clientId, client_id: clientId, scope: 'reports:read' })
+            );
+
+            const introspection = await introspect(response.body.access_token);
+            expect(introspection.body).toEqual(expect.objectContaining({
+                active: true,
+                sub: clientId,
+                client_id: clientId,
+            }));
+            expect(introspection.body.role).toBeUndefined();
+        });
+
+        it('should grant every allowed scope when none is requested', async () => {
+            const { client_id: clientId, client_secret: clientSecret } = (await createClient()).body.data;
+
+            const response = await requestToken(clientId, clientSecret);
+
+            expect(response.body.scope).toBe('reports:read reports:write');
+        });
+
+        it('should reject a wrong secret', async () => {
+            const { client_id: clientId } = (await createClient()).body.data;
+
+            const response = await requestToken(clientId, 'not-the-secret');
+
+            expect(response.status).toBe(401);
+            expect(response.body.error).toBe('invalid_client');
+            expect(response.headers['www-authenticate']).toContain('Basic');
+        });
+
+        it('should reject scopes the client was not given', async () => {
+            const { client_id: clientId, client_secret: clientSecret } = (await createClient()).body.data;
+
+            const response = await requestToken(clientId, clientSecret, 'admin');
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('invalid_scope');
+        });
+
+        it('should not let service tokens call user endpoints', async () => {
+            const { client_id: clientId, client_secret: clientSecret } = (await createClient()).body.data;
+            const token = (await requestToken(clientId, clientSecret)).body.access_token;
+
+            const response = await request(app)
+                .get('/jwt_test')
+                .set('Authorization', `Bearer ${token}`);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should revoke outstanding tokens when the secret is rotated', async () => {
+            const { client_id: clientId, client_secret: clientSecret } = (await createClient()).body.data;
+            const token = (await requestToken(clientId, clientSecret)).body.access_token;
+
+            const rotated = await request(app)
+                .post(`/admin/clients/${clientId}/secret`)
+                .set('Authorization', `Bearer ${adminToken}`);
+
+            expect(rotated.status).toBe(200);
+            expect((await introspect(token)).body).toEqual({ active: false });
+            expect((await requestToken(clientId, clientSecret)).status).toBe(401);
+            expect((await requestToken(clientId, rotated.body.data.client_secret)).status).toBe(200);
+        });
+
+        it('should refuse disabled clients', async () => {
+            const { client_id: clientId, client_secret: clientSecret } = (await createClient()).body.data;
+            const token = (await requestToken(clientId, clientSecret)).body.access_token;
+
+            await request(app)
+                .put(`/admin/clients/${clientId}`)
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send({ is_active: false });
+
+            expect((await introspect(token)).body).toEqual({ active: false });
+            expect((await requestToken(clientId, clientSecret)).status).toBe(401);
+        });
+    });
+});
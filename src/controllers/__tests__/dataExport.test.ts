@@ -0,0 +1,254 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import * as emailService from '../../core/utilities/emailService';
+import { retryDataExports } from '../../core/utilities/dataExportUtils';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('Personal data export', () => {
+    let database: TestDatabase;
+    let exportSpy: jest.SpyInstance;
+
+    const authFor = (accountId: number, role = 1) => {
+        return `Bearer ${generateAccessToken({ id: accountId, email: 'unused@example.com', role, tokenVersion: 0 })}`;
+    };
+
+    const exportOwnData = (accountId: number, format?: string) => {
+        return request(app)
+            .get('/auth/user/me/export')
+            .query(format ? { format } : {})
+            .set('Authorization', authFor(accountId));
+    };
+
+    /**
+     * Wait for the background export to email its link
+     */
+    const waitForExportEmail = async (): Promise<string> => {
+        for (let i = 0; i < 100 && exportSpy.mock.calls.length === 0; i++) {
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        expect(exportSpy).toHaveBeenCalledTimes(1);
+        return exportSpy.mock.calls[0][2];
+    };
+
+    /**
+     * Wait for a background export of the account to record a failed attempt
+     */
+    const waitForExportFailure = async (accountId: number): Promise<Record<string, unknown>> => {
+        for (let i = 0; i < 100; i++) {
+            const result = await database.pool.query('SELECT * FROM Data_Export WHERE Account_ID = $1', [accountId]);
+            if (result.rows[0]?.last_error) {
+                return result.rows[0];
+            }
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        throw new Error('The export never failed');
+    };
+
+    /**
+     * Make building exports fail, as if the database dropped mid-build
+     */
+    const failExportBuilds = () => {
+        const query = database.pool.query.bind(database.pool);
+        return jest.spyOn(database.pool, 'query').mockImplementation(((sql: string, params?: unknown[]) => {
+            return String(sql).includes('FROM Account_Credential')
+                ? Promise.reject(new Error('connection lost'))
+                : query(sql, params);
+        }) as never);
+    };
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+        exportSpy = jest.spyOn(emailService, 'sendDataExportEmail').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        exportSpy.mockRestore();
+        delete process.env.DATA_EXPORT_SYNC_MAX_ROWS;
+    });
+
+    it('should download the account, sign-ins and sessions without any secrets', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'exporter@example.com' });
+        await request(app).post('/auth/login').send({ email: 'exporter@example.com', password: 'Password123!' });
+        await request(app).post('/auth/login').send({ email: 'exporter@example.com', password: 'WrongPassword1!' });
+
+        const response = await exportOwnData(accountId);
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-disposition']).toBe(`attachment; filename="account-${accountId}-export.json"`);
+        expect(response.headers['cache-control']).toBe('no-store');
+        expect(response.body.account.email).toBe('exporter@example.com');
+        expect(response.body.password).toMatchObject({ set: true, algorithm: 'scrypt' });
+        expect(response.body.loginHistory.attempts.map((attempt: { succeeded: boolean }) => attempt.succeeded)).toEqual([true, false]);
+        expect(response.body.sessions.refreshTokens).toHaveLength(1);
+        expect(response.body.exportInfo.redacted.length).toBeGreaterThan(0);
+
+        const secrets = await database.pool.query(
+            `SELECT c.Salted_Hash, c.Salt, r.Token_Hash
+             FROM Account_Credential c JOIN Refresh_Token r ON r.Account_ID = c.Account_ID
+             WHERE c.Account_ID = $1`,
+            [accountId]
+        );
+        for (const secret of Object.values(secrets.rows[0])) {
+            expect(response.text).not.toContain(secret);
+        }
+    });
+
+    it('should package the export as a ZIP with one file per section', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'zipped@example.com' });
+
+        const response = await exportOwnData(accountId, 'zip').responseType('blob');
+
+        expect(response.status).toBe(200);
+        expect(response.headers['content-type']).toBe('application/zip');
+        const zip: Buffer = response.body;
+        expect(zip.subarray(0, 2).toString('latin1')).toBe('PK');
+        expect(zip.includes('account.json')).toBe(true);
+        expect(zip.includes('login-history.json')).toBe(true);
+    });
+
+    it('should build large exports in the background and email a download link', async () => {
+        process.env.DATA_EXPORT_SYNC_MAX_ROWS = '0';
+        const accountId = await createTestAccount(database.pool, { email: 'big-history@example.com' });
+        await request(app).post('/auth/login').send({ email: 'big-history@example.com', password: 'Password123!' });
+
+        const queued = await exportOwnData(accountId);
+        const downloadUrl = new URL(await waitForExportEmail());
+        const again = await exportOwnData(accountId);
+
+        expect(queued.status).toBe(202);
+        expect(exportSpy.mock.calls[0][0]).toBe('big-history@example.com');
+        expect(again.status).toBe(429);
+        expect(again.body.errorCode).toBe('USER005');
+
+        const download = await request(app).get(downloadUrl.pathname + downloadUrl.search);
+
+        expect(download.status).toBe(200);
+        expect(download.body.account.email).toBe('big-history@example.com');
+        expect(download.body.dataExports).toHaveLength(1);
+    });
+
+    it('should include lockouts and admin actions in the audit section', async () => {
+        const adminId = await createTestAccount(database.pool, { email: 'audit-admin@example.com', role: 3 });
+        const userId = await createTestAccount(database.pool, { email: 'audited@example.com' });
+        for (let attempt = 0; attempt < 5; attempt++) {
+            await request(app).post('/auth/login').send({ email: 'audited@example.com', password: 'WrongPassword1!' });
+        }
+        await request(app).post(`/admin/users/${userId}/unlock`).set('Authorization', authFor(adminId, 3));
+        await request(app).put(`/admin/users/${userId}/role`).set('Authorization', authFor(adminId, 3)).send({ role: 2 });
+
+        const response = await exportOwnData(userId);
+
+        expect(response.status).toBe(200);
+        expect(response.body.audit).toEqual([
+            expect.objectContaining({ action: 'locked_out', actor_id: null, details: { lockedForSeconds: 60 } }),
+            expect.objectContaining({ action: 'unlocked', actor_id: adminId }),
+            expect.objectContaining({ action: 'role_changed', actor_id: adminId, details: { role: 2 } }),
+        ]);
+    });
+
+    it('should record a failed background export and retry it with a new link', async () => {
+        process.env.DATA_EXPORT_SYNC_MAX_ROWS = '-1';
+        const accountId = await createTestAccount(database.pool, { email: 'retried@example.com' });
+        const failingQuery = failExportBuilds();
+
+        const queued = await exportOwnData(accountId);
+        const failed = await waitForExportFailure(accountId);
+
+        expect(queued.status).toBe(202);
+        expect(failed).toMatchObject({ status: 'pending', attempts: 1, last_error: 'connection lost' });
+        expect(await retryDataExports()).toBe(0);
+
+        failingQuery.mockRestore();
+        await database.pool.query("UPDATE Data_Export SET Last_Attempt_At = NOW() - INTERVAL '1 hour' WHERE Account_ID = $1", [accountId]);
+
+        expect(await retryDataExports()).toBe(1);
+        const downloadUrl = new URL(await waitForExportEmail());
+        const download = await request(app).get(downloadUrl.pathname + downloadUrl.search);
+
+        expect(download.status).toBe(200);
+        expect(download.body.account.email).toBe('retried@example.com');
+    });
+
+    it('should keep a background export pending until its link has been emailed', async () => {
+        process.env.DATA_EXPORT_SYNC_MAX_ROWS = '-1';
+        const accountId = await createTestAccount(database.pool, { email: 'unmailed@example.com' });
+        exportSpy.mockResolvedValueOnce(false);
+
+        await exportOwnData(accountId);
+        const unsent = await waitForExportFailure(accountId);
+
+        expect(unsent).toMatchObject({ status: 'pending', bundle: null, last_error: 'The download link could not be emailed' });
+
+        exportSpy.mockClear();
+        await database.pool.query("UPDATE Data_Export SET Last_Attempt_At = NOW() - INTERVAL '1 hour' WHERE Account_ID = $1", [accountId]);
+        await retryDataExports();
+        const downloadUrl = new URL(await waitForExportEmail());
+        const download = await request(app).get(downloadUrl.pathname + downloadUrl.search);
+
+        expect(download.status).toBe(200);
+        expect(download.body.account.email).toBe('unmailed@example.com');
+    });
+
+    it('should mark a background export failed once its attempts run out', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'given-up@example.com' });
+        await database.pool.query(
+            `INSERT INTO Data_Export (Account_ID, Requested_By, Format, Token_Hash, Expires_At, Attempts, Last_Attempt_At)
+             VALUES ($1, $1, 'json', $2, NOW() + INTERVAL '1 day', 2, NOW() - INTERVAL '1 hour')`,
+            [accountId, 'b'.repeat(64)]
+        );
+        const failingQuery = failExportBuilds();
+
+        await retryDataExports();
+        failingQuery.mockRestore();
+
+        const row = await database.pool.query('SELECT Status, Attempts FROM Data_Export WHERE Account_ID = $1', [accountId]);
+        expect(row.rows[0]).toEqual({ status: 'failed', attempts: 3 });
+        expect(exportSpy).not.toHaveBeenCalled();
+        expect(await retryDataExports()).toBe(0);
+    });
+
+    it('should refuse an unknown download link', async () => {
+        const response = await request(app).get('/auth/user/export/download').query({ token: 'a'.repeat(64) });
+
+        expect(response.status).toBe(400);
+        expect(response.body.errorCode).toBe('AUTH010');
+    });
+
+    it('should let an admin export a user, emailing large exports to the admin', async () => {
+        const adminId = await createTestAccount(database.pool, { email: 'export-admin@example.com', role: 3 });
+        const superAdminId = await createTestAccount(database.pool, { email: 'export-owner@example.com', role: 4 });
+        const userId = await createTestAccount(database.pool, { email: 'requested@example.com' });
+
+        const direct = await request(app).get(`/admin/users/${userId}/export`).set('Authorization', authFor(adminId, 3));
+        const higher = await request(app).get(`/admin/users/${superAdminId}/export`).set('Authorization', authFor(adminId, 3));
+        const user = await request(app).get(`/admin/users/${adminId}/export`).set('Authorization', authFor(userId));
+
+        expect(direct.status).toBe(200);
+        expect(direct.body.account.email).toBe('requested@example.com');
+        expect(higher.status).toBe(403);
+        expect(user.status).toBe(403);
+
+        process.env.DATA_EXPORT_SYNC_MAX_ROWS = '-1';
+        const queued = await request(app).get(`/admin/users/${userId}/export`).set('Authorization', authFor(adminId, 3));
+        await waitForExportEmail();
+
+        expect(queued.status).toBe(202);
+        expect(exportSpy.mock.calls[0][0]).toBe('export-admin@example.com');
+        expect(exportSpy.mock.calls[0][4]).toContain('requested');
+    });
+});
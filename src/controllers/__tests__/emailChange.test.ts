@@ -0,0 +1,170 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import * as emailService from '../../core/utilities/emailService';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('Email change', () => {
+    let database: TestDatabase;
+    let confirmSpy: jest.SpyInstance;
+    let noticeSpy: jest.SpyInstance;
+
+    const requestChange = (accountId: number, email: string, body: Record<string, string>) => {
+        return request(app)
+            .post('/auth/user/email/change')
+            .set('Authorization', `Bearer ${generateAccessToken({ id: accountId, email, role: 1, tokenVersion: 0 })}`)
+            .send(body);
+    };
+
+    /**
+     * Start a change and return the tokens from the two emailed links
+     */
+    const startChange = async (accountId: number, email: string, newEmail: string) => {
+        confirmSpy.mockClear();
+        noticeSpy.mockClear();
+        const response = await requestChange(accountId, email, { newEmail, password: 'Password123!' });
+        expect(response.status).toBe(200);
+        return {
+            confirmToken: new URL(confirmSpy.mock.calls[0][2]).searchParams.get('token'),
+            cancelToken: new URL(noticeSpy.mock.calls[0][3]).searchParams.get('token'),
+        };
+    };
+
+    const follow = (path: string, token: string) => {
+        return request(app).get(path).query({ token }).set('Accept', 'application/json');
+    };
+
+    const getAccount = async (accountId: number) => {
+        const result = await database.pool.query(
+            'SELECT Email, Email_Verified FROM Account WHERE Account_ID = $1',
+            [accountId]
+        );
+        return result.rows[0];
+    };
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+        confirmSpy = jest.spyOn(emailService, 'sendEmailChangeConfirmation').mockResolvedValue(true);
+        noticeSpy = jest.spyOn(emailService, 'sendEmailChangeNotice').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        confirmSpy.mockRestore();
+        noticeSpy.mockRestore();
+    });
+
+    it('should email both addresses and only switch once the new one is confirmed', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'old-address@example.com' });
+        const { confirmToken } = await startChange(accountId, 'old-address@example.com', 'new-address@example.com');
+
+        expect(confirmSpy.mock.calls[0][0]).toBe('new-address@example.com');
+        expect(noticeSpy.mock.calls[0][0]).toBe('old-address@example.com');
+        expect(noticeSpy.mock.calls[0][2]).toBe('new-address@example.com');
+        expect((await getAccount(accountId)).email).toBe('old-address@example.com');
+
+        const confirmed = await follow('/auth/user/email/change/confirm', confirmToken);
+
+        expect(confirmed.status).toBe(200);
+        expect(confirmed.body.data.email).toBe('new-address@example.com');
+        expect(await getAccount(accountId)).toEqual({ email: 'new-address@example.com', email_verified: true });
+        expect((await follow('/auth/user/email/change/confirm', confirmToken)).status).toBe(400);
+        expect((await request(app)
+            .post('/auth/login')
+            .send({ email: 'new-address@example.com', password: 'Password123!' })).status).toBe(200);
+    });
+
+    it('should let the old address cancel the change', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'keep-address@example.com' });
+        const { confirmToken, cancelToken } = await startChange(accountId, 'keep-address@example.com', 'hijack@example.com');
+
+        const cancelled = await request(app)
+            .get('/auth/user/email/change/cancel')
+            .query({ token: cancelToken })
+            .set('Accept', 'text/html');
+        const confirmed = await follow('/auth/user/email/change/confirm', confirmToken);
+
+        expect(cancelled.status).toBe(200);
+        expect(cancelled.text).toContain('Email change cancelled');
+        expect(confirmed.status).toBe(400);
+        expect(confirmed.body.errorCode).toBe('VRFY011');
+        expect((await getAccount(accountId)).email).toBe('keep-address@example.com');
+    });
+
+    it('should cancel outstanding password reset links when the address changes', async () => {
+        const resetSpy = jest.spyOn(emailService, 'sendPasswordResetEmail').mockResolvedValue(true);
+        try {
+            const accountId = await createTestAccount(database.pool, { email: 'reset-before@example.com' });
+            await request(app).post('/auth/password/reset-request').send({ email: 'reset-before@example.com' });
+            const resetToken = new URL(resetSpy.mock.calls[0][2]).searchParams.get('token');
+
+            const { confirmToken } = await startChange(accountId, 'reset-before@example.com', 'reset-after@example.com');
+            await follow('/auth/user/email/change/confirm', confirmToken);
+
+            const remaining = await database.pool.query(
+                'SELECT COUNT(*) AS count FROM Password_Reset_Token WHERE Account_ID = $1',
+                [accountId]
+            );
+            expect(parseInt(remaining.rows[0].count)).toBe(0);
+            expect((await follow('/auth/password/reset/validate', resetToken)).status).toBe(400);
+        } finally {
+            resetSpy.mockRestore();
+        }
+    });
+
+    it('should refuse a wrong password or an address that is in use', async () => {
+        await createTestAccount(database.pool, { email: 'in-use@example.com' });
+        const accountId = await createTestAccount(database.pool, { email: 'wants-in-use@example.com' });
+
+        const wrongPassword = await requestChange(accountId, 'wants-in-use@example.com', {
+            newEmail: 'free@example.com',
+            password: 'NotMyPassword1!',
+        });
+        const taken = await requestChange(accountId, 'wants-in-use@example.com', {
+            newEmail: 'in-use@example.com',
+            password: 'Password123!',
+        });
+
+        expect(wrongPassword.status).toBe(400);
+        expect(wrongPassword.body.errorCode).toBe('AUTH001');
+        expect(taken.status).toBe(400);
+        expect(taken.body.errorCode).toBe('AUTH002');
+        expect(confirmSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not switch to an address another account took in the meantime', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'slow-confirm@example.com' });
+        const { confirmToken } = await startChange(accountId, 'slow-confirm@example.com', 'contested@example.com');
+        await createTestAccount(database.pool, { email: 'contested@example.com' });
+
+        const confirmed = await follow('/auth/user/email/change/confirm', confirmToken);
+
+        expect(confirmed.status).toBe(400);
+        expect(confirmed.body.errorCode).toBe('AUTH002');
+        expect((await getAccount(accountId)).email).toBe('slow-confirm@example.com');
+    });
+
+    it('should keep the current address verification separate from a pending change', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'both-flows@example.com' });
+        const { confirmToken } = await startChange(accountId, 'both-flows@example.com', 'both-new@example.com');
+
+        // A change token is no good on the plain verification link
+        const misused = await follow('/auth/verify/email/confirm', confirmToken);
+
+        expect(misused.status).toBe(400);
+        expect(misused.body.errorCode).toBe('VRFY011');
+    });
+});
@@ -0,0 +1,180 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import * as emailService from '../../core/utilities/emailService';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+/** What a browser sends when someone clicks a link in their mail program */
+const BROWSER_ACCEPT = 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8';
+
+describe('Hosted email confirmation and password reset pages', () => {
+    let database: TestDatabase;
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+    });
+
+    describe('GET /auth/verify/email/confirm', () => {
+        /**
+         * An account with an unverified email and a confirmation token for it
+         */
+        const createPendingVerification = async (email: string, expiresInMs: number = 60 * 60 * 1000) => {
+            const accountId = await createTestAccount(database.pool, { email });
+            const token = `${accountId}`.padStart(64, 'a');
+            await database.pool.query('UPDATE Account SET Email_Verified = FALSE WHERE Account_ID = $1', [accountId]);
+            await database.pool.query(
+                `INSERT INTO Email_Verification (Account_ID, Email, Verification_Token, Token_Expires)
+                 VALUES ($1, $2, $3, $4)`,
+                [accountId, email, token, new Date(Date.now() + expiresInMs)]
+            );
+            return token;
+        };
+
+        const confirm = (token: string, accept: string) => {
+            return request(app).get('/auth/verify/email/confirm').query({ token }).set('Accept', accept);
+        };
+
+        it('should show a page to browsers and JSON to API clients', async () => {
+            const token = await createPendingVerification('page-confirm@example.com');
+
+            const page = await confirm(token, BROWSER_ACCEPT);
+            const again = await confirm(token, 'application/json');
+
+            expect(page.status).toBe(200);
+            expect(page.headers['content-type']).toContain('text/html');
+            expect(page.headers['referrer-policy']).toBe('no-referrer');
+            expect(page.text).toContain('Email verified');
+            expect(again.status).toBe(400);
+            expect(again.body.errorCode).toBe('VRFY011');
+        });
+
+        it('should keep returning JSON when it is asked for', async () => {
+            const token = await createPendingVerification('json-confirm@example.com');
+
+            const response = await confirm(token, 'application/json');
+
+            expect(response.status).toBe(200);
+            expect(response.body.success).toBe(true);
+            expect(response.body.message).toBe('Email verified successfully');
+        });
+
+        it('should explain expired and invalid links', async () => {
+            const token = await createPendingVerification('expired-confirm@example.com', -60 * 1000);
+
+            const expired = await confirm(token, BROWSER_ACCEPT);
+            const invalid = await confirm('not-a-real-token', BROWSER_ACCEPT);
+
+            expect(expired.status).toBe(400);
+            expect(expired.text).toContain('This link has expired');
+            expect(invalid.status).toBe(400);
+            expect(invalid.text).toContain('This link is not valid');
+        });
+    });
+
+    describe('password reset', () => {
+        let emailSpy: jest.SpyInstance;
+
+        const requestToken = async (email: string): Promise<string> => {
+            emailSpy.mockClear();
+            await request(app).post('/auth/password/reset-request').send({ email });
+            return new URL(emailSpy.mock.calls[0][2]).searchParams.get('token');
+        };
+
+        const openLink = (token: string, accept: string = BROWSER_ACCEPT) => {
+            return request(app).get('/auth/password/reset').query({ token }).set('Accept', accept);
+        };
+
+        const submitForm = (fields: Record<string, string>) => {
+            return request(app)
+                .post('/auth/password/reset')
+                .type('form')
+                .set('Accept', BROWSER_ACCEPT)
+                .send(fields);
+        };
+
+        beforeEach(() => {
+            emailSpy = jest.spyOn(emailService, 'sendPasswordResetEmail').mockResolvedValue(true);
+        });
+
+        afterEach(() => {
+            emailSpy.mockRestore();
+        });
+
+        it('should show a form for the emailed link that resets the password', async () => {
+            await createTestAccount(database.pool, { email: 'form-reset@example.com' });
+            const token = await requestToken('form-reset@example.com');
+
+            const form = await openLink(token);
+            const done = await submitForm({ token, password: 'BrandNew42!', confirmPassword: 'BrandNew42!' });
+            const reused = await openLink(token);
+            const login = await request(app)
+                .post('/auth/login')
+                .send({ email: 'form-reset@example.com', password: 'BrandNew42!' });
+
+            expect(form.status).toBe(200);
+            expect(form.headers['cache-control']).toBe('no-store');
+            expect(form.text).toContain('action="/auth/password/reset"');
+            expect(form.text).toContain(`value="${token}"`);
+            expect(done.status).toBe(200);
+            expect(done.text).toContain('Password reset');
+            expect(reused.status).toBe(400);
+            expect(reused.text).toContain('This link is not valid');
+            expect(login.status).toBe(200);
+        });
+
+        it('should show the form again with what was wrong', async () => {
+            await createTestAccount(database.pool, { email: 'retry-reset@example.com' });
+            const token = await requestToken('retry-reset@example.com');
+
+            const mismatch = await submitForm({ token, password: 'BrandNew42!', confirmPassword: 'BrandNew43!' });
+            const weak = await submitForm({ token, password: 'weakling', confirmPassword: 'weakling' });
+
+            expect(mismatch.status).toBe(400);
+            expect(mismatch.text).toContain('Passwords do not match');
+            expect(weak.status).toBe(400);
+            expect(weak.text).toContain('Password must contain an uppercase letter');
+            expect(weak.text).toContain(`value="${token}"`);
+            expect((await openLink(token)).status).toBe(200);
+        });
+
+        it('should show the expired page for an expired link', async () => {
+            const accountId = await createTestAccount(database.pool, { email: 'late-reset@example.com' });
+            const token = await requestToken('late-reset@example.com');
+            await database.pool.query(
+                "UPDATE Password_Reset_Token SET Expires_At = NOW() - INTERVAL '1 minute' WHERE Account_ID = $1",
+                [accountId]
+            );
+
+            const page = await openLink(token);
+
+            expect(page.status).toBe(400);
+            expect(page.text).toContain('This link has expired');
+        });
+
+        it('should answer the link with JSON when it is asked for', async () => {
+            await createTestAccount(database.pool, { email: 'json-reset@example.com' });
+            const token = await requestToken('json-reset@example.com');
+
+            const valid = await openLink(token, 'application/json');
+            const malformed = await openLink('nope', 'application/json');
+
+            expect(valid.status).toBe(200);
+            expect(valid.body.data.valid).toBe(true);
+            expect(malformed.status).toBe(400);
+            expect(malformed.body.errorCode).toBe('AUTH010');
+        });
+    });
+});
@@ -0,0 +1,207 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import { deleteOldLoginAttempts } from '../../core/utilities/loginLockoutUtils';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('Login lockout', () => {
+    let database: TestDatabase;
+    let adminToken: string;
+
+    const login = (email: string, password: string) => {
+        return request(app).post('/auth/login').send({ email, password });
+    };
+
+    /**
+     * Fail the given number of times, returning the last response
+     */
+    const failLogins = async (email: string, times: number) => {
+        let response: request.Response;
+        for (let attempt = 0; attempt < times; attempt++) {
+            response = await login(email, 'WrongPassword1!');
+        }
+        return response;
+    };
+
+    /**
+     * Let the current lock on an email run out
+     */
+    const expireLock = async (email: string) => {
+        await database.pool.query(
+            "UPDATE Login_Lockout SET Locked_Until = NOW() - INTERVAL '1 second' WHERE Email = $1",
+            [email]
+        );
+    };
+
+    const unlock = (accountId: number) => {
+        return request(app)
+            .post(`/admin/users/${accountId}/unlock`)
+            .set('Authorization', `Bearer ${adminToken}`);
+    };
+
+    beforeAll(async () => {
+        process.env.LOGIN_LOCKOUT_THRESHOLD = '3';
+        process.env.LOGIN_LOCKOUT_BASE_SECONDS = '60';
+        process.env.LOGIN_IP_MAX_FAILURES = '1000';
+
+        database = createTestDatabase();
+        const adminId = await createTestAccount(database.pool, { email: 'lockout-admin@example.com', role: 3 });
+        adminToken = generateAccessToken({ id: adminId, email: 'lockout-admin@example.com', role: 3, tokenVersion: 0 });
+    });
+
+    afterAll(async () => {
+        delete process.env.LOGIN_LOCKOUT_THRESHOLD;
+        delete process.env.LOGIN_LOCKOUT_BASE_SECONDS;
+        delete process.env.LOGIN_IP_MAX_FAILURES;
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+    });
+
+    it('should lock an email after the threshold and refuse even the right password', async () => {
+        await createTestAccount(database.pool, { email: 'locked@example.com' });
+
+        const second = await failLogins('locked@example.com', 2);
+        const third = await login('locked@example.com', 'WrongPassword1!');
+        const correct = await login('locked@example.com', 'Password123!');
+
+        expect(second.status).toBe(401);
+        expect(third.status).toBe(429);
+        expect(third.body.errorCode).toBe('AUTH006');
+        expect(third.headers['retry-after']).toBe('60');
+        expect(correct.status).toBe(429);
+        expect(correct.body.message).toContain('1 minute');
+    });
+
+    it('should lock unknown emails the same way', async () => {
+        await createTestAccount(database.pool, { email: 'real-lock@example.com' });
+
+        const real = await failLogins('real-lock@example.com', 4);
+        const unknown = await failLogins('ghost-lock@example.com', 4);
+
+        expect(unknown.status).toBe(real.status);
+        expect(unknown.body).toEqual(real.body);
+        expect(unknown.headers['retry-after']).toBe(real.headers['retry-after']);
+    });
+
+    it('should only reveal an account\'s status once the password is right', async () => {
+        await createTestAccount(database.pool, { email: 'suspended-login@example.com', status: 'suspended' });
+
+        const wrong = await login('suspended-login@example.com', 'WrongPassword1!');
+        const unknown = await login('ghost-suspended@example.com', 'WrongPassword1!');
+        const correct = await login('suspended-login@example.com', 'Password123!');
+
+        expect(wrong.status).toBe(401);
+        expect(wrong.body).toEqual(unknown.body);
+        expect(correct.status).toBe(403);
+        expect(correct.body.errorCode).toBe('AUTH005');
+    });
+
+    it('should double the lock each time and reset after a successful login', async () => {
+        await createTestAccount(database.pool, { email: 'backoff@example.com' });
+
+        expect((await failLogins('backoff@example.com', 3)).headers['retry-after']).toBe('60');
+        await expireLock('backoff@example.com');
+        expect((await failLogins('backoff@example.com', 3)).headers['retry-after']).toBe('120');
+        await expireLock('backoff@example.com');
+
+        expect((await login('backoff@example.com', 'Password123!')).status).toBe(200);
+        expect((await failLogins('backoff@example.com', 3)).headers['retry-after']).toBe('60');
+    });
+
+    it('should record each attempt with the account and IP', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'recorded@example.com' });
+
+        await login('recorded@example.com', 'WrongPassword1!');
+        await login('recorded@example.com', 'Password123!');
+
+        const attempts = await database.pool.query(
+            'SELECT Succeeded, IP_Address FROM Login_Attempt WHERE Account_ID = $1 ORDER BY Attempt_ID',
+            [accountId]
+        );
+
+        expect(attempts.rows.map(row => row.succeeded)).toEqual([false, true]);
+        expect(attempts.rows[0].ip_address).toBeTruthy();
+    });
+
+    it('should delete attempts older than the retention period, but never inside the IP window', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'old-attempts@example.com' });
+        await login('old-attempts@example.com', 'WrongPassword1!');
+        await login('old-attempts@example.com', 'WrongPassword1!');
+        await database.pool.query(
+            `UPDATE Login_Attempt SET Attempted_At = NOW() - INTERVAL '91 days'
+             WHERE Attempt_ID = (SELECT MIN(Attempt_ID) FROM Login_Attempt WHERE Account_ID = $1)`,
+            [accountId]
+        );
+        const remaining = async () => {
+            const result = await database.pool.query('SELECT COUNT(*) AS count FROM Login_Attempt WHERE Account_ID = $1', [accountId]);
+            return parseInt(result.rows[0].count);
+        };
+
+        await deleteOldLoginAttempts();
+        expect(await remaining()).toBe(1);
+
+        process.env.LOGIN_ATTEMPT_RETENTION_DAYS = '0';
+        try {
+            await deleteOldLoginAttempts();
+            expect(await remaining()).toBe(1);
+        } finally {
+            delete process.env.LOGIN_ATTEMPT_RETENTION_DAYS;
+        }
+    });
+
+    it('should refuse an IP address with too many failures across emails', async () => {
+        process.env.LOGIN_IP_MAX_FAILURES = '4';
+        await database.pool.query('DELETE FROM Login_Attempt');
+        await createTestAccount(database.pool, { email: 'ip-victim@example.com' });
+
+        try {
+            for (let index = 0; index < 4; index++) {
+                await login(`spray-${index}@example.com`, 'WrongPassword1!');
+            }
+            const response = await login('ip-victim@example.com', 'Password123!');
+
+            expect(response.status).toBe(429);
+            expect(response.body.errorCode).toBe('AUTH024');
+            expect(Number(response.headers['retry-after'])).toBeGreaterThan(800);
+        } finally {
+            process.env.LOGIN_IP_MAX_FAILURES = '1000';
+            await database.pool.query('DELETE FROM Login_Attempt');
+        }
+    });
+
+    describe('POST /admin/users/:id/unlock', () => {
+        it('should lift a lockout early', async () => {
+            const accountId = await createTestAccount(database.pool, { email: 'unlock-me@example.com' });
+            await failLogins('unlock-me@example.com', 3);
+
+            const response = await unlock(accountId);
+            const again = await unlock(accountId);
+
+            expect(response.status).toBe(200);
+            expect(response.body.message).toBe('Account unlocked successfully');
+            expect(again.body.message).toBe('Account was not locked');
+            expect((await login('unlock-me@example.com', 'Password123!')).status).toBe(200);
+        });
+
+        it('should reactivate an account with the locked status', async () => {
+            const accountId = await createTestAccount(database.pool, { email: 'status-locked@example.com', status: 'locked' });
+
+            expect((await login('status-locked@example.com', 'Password123!')).status).toBe(403);
+            expect((await unlock(accountId)).body.message).toBe('Account unlocked successfully');
+            expect((await login('status-locked@example.com', 'Password123!')).status).toBe(200);
+        });
+
+        it('should return 404 for unknown users', async () => {
+            expect((await unlock(999999)).status).toBe(404);
+        });
+    });
+});
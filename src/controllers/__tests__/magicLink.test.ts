@@ -0,0 +1,148 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import * as emailService from '../../core/utilities/emailService';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('Magic link login', () => {
+    let database: TestDatabase;
+    let emailSpy: jest.SpyInstance;
+
+    const requestLink = (email: string) => {
+        return request(app).post('/auth/login/magic-link').send({ email });
+    };
+
+    /**
+     * Request a link and return the token from the emailed URL
+     */
+    const requestToken = async (email: string): Promise<string> => {
+        emailSpy.mockClear();
+        await requestLink(email);
+        expect(emailSpy).toHaveBeenCalledTimes(1);
+        return new URL(emailSpy.mock.calls[0][2]).searchParams.get('token');
+    };
+
+    const followLink = (token: string) => {
+        return request(app).get('/auth/login/magic-link/verify').query({ token });
+    };
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+        emailSpy = jest.spyOn(emailService, 'sendMagicLinkEmail').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        emailSpy.mockRestore();
+    });
+
+    it('should respond the same way for unknown, unverified and verified emails', async () => {
+        const unverifiedId = await createTestAccount(database.pool, { email: 'unverified-link@example.com' });
+        await database.pool.query('UPDATE Account SET Email_Verified = FALSE WHERE Account_ID = $1', [unverifiedId]);
+        await createTestAccount(database.pool, { email: 'verified-link@example.com' });
+
+        const unknown = await requestLink('nobody-link@example.com');
+        const unverified = await requestLink('unverified-link@example.com');
+        expect(emailSpy).not.toHaveBeenCalled();
+        const verified = await requestLink('verified-link@example.com');
+
+        expect(emailSpy).toHaveBeenCalledTimes(1);
+        expect(emailSpy.mock.calls[0][0]).toBe('verified-link@example.com');
+        expect(unknown.status).toBe(200);
+        expect(unverified.status).toBe(unknown.status);
+        expect(verified.status).toBe(unknown.status);
+        expect(unverified.body).toEqual(unknown.body);
+        expect(verified.body).toEqual(unknown.body);
+    });
+
+    it('should sign in with the login response, once', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'once-link@example.com' });
+        const token = await requestToken('once-link@example.com');
+
+        const response = await followLink(token);
+        const replay = await followLink(token);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.accessToken).toBeDefined();
+        expect(response.body.data.refreshToken).toBeDefined();
+        expect(response.body.data.user.id).toBe(accountId);
+        expect(replay.status).toBe(401);
+        expect(replay.body.errorCode).toBe('AUTH022');
+    });
+
+    it('should reject an expired link', async () => {
+        await createTestAccount(database.pool, { email: 'expired-link@example.com' });
+        const token = await requestToken('expired-link@example.com');
+        await database.pool.query(
+            "UPDATE Magic_Link_Token SET Expires_At = NOW() - INTERVAL '1 minute' WHERE Email = $1",
+            ['expired-link@example.com']
+        );
+
+        const response = await followLink(token);
+
+        expect(response.status).toBe(401);
+    });
+
+    it('should only accept the newest link', async () => {
+        await createTestAccount(database.pool, { email: 'newest-link@example.com' });
+        const first = await requestToken('newest-link@example.com');
+        const second = await requestToken('newest-link@example.com');
+
+        expect((await followLink(first)).status).toBe(401);
+        expect((await followLink(second)).status).toBe(200);
+    });
+
+    it('should reject a link sent to an email the account no longer uses', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'moved-link@example.com' });
+        const token = await requestToken('moved-link@example.com');
+        await database.pool.query("UPDATE Account SET Email = 'moved-elsewhere@example.com' WHERE Account_ID = $1", [accountId]);
+
+        const response = await followLink(token);
+
+        expect(response.status).toBe(401);
+    });
+
+    it('should ask for the second factor when TOTP is enabled', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'mfa-link@example.com' });
+        await database.pool.query(
+            'INSERT INTO Account_MFA (Account_ID, TOTP_Secret, TOTP_Enabled) VALUES ($1, $2, TRUE)',
+            [accountId, 'unused']
+        );
+        const token = await requestToken('mfa-link@example.com');
+
+        const response = await followLink(token);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.mfaRequired).toBe(true);
+        expect(response.body.data.accessToken).toBeUndefined();
+    });
+
+    it('should refuse accounts suspended after the link was sent', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'suspended-link@example.com' });
+        const token = await requestToken('suspended-link@example.com');
+        await database.pool.query("UPDATE Account SET Account_Status = 'suspended' WHERE Account_ID = $1", [accountId]);
+        clearAccountStateCache();
+
+        const response = await followLink(token);
+
+        expect(response.status).toBe(403);
+    });
+
+    it('should reject malformed tokens', async () => {
+        const response = await followLink('not-a-token');
+
+        expect(response.status).toBe(400);
+    });
+});
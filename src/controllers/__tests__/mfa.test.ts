@@ -0,0 +1,346 @@
+import { createHash, randomBytes } from 'crypto';
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import * as emailService from '../../core/utilities/emailService';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import { generateTotp, getTotpStep } from '../../core/utilities/totpUtils';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('TOTP two-factor authentication', () => {
+    let database: TestDatabase;
+    let adminToken: string;
+
+    /**
+     * Create an account, enroll it in TOTP and return its details
+     * The confirm step uses the current time step, so login tests use the next one
+     */
+    const createEnrolledAccount = async (email: string) => {
+        const accountId = await createTestAccount(database.pool, { email });
+        const accessToken = generateAccessToken({ id: accountId, email, role: 1, tokenVersion: 0 });
+
+        const setup = await request(app)
+            .post('/auth/mfa/totp/setup')
+            .set('Authorization', `Bearer ${accessToken}`);
+        const secret: string = setup.body.data.secret;
+
+        const confirm = await request(app)
+            .post('/auth/mfa/totp/confirm')
+            .set('Authorization', `Bearer ${accessToken}`)
+            .send({ code: generateTotp(secret) });
+        expect(confirm.status).toBe(200);
+
+        return { accountId, accessToken, secret, recoveryCodes: confirm.body.data.recoveryCodes as string[] };
+    };
+
+    const login = (email: string) => {
+        return request(app).post('/auth/login').send({ email, password: 'Password123!' });
+    };
+
+    const nextCode = (secret: string) => generateTotp(secret, getTotpStep() + 1);
+
+    beforeAll(async () => {
+        database = createTestDatabase();
+        const adminId = await createTestAccount(database.pool, { email: 'mfa-admin@example.com', role: 3 });
+        adminToken = generateAccessToken({ id: adminId, email: 'mfa-admin@example.com', role: 3, tokenVersion: 0 });
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+    });
+
+    describe('enrollment', () => {
+        it('should return an otpauth URI and store the secret encrypted', async () => {
+            const accountId = await createTestAccount(database.pool, { email: 'enroll@example.com' });
+            const accessToken = generateAccessToken({ id: accountId, email: 'enroll@example.com', role: 1, tokenVersion: 0 });
+
+            const response = await request(app)
+                .post('/auth/mfa/totp/setup')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(response.status).toBe(200);
+            expect(response.body.data.otpauthUri).toContain(`secret=${response.body.data.secret}`);
+
+            const stored = await database.pool.query('SELECT TOTP_Secret, TOTP_Enabled FROM Account_MFA WHERE Account_ID = $1', [accountId]);
+            expect(stored.rows[0].totp_secret).not.toContain(response.body.data.secret);
+            expect(stored.rows[0].totp_enabled).toBe(false);
+        });
+
+        it('should not change login until the enrollment is confirmed', async () => {
+            const accountId = await createTestAccount(database.pool, { email: 'unconfirmed@example.com' });
+            const accessToken = generateAccessToken({ id: accountId, email: 'unconfirmed@example.com', role: 1, tokenVersion: 0 });
+            await request(app).post('/auth/mfa/totp/setup').set('Authorization', `Bearer ${accessToken}`);
+
+            const response = await login('unconfirmed@example.com');
+
+            expect(response.body.data.accessToken).toBeDefined();
+        });
+
+        it('should reject a wrong confirmation code', async () => {
+            const accountId = await createTestAccount(database.pool, { email: 'wrongcode@example.com' });
+            const accessToken = generateAccessToken({ id: accountId, email: 'wrongcode@example.com', role: 1, tokenVersion: 0 });
+            const setup = await request(app).post('/auth/mfa/totp/setup').set('Authorization', `Bearer ${accessToken}`);
+            const wrongCode = generateTotp(setup.body.data.secret, getTotpStep() + 5);
+
+            const response = await request(app)
+                .post('/auth/mfa/totp/confirm')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ code: wrongCode });
+
+            expect(response.status).toBe(400);
+        });
+
+        it('should refuse to restart setup once enabled', async () => {
+            const { accessToken } = await createEnrolledAccount('twice@example.com');
+
+            const response = await request(app)
+                .post('/auth/mfa/totp/setup')
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(response.status).toBe(409);
+        });
+    });
+
+    describe('login', () => {
+        it('should return a challenge instead of tokens', async () => {
+            await createEnrolledAccount('challenge@example.com');
+
+            const response = await login('challenge@example.com');
+
+            expect(response.status).toBe(200);
+            expect(response.body.data).toEqual({
+                mfaRequired: true,
+                mfaToken: expect.any(String),
+                methods: ['totp', 'recovery_code'],
+            });
+        });
+
+        it('should complete login with a valid code, once', async () => {
+            const { secret } = await createEnrolledAccount('complete@example.com');
+            const { mfaToken } = (await login('complete@example.com')).body.data;
+            const code = nextCode(secret);
+
+            const response = await request(app).post('/auth/login/mfa').send({ mfaToken, code });
+            const replay = await request(app).post('/auth/login/mfa').send({ mfaToken, code });
+
+            expect(response.status).toBe(200);
+            expect(response.body.data.accessToken).toBeDefined();
+            expect(response.body.data.refreshToken).toBeDefined();
+            expect(replay.status).toBe(401);
+        });
+
+        it('should reject a wrong code', async () => {
+            const { secret } = await createEnrolledAccount('badcode@example.com');
+            const { mfaToken } = (await login('badcode@example.com')).body.data;
+
+            const response = await request(app)
+                .post('/auth/login/mfa')
+                .send({ mfaToken, code: generateTotp(secret, getTotpStep() + 5) });
+
+            expect(response.status).toBe(401);
+        });
+
+        it('should lock the second factor after five wrong codes, even across new challenges', async () => {
+            const { accountId, secret } = await createEnrolledAccount('guessing@example.com');
+            const wrongCode = generateTotp(secret, getTotpStep() + 5);
+            const tryCode = async (code: string) => {
+                const { mfaToken } = (await login('guessing@example.com')).body.data;
+                return request(app).post('/auth/login/mfa').send({ mfaToken, code });
+            };
+
+            for (let attempt = 0; attempt < 4; attempt++) {
+                expect((await tryCode(wrongCode)).status).toBe(401);
+            }
+            const fifth = await tryCode(wrongCode);
+            const correctWhileLocked = await tryCode(nextCode(secret));
+
+            expect(fifth.status).toBe(429);
+            expect(fifth.body.errorCode).toBe('AUTH024');
+            expect(correctWhileLocked.status).toBe(429);
+            expect(Number(correctWhileLocked.headers['retry-after'])).toBeGreaterThan(800);
+
+            const unlock = await request(app)
+                .post(`/admin/users/${accountId}/unlock`)
+                .set('Authorization', `Bearer ${adminToken}`);
+
+            expect(unlock.status).toBe(200);
+            expect((await tryCode(nextCode(secret))).status).toBe(200);
+        });
+
+        it('should not accept an access token as a challenge', async () => {
+            const { accessToken, secret } = await createEnrolledAccount('notchallenge@example.com');
+
+            const response = await request(app)
+                .post('/auth/login/mfa')
+                .send({ mfaToken: accessToken, code: nextCode(secret) });
+
+            expect(response.status).toBe(401);
+        });
+
+        it('should ask for the code on the OAuth login page too', async () => {
+            const { secret } = await createEnrolledAccount('oauth-mfa@example.com');
+            await database.pool.query(
+                `INSERT INTO OAuth_Client (Client_ID, Client_Name, Redirect_URIs)
+                 VALUES ('mfa-app', 'MFA App', $1)`,
+                [['http://localhost:3000/callback']]
+            );
+            const verifier = randomBytes(32).toString('base64url');
+            const authorizeParams = {
+                response_type: 'code',
+                client_id: 'mfa-app',
+                redirect_uri: 'http://localhost:3000/callback',
+                code_challenge: createHash('sha256').update(verifier).digest('base64url'),
+                code_challenge_method: 'S256',
+                decision: 'allow',
+            };
+
+            const passwordStep = await request(app)
+                .post('/oauth/authorize')
+                .type('form')
+                .send({ ...authorizeParams, email: 'oauth-mfa@example.com', password: 'Password123!' });
+
+            expect(passwordStep.status).toBe(200);
+            expect(passwordStep.headers.location).toBeUndefined();
+            const mfaToken = /name="mfa_token" value="([^"]+)"/.exec(passwordStep.text)![1];
+
+            const codeStep = await request(app)
+                .post('/oauth/authorize')
+                .type('form')
+                .send({ ...authorizeParams, mfa_token: mfaToken, totp_code: nextCode(secret) });
+
+            expect(codeStep.status).toBe(302);
+            expect(new URL(codeStep.headers.location).searchParams.get('code')).toBeTruthy();
+        });
+    });
+
+    describe('recovery codes', () => {
+        let notifySpy: jest.SpyInstance;
+
+        beforeEach(() => {
+            notifySpy = jest.spyOn(emailService, 'sendRecoveryCodeUsedEmail').mockResolvedValue(true);
+        });
+
+        afterEach(() => {
+            notifySpy.mockRestore();
+        });
+
+        it('should issue ten codes at enrollment and store only their hashes', async () => {
+            const { accountId, recoveryCodes } = await createEnrolledAccount('codes@example.com');
+
+            const stored = await database.pool.query('SELECT Code_Hash FROM MFA_Recovery_Code WHERE Account_ID = $1', [accountId]);
+
+            expect(recoveryCodes).toHaveLength(10);
+            expect(new Set(recoveryCodes).size).toBe(10);
+            recoveryCodes.forEach(code => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+            expect(stored.rows).toHaveLength(10);
+            expect(stored.rows.map(row => row.code_hash)).not.toContain(recoveryCodes[0]);
+        });
+
+        it('should accept a recovery code once in place of a TOTP code and notify the owner', async () => {
+            const { accountId, recoveryCodes } = await createEnrolledAccount('usecode@example.com');
+            const { mfaToken } = (await login('usecode@example.com')).body.data;
+
+            const response = await request(app)
+                .post('/auth/login/mfa')
+                .send({ mfaToken, code: recoveryCodes[0].toUpperCase() });
+            const reuse = await request(app)
+                .post('/auth/login/mfa')
+                .send({ mfaToken, code: recoveryCodes[0] });
+
+            expect(response.status).toBe(200);
+            expect(response.body.data.accessToken).toBeDefined();
+            expect(reuse.status).toBe(401);
+            expect(notifySpy).toHaveBeenCalledTimes(1);
+            expect(notifySpy).toHaveBeenCalledWith('usecode@example.com', expect.any(String), 9);
+
+            const used = await database.pool.query(
+                'SELECT COUNT(*) AS used FROM MFA_Recovery_Code WHERE Account_ID = $1 AND Used_At IS NOT NULL',
+                [accountId]
+            );
+            expect(Number(used.rows[0].used)).toBe(1);
+        });
+
+        it('should not accept another account\'s recovery code', async () => {
+            const { recoveryCodes } = await createEnrolledAccount('owner@example.com');
+            await createEnrolledAccount('other@example.com');
+            const { mfaToken } = (await login('other@example.com')).body.data;
+
+            const response = await request(app)
+                .post('/auth/login/mfa')
+                .send({ mfaToken, code: recoveryCodes[0] });
+
+            expect(response.status).toBe(401);
+            expect(notifySpy).not.toHaveBeenCalled();
+        });
+
+        it('should regenerate codes with a current second factor, invalidating the old ones', async () => {
+            const { accessToken, secret, recoveryCodes } = await createEnrolledAccount('regen@example.com');
+
+            const withoutCode = await request(app)
+                .post('/auth/mfa/recovery-codes')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ code: generateTotp(secret, getTotpStep() + 5) });
+            const regenerated = await request(app)
+                .post('/auth/mfa/recovery-codes')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ code: nextCode(secret) });
+
+            expect(withoutCode.status).toBe(401);
+            expect(regenerated.status).toBe(200);
+            expect(regenerated.body.data.recoveryCodes).toHaveLength(10);
+
+            const { mfaToken } = (await login('regen@example.com')).body.data;
+            const oldCode = await request(app).post('/auth/login/mfa').send({ mfaToken, code: recoveryCodes[1] });
+            const newCode = await request(app)
+                .post('/auth/login/mfa')
+                .send({ mfaToken, code: regenerated.body.data.recoveryCodes[0] });
+
+            expect(oldCode.status).toBe(401);
+            expect(newCode.status).toBe(200);
+        });
+
+        it('should refuse to regenerate without two-factor enabled', async () => {
+            const accountId = await createTestAccount(database.pool, { email: 'nomfa@example.com' });
+            const accessToken = generateAccessToken({ id: accountId, email: 'nomfa@example.com', role: 1, tokenVersion: 0 });
+
+            const response = await request(app)
+                .post('/auth/mfa/recovery-codes')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ code: '123456' });
+
+            expect(response.status).toBe(400);
+        });
+    });
+
+    describe('admin', () => {
+        it('should show MFA status and reset it', async () => {
+            const { accountId } = await createEnrolledAccount('reset@example.com');
+
+            const before = await request(app)
+                .get(`/admin/users/${accountId}`)
+                .set('Authorization', `Bearer ${adminToken}`);
+            const reset = await request(app)
+                .delete(`/admin/users/${accountId}/mfa`)
+                .set('Authorization', `Bearer ${adminToken}`);
+            const after = await request(app)
+                .get(`/admin/users/${accountId}`)
+                .set('Authorization', `Bearer ${adminToken}`);
+
+            expect(before.body.data.mfa_enabled).toBe(true);
+            expect(reset.status).toBe(200);
+            expect(after.body.data.mfa_enabled).toBe(false);
+            const codes = await database.pool.query('SELECT Code_ID FROM MFA_Recovery_Code WHERE Account_ID = $1', [accountId]);
+            expect(codes.rows).toHaveLength(0);
+            expect((await login('reset@example.com')).body.data.accessToken).toBeDefined();
+        });
+    });
+});
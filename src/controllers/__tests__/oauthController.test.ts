@@ -0,0 +1,361 @@
+import { createHash, randomBytes } from 'crypto';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+const CLIENT_ID = 'web-app';
+const REDIRECT_URI = 'http://localhost:3000/callback';
+
+const createPkcePair = () => {
+    const verifier = randomBytes(32).toString('base64url');
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+    return { verifier, challenge };
+};
+
+describe('OAuth authorization code flow', () => {
+    let database: TestDatabase;
+
+    const authorizeParams = (challenge: string, overrides: Record<string, string> = {}) => ({
+        response_type: 'code',
+        client_id: CLIENT_ID,
+        redirect_uri: REDIRECT_URI,
+        scope: 'profile email',
+        state: 'xyz',
+        code_challenge: challenge,
+        code_challenge_method: 'S256',
+        ...overrides,
+    });
+
+    /**
+     * Submit the login/consent form and return the redirect location
+     */
+    const approve = async (
+        challenge: string,
+        password = 'Password123!',
+        overrides: Record<string, string> = {}
+    ) => {
+        return request(app)
+            .post('/oauth/authorize')
+            .type('form')
+            .send({
+                ...authorizeParams(challenge, overrides),
+                email: 'oauth@example.com',
+                password,
+                decision: 'allow',
+            });
+    };
+
+    const exchangeCode = (code: string, verifier: string) => {
+        return request(app)
+            .post('/oauth/token')
+            .type('form')
+            .send({
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: REDIRECT_URI,
+                client_id: CLIENT_ID,
+                code_verifier: verifier,
+            });
+    };
+
+    /**
+     * Run the whole flow and return the token response
+     */
+    const obtainTokens = async (overrides: Record<string, string> = {}) => {
+        const { verifier, challenge } = createPkcePair();
+        const approval = await approve(challenge, 'Password123!', overrides);
+        const code = new URL(approval.headers.location).searchParams.get('code')!;
+        return (await exchangeCode(code, verifier)).body;
+    };
+
+    beforeAll(async () => {
+        database = createTestDatabase();
+        await database.pool.query(
+            `INSERT INTO OAuth_Client (Client_ID, Client_Name, Redirect_URIs, Allowed_Scopes)
+             VALUES ($1, 'Web App', $2, 'openid profile email phone')`,
+            [CLIENT_ID, [REDIRECT_URI]]
+        );
+        await createTestAccount(database.pool, { email: 'oauth@example.com', role: 3 });
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+    });
+
+    describe('GET /oauth/authorize', () => {
+        it('should show the login and consent page', async () => {
+            const { challenge } = createPkcePair();
+
+            const response = await request(app).get('/oauth/authorize').query(authorizeParams(challenge));
+
+            expect(response.status).toBe(200);
+            expect(response.headers['content-type']).toContain('text/html');
+            expect(response.headers['x-frame-options']).toBe('DENY');
+            expect(response.text).toContain('Web App');
+            expect(response.text).toContain('Your email address');
+        });
+
+        it('should not redirect to an unregistered redirect URI', async () => {
+            const { challenge } = createPkcePair();
+
+            const response = await request(app)
+                .get('/oauth/authorize')
+                .query(authorizeParams(challenge, { redirect_uri: 'https://evil.example.com/cb' }));
+
+            expect(response.status).toBe(400);
+            expect(response.headers.location).toBeUndefined();
+        });
+
+        it('should redirect with an error when PKCE is missing', async () => {
+            const response = await request(app)
+                .get('/oauth/authorize')
+                .query(authorizeParams('', { code_challenge_method: 'plain' }));
+
+            const location = new URL(response.headers.location);
+            expect(response.status).toBe(302);
+            expect(location.searchParams.get('error')).toBe('invalid_request');
+            expect(location.searchParams.get('state')).toBe('xyz');
+        });
+
+        it('should redirect with invalid_scope for scopes the client may not request', async () => {
+            const { challenge } = createPkcePair();
+
+            const response = await request(app)
+                .get('/oauth/authorize')
+                .query(authorizeParams(challenge, { scope: 'profile admin' }));
+
+            expect(new URL(response.headers.location).searchParams.get('error')).toBe('invalid_scope');
+        });
+
+        it('should escape request parameters in the page', async () => {
+            const { challenge } = createPkcePair();
+
+            const response = await request(app)
+                .get('/oauth/authorize')
+                .query(authorizeParams(challenge, { state: '"><script>alert(1)</script>' }));
+
+            expect(response.text).not.toContain('<script>alert(1)</script>');
+        });
+    });
+
+    describe('POST /oauth/authorize', () => {
+        it('should redirect back with a code and the state', async () => {
+            const { challenge } = createPkcePair();
+
+            const response = await approve(challenge);
+
+            const location = new URL(response.headers.location);
+            expect(response.status).toBe(302);
+            expect(location.origin + location.pathname).toBe(REDIRECT_URI);
+            expect(location.searchParams.get('code')).toBeTruthy();
+            expect(location.searchParams.get('state')).toBe('xyz');
+        });
+
+        it('should show the form again for a wrong password', async () => {
+            const { challenge } = createPkcePair();
+
+            const response = await approve(challenge, 'WrongPassword1!');
+
+            expect(response.status).toBe(401);
+            expect(response.text).toContain('Invalid email or password.');
+        });
+
+        it('should redirect with access_denied when the user cancels', async () => {
+            const { challenge } = createPkcePair();
+
+            const response = await request(app)
+                .post('/oauth/authorize')
+                .type('form')
+                .send({ ...authorizeParams(challenge), decision: 'deny' });
+
+            expect(new URL(response.headers.location).searchParams.get('error')).toBe('access_denied');
+        });
+    });
+
+    describe('POST /oauth/token', () => {
+        it('should exchange a code for scoped tokens', async () => {
+            const tokens = await obtainTokens();
+
+            expect(tokens).toEqual(expect.objectContaining({
+                token_type: 'Bearer',
+                scope: 'profile email',
+                expires_in: 900,
+            }));
+            expect(jwt.decode(tokens.access_token)).toEqual(
+                expect.objectContaining({ scope: 'profile email', client_id: CLIENT_ID, type: 'oauth_access' })
+            );
+        });
+
+        it('should not let client tokens act as a session, even for an admin', async () => {
+            const tokens = await obtainTokens({ scope: 'openid profile' });
+            const callWith = (method: 'get' | 'delete', path: string) => {
+                return request(app)[method](path).set('Authorization', `Bearer ${tokens.access_token}`);
+            };
+
+            expect((await callWith('get', '/auth/user/me')).status).toBe(403);
+            expect((await callWith('get', '/auth/user/me/export')).status).toBe(403);
+            expect((await callWith('delete', '/auth/user/me')).status).toBe(403);
+            expect((await callWith('get', '/admin/users')).status).toBe(403);
+            expect((await callWith('get', '/jwt_test')).status).toBe(403);
+            expect((await callWith('get', '/userinfo')).status).toBe(200);
+        });
+
+        it('should reject a wrong PKCE verifier', async () => {
+            const { challenge } = createPkcePair();
+            const approval = await approve(challenge);
+            const code = new URL(approval.headers.location).searchParams.get('code')!;
+
+            const response = await exchangeCode(code, createPkcePair().verifier);
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('invalid_grant');
+        });
+
+        it('should reject a replayed code and revoke the tokens it issued', async () => {
+            const { verifier, challenge } = createPkcePair();
+            const approval = await approve(challenge);
+            const code = new URL(approval.headers.location).searchParams.get('code')!;
+
+            const first = await exchangeCode(code, verifier);
+            const replay = await exchangeCode(code, verifier);
+
+            expect(first.status).toBe(200);
+            expect(replay.status).toBe(400);
+            expect(replay.body.error).toBe('invalid_grant');
+
+            const refresh = await request(app)
+                .post('/oauth/token')
+                .type('form')
+                .send({ grant_type: 'refresh_token', refresh_token: first.body.refresh_token, client_id: CLIENT_ID });
+            expect(refresh.body.error).toBe('invalid_grant');
+        });
+
+        it('should rotate refresh tokens and keep the granted scope', async () => {
+            const tokens = await obtainTokens();
+
+            const response = await request(app)
+                .post('/oauth/token')
+                .type('form')
+                .send({ grant_type: 'refresh_token', refresh_token: tokens.refresh_token, client_id: CLIENT_ID });
+
+            expect(response.status).toBe(200);
+            expect(response.headers['cache-control']).toBe('no-store');
+            expect(response.body.scope).toBe('profile email');
+            expect(response.body.refresh_token).not.toBe(tokens.refresh_token);
+        });
+
+        it('should not let the first-party refresh endpoint widen an OAuth token', async () => {
+            const tokens = await obtainTokens();
+
+            const response = await request(app)
+                .post('/auth/token/refresh')
+                .send({ refreshToken: tokens.refresh_token });
+
+            expect(response.status).toBe(401);
+        });
+
+        it('should reject unknown clients', async () => {
+            const response = await request(app)
+                .post('/oauth/token')
+                .type('form')
+                .send({ grant_type: 'authorization_code', code: 'abc', client_id: 'unknown' });
+
+            expect(response.status).toBe(401);
+            expect(response.body.error).toBe('invalid_client');
+        });
+
+        it('should reject unsupported grant types', async () => {
+            const response = await request(app)
+                .post('/oauth/token')
+                .type('form')
+                .send({ grant_type: 'password', client_id: CLIENT_ID });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toBe('unsupported_grant_type');
+        });
+    });
+
+    describe('OpenID Connect', () => {
+        it('should issue an id_token with the nonce when openid is granted', async () => {
+            const tokens = await obtainTokens({ scope: 'openid email', nonce: 'n-0S6_WzA2Mj' });
+
+            const idToken = jwt.decode(tokens.id_token) as jwt.JwtPayload;
+            expect(idToken).toEqual(expect.objectContaining({
+                iss: 'http://localhost:8000',
+                aud: CLIENT_ID,
+                nonce: 'n-0S6_WzA2Mj',
+                email: 'oauth@example.com',
+                email_verified: true,
+            }));
+            expect(idToken.sub).toMatch(/^\d+$/);
+            expect(idToken.name).toBeUndefined();
+        });
+
+        it('should not issue an id_token without the openid scope', async () => {
+            const tokens = await obtainTokens();
+
+            expect(tokens.id_token).toBeUndefined();
+        });
+
+        it('should not accept an id_token as an access token', async () => {
+            const tokens = await obtainTokens({ scope: 'openid profile' });
+
+            const response = await request(app)
+                .get('/userinfo')
+                .set('Authorization', `Bearer ${tokens.id_token}`);
+
+            expect(response.status).toBe(403);
+        });
+
+        it('should return only the claims the scope allows from /userinfo', async () => {
+            const tokens = await obtainTokens({ scope: 'openid profile' });
+
+            const response = await request(app)
+                .get('/userinfo')
+                .set('Authorization', `Bearer ${tokens.access_token}`);
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual(expect.objectContaining({
+                sub: (jwt.decode(tokens.id_token) as jwt.JwtPayload).sub,
+                name: 'Test User',
+                preferred_username: expect.any(String),
+            }));
+            expect(response.body.email).toBeUndefined();
+        });
+
+        it('should refuse /userinfo without the openid scope', async () => {
+            const tokens = await obtainTokens();
+
+            const response = await request(app)
+                .get('/userinfo')
+                .set('Authorization', `Bearer ${tokens.access_token}`);
+
+            expect(response.status).toBe(403);
+            expect(response.body.error).toBe('insufficient_scope');
+        });
+
+        it('should publish the discovery document', async () => {
+            const response = await request(app).get('/.well-known/openid-configuration');
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual(expect.objectContaining({
+                issuer: 'http://localhost:8000',
+                jwks_uri: 'http://localhost:8000/.well-known/jwks.json',
+                userinfo_endpoint: 'http://localhost:8000/userinfo',
+                code_challenge_methods_supported: ['S256'],
+            }));
+            expect(response.body.scopes_supported).toEqual(['openid', 'profile', 'email', 'phone']);
+        });
+    });
+});
@@ -0,0 +1,181 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import { issuePasswordResetToken } from '../../core/utilities/passwordResetUtils';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('Password policy', () => {
+    let database: TestDatabase;
+    let adminToken: string;
+
+    /**
+     * A fresh access token (changing the password signs out every earlier one)
+     */
+    const tokenFor = async (accountId: number, email: string) => {
+        const result = await database.pool.query('SELECT Token_Version FROM Account WHERE Account_ID = $1', [accountId]);
+        return generateAccessToken({ id: accountId, email, role: 1, tokenVersion: result.rows[0].token_version });
+    };
+
+    const changePassword = async (accountId: number, email: string, oldPassword: string, newPassword: string) => {
+        return request(app)
+            .post('/auth/user/password/change')
+            .set('Authorization', `Bearer ${await tokenFor(accountId, email)}`)
+            .send({ oldPassword, newPassword });
+    };
+
+    const resetPassword = async (accountId: number, email: string, password: string) => {
+        return request(app)
+            .post('/auth/password/reset')
+            .send({ token: await issuePasswordResetToken(accountId, email), password });
+    };
+
+    const historySize = async (accountId: number) => {
+        const result = await database.pool.query('SELECT History_ID FROM Password_History WHERE Account_ID = $1', [accountId]);
+        return result.rowCount;
+    };
+
+    beforeAll(async () => {
+        process.env.PASSWORD_HISTORY_COUNT = '3';
+
+        database = createTestDatabase();
+        const adminId = await createTestAccount(database.pool, { email: 'policy-admin@example.com', role: 3 });
+        adminToken = generateAccessToken({ id: adminId, email: 'policy-admin@example.com', role: 3, tokenVersion: 0 });
+    });
+
+    afterAll(async () => {
+        delete process.env.PASSWORD_HISTORY_COUNT;
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+    });
+
+    it('should list every violation when registering', async () => {
+        const response = await request(app).post('/auth/register').send({
+            firstname: 'Weak',
+            lastname: 'Password',
+            email: 'weakling@example.com',
+            username: 'weakling',
+            password: 'weakling',
+            phone: '2065550300',
+        });
+
+        expect(response.status).toBe(400);
+        expect(response.body.message).toBe('Validation failed');
+        expect(response.body.errors.map((error: { rule: string }) => error.rule))
+            .toEqual(['uppercase', 'digit', 'personal_info']);
+        expect(response.body.errors[0].field).toBe('password');
+    });
+
+    it('should refuse a recent password on change', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'changer@example.com' });
+
+        const first = await changePassword(accountId, 'changer@example.com', 'Password123!', 'Second456!');
+        const back = await changePassword(accountId, 'changer@example.com', 'Second456!', 'Password123!');
+
+        expect(first.status).toBe(200);
+        expect(back.status).toBe(400);
+        expect(back.body.errors).toEqual([{
+            field: 'newPassword',
+            rule: 'reused',
+            message: 'Password must be different from your recent passwords',
+        }]);
+    });
+
+    it('should keep only the configured number of previous passwords', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'history@example.com' });
+
+        await resetPassword(accountId, 'history@example.com', 'Second456!');
+        await resetPassword(accountId, 'history@example.com', 'Third789!');
+        await resetPassword(accountId, 'history@example.com', 'Fourth012!');
+
+        expect(await historySize(accountId)).toBe(2);
+        expect((await resetPassword(accountId, 'history@example.com', 'Second456!')).status).toBe(400);
+        expect((await resetPassword(accountId, 'history@example.com', 'Password123!')).status).toBe(200);
+    });
+
+    it('should apply the policy to admin password resets', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'admin-reset@example.com' });
+        const adminReset = (password: string) => {
+            return request(app)
+                .put(`/admin/users/${accountId}/password`)
+                .set('Authorization', `Bearer ${adminToken}`)
+                .send({ password });
+        };
+
+        const weak = await adminReset('alllowercase');
+        const reused = await adminReset('Password123!');
+        const allowed = await adminReset('AdminSet123!');
+
+        expect(weak.status).toBe(400);
+        expect(weak.body.errors.map((error: { rule: string }) => error.rule)).toEqual(['uppercase', 'digit']);
+        expect(reused.status).toBe(400);
+        expect(reused.body.errors[0].rule).toBe('reused');
+        expect(allowed.status).toBe(200);
+    });
+
+    it('should apply the rules to admin-created users', async () => {
+        const response = await request(app)
+            .post('/admin/users/create')
+            .set('Authorization', `Bearer ${adminToken}`)
+            .send({
+                firstname: 'Created',
+                lastname: 'User',
+                email: 'created@example.com',
+                username: 'created_user',
+                password: 'short',
+                role: 1,
+            });
+
+        expect(response.status).toBe(400);
+        expect(response.body.errors[0].rule).toBe('length');
+    });
+
+    describe('breached passwords', () => {
+        beforeAll(() => {
+            process.env.BREACHED_PASSWORDS_PATH = 'data/breached-passwords.txt';
+        });
+
+        afterAll(() => {
+            process.env.BREACHED_PASSWORDS_PATH = 'off';
+        });
+
+        it('should refuse a password from the corpus', async () => {
+            const accountId = await createTestAccount(database.pool, { email: 'breach-reset@example.com' });
+
+            const response = await resetPassword(accountId, 'breach-reset@example.com', 'Welcome123!');
+
+            expect(response.status).toBe(400);
+            expect(response.body.errors).toEqual([{
+                field: 'password',
+                rule: 'breached',
+                message: 'Password appears in a list of breached or common passwords',
+            }]);
+        });
+
+        it('should flag accounts that sign in with a breached password and count them', async () => {
+            const dashboard = async () => {
+                const response = await request(app)
+                    .get('/admin/users/stats/dashboard')
+                    .set('Authorization', `Bearer ${adminToken}`);
+                return response.body.data.breachedPasswords;
+            };
+            const before = await dashboard();
+            await createTestAccount(database.pool, { email: 'breach-login@example.com' });
+
+            const login = await request(app)
+                .post('/auth/login')
+                .send({ email: 'breach-login@example.com', password: 'Password123!' });
+
+            expect(login.status).toBe(200);
+            expect(await dashboard()).toBe(before + 1);
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { generateHash, generateSalt } from '../../core/utilities/credentialingUtils';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('Password rehash on login', () => {
+    let database: TestDatabase;
+
+    const login = (email: string, password: string) => {
+        return request(app).post('/auth/login').send({ email, password });
+    };
+
+    const readCredential = async (accountId: number) => {
+        const result = await database.pool.query(
+            'SELECT Salted_Hash, Salt, Hash_Algorithm, Hash_Params FROM Account_Credential WHERE Account_ID = $1',
+            [accountId]
+        );
+        return result.rows[0];
+    };
+
+    /**
+     * Create an account whose password is stored in the pre-scrypt SHA256 format
+     */
+    const createLegacyAccount = async (email: string, password: string) => {
+        const accountId = await createTestAccount(database.pool, { email });
+        const salt = generateSalt();
+        await database.pool.query(
+            `UPDATE Account_Credential SET Salted_Hash = $1, Salt = $2, Hash_Algorithm = 'sha256', Hash_Params = NULL
+             WHERE Account_ID = $3`,
+            [generateHash(password, salt), salt, accountId]
+        );
+        return accountId;
+    };
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+    });
+
+    it('should store new passwords with scrypt', async () => {
+        const response = await request(app).post('/auth/register').send({
+            firstname: 'New',
+            lastname: 'User',
+            email: 'scrypt-new@example.com',
+            username: 'scrypt_new',
+            password: 'Password123!',
+            phone: '2065550200',
+        });
+
+        const credential = await readCredential(response.body.data.user.id);
+
+        expect(response.status).toBe(201);
+        expect(credential.hash_algorithm).toBe('scrypt');
+        expect(credential.hash_params).toBe('N=1024,r=8,p=1');
+    });
+
+    it('should upgrade a legacy hash after a successful login', async () => {
+        const accountId = await createLegacyAccount('legacy@example.com', 'LegacyPass1!');
+
+        const first = await login('legacy@example.com', 'LegacyPass1!');
+        const credential = await readCredential(accountId);
+        const second = await login('legacy@example.com', 'LegacyPass1!');
+
+        expect(first.status).toBe(200);
+        expect(credential.hash_algorithm).toBe('scrypt');
+        expect(credential.hash_params).toBe('N=1024,r=8,p=1');
+        expect(credential.salted_hash).toHaveLength(128);
+        expect(second.status).toBe(200);
+    });
+
+    it('should leave a legacy hash alone after a wrong password', async () => {
+        const accountId = await createLegacyAccount('legacy-wrong@example.com', 'LegacyPass1!');
+        const before = await readCredential(accountId);
+
+        const response = await login('legacy-wrong@example.com', 'WrongPass1!');
+
+        expect(response.status).toBe(401);
+        expect(await readCredential(accountId)).toEqual(before);
+    });
+
+    it('should rehash when the scrypt cost changes', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'cost-change@example.com' });
+        const original = process.env.PASSWORD_SCRYPT_COST;
+        process.env.PASSWORD_SCRYPT_COST = '11';
+
+        try {
+            const response = await login('cost-change@example.com', 'Password123!');
+
+            expect(response.status).toBe(200);
+            expect((await readCredential(accountId)).hash_params).toBe('N=2048,r=8,p=1');
+        } finally {
+            process.env.PASSWORD_SCRYPT_COST = original;
+        }
+    });
+});
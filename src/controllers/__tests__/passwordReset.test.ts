@@ -0,0 +1,148 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import * as emailService from '../../core/utilities/emailService';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('Password reset tokens', () => {
+    let database: TestDatabase;
+    let emailSpy: jest.SpyInstance;
+
+    /**
+     * Request a reset and return the token from the emailed URL
+     */
+    const requestToken = async (email: string): Promise<string> => {
+        emailSpy.mockClear();
+        await request(app).post('/auth/password/reset-request').send({ email });
+        expect(emailSpy).toHaveBeenCalledTimes(1);
+        return new URL(emailSpy.mock.calls[0][2]).searchParams.get('token');
+    };
+
+    const validate = (token: string) => {
+        return request(app).get('/auth/password/reset/validate').query({ token });
+    };
+
+    const reset = (token: string, password: string) => {
+        return request(app).post('/auth/password/reset').send({ token, password });
+    };
+
+    const login = (email: string, password: string) => {
+        return request(app).post('/auth/login').send({ email, password });
+    };
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+        emailSpy = jest.spyOn(emailService, 'sendPasswordResetEmail').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        emailSpy.mockRestore();
+    });
+
+    it('should store only a hash of the token and quote the real expiry in the email', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'hashed-reset@example.com' });
+
+        const token = await requestToken('hashed-reset@example.com');
+        const stored = await database.pool.query(
+            'SELECT Token_Hash, Expires_At FROM Password_Reset_Token WHERE Account_ID = $1',
+            [accountId]
+        );
+        const minutesLeft = (new Date(stored.rows[0].expires_at).getTime() - Date.now()) / 60000;
+
+        expect(token).toMatch(/^[0-9a-f]{64}$/);
+        expect(stored.rows[0].token_hash).not.toBe(token);
+        expect(emailSpy.mock.calls[0][3]).toBe(60);
+        expect(minutesLeft).toBeGreaterThan(59);
+        expect(minutesLeft).toBeLessThanOrEqual(60);
+    });
+
+    it('should validate a token without using it up', async () => {
+        await createTestAccount(database.pool, { email: 'validate-reset@example.com' });
+        const token = await requestToken('validate-reset@example.com');
+
+        const first = await validate(token);
+        const second = await validate(token);
+
+        expect(first.status).toBe(200);
+        expect(first.body.data.valid).toBe(true);
+        expect(new Date(first.body.data.expiresAt).getTime()).toBeGreaterThan(Date.now());
+        expect(second.status).toBe(200);
+    });
+
+    it('should reset the password once per token', async () => {
+        await createTestAccount(database.pool, { email: 'once-reset@example.com' });
+        const token = await requestToken('once-reset@example.com');
+
+        const first = await reset(token, 'FreshStart42!');
+        const again = await reset(token, 'SecondTry42!');
+
+        expect(first.status).toBe(200);
+        expect(again.status).toBe(400);
+        expect(again.body.errorCode).toBe('AUTH010');
+        expect((await validate(token)).status).toBe(400);
+        expect((await login('once-reset@example.com', 'FreshStart42!')).status).toBe(200);
+    });
+
+    it('should keep a token usable when the new password is refused', async () => {
+        await createTestAccount(database.pool, { email: 'weak-reset@example.com' });
+        const token = await requestToken('weak-reset@example.com');
+
+        expect((await reset(token, 'weak')).status).toBe(400);
+        expect((await reset(token, 'StrongEnough42!')).status).toBe(200);
+    });
+
+    it('should cancel earlier tokens when a new one is requested', async () => {
+        await createTestAccount(database.pool, { email: 'newest-reset@example.com' });
+        const older = await requestToken('newest-reset@example.com');
+        const newer = await requestToken('newest-reset@example.com');
+
+        expect((await validate(older)).status).toBe(400);
+        expect((await validate(newer)).status).toBe(200);
+    });
+
+    it('should cancel outstanding tokens when the password is changed', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'changed-reset@example.com' });
+        const token = await requestToken('changed-reset@example.com');
+
+        const changed = await request(app)
+            .post('/auth/user/password/change')
+            .set('Authorization', `Bearer ${generateAccessToken({
+                id: accountId,
+                email: 'changed-reset@example.com',
+                role: 1,
+                tokenVersion: 0,
+            })}`)
+            .send({ oldPassword: 'Password123!', newPassword: 'Changed4Good!' });
+
+        expect(changed.status).toBe(200);
+        expect((await reset(token, 'AttackerPick42!')).status).toBe(400);
+    });
+
+    it('should refuse expired and malformed tokens', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'expired-reset@example.com' });
+        const token = await requestToken('expired-reset@example.com');
+        await database.pool.query(
+            "UPDATE Password_Reset_Token SET Expires_At = NOW() - INTERVAL '1 minute' WHERE Account_ID = $1",
+            [accountId]
+        );
+
+        expect((await validate(token)).status).toBe(400);
+        expect((await reset(token, 'TooLate42!')).status).toBe(400);
+        expect((await validate('not-a-token')).status).toBe(400);
+        expect((await validate('not-a-token')).body.message).toBe('Validation failed');
+    });
+});
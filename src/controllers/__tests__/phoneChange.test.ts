@@ -0,0 +1,154 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import * as emailService from '../../core/utilities/emailService';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('Phone number change', () => {
+    let database: TestDatabase;
+    let smsSpy: jest.SpyInstance;
+
+    const authFor = (accountId: number) => {
+        return `Bearer ${generateAccessToken({ id: accountId, email: 'unused@example.com', role: 1, tokenVersion: 0 })}`;
+    };
+
+    const requestChange = (accountId: number, body: Record<string, string>) => {
+        return request(app).post('/auth/user/phone/change').set('Authorization', authFor(accountId)).send(body);
+    };
+
+    const verifyChange = (accountId: number, code: string) => {
+        return request(app).post('/auth/user/phone/change/verify').set('Authorization', authFor(accountId)).send({ code });
+    };
+
+    /**
+     * Start a change and return the code from the text
+     */
+    const startChange = async (accountId: number, newPhone: string): Promise<string> => {
+        smsSpy.mockClear();
+        const response = await requestChange(accountId, { newPhone, password: 'Password123!' });
+        expect(response.status).toBe(200);
+        return /(\d{6})/.exec(smsSpy.mock.calls[0][1])[1];
+    };
+
+    const getPhone = async (accountId: number) => {
+        const result = await database.pool.query(
+            'SELECT Phone, Phone_Verified FROM Account WHERE Account_ID = $1',
+            [accountId]
+        );
+        return result.rows[0];
+    };
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+        smsSpy = jest.spyOn(emailService, 'sendSMSViaEmail').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        smsSpy.mockRestore();
+    });
+
+    it('should text the new number and only switch once the code is entered', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'phone-change@example.com' });
+        const before = await getPhone(accountId);
+
+        const code = await startChange(accountId, '2065550101');
+
+        expect(smsSpy.mock.calls[0][0]).toBe('2065550101');
+        expect(await getPhone(accountId)).toEqual(before);
+
+        const verified = await verifyChange(accountId, code);
+
+        expect(verified.status).toBe(200);
+        expect(await getPhone(accountId)).toEqual({ phone: '2065550101', phone_verified: true });
+        expect((await verifyChange(accountId, code)).body.errorCode).toBe('VRFY012');
+    });
+
+    it('should count wrong codes and stop after the limit', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'phone-guess@example.com' });
+        const code = await startChange(accountId, '2065550102');
+        const wrong = code === '000000' ? '111111' : '000000';
+
+        const first = await verifyChange(accountId, wrong);
+        await verifyChange(accountId, wrong);
+        await verifyChange(accountId, wrong);
+        const afterLimit = await verifyChange(accountId, code);
+
+        expect(first.status).toBe(400);
+        expect(first.body.message).toContain('2 attempts remaining');
+        expect(afterLimit.body.errorCode).toBe('VRFY005');
+        expect((await getPhone(accountId)).phone).not.toBe('2065550102');
+    });
+
+    it('should not let parallel guesses get past the limit', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'phone-parallel@example.com' });
+        const code = await startChange(accountId, '2065550103');
+        const wrong = code === '000000' ? '111111' : '000000';
+
+        const guesses = await Promise.all(Array.from({ length: 6 }, () => verifyChange(accountId, wrong)));
+        const afterLimit = await verifyChange(accountId, code);
+        const attempts = await database.pool.query(
+            `SELECT Attempts FROM Phone_Verification WHERE Account_ID = $1 AND Purpose = 'change'`,
+            [accountId]
+        );
+
+        expect(guesses.filter(guess => guess.body.errorCode === 'VRFY005')).toHaveLength(3);
+        expect(afterLimit.body.errorCode).toBe('VRFY005');
+        expect(attempts.rows[0].attempts).toBe(3);
+    });
+
+    it('should refuse a wrong password or a number in use', async () => {
+        const otherId = await createTestAccount(database.pool, { email: 'phone-owner@example.com' });
+        const accountId = await createTestAccount(database.pool, { email: 'phone-wanter@example.com' });
+        const { phone: takenPhone } = await getPhone(otherId);
+
+        const wrongPassword = await requestChange(accountId, { newPhone: '2065550103', password: 'NotMyPassword1!' });
+        const taken = await requestChange(accountId, { newPhone: takenPhone, password: 'Password123!' });
+
+        expect(wrongPassword.status).toBe(400);
+        expect(wrongPassword.body.errorCode).toBe('AUTH001');
+        expect(taken.status).toBe(400);
+        expect(taken.body.errorCode).toBe('AUTH004');
+        expect(smsSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not switch to a number another account took in the meantime', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'phone-slow@example.com' });
+        const code = await startChange(accountId, '2065550104');
+        const otherId = await createTestAccount(database.pool, { email: 'phone-fast@example.com' });
+        await database.pool.query("UPDATE Account SET Phone = '2065550104' WHERE Account_ID = $1", [otherId]);
+
+        const verified = await verifyChange(accountId, code);
+
+        expect(verified.status).toBe(400);
+        expect(verified.body.errorCode).toBe('AUTH004');
+        expect((await getPhone(accountId)).phone).not.toBe('2065550104');
+    });
+
+    it('should keep the current number verification separate from a pending change', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'phone-both@example.com' });
+        const code = await startChange(accountId, '2065550105');
+
+        const misused = await request(app)
+            .post('/auth/verify/phone/verify')
+            .set('Authorization', authFor(accountId))
+            .send({ code });
+
+        expect(misused.status).toBe(400);
+        expect(misused.body.errorCode).toBe('VRFY012');
+        expect((await verifyChange(accountId, code)).status).toBe(200);
+    });
+});
@@ -0,0 +1,103 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('Own profile (/auth/user/me)', () => {
+    let database: TestDatabase;
+
+    const tokenFor = (id: number, email: string) => {
+        return generateAccessToken({ id, email, role: 1, tokenVersion: 0 });
+    };
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+    });
+
+    it('should return the user in the same shape as login', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'me-profile@example.com' });
+
+        const login = await request(app)
+            .post('/auth/login')
+            .send({ email: 'me-profile@example.com', password: 'Password123!' });
+        const profile = await request(app)
+            .get('/auth/user/me')
+            .set('Authorization', `Bearer ${tokenFor(accountId, 'me-profile@example.com')}`);
+
+        expect(profile.status).toBe(200);
+        expect(profile.body.data.user).toEqual(login.body.data.user);
+    });
+
+    it('should refuse the old token once logout-all returns, even with its state cached', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'logout-everywhere@example.com' });
+        const token = tokenFor(accountId, 'logout-everywhere@example.com');
+
+        const before = await request(app).get('/auth/user/me').set('Authorization', `Bearer ${token}`);
+        const logout = await request(app).post('/auth/logout/all').set('Authorization', `Bearer ${token}`);
+        const after = await request(app).get('/auth/user/me').set('Authorization', `Bearer ${token}`);
+
+        expect(before.status).toBe(200);
+        expect(logout.status).toBe(200);
+        expect(after.status).toBe(401);
+    });
+
+    it('should update the name and username', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'rename-profile@example.com' });
+
+        const response = await request(app)
+            .patch('/auth/user/me')
+            .set('Authorization', `Bearer ${tokenFor(accountId, 'rename-profile@example.com')}`)
+            .send({ firstname: ' Ada ', lastname: 'Lovelace', username: 'ada-l', email: 'ignored@example.com' });
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.user).toMatchObject({
+            id: accountId,
+            name: 'Ada',
+            lastname: 'Lovelace',
+            username: 'ada-l',
+            email: 'rename-profile@example.com',
+        });
+    });
+
+    it('should refuse a username another account has, but allow keeping your own', async () => {
+        await createTestAccount(database.pool, { email: 'taken-name@example.com' });
+        const accountId = await createTestAccount(database.pool, { email: 'wants-name@example.com' });
+        const auth = `Bearer ${tokenFor(accountId, 'wants-name@example.com')}`;
+
+        const taken = await request(app).patch('/auth/user/me').set('Authorization', auth).send({ username: 'taken-name' });
+        const own = await request(app).patch('/auth/user/me').set('Authorization', auth).send({ username: 'wants-name' });
+
+        expect(taken.status).toBe(400);
+        expect(taken.body.errorCode).toBe('AUTH003');
+        expect(own.status).toBe(200);
+    });
+
+    it('should validate the update like the admin endpoint', async () => {
+        const accountId = await createTestAccount(database.pool, { email: 'invalid-profile@example.com' });
+        const auth = `Bearer ${tokenFor(accountId, 'invalid-profile@example.com')}`;
+
+        const badUsername = await request(app).patch('/auth/user/me').set('Authorization', auth).send({ username: 'no spaces!' });
+        const empty = await request(app).patch('/auth/user/me').set('Authorization', auth).send({});
+        const anonymous = await request(app).get('/auth/user/me');
+
+        expect(badUsername.status).toBe(400);
+        expect(badUsername.body.errors[0].field).toBe('username');
+        expect(empty.status).toBe(400);
+        expect(empty.body.errorCode).toBe('VALD001');
+        expect(anonymous.status).toBe(401);
+    });
+});
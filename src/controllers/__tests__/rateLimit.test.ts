@@ -0,0 +1,256 @@
+import express from 'express';
+import request from 'supertest';
+import { app } from '../../app';
+import { rateLimit } from '../../core/middleware/rateLimit';
+import { resetRateLimitStore, RateLimitStore } from '../../core/utilities/rateLimitStore';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import * as emailService from '../../core/utilities/emailService';
+import { createTestDatabase, closeTestDatabase, createTestAccount, TestDatabase } from '../../test/helpers/pgMemSetup';
+
+describe('Rate limiting', () => {
+    let nowSpy: jest.SpyInstance;
+
+    /**
+     * A bare app with one limited route, so limits can be tested without a database
+     */
+    const limitedApp = (options: Parameters<typeof rateLimit>[0]) => {
+        const testApp = express();
+        testApp.use(express.json());
+        testApp.post('/limited', rateLimit(options), (_request, response) => {
+            response.json({ success: true });
+        });
+        return testApp;
+    };
+
+    /**
+     * Call the limited route the given number of times, returning the last response
+     */
+    const hit = async (testApp: express.Express, times: number, body: object = {}) => {
+        let response: request.Response;
+        for (let attempt = 0; attempt < times; attempt++) {
+            response = await request(testApp).post('/limited').send(body);
+        }
+        return response;
+    };
+
+    /** Pin the clock to the given number of seconds into a minute-long window */
+    const setClock = (secondsIntoWindow: number) => {
+        const windowStart = Math.floor(1_800_000_000_000 / 60000) * 60000;
+        nowSpy.mockReturnValue(windowStart + secondsIntoWindow * 1000);
+    };
+
+    beforeEach(() => {
+        process.env.RATE_LIMIT_ENABLED = 'true';
+        resetRateLimitStore();
+        nowSpy = jest.spyOn(Date, 'now');
+        setClock(0);
+    });
+
+    afterEach(() => {
+        process.env.RATE_LIMIT_ENABLED = 'false';
+        nowSpy.mockRestore();
+    });
+
+    it('should set the RateLimit headers and refuse requests over the limit', async () => {
+        const testApp = limitedApp({ name: 'headers', max: 2, windowSeconds: 60 });
+        setClock(15);
+
+        const first = await request(testApp).post('/limited');
+        const third = await hit(testApp, 2);
+
+        expect(first.status).toBe(200);
+        expect(first.headers['ratelimit-policy']).toBe('2;w=60');
+        expect(first.headers['ratelimit-limit']).toBe('2');
+        expect(first.headers['ratelimit-remaining']).toBe('1');
+        expect(first.headers['ratelimit-reset']).toBe('45');
+        expect(third.status).toBe(429);
+        expect(third.headers['ratelimit-remaining']).toBe('0');
+        expect(third.headers['retry-after']).toBe('45');
+        expect(third.body.errorCode).toBe('RATE001');
+    });
+
+    it('should start a fixed window afresh at the boundary', async () => {
+        const testApp = limitedApp({ name: 'fixed', max: 2, windowSeconds: 60 });
+        setClock(59);
+        await hit(testApp, 2);
+
+        setClock(60);
+
+        expect((await request(testApp).post('/limited')).status).toBe(200);
+    });
+
+    it('should carry the previous window over in a sliding window', async () => {
+        const testApp = limitedApp({ name: 'sliding', max: 3, windowSeconds: 60, algorithm: 'sliding' });
+        setClock(59);
+        await hit(testApp, 4);
+
+        setClock(70);
+        const blocked = await request(testApp).post('/limited');
+        setClock(105);
+        const allowed = await request(testApp).post('/limited');
+
+        expect(blocked.status).toBe(429);
+        expect(allowed.status).toBe(200);
+    });
+
+    it('should count email-keyed limits per email address', async () => {
+        const testApp = limitedApp({ name: 'per_email', max: 1, windowSeconds: 60, keyBy: 'email' });
+
+        const first = await hit(testApp, 1, { email: 'one@example.com' });
+        const sameEmail = await hit(testApp, 1, { email: 'ONE@example.com' });
+        const otherEmail = await hit(testApp, 1, { email: 'two@example.com' });
+
+        expect(first.status).toBe(200);
+        expect(sameEmail.status).toBe(429);
+        expect(otherEmail.status).toBe(200);
+    });
+
+    it('should take overrides from RATE_LIMIT_<NAME>', async () => {
+        const testApp = limitedApp({ name: 'override-me', max: 1, windowSeconds: 60 });
+        process.env.RATE_LIMIT_OVERRIDE_ME = '3/30';
+
+        try {
+            const response = await hit(testApp, 3);
+
+            expect(response.status).toBe(200);
+            expect(response.headers['ratelimit-policy']).toBe('3;w=30');
+            expect((await request(testApp).post('/limited')).status).toBe(429);
+        } finally {
+            delete process.env.RATE_LIMIT_OVERRIDE_ME;
+        }
+    });
+
+    it('should skip limits that are turned off', async () => {
+        const testApp = limitedApp({ name: 'switched_off', max: 1, windowSeconds: 60 });
+        process.env.RATE_LIMIT_SWITCHED_OFF = 'off';
+
+        try {
+            const response = await hit(testApp, 3);
+
+            expect(response.status).toBe(200);
+            expect(response.headers['ratelimit-limit']).toBeUndefined();
+        } finally {
+            delete process.env.RATE_LIMIT_SWITCHED_OFF;
+        }
+    });
+
+    it('should let requests through when the store fails', async () => {
+        const brokenStore: RateLimitStore = {
+            increment: jest.fn().mockRejectedValue(new Error('store down')),
+            get: jest.fn(),
+        };
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const testApp = limitedApp({ name: 'broken', max: 1, windowSeconds: 60, store: brokenStore });
+
+        try {
+            expect((await hit(testApp, 3)).status).toBe(200);
+        } finally {
+            errorSpy.mockRestore();
+        }
+    });
+
+    describe('open routes', () => {
+        let database: TestDatabase;
+
+        beforeAll(() => {
+            database = createTestDatabase();
+        });
+
+        afterAll(async () => {
+            await closeTestDatabase(database);
+        });
+
+        it('should limit registration per IP', async () => {
+            process.env.RATE_LIMIT_REGISTER = '1/60';
+
+            try {
+                const first = await request(app).post('/auth/register').send({});
+                const second = await request(app).post('/auth/register').send({});
+
+                expect(first.status).toBe(400);
+                expect(second.status).toBe(429);
+                expect(second.headers['retry-after']).toBe('60');
+            } finally {
+                delete process.env.RATE_LIMIT_REGISTER;
+            }
+        });
+
+        it('should limit the OAuth token endpoint per IP', async () => {
+            process.env.RATE_LIMIT_OAUTH_TOKEN = '1/60';
+
+            try {
+                const first = await request(app).post('/oauth/token').type('form').send({ grant_type: 'client_credentials' });
+                const second = await request(app).post('/oauth/token').type('form').send({ grant_type: 'client_credentials' });
+
+                expect(first.status).toBe(401);
+                expect(second.status).toBe(429);
+            } finally {
+                delete process.env.RATE_LIMIT_OAUTH_TOKEN;
+            }
+        });
+
+        it('should limit token introspection per IP', async () => {
+            process.env.RATE_LIMIT_OAUTH_INTROSPECT = '1/60';
+
+            try {
+                const first = await request(app).post('/oauth/introspect').type('form').send({ token: 'unused' });
+                const second = await request(app).post('/oauth/introspect').type('form').send({ token: 'unused' });
+
+                expect(first.status).toBe(401);
+                expect(second.status).toBe(429);
+            } finally {
+                delete process.env.RATE_LIMIT_OAUTH_INTROSPECT;
+            }
+        });
+
+        it('should limit userinfo per IP before checking the token', async () => {
+            process.env.RATE_LIMIT_PUBLIC = '1/60';
+
+            try {
+                const first = await request(app).get('/userinfo');
+                const second = await request(app).get('/userinfo');
+
+                expect(first.status).toBe(401);
+                expect(second.status).toBe(429);
+            } finally {
+                delete process.env.RATE_LIMIT_PUBLIC;
+            }
+        });
+
+        it('should count account-keyed limits per signed-in account', async () => {
+            process.env.RATE_LIMIT_JWT_TEST = '1/60';
+            const first = await createTestAccount(database.pool, { email: 'limited-one@example.com' });
+            const second = await createTestAccount(database.pool, { email: 'limited-two@example.com' });
+            const call = (id: number, email: string) => {
+                const token = generateAccessToken({ id, email, role: 1, tokenVersion: 0 });
+                return request(app).get('/jwt_test').set('Authorization', `Bearer ${token}`);
+            };
+
+            try {
+                expect((await call(first, 'limited-one@example.com')).status).toBe(200);
+                expect((await call(first, 'limited-one@example.com')).status).toBe(429);
+                expect((await call(second, 'limited-two@example.com')).status).toBe(200);
+            } finally {
+                delete process.env.RATE_LIMIT_JWT_TEST;
+            }
+        });
+
+        it('should limit password reset emails per address', async () => {
+            const sendSpy = jest.spyOn(emailService, 'sendPasswordResetEmail').mockResolvedValue(true);
+            const resetRequest = (email: string) => {
+                return request(app).post('/auth/password/reset-request').send({ email });
+            };
+
+            try {
+                for (let attempt = 0; attempt < 3; attempt++) {
+                    await resetRequest('flooded@example.com');
+                }
+
+                expect((await resetRequest('flooded@example.com')).status).toBe(429);
+                expect((await resetRequest('other@example.com')).status).toBe(200);
+            } finally {
+                sendSpy.mockRestore();
+            }
+        });
+    });
+});
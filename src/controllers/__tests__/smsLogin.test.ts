@@ -0,0 +1,185 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import * as emailService from '../../core/utilities/emailService';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+
+describe('SMS code login', () => {
+    let database: TestDatabase;
+    let smsSpy: jest.SpyInstance;
+
+    /**
+     * Create an account with the given phone number, verified unless stated otherwise
+     */
+    const createPhoneUser = async (email: string, phone: string, phoneVerified = true) => {
+        const accountId = await createTestAccount(database.pool, { email });
+        await database.pool.query(
+            'UPDATE Account SET Phone = $1, Phone_Verified = $2 WHERE Account_ID = $3',
+            [phone, phoneVerified, accountId]
+        );
+        return accountId;
+    };
+
+    const requestCode = (phone: string) => {
+        return request(app).post('/auth/login/sms').send({ phone });
+    };
+
+    /**
+     * Request a code and return it from the texted message
+     */
+    const receiveCode = async (phone: string): Promise<string> => {
+        smsSpy.mockClear();
+        await requestCode(phone);
+        expect(smsSpy).toHaveBeenCalledTimes(1);
+        return smsSpy.mock.calls[0][1].match(/\d{6}/)[0];
+    };
+
+    const login = (phone: string, code: string) => {
+        return request(app).post('/auth/login/sms/verify').send({ phone, code });
+    };
+
+    const wrongCode = (code: string) => (code === '123456' ? '654321' : '123456');
+
+    /**
+     * Let the resend limit pass for an account
+     */
+    const ageCode = async (accountId: number) => {
+        await database.pool.query(
+            "UPDATE SMS_Login_Code SET Created_At = NOW() - INTERVAL '2 minutes' WHERE Account_ID = $1",
+            [accountId]
+        );
+    };
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+        smsSpy = jest.spyOn(emailService, 'sendSMSViaEmail').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        smsSpy.mockRestore();
+    });
+
+    it('should respond the same way for unknown, unverified and verified phones', async () => {
+        await createPhoneUser('unverified-sms@example.com', '2065550101', false);
+        await createPhoneUser('verified-sms@example.com', '2065550102');
+
+        const unknown = await requestCode('2065550100');
+        const unverified = await requestCode('2065550101');
+        expect(smsSpy).not.toHaveBeenCalled();
+        const verified = await requestCode('2065550102');
+
+        expect(smsSpy).toHaveBeenCalledTimes(1);
+        expect(smsSpy.mock.calls[0][0]).toBe('2065550102');
+        expect(unknown.status).toBe(200);
+        expect(unverified.status).toBe(unknown.status);
+        expect(verified.status).toBe(unknown.status);
+        expect(unverified.body).toEqual(unknown.body);
+        expect(verified.body).toEqual(unknown.body);
+    });
+
+    it('should sign in with the login response, once', async () => {
+        const accountId = await createPhoneUser('once-sms@example.com', '2065550103');
+        const code = await receiveCode('2065550103');
+
+        const response = await login('2065550103', code);
+        const replay = await login('2065550103', code);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.accessToken).toBeDefined();
+        expect(response.body.data.refreshToken).toBeDefined();
+        expect(response.body.data.user.id).toBe(accountId);
+        expect(replay.status).toBe(401);
+        expect(replay.body.errorCode).toBe('AUTH023');
+    });
+
+    it('should stop accepting the code after three wrong attempts', async () => {
+        await createPhoneUser('attempts-sms@example.com', '2065550104');
+        const code = await receiveCode('2065550104');
+
+        for (let attempt = 0; attempt < 3; attempt++) {
+            expect((await login('2065550104', wrongCode(code))).status).toBe(401);
+        }
+        const response = await login('2065550104', code);
+
+        expect(response.status).toBe(401);
+    });
+
+    it('should reject an expired code', async () => {
+        const accountId = await createPhoneUser('expired-sms@example.com', '2065550105');
+        const code = await receiveCode('2065550105');
+        await database.pool.query(
+            "UPDATE SMS_Login_Code SET Expires_At = NOW() - INTERVAL '1 minute' WHERE Account_ID = $1",
+            [accountId]
+        );
+
+        expect((await login('2065550105', code)).status).toBe(401);
+    });
+
+    it('should not text again within a minute, and only accept the newest code', async () => {
+        const accountId = await createPhoneUser('resend-sms@example.com', '2065550106');
+        const first = await receiveCode('2065550106');
+
+        smsSpy.mockClear();
+        const tooSoon = await requestCode('2065550106');
+        expect(tooSoon.status).toBe(200);
+        expect(smsSpy).not.toHaveBeenCalled();
+
+        await ageCode(accountId);
+        const second = await receiveCode('2065550106');
+
+        if (first !== second) {
+            expect((await login('2065550106', first)).status).toBe(401);
+        }
+        expect((await login('2065550106', second)).status).toBe(200);
+    });
+
+    it('should reject a code once the phone is no longer verified', async () => {
+        const accountId = await createPhoneUser('unverify-sms@example.com', '2065550107');
+        const code = await receiveCode('2065550107');
+        await database.pool.query('UPDATE Account SET Phone_Verified = FALSE WHERE Account_ID = $1', [accountId]);
+
+        expect((await login('2065550107', code)).status).toBe(401);
+    });
+
+    it('should ask for the second factor when TOTP is enabled', async () => {
+        const accountId = await createPhoneUser('mfa-sms@example.com', '2065550108');
+        await database.pool.query(
+            'INSERT INTO Account_MFA (Account_ID, TOTP_Secret, TOTP_Enabled) VALUES ($1, $2, TRUE)',
+            [accountId, 'unused']
+        );
+        const code = await receiveCode('2065550108');
+
+        const response = await login('2065550108', code);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.mfaRequired).toBe(true);
+        expect(response.body.data.accessToken).toBeUndefined();
+    });
+
+    it('should refuse suspended accounts', async () => {
+        const accountId = await createPhoneUser('suspended-sms@example.com', '2065550109');
+        const code = await receiveCode('2065550109');
+        await database.pool.query("UPDATE Account SET Account_Status = 'suspended' WHERE Account_ID = $1", [accountId]);
+        clearAccountStateCache();
+
+        expect((await login('2065550109', code)).status).toBe(403);
+    });
+
+    it('should validate the phone and code format', async () => {
+        expect((await requestCode('123')).status).toBe(400);
+        expect((await login('2065550110', '12ab56')).status).toBe(400);
+    });
+});
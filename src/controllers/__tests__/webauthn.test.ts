@@ -0,0 +1,272 @@
+import request from 'supertest';
+import { app } from '../../app';
+import { clearAccountStateCache } from '../../core/utilities/accountStatusUtils';
+import { generateAccessToken } from '../../core/utilities/tokenUtils';
+import {
+    createTestDatabase,
+    closeTestDatabase,
+    createTestAccount,
+    TestDatabase
+} from '../../test/helpers/pgMemSetup';
+import { createSoftwareAuthenticator, SoftwareAuthenticatorOptions } from '../../test/helpers/softwareAuthenticator';
+
+describe('WebAuthn passkeys', () => {
+    let database: TestDatabase;
+
+    const createUser = async (email: string, status?: string) => {
+        const accountId = await createTestAccount(database.pool, { email, status });
+        const accessToken = generateAccessToken({ id: accountId, email, role: 1, tokenVersion: 0 });
+        return { accountId, accessToken };
+    };
+
+    const registrationOptions = async (accessToken: string) => {
+        const response = await request(app)
+            .post('/auth/webauthn/register/options')
+            .set('Authorization', `Bearer ${accessToken}`);
+        return response.body.data;
+    };
+
+    const register = async (accessToken: string, authenticator: ReturnType<typeof createSoftwareAuthenticator>) => {
+        const options = await registrationOptions(accessToken);
+        return request(app)
+            .post('/auth/webauthn/register/verify')
+            .set('Authorization', `Bearer ${accessToken}`)
+            .send({ credential: authenticator.createCredential(options), name: 'Laptop' });
+    };
+
+    /**
+     * Create an account with one registered passkey
+     */
+    const createUserWithPasskey = async (email: string, options?: SoftwareAuthenticatorOptions) => {
+        const user = await createUser(email);
+        const authenticator = createSoftwareAuthenticator(options);
+        const response = await register(user.accessToken, authenticator);
+        expect(response.status).toBe(201);
+        return { ...user, authenticator };
+    };
+
+    const loginOptions = async (email?: string) => {
+        const response = await request(app).post('/auth/webauthn/login/options').send(email ? { email } : {});
+        return response.body.data;
+    };
+
+    const login = (credential: object) => {
+        return request(app).post('/auth/webauthn/login/verify').send({ credential });
+    };
+
+    beforeAll(() => {
+        database = createTestDatabase();
+    });
+
+    afterAll(async () => {
+        await closeTestDatabase(database);
+    });
+
+    beforeEach(() => {
+        clearAccountStateCache();
+    });
+
+    describe('registration', () => {
+        it('should offer ES256 options for this relying party', async () => {
+            const { accountId, accessToken } = await createUser('options@example.com');
+
+            const options = await registrationOptions(accessToken);
+
+            expect(options.rp.id).toBe('localhost');
+            expect(options.user.name).toBe('options@example.com');
+            expect(Buffer.from(options.user.id, 'base64url').toString()).toBe(String(accountId));
+            expect(options.pubKeyCredParams).toContainEqual({ type: 'public-key', alg: -7 });
+            expect(options.challenge).toMatch(/^[A-Za-z0-9_-]{43}$/);
+        });
+
+        it('should verify and store a passkey with "none" attestation', async () => {
+            const { accountId, authenticator } = await createUserWithPasskey('none@example.com');
+
+            const stored = await database.pool.query(
+                'SELECT Account_ID, Public_Key_Alg, Attestation_Format FROM WebAuthn_Credential WHERE Credential_ID = $1',
+                [authenticator.credentialId]
+            );
+
+            expect(stored.rows[0]).toEqual({ account_id: accountId, public_key_alg: -7, attestation_format: 'none' });
+        });
+
+        it('should verify packed self attestation', async () => {
+            const { authenticator } = await createUserWithPasskey('packed@example.com', { attestation: 'packed' });
+
+            const stored = await database.pool.query(
+                'SELECT Attestation_Format FROM WebAuthn_Credential WHERE Credential_ID = $1',
+                [authenticator.credentialId]
+            );
+
+            expect(stored.rows[0].attestation_format).toBe('packed');
+        });
+
+        it('should reject a packed attestation signed by another key', async () => {
+            const { accessToken } = await createUser('badsig@example.com');
+            const authenticator = createSoftwareAuthenticator({ attestation: 'packed' });
+            const options = await registrationOptions(accessToken);
+            const credential = authenticator.createCredential(options);
+            const forged = createSoftwareAuthenticator({ attestation: 'packed' }).createCredential(options);
+            forged.id = credential.id;
+
+            const response = await request(app)
+                .post('/auth/webauthn/register/verify')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ credential: { ...credential, response: { ...credential.response, attestationObject: forged.response.attestationObject } } });
+
+            expect(response.status).toBe(400);
+        });
+
+        it('should reject a response from another origin', async () => {
+            const { accessToken } = await createUser('origin@example.com');
+            const authenticator = createSoftwareAuthenticator({ origin: 'https://evil.example' });
+
+            const response = await register(accessToken, authenticator);
+
+            expect(response.status).toBe(400);
+            expect(response.body.message).toContain('Origin');
+        });
+
+        it('should not accept the same response twice', async () => {
+            const { accessToken } = await createUser('replay@example.com');
+            const authenticator = createSoftwareAuthenticator();
+            const credential = authenticator.createCredential(await registrationOptions(accessToken));
+
+            const first = await request(app)
+                .post('/auth/webauthn/register/verify')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ credential });
+            const replay = await request(app)
+                .post('/auth/webauthn/register/verify')
+                .set('Authorization', `Bearer ${accessToken}`)
+                .send({ credential });
+
+            expect(first.status).toBe(201);
+            expect(replay.status).toBe(400);
+        });
+
+        it('should not accept another account\'s challenge', async () => {
+            const owner = await createUser('challenge-owner@example.com');
+            const other = await createUser('challenge-other@example.com');
+            const credential = createSoftwareAuthenticator().createCredential(await registrationOptions(owner.accessToken));
+
+            const response = await request(app)
+                .post('/auth/webauthn/register/verify')
+                .set('Authorization', `Bearer ${other.accessToken}`)
+                .send({ credential });
+
+            expect(response.status).toBe(400);
+        });
+    });
+
+    describe('sign-in', () => {
+        it('should list the account\'s passkeys in the options, and a decoy for other emails', async () => {
+            const { authenticator } = await createUserWithPasskey('allow@example.com');
+            await createUser('no-passkey@example.com');
+
+            const options = await loginOptions('allow@example.com');
+            const unknown = await loginOptions('nobody@example.com');
+            const unknownAgain = await loginOptions('nobody@example.com');
+            const withoutPasskey = await loginOptions('no-passkey@example.com');
+
+            expect(options.allowCredentials).toEqual([
+                { type: 'public-key', id: authenticator.credentialId, transports: ['internal'] },
+            ]);
+            expect(unknown.allowCredentials).toEqual([
+                { type: 'public-key', id: expect.stringMatching(/^[A-Za-z0-9_-]{43}$/) },
+            ]);
+            expect(unknownAgain.allowCredentials).toEqual(unknown.allowCredentials);
+            expect(withoutPasskey.allowCredentials).toHaveLength(1);
+            expect(withoutPasskey.allowCredentials[0].id).not.toBe(unknown.allowCredentials[0].id);
+        });
+
+        it('should sign in with a valid assertion, once', async () => {
+            const { accountId, authenticator } = await createUserWithPasskey('signin@example.com');
+            const credential = authenticator.getAssertion(await loginOptions());
+
+            const response = await login(credential);
+            const replay = await login(credential);
+
+            expect(response.status).toBe(200);
+            expect(response.body.data.accessToken).toBeDefined();
+            expect(response.body.data.user.id).toBe(accountId);
+            expect(replay.status).toBe(401);
+        });
+
+        it('should reject a signature from a different key', async () => {
+            const { authenticator } = await createUserWithPasskey('wrongkey@example.com');
+            authenticator.replaceKey();
+
+            const response = await login(authenticator.getAssertion(await loginOptions()));
+
+            expect(response.status).toBe(401);
+        });
+
+        it('should reject a signature counter that goes backwards', async () => {
+            const { authenticator } = await createUserWithPasskey('cloned@example.com');
+            expect((await login(authenticator.getAssertion(await loginOptions()))).status).toBe(200);
+            expect((await login(authenticator.getAssertion(await loginOptions()))).status).toBe(200);
+            authenticator.resetCounter();
+
+            const response = await login(authenticator.getAssertion(await loginOptions()));
+
+            expect(response.status).toBe(401);
+            expect(response.body.message).toContain('counter');
+        });
+
+        it('should allow authenticators without a counter', async () => {
+            const { authenticator } = await createUserWithPasskey('nocounter@example.com', { counterStep: 0 });
+
+            expect((await login(authenticator.getAssertion(await loginOptions()))).status).toBe(200);
+            expect((await login(authenticator.getAssertion(await loginOptions()))).status).toBe(200);
+        });
+
+        it('should still ask for TOTP when the user was not verified', async () => {
+            const { accountId, authenticator } = await createUserWithPasskey('presence@example.com', { userVerification: false });
+            await database.pool.query(
+                'INSERT INTO Account_MFA (Account_ID, TOTP_Secret, TOTP_Enabled) VALUES ($1, $2, TRUE)',
+                [accountId, 'unused']
+            );
+
+            const response = await login(authenticator.getAssertion(await loginOptions()));
+
+            expect(response.status).toBe(200);
+            expect(response.body.data.mfaRequired).toBe(true);
+            expect(response.body.data.accessToken).toBeUndefined();
+        });
+
+        it('should refuse suspended accounts', async () => {
+            const { accountId, authenticator } = await createUserWithPasskey('suspended-passkey@example.com');
+            await database.pool.query("UPDATE Account SET Account_Status = 'suspended' WHERE Account_ID = $1", [accountId]);
+
+            const response = await login(authenticator.getAssertion(await loginOptions()));
+
+            expect(response.status).toBe(403);
+        });
+    });
+
+    describe('managing passkeys', () => {
+        it('should list and remove the user\'s own passkeys only', async () => {
+            const { accessToken, authenticator } = await createUserWithPasskey('manage@example.com');
+            const other = await createUser('manage-other@example.com');
+
+            const list = await request(app)
+                .get('/auth/webauthn/credentials')
+                .set('Authorization', `Bearer ${accessToken}`);
+            const otherDelete = await request(app)
+                .delete(`/auth/webauthn/credentials/${authenticator.credentialId}`)
+                .set('Authorization', `Bearer ${other.accessToken}`);
+            const ownDelete = await request(app)
+                .delete(`/auth/webauthn/credentials/${authenticator.credentialId}`)
+                .set('Authorization', `Bearer ${accessToken}`);
+
+            expect(list.status).toBe(200);
+            expect(list.body.data).toEqual([
+                expect.objectContaining({ id: authenticator.credentialId, name: 'Laptop', transports: ['internal'] }),
+            ]);
+            expect(otherDelete.status).toBe(404);
+            expect(ownDelete.status).toBe(200);
+            expect((await login(authenticator.getAssertion(await loginOptions()))).status).toBe(401);
+        });
+    });
+});
@@ -3,7 +3,21 @@ import { Response } from 'express';
 import { IJwtRequest, UserRole, RoleName } from '@models';
 import {
     getPool,
-    generateSaltedHash
+    sendValidationError,
+    checkNewPassword,
+    savePassword,
+    revokeAllSessions,
+    invalidateAccountState,
+    generateServiceClientCredentials,
+    generateServiceClientSecret,
+    isTotpEnabled,
+    resetAccountMfa,
+    unlockAccount,
+    recordAccountAudit,
+    requestDataExport,
+    sendAttachment,
+    isDevelopment,
+    DataExportFormat
 } from '@utilities';
 
 
@@ -22,6 +36,7 @@ export interface AdminUserResponse {
     account_role: UserRole;
     role_name: string;
     account_status: string;
+    mfa_enabled: boolean;
     created_at: string;
     updated_at: string;
 }
@@ -40,6 +55,8 @@ export interface AdminDashboardStats {
     suspendedUsers: number;
     verifiedEmails: number;
     verifiedPhones: number;
+    /** Accounts whose password was in the breached-password corpus at their last sign-in */
+    breachedPasswords: number;
     usersByRole: {
         role: UserRole;
         role_name: string;
@@ -52,6 +69,16 @@ export interface AdminDashboardStats {
     };
 }
 
+export interface AdminServiceClientResponse {
+    client_id: string;
+    client_name: string;
+    scopes: string[];
+    owner_account_id: number;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
 /**
  * Helper function to format user data with role name
  */
@@ -68,11 +95,38 @@ const formatUserResponse = (user: any): AdminUserResponse => {
         account_role: user.account_role,
         role_name: RoleName[user.account_role as keyof typeof RoleName] || 'Unknown',
         account_status: user.account_status,
+        mfa_enabled: user.mfa_enabled ?? false,
         created_at: user.created_at,
         updated_at: user.updated_at
     };
 };
 
+/**
+ * Helper function to format a service client (never includes the secret hash)
+ */
+const formatServiceClientResponse = (
+    client: Omit<AdminServiceClientResponse, 'scopes'> & { allowed_scopes: string }
+): AdminServiceClientResponse => {
+    return {
+        client_id: client.client_id,
+        client_name: client.client_name,
+        scopes: client.allowed_scopes.split(' ').filter(Boolean),
+        owner_account_id: client.owner_account_id,
+        is_active: client.is_active,
+        created_at: client.created_at,
+        updated_at: client.updated_at
+    };
+};
+
+/**
+ * Join that adds mfa_enabled to account queries without clashing column names
+ */
+const MFA_STATUS_JOIN = `LEFT JOIN (SELECT account_id AS mfa_account_id, totp_enabled AS mfa_enabled FROM account_mfa) mfa
+             ON mfa.mfa_account_id = account.account_id`;
+
+const SERVICE_CLIENT_COLUMNS = `client_id, client_name, allowed_scopes, owner_account_id, is_active,
+                    created_at, updated_at`;
+
 /**
  * Create a new user with specified role (admin only)
  * POST /admin/users/create
@@ -95,6 +149,12 @@ export const createUser = async (
             role
         } = request.body;
 
+        const violations = await checkNewPassword(client, password, { username, email });
+        if (violations.length > 0) {
+            sendValidationError(response, violations);
+            return response;
+        }
+
         // Start transaction
         await client.query('BEGIN');
 
@@ -126,12 +186,7 @@ export const createUser = async (
         const newAccount = accountResult.rows[0];
 
         // Hash password and create credentials
-        const { salt, hash } = await generateSaltedHash(password);
-        await client.query(
-            `INSERT INTO account_credential (account_id, salted_hash, salt)
-             VALUES ($1, $2, $3)`,
-            [newAccount.account_id, hash, salt]
-        );
+        await savePassword(client, newAccount.account_id, password);
 
         await client.query('COMMIT');
 
@@ -209,8 +264,9 @@ export const listUsers = async (
         const usersResult = await pool.query(
             `SELECT account_id, firstname, lastname, username, email, phone, 
                     account_role, account_status, email_verified, phone_verified,
-                    created_at, updated_at
+                    created_at, updated_at, COALESCE(mfa.mfa_enabled, FALSE) AS mfa_enabled
              FROM account
+             ${MFA_STATUS_JOIN}
              ${whereClause}
              ORDER BY created_at DESC
              LIMIT $${paramCount++} OFFSET $${paramCount++}`,
@@ -260,8 +316,9 @@ export const searchUsers = async (
         const result = await pool.query(
             `SELECT account_id, firstname, lastname, username, email, phone,
                     account_role, account_status, email_verified, phone_verified,
-                    created_at, updated_at
+                    created_at, updated_at, COALESCE(mfa.mfa_enabled, FALSE) AS mfa_enabled
              FROM account
+             ${MFA_STATUS_JOIN}
              WHERE firstname ILIKE $1 
                 OR lastname ILIKE $1 
                 OR username ILIKE $1 
@@ -299,13 +356,14 @@ export const getUserById = async (
 ): Promise<Response> => {
     try {
         const pool = getPool();
-        const userId = parseInt(request.params.id);
+        const userId = parseInt(request.params.id as string);
 
         const result = await pool.query(
             `SELECT account_id, firstname, lastname, username, email, phone,
                     account_role, account_status, email_verified, phone_verified,
-                    created_at, updated_at
+                    created_at, updated_at, COALESCE(mfa.mfa_enabled, FALSE) AS mfa_enabled
              FROM account
+             ${MFA_STATUS_JOIN}
              WHERE account_id = $1`,
             [userId]
         );
@@ -341,7 +399,7 @@ export const updateUser = async (
 ): Promise<Response> => {
     try {
         const pool = getPool();
-        const userId = parseInt(request.params.id);
+        const userId = parseInt(request.params.id as string);
         const {
             firstname,
             lastname,
@@ -418,10 +476,26 @@ export const updateUser = async (
             });
         }
 
+        // Status changes (e.g. suspension) must apply to live sessions right away
+        if (account_status !== undefined) {
+            invalidateAccountState(userId);
+            await recordAccountAudit(pool, userId, request.claims.id, 'status_changed', { status: account_status });
+        }
+
+        const profileFields = Object.entries({ firstname, lastname, username, email, phone, email_verified, phone_verified })
+            .filter(([, value]) => value !== undefined)
+            .map(([field]) => field);
+        if (profileFields.length > 0) {
+            await recordAccountAudit(pool, userId, request.claims.id, 'profile_updated', { fields: profileFields });
+        }
+
         return response.json({
             success: true,
             message: 'User updated successfully',
-            data: formatUserResponse(result.rows[0])
+            data: formatUserResponse({
+                ...result.rows[0],
+                mfa_enabled: await isTotpEnabled(userId)
+            })
         });
 
     } catch (error) {
@@ -443,14 +517,17 @@ export const deleteUser = async (
 ): Promise<Response> => {
     try {
         const pool = getPool();
-        const userId = parseInt(request.params.id);
+        const userId = parseInt(request.params.id as string);
+        const reason = request.body?.reason || null;
 
+        // A deletion the user scheduled themselves is superseded by this one
         const result = await pool.query(
             `UPDATE account 
-             SET account_status = 'deleted', updated_at = CURRENT_TIMESTAMP
+             SET account_status = 'deleted', deleted_at = CURRENT_TIMESTAMP, deletion_reason = $2,
+                 deletion_scheduled_for = NULL, updated_at = CURRENT_TIMESTAMP
              WHERE account_id = $1
-             RETURNING account_id, username, email`,
-            [userId]
+             RETURNING account_id, username, email, deleted_at, deletion_reason`,
+            [userId, reason]
         );
 
         if (result.rows.length === 0) {
@@ -460,13 +537,20 @@ export const deleteUser = async (
             });
         }
 
+        // Deleted users lose every active session immediately
+        await revokeAllSessions(pool, userId);
+        invalidateAccountState(userId);
+        await recordAccountAudit(pool, userId, request.claims.id, 'deleted', { reason });
+
         return response.json({
             success: true,
             message: 'User deleted successfully',
             data: {
                 account_id: result.rows[0].account_id,
                 username: result.rows[0].username,
-                email: result.rows[0].email
+                email: result.rows[0].email,
+                deleted_at: result.rows[0].deleted_at,
+                deletion_reason: result.rows[0].deletion_reason
             }
         });
 
@@ -491,7 +575,7 @@ export const resetUserPassword = async (
     const client = await pool.connect();
 
     try {
-        const userId = parseInt(request.params.id);
+        const userId = parseInt(request.params.id as string);
         const { password } = request.body;
 
         await client.query('BEGIN');
@@ -510,18 +594,23 @@ export const resetUserPassword = async (
             });
         }
 
-        // Hash new password
-        const { salt, hash } = await generateSaltedHash(password);
+        // Same policy as the user would face, including no reuse of recent passwords
+        const violations = await checkNewPassword(client, password, { accountId: userId });
+        if (violations.length > 0) {
+            await client.query('ROLLBACK');
+            sendValidationError(response, violations);
+            return response;
+        }
 
-        // Update credentials
-        await client.query(
-            `UPDATE account_credential 
-             SET salted_hash = $1, salt = $2
-             WHERE account_id = $3`,
-            [hash, salt, userId]
-        );
+        // Hash new password and update credentials
+        await savePassword(client, userId, password);
+
+        // Sessions signed in with the old password are no longer valid
+        await revokeAllSessions(client, userId);
+        await recordAccountAudit(client, userId, request.claims.id, 'password_reset');
 
         await client.query('COMMIT');
+        invalidateAccountState(userId);
 
         return response.json({
             success: true,
@@ -540,6 +629,154 @@ export const resetUserPassword = async (
     }
 };
 
+/**
+ * Remove a user's two-factor authentication (e.g. lost authenticator)
+ * They can sign in with their password alone and enroll again
+ * DELETE /admin/users/:id/mfa
+ */
+export const resetUserMfa = async (
+    request: IJwtRequest,
+    response: Response
+): Promise<Response> => {
+    try {
+        const pool = getPool();
+        const userId = parseInt(request.params.id as string);
+
+        const userCheck = await pool.query(
+            'SELECT account_id FROM account WHERE account_id = $1',
+            [userId]
+        );
+
+        if (userCheck.rows.length === 0) {
+            return response.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        const hadMfa = await resetAccountMfa(pool, userId);
+        if (hadMfa) {
+            await recordAccountAudit(pool, userId, request.claims.id, 'mfa_reset');
+        }
+
+        return response.json({
+            success: true,
+            message: hadMfa
+                ? 'Two-factor authentication reset successfully'
+                : 'User had no two-factor authentication enrolled',
+            data: {
+                account_id: userId,
+                mfa_enabled: false
+            }
+        });
+
+    } catch (error) {
+        console.error('Reset MFA error:', error);
+        return response.status(500).json({
+            success: false,
+            message: 'Failed to reset two-factor authentication'
+        });
+    }
+};
+
+/**
+ * Export everything stored about a user, for a data-access request
+ * GET /admin/users/:id/export
+ * Large histories are built in the background and the link is emailed to the admin
+ */
+export const exportUser = async (
+    request: IJwtRequest,
+    response: Response
+): Promise<Response | void> => {
+    try {
+        const userId = parseInt(request.params.id as string);
+        const format = (request.query.format as DataExportFormat) || 'json';
+
+        const result = await requestDataExport(userId, request.claims.id, format);
+
+        switch (result.status) {
+            case 'not_found':
+                return response.status(404).json({
+                    success: false,
+                    message: 'User not found'
+                });
+            case 'throttled':
+                return response.status(429).json({
+                    success: false,
+                    message: 'An export of this user is already being prepared'
+                });
+            case 'ready':
+                sendAttachment(response, result.file.filename, result.file.contentType, result.file.body);
+                return;
+        }
+
+        return response.status(202).json({
+            success: true,
+            message: 'Export is being prepared. A download link will be emailed to you.',
+            data: {
+                account_id: userId,
+                expires_at: result.expiresAt.toISOString(),
+                ...(isDevelopment() && { download_url: result.downloadUrl })
+            }
+        });
+
+    } catch (error) {
+        console.error('Export user error:', error);
+        return response.status(500).json({
+            success: false,
+            message: 'Failed to export user data'
+        });
+    }
+};
+
+/**
+ * Lift a sign-in lockout early
+ * POST /admin/users/:id/unlock
+ */
+export const unlockUser = async (
+    request: IJwtRequest,
+    response: Response
+): Promise<Response> => {
+    try {
+        const pool = getPool();
+        const userId = parseInt(request.params.id as string);
+
+        const userCheck = await pool.query(
+            'SELECT account_id FROM account WHERE account_id = $1',
+            [userId]
+        );
+
+        if (userCheck.rows.length === 0) {
+            return response.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+        }
+
+        const wasLocked = await unlockAccount(pool, userId);
+        if (wasLocked) {
+            await recordAccountAudit(pool, userId, request.claims.id, 'unlocked');
+        }
+
+        return response.json({
+            success: true,
+            message: wasLocked
+                ? 'Account unlocked successfully'
+                : 'Account was not locked',
+            data: {
+                account_id: userId
+            }
+        });
+
+    } catch (error) {
+        console.error('Unlock user error:', error);
+        return response.status(500).json({
+            success: false,
+            message: 'Failed to unlock account'
+        });
+    }
+};
+
 /**
  * Change user's role
  * PUT /admin/users/:id/role
@@ -550,7 +787,7 @@ export const changeUserRole = async (
 ): Promise<Response> => {
     try {
         const pool = getPool();
-        const userId = parseInt(request.params.id);
+        const userId = parseInt(request.params.id as string);
         const { role } = request.body;
 
         const result = await pool.query(
@@ -568,6 +805,8 @@ export const changeUserRole = async (
             });
         }
 
+        await recordAccountAudit(pool, userId, request.claims.id, 'role_changed', { role });
+
         return response.json({
             success: true,
             message: 'Role updated successfully',
@@ -620,6 +859,11 @@ export const getDashboardStats = async (
              FROM account`
         );
 
+        // Accounts flagged at their last sign-in
+        const breachedResult = await pool.query(
+            'SELECT COUNT(*) as count FROM account_credential WHERE password_breached = true'
+        );
+
         // Users by role
         const roleResult = await pool.query(
             `SELECT account_role, COUNT(*) as count 
@@ -665,6 +909,7 @@ export const getDashboardStats = async (
             suspendedUsers: statusCounts.suspended,
             verifiedEmails: parseInt(verifiedResult.rows[0].verified_emails),
             verifiedPhones: parseInt(verifiedResult.rows[0].verified_phones),
+            breachedPasswords: parseInt(breachedResult.rows[0].count),
             usersByRole,
             recentRegistrations: {
                 today: parseInt(recentResult.rows[0].today),
@@ -685,4 +930,291 @@ export const getDashboardStats = async (
             message: 'Failed to retrieve dashboard statistics'
         });
     }
-};
\ No newline at end of file
+};
+
+/**
+ * List service clients
+ * GET /admin/clients
+ */
+export const listServiceClients = async (
+    request: IJwtRequest,
+    response: Response
+): Promise<Response> => {
+    try {
+        const pool = getPool();
+
+        const result = await pool.query(
+            `SELECT ${SERVICE_CLIENT_COLUMNS}
+             FROM service_client
+             ORDER BY created_at DESC`
+        );
+
+        return response.json({
+            success: true,
+            count: result.rows.length,
+            data: result.rows.map(formatServiceClientResponse)
+        });
+
+    } catch (error) {
+        console.error('List service clients error:', error);
+        return response.status(500).json({
+            success: false,
+            message: 'Failed to retrieve service clients'
+        });
+    }
+};
+
+/**
+ * Register a new service client
+ * The secret is returned once and only its hash is stored
+ * POST /admin/clients
+ */
+export const createServiceClient = async (
+    request: IJwtRequest,
+    response: Response
+): Promise<Response> => {
+    try {
+        const pool = getPool();
+        const { name, scopes } = request.body;
+        const ownerId = request.body.owner_id ?? request.claims.id;
+
+        const ownerCheck = await pool.query(
+            'SELECT account_id FROM account WHERE account_id = $1',
+            [ownerId]
+        );
+
+        if (ownerCheck.rows.length === 0) {
+            return response.status(404).json({
+                success: false,
+                message: 'Owner account not found'
+            });
+        }
+
+        const { clientId, clientSecret, secretHash } = generateServiceClientCredentials();
+
+        const result = await pool.query(
+            `INSERT INTO service_client
+             (client_id, client_name, client_secret_hash, allowed_scopes, owner_account_id)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING ${SERVICE_CLIENT_COLUMNS}`,
+            [clientId, name, secretHash, [...new Set(scopes as string[])].join(' '), ownerId]
+        );
+
+        return response.status(201).json({
+            success: true,
+            message: 'Service client created successfully. Store the secret now - it cannot be shown again',
+            data: {
+                ...formatServiceClientResponse(result.rows[0]),
+                client_secret: clientSecret
+            }
+        });
+
+    } catch (error) {
+        console.error('Create service client error:', error);
+        return response.status(500).json({
+            success: false,
+            message: 'Failed to create service client'
+        });
+    }
+};
+
+/**
+ * Get a specific service client
+ * GET /admin/clients/:clientId
+ */
+export const getServiceClientById = async (
+    request: IJwtRequest,
+    response: Response
+): Promise<Response> => {
+    try {
+        const pool = getPool();
+
+        const result = await pool.query(
+            `SELECT ${SERVICE_CLIENT_COLUMNS}
+             FROM service_client
+             WHERE client_id = $1`,
+            [request.params.clientId]
+        );
+
+        if (result.rows.length === 0) {
+            return response.status(404).json({
+                success: false,
+                message: 'Service client not found'
+            });
+        }
+
+        return response.json({
+            success: true,
+            data: formatServiceClientResponse(result.rows[0])
+        });
+
+    } catch (error) {
+        console.error('Get service client error:', error);
+        return response.status(500).json({
+            success: false,
+            message: 'Failed to retrieve service client'
+        });
+    }
+};
+
+/**
+ * Update a service client's name, scopes or enabled flag
+ * Disabling a client or narrowing its scopes revokes its outstanding tokens
+ * PUT /admin/clients/:clientId
+ */
+export const updateServiceClient = async (
+    request: IJwtRequest,
+    response: Response
+): Promise<Response> => {
+    try {
+        const pool = getPool();
+        const { name, scopes } = request.body;
+        const isActive = request.body.is_active;
+
+        const updates: string[] = [];
+        const values: Array<string | boolean> = [];
+        let paramCount = 1;
+
+        if (name !== undefined) {
+            updates.push(`client_name = $${paramCount++}`);
+            values.push(name);
+        }
+        if (scopes !== undefined) {
+            updates.push(`allowed_scopes = $${paramCount++}`);
+            values.push([...new Set(scopes as string[])].join(' '));
+        }
+        if (isActive !== undefined) {
+            updates.push(`is_active = $${paramCount++}`);
+            values.push(isActive);
+        }
+
+        if (updates.length === 0) {
+            return response.status(400).json({
+                success: false,
+                message: 'No fields to update'
+            });
+        }
+
+        if (scopes !== undefined || isActive === false) {
+            updates.push('token_version = token_version + 1');
+        }
+
+        updates.push('updated_at = CURRENT_TIMESTAMP');
+        values.push(request.params.clientId as string);
+
+        const result = await pool.query(
+            `UPDATE service_client
+             SET ${updates.join(', ')}
+             WHERE client_id = $${paramCount}
+             RETURNING ${SERVICE_CLIENT_COLUMNS}`,
+            values
+        );
+
+        if (result.rows.length === 0) {
+            return response.status(404).json({
+                success: false,
+                message: 'Service client not found'
+            });
+        }
+
+        return response.json({
+            success: true,
+            message: 'Service client updated successfully',
+            data: formatServiceClientResponse(result.rows[0])
+        });
+
+    } catch (error) {
+        console.error('Update service client error:', error);
+        return response.status(500).json({
+            success: false,
+            message: 'Failed to update service client'
+        });
+    }
+};
+
+/**
+ * Replace a service client's secret
+ * Tokens issued under the old secret stop working immediately
+ * POST /admin/clients/:clientId/secret
+ */
+export const rotateServiceClientSecret = async (
+    request: IJwtRequest,
+    response: Response
+): Promise<Response> => {
+    try {
+        const pool = getPool();
+        const { clientSecret, secretHash } = generateServiceClientSecret();
+
+        const result = await pool.query(
+            `UPDATE service_client
+             SET client_secret_hash = $1, token_version = token_version + 1, updated_at = CURRENT_TIMESTAMP
+             WHERE client_id = $2
+             RETURNING ${SERVICE_CLIENT_COLUMNS}`,
+            [secretHash, request.params.clientId]
+        );
+
+        if (result.rows.length === 0) {
+            return response.status(404).json({
+                success: false,
+                message: 'Service client not found'
+            });
+        }
+
+        return response.json({
+            success: true,
+            message: 'Client secret rotated successfully. Store the secret now - it cannot be shown again',
+            data: {
+                ...formatServiceClientResponse(result.rows[0]),
+                client_secret: clientSecret
+            }
+        });
+
+    } catch (error) {
+        console.error('Rotate client secret error:', error);
+        return response.status(500).json({
+            success: false,
+            message: 'Failed to rotate client secret'
+        });
+    }
+};
+
+/**
+ * Delete a service client
+ * Its tokens fail validation as soon as the row is gone
+ * DELETE /admin/clients/:clientId
+ */
+export const deleteServiceClient = async (
+    request: IJwtRequest,
+    response: Response
+): Promise<Response> => {
+    try {
+        const pool = getPool();
+
+        const result = await pool.query(
+            `DELETE FROM service_client
+             WHERE client_id = $1
+             RETURNING client_id, client_name`,
+            [request.params.clientId]
+        );
+
+        if (result.rows.length === 0) {
+            return response.status(404).json({
+                success: false,
+                message: 'Service client not found'
+            });
+        }
+
+        return response.json({
+            success: true,
+            message: 'Service client deleted successfully',
+            data: result.rows[0]
+        });
+
+    } catch (error) {
+        console.error('Delete service client error:', error);
+        return response.status(500).json({
+            success: false,
+            message: 'Failed to delete service client'
+        });
+    }
+};
@@ -1,23 +1,92 @@
 // src/controllers/authController.ts
 import { Response } from 'express';
-import jwt from 'jsonwebtoken';
 import {
     pool,
     sendSuccess,
     sendError,
+    sendValidationError,
     ErrorCodes,
-    generateSalt,
-    generateHash,
     verifyPassword,
+    readPasswordHash,
     getEnvVar,
     sendPasswordResetEmail,
     isDevelopment,
     generateAccessToken,
-    generatePasswordResetToken,
     validateUserUniqueness,
-    executeTransactionWithResponse
+    executeTransactionWithResponse,
+    withTransaction,
+    invalidateAccountState,
+    createLoginSession,
+    authenticateWithPassword,
+    rotateRefreshToken,
+    revokeAllRefreshTokens,
+    revokeRefreshTokenFamily,
+    revokeAccessToken,
+    revokeAllSessions,
+    hashToken,
+    getAccountStatusError,
+    createMfaChallenge,
+    isTotpEnabled,
+    readMfaChallenge,
+    verifySecondFactor,
+    startTotpEnrollment,
+    confirmTotpEnrollment,
+    regenerateRecoveryCodes,
+    getSessionAccount,
+    formatLoginUser,
+    checkUserExistence,
+    issueMagicLinkToken,
+    redeemMagicLinkToken,
+    sendMagicLinkEmail,
+    sendSMSViaEmail,
+    findSmsLoginAccount,
+    issueSmsLoginCode,
+    redeemSmsLoginCode,
+    describeRetryAfter,
+    checkNewPassword,
+    savePassword,
+    issuePasswordResetToken,
+    findPasswordResetToken,
+    redeemPasswordResetToken,
+    getPasswordPolicy,
+    prefersHtml,
+    sendPage,
+    renderAccountPage,
+    renderPasswordResetForm,
+    scheduleAccountDeletion,
+    restoreAccount,
+    sendAccountClosureEmail,
+    sendAttachment,
+    requestDataExport,
+    findDataExport,
+    DataExportFormat
 } from '@utilities';
-import { IJwtRequest, JWT_RESET_EXPIRY } from '@models';
+import { IJwtRequest, PASSWORD_RESET_EXPIRY_MINUTES, MAGIC_LINK_EXPIRY_MINUTES, SMS_LOGIN_CODE_EXPIRY_MINUTES } from '@models';
+
+/**
+ * Answer a reset link that can't be used: the expired or invalid page for
+ * browsers, AUTH010 for API clients
+ */
+const sendResetTokenError = (request: IJwtRequest, response: Response, status: 'expired' | 'invalid'): void => {
+    if (prefersHtml(request)) {
+        sendPage(response, 400, renderAccountPage(status === 'expired' ? 'password-reset-expired' : 'password-reset-invalid'));
+        return;
+    }
+    sendError(response, 400, 'Invalid or expired reset token', ErrorCodes.AUTH_INVALID_TOKEN);
+};
+
+/**
+ * Refuse a second factor while it is locked after too many wrong codes
+ */
+const sendSecondFactorLocked = (response: Response, retryAfterSeconds: number): void => {
+    response.set('Retry-After', String(retryAfterSeconds));
+    sendError(
+        response,
+        429,
+        `Too many invalid authentication codes. Try again in ${describeRetryAfter(retryAfterSeconds)}.`,
+        ErrorCodes.AUTH_TOO_MANY_ATTEMPTS
+    );
+};
 
 export class AuthController {
     /**
@@ -26,6 +95,12 @@ export class AuthController {
     static async register(request: IJwtRequest, response: Response): Promise<void> {
         const { firstname, lastname, email, password, username, phone } = request.body;
 
+        const violations = await checkNewPassword(pool, password, { username, email });
+        if (violations.length > 0) {
+            sendValidationError(response, violations);
+            return;
+        }
+
         // Check if user already exists
         const userExists = await validateUserUniqueness(
             { email, username, phone },
@@ -47,37 +122,21 @@ export class AuthController {
 
                 const accountId = insertAccountResult.rows[0].account_id;
 
-                // Generate salt and hash for password
-                const salt = generateSalt();
-                const saltedHash = generateHash(password, salt);
-
-                // Store credentials
-                await client.query(
-                    'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, $3)',
-                    [accountId, saltedHash, salt]
-                );
+                await savePassword(client, accountId, password);
 
-                // Generate JWT token
-                const token = generateAccessToken({
-                    id: accountId,
+                // Start a session (access token + refresh token)
+                return createLoginSession(client, {
+                    account_id: accountId,
+                    firstname,
+                    lastname,
+                    username,
                     email,
-                    role: 1
+                    account_role: 1,
+                    email_verified: false,
+                    phone_verified: false,
+                    account_status: 'pending',
+                    token_version: 0,
                 });
-
-                return {
-                    accessToken: token,
-                    user: {
-                        id: accountId,
-                        email,
-                        name: firstname,
-                        lastname,
-                        username,
-                        role: 'User',
-                        emailVerified: false,
-                        phoneVerified: false,
-                        accountStatus: 'pending',
-                    },
-                };
             },
             response,
             'User registration successful',
@@ -93,76 +152,676 @@ export class AuthController {
         const { email, password } = request.body;
 
         try {
-            // Find account
+            const authentication = await authenticateWithPassword(email, password, request.ip);
+
+            if (authentication.status === 'invalid_credentials') {
+                sendError(response, 401, 'Invalid credentials', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                return;
+            }
+            if (authentication.status === 'locked_out') {
+                // Same answer for unknown emails, so this doesn't reveal whether the account exists
+                const { scope, retryAfterSeconds } = authentication.lockout;
+                response.set('Retry-After', String(retryAfterSeconds));
+                sendError(
+                    response,
+                    429,
+                    `Too many failed login attempts. Try again in ${describeRetryAfter(retryAfterSeconds)}.`,
+                    scope === 'account' ? ErrorCodes.AUTH_ACCOUNT_LOCKED : ErrorCodes.AUTH_TOO_MANY_ATTEMPTS
+                );
+                return;
+            }
+            if (authentication.status === 'blocked') {
+                const { statusError } = authentication;
+                sendError(response, statusError.httpStatus, statusError.message, statusError.errorCode);
+                return;
+            }
+
+            const { account } = authentication;
+
+            // Password alone isn't enough - hand back a challenge for the second factor
+            if (await isTotpEnabled(account.account_id)) {
+                sendSuccess(response, createMfaChallenge(account), 'Two-factor authentication required');
+                return;
+            }
+
+            // Start a session (access token + refresh token)
+            const session = await createLoginSession(pool, account);
+
+            sendSuccess(response, session, 'Login successful');
+
+        } catch (error) {
+            console.error('Login error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Second login step for accounts with two-factor authentication
+     * Exchanges the challenge token from /auth/login plus a TOTP code (or a
+     * recovery code) for a session
+     */
+    static async loginWithMfa(request: IJwtRequest, response: Response): Promise<void> {
+        const { mfaToken, code } = request.body;
+
+        try {
+            const challenge = await readMfaChallenge(mfaToken);
+
+            if (challenge.status === 'invalid') {
+                sendError(response, 401, 'Two-factor challenge is invalid or has expired. Please log in again.', ErrorCodes.AUTH_MFA_CHALLENGE_INVALID);
+                return;
+            }
+            if (challenge.status === 'blocked') {
+                const { statusError } = challenge;
+                sendError(response, statusError.httpStatus, statusError.message, statusError.errorCode);
+                return;
+            }
+
+            const secondFactor = await verifySecondFactor(challenge.account, code);
+            if (secondFactor.outcome === 'locked') {
+                sendSecondFactorLocked(response, secondFactor.retryAfterSeconds);
+                return;
+            }
+            if (secondFactor.outcome === 'invalid') {
+                sendError(response, 401, 'Invalid authentication code', ErrorCodes.AUTH_MFA_INVALID_CODE);
+                return;
+            }
+
+            const session = await createLoginSession(pool, challenge.account);
+
+            sendSuccess(response, session, 'Login successful');
+
+        } catch (error) {
+            console.error('MFA login error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Email a single-use sign-in link (passwordless login)
+     * Only verified, active accounts get a link, but the response is the same
+     * either way so it can't be used to discover accounts
+     */
+    static async requestMagicLink(request: IJwtRequest, response: Response): Promise<void> {
+        const { email } = request.body;
+        const message = 'If the email exists and is verified, a sign-in link will be sent.';
+
+        try {
             const accountResult = await pool.query(
-                `SELECT 
-                    a.Account_ID, a.FirstName, a.LastName, a.Username, 
-                    a.Email, a.Account_Role, a.Email_Verified, 
-                    a.Phone_Verified, a.Account_Status,
-                    ac.Salted_Hash, ac.Salt
-                FROM Account a 
-                LEFT JOIN Account_Credential ac ON a.Account_ID = ac.Account_ID 
-                WHERE a.Email = $1`,
+                'SELECT Account_ID, FirstName, Email_Verified, Account_Status FROM Account WHERE Email = $1',
                 [email]
             );
+            const account = accountResult.rows[0];
+
+            if (!account || !account.email_verified || getAccountStatusError(account.account_status)) {
+                sendSuccess(response, null, message);
+                return;
+            }
+
+            const token = await issueMagicLinkToken(account.account_id, email);
+
+            const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
+            const loginUrl = `${baseUrl}/auth/login/magic-link/verify?token=${token}`;
+
+            // Not awaited, so the response time doesn't show whether an email went out
+            void sendMagicLinkEmail(email, account.firstname, loginUrl, MAGIC_LINK_EXPIRY_MINUTES);
+
+            sendSuccess(response, null, message);
+
+        } catch (error) {
+            console.error('Magic link request error:', error);
+            sendError(response, 500, 'Failed to process sign-in link request', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Sign in with an emailed link
+     * Returns the same response as /auth/login, including the two-factor
+     * challenge for accounts that have it enabled
+     */
+    static async loginWithMagicLink(request: IJwtRequest, response: Response): Promise<void> {
+        const token = request.query.token as string;
+
+        try {
+            const redemption = await redeemMagicLinkToken(token);
+
+            if (redemption.status === 'invalid') {
+                sendError(response, 401, 'Sign-in link is invalid or has expired', ErrorCodes.AUTH_MAGIC_LINK_INVALID);
+                return;
+            }
+            if (redemption.status === 'blocked') {
+                const { statusError } = redemption;
+                sendError(response, statusError.httpStatus, statusError.message, statusError.errorCode);
+                return;
+            }
+
+            const { account } = redemption;
+
+            if (await isTotpEnabled(account.account_id)) {
+                sendSuccess(response, createMfaChallenge(account), 'Two-factor authentication required');
+                return;
+            }
+
+            const session = await createLoginSession(pool, account);
+
+            sendSuccess(response, session, 'Login successful');
+
+        } catch (error) {
+            console.error('Magic link login error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Text a one-time sign-in code to a verified phone
+     * Like the magic link, the response never says whether a code was sent
+     */
+    static async requestSmsLoginCode(request: IJwtRequest, response: Response): Promise<void> {
+        const { phone, carrier } = request.body;
+        const message = 'If the phone number is verified on an account, a sign-in code will be sent.';
+
+        try {
+            const account = await findSmsLoginAccount(phone);
+            const code = account ? await issueSmsLoginCode(account) : null;
+
+            if (code) {
+                const text = `Auth² sign-in code: ${code}\nExpires in ${SMS_LOGIN_CODE_EXPIRY_MINUTES} min\nDo not share`;
+
+                // Not awaited, so the response time doesn't show whether a text went out
+                void sendSMSViaEmail(phone, text, carrier);
+            }
+
+            sendSuccess(response, null, message);
+
+        } catch (error) {
+            console.error('SMS login code request error:', error);
+            sendError(response, 500, 'Failed to process sign-in code request', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Sign in with a texted code
+     * Returns the same response as /auth/login, including the two-factor
+     * challenge for accounts that have it enabled
+     */
+    static async loginWithSmsCode(request: IJwtRequest, response: Response): Promise<void> {
+        const { phone, code } = request.body;
+
+        try {
+            const redemption = await redeemSmsLoginCode(phone, code);
+
+            if (redemption.status === 'invalid') {
+                sendError(response, 401, 'Invalid or expired sign-in code', ErrorCodes.AUTH_SMS_CODE_INVALID);
+                return;
+            }
+            if (redemption.status === 'blocked') {
+                const { statusError } = redemption;
+                sendError(response, statusError.httpStatus, statusError.message, statusError.errorCode);
+                return;
+            }
+
+            const { account } = redemption;
+
+            if (await isTotpEnabled(account.account_id)) {
+                sendSuccess(response, createMfaChallenge(account), 'Two-factor authentication required');
+                return;
+            }
+
+            const session = await createLoginSession(pool, account);
+
+            sendSuccess(response, session, 'Login successful');
+
+        } catch (error) {
+            console.error('SMS login error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Start TOTP enrollment
+     * Returns the secret and an otpauth:// URI for the authenticator app;
+     * two-factor is only switched on once a code is confirmed
+     */
+    static async setupTotp(request: IJwtRequest, response: Response): Promise<void> {
+        const { id, email } = request.claims;
+
+        try {
+            const enrollment = await startTotpEnrollment(id, email);
+
+            if (!enrollment) {
+                sendError(response, 409, 'Two-factor authentication is already enabled', ErrorCodes.AUTH_MFA_ALREADY_ENABLED);
+                return;
+            }
+
+            sendSuccess(response, enrollment, 'Scan the code with your authenticator app, then confirm with a code');
+
+        } catch (error) {
+            console.error('TOTP setup error:', error);
+            sendError(response, 500, 'Failed to start two-factor setup', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Confirm TOTP enrollment with a code from the authenticator app
+     * Returns the recovery codes - the only time they are shown
+     */
+    static async confirmTotp(request: IJwtRequest, response: Response): Promise<void> {
+        const { code } = request.body;
+
+        try {
+            const result = await confirmTotpEnrollment(request.claims.id, code);
+
+            switch (result.status) {
+                case 'not_started':
+                    sendError(response, 400, 'Start two-factor setup first', ErrorCodes.AUTH_MFA_NOT_STARTED);
+                    return;
+                case 'already_enabled':
+                    sendError(response, 409, 'Two-factor authentication is already enabled', ErrorCodes.AUTH_MFA_ALREADY_ENABLED);
+                    return;
+                case 'invalid_code':
+                    sendError(response, 400, 'Invalid authentication code', ErrorCodes.AUTH_MFA_INVALID_CODE);
+                    return;
+                default:
+                    sendSuccess(
+                        response,
+                        { recoveryCodes: result.recoveryCodes },
+                        'Two-factor authentication enabled. Store these recovery codes somewhere safe.'
+                    );
+            }
+
+        } catch (error) {
+            console.error('TOTP confirm error:', error);
+            sendError(response, 500, 'Failed to confirm two-factor setup', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Replace the account's recovery codes with a fresh set
+     * Needs a current second factor (TOTP or an unused recovery code), so a
+     * stolen access token alone can't mint codes that bypass two-factor
+     */
+    static async regenerateRecoveryCodes(request: IJwtRequest, response: Response): Promise<void> {
+        const { code } = request.body;
+
+        try {
+            const account = await getSessionAccount(request.claims.id);
+
+            if (!account || !(await isTotpEnabled(account.account_id))) {
+                sendError(response, 400, 'Two-factor authentication is not enabled', ErrorCodes.AUTH_MFA_NOT_ENABLED);
+                return;
+            }
+
+            const secondFactor = await verifySecondFactor(account, code);
+            if (secondFactor.outcome === 'locked') {
+                sendSecondFactorLocked(response, secondFactor.retryAfterSeconds);
+                return;
+            }
+            if (secondFactor.outcome === 'invalid') {
+                sendError(response, 401, 'Invalid authentication code', ErrorCodes.AUTH_MFA_INVALID_CODE);
+                return;
+            }
+
+            const recoveryCodes = await regenerateRecoveryCodes(account.account_id);
+
+            sendSuccess(response, { recoveryCodes }, 'New recovery codes generated. Earlier codes no longer work.');
+
+        } catch (error) {
+            console.error('Recovery code regeneration error:', error);
+            sendError(response, 500, 'Failed to generate recovery codes', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Exchange a refresh token for a new access token
+     * The presented refresh token is rotated - it cannot be used again
+     */
+    static async refreshToken(request: IJwtRequest, response: Response): Promise<void> {
+        const { refreshToken } = request.body;
+
+        try {
+            const rotation = await rotateRefreshToken(refreshToken);
+
+            if (rotation.status === 'reused') {
+                sendError(response, 401, 'Refresh token has already been used. Please log in again.', ErrorCodes.AUTH_REFRESH_TOKEN_REUSED);
+                return;
+            }
+            if (rotation.status === 'expired') {
+                sendError(response, 401, 'Refresh token has expired. Please log in again.', ErrorCodes.AUTH_TOKEN_EXPIRED);
+                return;
+            }
+            if (rotation.status === 'invalid') {
+                sendError(response, 401, 'Invalid refresh token', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+
+            // Load current account details so role/status changes take effect
+            const accountResult = await pool.query(
+                'SELECT Account_ID, Email, Account_Role, Account_Status, Token_Version FROM Account WHERE Account_ID = $1',
+                [rotation.accountId]
+            );
 
             if (accountResult.rowCount === 0) {
-                sendError(response, 401, 'Invalid credentials', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                sendError(response, 401, 'Invalid refresh token', ErrorCodes.AUTH_INVALID_TOKEN);
                 return;
             }
 
             const account = accountResult.rows[0];
 
-            // Check account status
-            if (account.account_status === 'suspended') {
-                sendError(response, 403, 'Account is suspended. Please contact support.', ErrorCodes.AUTH_ACCOUNT_SUSPENDED);
+            // Suspended, locked and deleted accounts lose all of their sessions
+            const statusError = getAccountStatusError(account.account_status);
+            if (statusError) {
+                await revokeAllRefreshTokens(pool, account.account_id);
+                sendError(response, statusError.httpStatus, statusError.message, statusError.errorCode);
                 return;
             }
-            if (account.account_status === 'locked') {
-                sendError(response, 403, 'Account is locked. Please contact support.', ErrorCodes.AUTH_ACCOUNT_LOCKED);
+
+            const accessToken = generateAccessToken({
+                id: account.account_id,
+                email: account.email,
+                role: account.account_role,
+                tokenVersion: account.token_version
+            });
+
+            sendSuccess(response, {
+                accessToken,
+                refreshToken: rotation.refreshToken.token,
+            }, 'Token refreshed successfully');
+
+        } catch (error) {
+            console.error('Token refresh error:', error);
+            sendError(response, 500, 'Failed to refresh token', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Log out the current session
+     * Revokes the presented access token and, if supplied, the refresh token family
+     */
+    static async logout(request: IJwtRequest, response: Response): Promise<void> {
+        const { jti, id, exp } = request.claims;
+        const { refreshToken } = request.body ?? {};
+
+        try {
+            await revokeAccessToken(pool, jti, id, new Date(exp * 1000));
+
+            if (refreshToken) {
+                // Only revoke a family that belongs to the caller
+                const tokenResult = await pool.query(
+                    'SELECT Family_ID FROM Refresh_Token WHERE Token_Hash = $1 AND Account_ID = $2',
+                    [hashToken(refreshToken), id]
+                );
+
+                if (tokenResult.rowCount > 0) {
+                    await revokeRefreshTokenFamily(pool, tokenResult.rows[0].family_id);
+                }
+            }
+
+            sendSuccess(response, null, 'Logged out successfully');
+
+        } catch (error) {
+            console.error('Logout error:', error);
+            sendError(response, 500, 'Failed to log out', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Log out of every session on every device
+     */
+    static async logoutAll(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+
+        const result = await withTransaction(client => revokeAllSessions(client, userId));
+        if (!result.success) {
+            console.error('Transaction error:', result.error);
+            sendError(response, 500, 'Failed to log out of all sessions', ErrorCodes.SRVR_TRANSACTION_FAILED);
+            return;
+        }
+
+        invalidateAccountState(userId);
+        sendSuccess(response, null, 'Logged out of all sessions successfully');
+    }
+
+    /**
+     * The signed-in user's profile, in the same shape login returns it
+     */
+    static async getProfile(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const account = await getSessionAccount(request.claims.id);
+            if (!account) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
                 return;
             }
 
-            // Verify password
-            if (!account.salted_hash || !verifyPassword(password, account.salt, account.salted_hash)) {
-                sendError(response, 401, 'Invalid credentials', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+            sendSuccess(response, { user: formatLoginUser(account) }, 'Profile retrieved successfully');
+        } catch (error) {
+            console.error('Get profile error:', error);
+            sendError(response, 500, 'Failed to retrieve profile', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Update the signed-in user's name and username
+     * Email and phone changes need verification, so they have their own endpoints
+     */
+    static async updateProfile(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { firstname, lastname, username } = request.body;
+
+        const updates: string[] = [];
+        const values: unknown[] = [];
+        let paramCount = 1;
+
+        if (firstname !== undefined) {
+            updates.push(`FirstName = $${paramCount++}`);
+            values.push(firstname);
+        }
+        if (lastname !== undefined) {
+            updates.push(`LastName = $${paramCount++}`);
+            values.push(lastname);
+        }
+        if (username !== undefined) {
+            updates.push(`Username = $${paramCount++}`);
+            values.push(username);
+        }
+
+        if (updates.length === 0) {
+            sendError(response, 400, 'No fields to update', ErrorCodes.VALD_MISSING_FIELDS);
+            return;
+        }
+
+        try {
+            if (username !== undefined) {
+                const existing = await checkUserExistence({ username, excludeAccountId: userId });
+                if (existing.exists) {
+                    sendError(response, 400, existing.message!, existing.errorCode!);
+                    return;
+                }
+            }
+
+            values.push(userId);
+            const result = await pool.query(
+                `UPDATE Account
+                 SET ${updates.join(', ')}, Updated_At = NOW()
+                 WHERE Account_ID = $${paramCount}
+                 RETURNING Account_ID, FirstName, LastName, Username, Email, Account_Role,
+                           Email_Verified, Phone_Verified, Account_Status, Token_Version`,
+                values
+            );
+
+            if (result.rowCount === 0) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
                 return;
             }
 
-            // Generate JWT token
-            const jwtSecret = getEnvVar('JWT_SECRET');
-            const token = jwt.sign(
-                {
-                    id: account.account_id,
-                    email: account.email,
-                    role: account.account_role
-                },
-                jwtSecret,
-                { expiresIn: '14d' }
+            sendSuccess(response, { user: formatLoginUser(result.rows[0]) }, 'Profile updated successfully');
+        } catch (error) {
+            console.error('Update profile error:', error);
+            sendError(response, 500, 'Failed to update profile', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Close the signed-in user's account
+     * Every session ends now; the data is anonymized after the grace period
+     * unless the user signs in again or follows the emailed restore link
+     */
+    static async closeAccount(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { password, reason } = request.body;
+
+        try {
+            const accountResult = await pool.query(
+                `SELECT a.FirstName, a.Email, c.Salted_Hash, c.Salt, c.Hash_Algorithm, c.Hash_Params
+                 FROM Account a
+                 JOIN Account_Credential c ON c.Account_ID = a.Account_ID
+                 WHERE a.Account_ID = $1`,
+                [userId]
             );
 
-            // Get role name
-            const roleNames = ['', 'User', 'Moderator', 'Admin', 'SuperAdmin', 'Owner'];
-            const roleName = roleNames[account.account_role] || 'User';
+            if (accountResult.rowCount === 0) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            const account = accountResult.rows[0];
 
-            sendSuccess(response, {
-                accessToken: token,
-                user: {
-                    id: account.account_id,
-                    email: account.email,
-                    name: account.firstname,
-                    lastname: account.lastname,
-                    username: account.username,
-                    role: roleName,
-                    emailVerified: account.email_verified,
-                    phoneVerified: account.phone_verified,
-                    accountStatus: account.account_status,
-                },
-            }, 'Login successful');
+            // A stolen access token alone mustn't be enough to close the account
+            if (!await verifyPassword(password, readPasswordHash(account))) {
+                sendError(response, 400, 'Current password is incorrect', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                return;
+            }
+
+            const scheduled = await scheduleAccountDeletion(userId, account.email, reason || null);
+
+            const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
+            const restoreUrl = `${baseUrl}/auth/user/restore?token=${scheduled.restoreToken}`;
+
+            // The account is closed either way - signing in again also restores it
+            const emailSent = await sendAccountClosureEmail(account.email, account.firstname, restoreUrl, scheduled.deletionScheduledFor);
+            if (!emailSent) {
+                console.error(`Account closure email could not be sent for account ${userId}`);
+            }
+
+            const responseData: Record<string, string> = {
+                deletionScheduledFor: scheduled.deletionScheduledFor.toISOString(),
+            };
+
+            // In development, include the restore link
+            if (isDevelopment()) {
+                responseData.restoreUrl = restoreUrl;
+            }
+
+            sendSuccess(response, responseData, 'Account closed. Sign in again or use the emailed link to restore it.');
 
         } catch (error) {
-            console.error('Login error:', error);
-            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+            console.error('Account closure error:', error);
+            sendError(response, 500, 'Failed to close account', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Restore a closed account from the link in the closure email
+     * Browsers get a result page, API clients JSON
+     */
+    static async restoreAccount(request: IJwtRequest, response: Response): Promise<void> {
+        const token = request.query.token as string;
+
+        try {
+            const result = await restoreAccount(token);
+
+            if (result.status === 'invalid') {
+                if (prefersHtml(request)) {
+                    sendPage(response, 400, renderAccountPage('account-restore-invalid'));
+                    return;
+                }
+                sendError(response, 400, 'Invalid or expired restore link', ErrorCodes.AUTH_INVALID_TOKEN);
+                return;
+            }
+
+            if (prefersHtml(request)) {
+                sendPage(response, 200, renderAccountPage('account-restored'));
+                return;
+            }
+            sendSuccess(response, null, 'Account restored. You can sign in again.');
+
+        } catch (error) {
+            console.error('Account restore error:', error);
+            if (prefersHtml(request)) {
+                sendPage(response, 500, renderAccountPage('account-error'));
+                return;
+            }
+            sendError(response, 500, 'Failed to restore account', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Download everything stored about the signed-in user, secrets left out
+     * Small histories are sent straight away; larger ones are built in the
+     * background and a download link is emailed
+     */
+    static async exportData(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const format = (request.query.format as DataExportFormat) || 'json';
+
+        try {
+            const result = await requestDataExport(userId, userId, format);
+
+            switch (result.status) {
+                case 'not_found':
+                    sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                    return;
+                case 'throttled':
+                    sendError(response, 429, 'An export is already being prepared. Please check your email.', ErrorCodes.USER_EXPORT_PENDING);
+                    return;
+                case 'ready':
+                    sendAttachment(response, result.file.filename, result.file.contentType, result.file.body);
+                    return;
+            }
+
+            const responseData: Record<string, string> = {
+                expiresAt: result.expiresAt.toISOString(),
+            };
+
+            // In development, include the download link
+            if (isDevelopment()) {
+                responseData.downloadUrl = result.downloadUrl;
+            }
+
+            sendSuccess(response, responseData, 'Your export is being prepared. A download link will be emailed to you.', 202);
+
+        } catch (error) {
+            console.error('Data export error:', error);
+            sendError(response, 500, 'Failed to export data', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Download an export from the emailed link
+     * The link is the credential, so no sign-in is needed; it works until it expires
+     */
+    static async downloadDataExport(request: IJwtRequest, response: Response): Promise<void> {
+        const token = request.query.token as string;
+
+        try {
+            const result = await findDataExport(token);
+
+            switch (result.status) {
+                case 'invalid':
+                case 'expired':
+                    sendError(response, 400, 'Invalid or expired download link', ErrorCodes.AUTH_INVALID_TOKEN);
+                    return;
+                case 'pending':
+                    sendError(response, 409, 'The export is still being prepared. Please try again shortly.', ErrorCodes.USER_EXPORT_PENDING);
+                    return;
+                case 'failed':
+                    sendError(response, 500, 'The export could not be prepared. Please request a new one.', ErrorCodes.SRVR_GENERIC_ERROR);
+                    return;
+            }
+
+            sendAttachment(response, result.file.filename, result.file.contentType, result.file.body);
+
+        } catch (error) {
+            console.error('Data export download error:', error);
+            sendError(response, 500, 'Failed to download export', ErrorCodes.SRVR_DATABASE_ERROR);
         }
     }
 
@@ -176,7 +835,7 @@ export class AuthController {
         try {
             // Get current credentials
             const credentialsResult = await pool.query(
-                'SELECT Salted_Hash, Salt FROM Account_Credential WHERE Account_ID = $1',
+                'SELECT Salted_Hash, Salt, Hash_Algorithm, Hash_Params FROM Account_Credential WHERE Account_ID = $1',
                 [userId]
             );
 
@@ -185,45 +844,43 @@ export class AuthController {
                 return;
             }
 
-            const { salted_hash, salt } = credentialsResult.rows[0];
+            const stored = readPasswordHash(credentialsResult.rows[0]);
 
             // Verify old password
-            if (!verifyPassword(oldPassword, salt, salted_hash)) {
+            if (!await verifyPassword(oldPassword, stored)) {
                 sendError(response, 400, 'Current password is incorrect', ErrorCodes.AUTH_INVALID_CREDENTIALS);
                 return;
             }
 
-            // Check that new password is different
-            if (verifyPassword(newPassword, salt, salted_hash)) {
-                sendError(response, 400, 'New password must be different from current password', ErrorCodes.VALD_INVALID_PASSWORD);
+            // Policy rules, and no reuse of the current or recent passwords
+            const violations = await checkNewPassword(pool, newPassword, { accountId: userId, field: 'newPassword' });
+            if (violations.length > 0) {
+                sendValidationError(response, violations);
                 return;
             }
 
             // Execute password change transaction
-            await executeTransactionWithResponse(
-                async (client) => {
-                    // Generate new salt and hash
-                    const newSalt = generateSalt();
-                    const newSaltedHash = generateHash(newPassword, newSalt);
-
-                    // Update password
-                    await client.query(
-                        'UPDATE Account_Credential SET Salted_Hash = $1, Salt = $2 WHERE Account_ID = $3',
-                        [newSaltedHash, newSalt, userId]
-                    );
+            const result = await withTransaction(async (client) => {
+                await savePassword(client, userId, newPassword);
 
-                    // Update account timestamp
-                    await client.query(
-                        'UPDATE Account SET Updated_At = NOW() WHERE Account_ID = $1',
-                        [userId]
-                    );
+                // Update account timestamp
+                await client.query(
+                    'UPDATE Account SET Updated_At = NOW() WHERE Account_ID = $1',
+                    [userId]
+                );
 
-                    return null;
-                },
-                response,
-                'Password changed successfully',
-                'Failed to change password'
-            );
+                // Sign out every session, including this one
+                await revokeAllSessions(client, userId);
+            });
+
+            if (!result.success) {
+                console.error('Transaction error:', result.error);
+                sendError(response, 500, 'Failed to change password', ErrorCodes.SRVR_TRANSACTION_FAILED);
+                return;
+            }
+
+            invalidateAccountState(userId);
+            sendSuccess(response, null, 'Password changed successfully');
 
         } catch (error) {
             console.error('Password change error:', error);
@@ -252,15 +909,15 @@ export class AuthController {
 
             const { account_id, firstname } = accountResult.rows[0];
 
-            // Generate reset token (valid for 1 hour)
-            const resetToken = generatePasswordResetToken(account_id, email);
+            // Single-use token, stored hashed
+            const resetToken = await issuePasswordResetToken(account_id, email);
 
             // Create reset URL
             const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
             const resetUrl = `${baseUrl}/auth/password/reset?token=${resetToken}`;
 
             // Send reset email
-            const emailSent = await sendPasswordResetEmail(email, firstname, resetUrl);
+            const emailSent = await sendPasswordResetEmail(email, firstname, resetUrl, PASSWORD_RESET_EXPIRY_MINUTES);
 
             if (!emailSent && !isDevelopment()) {
                 sendError(response, 500, 'Failed to send reset email', ErrorCodes.SRVR_EMAIL_SEND_FAILED);
@@ -279,76 +936,143 @@ export class AuthController {
     }
 
     /**
-     * Reset password with token
+     * Check a reset token without using it up, so front ends can show the form
+     * only for links that still work
      */
-    static async resetPassword(request: IJwtRequest, response: Response): Promise<void> {
-        const { token, password } = request.body;
+    static async validatePasswordResetToken(request: IJwtRequest, response: Response): Promise<void> {
+        const token = request.query.token as string;
 
         try {
-            // Verify and decode reset token
-            let decoded: any;
-            try {
-                decoded = jwt.verify(token, getEnvVar('JWT_SECRET'));
-            } catch (error) {
-                sendError(response, 400, 'Invalid or expired reset token', ErrorCodes.AUTH_INVALID_TOKEN);
+            const resetToken = await findPasswordResetToken(token);
+            if (resetToken.status !== 'valid') {
+                sendResetTokenError(request, response, resetToken.status);
                 return;
             }
 
-            // Validate token type
-            if (decoded.type !== 'password_reset') {
-                sendError(response, 400, 'Invalid reset token', ErrorCodes.AUTH_INVALID_TOKEN);
+            sendSuccess(response, { valid: true, expiresAt: resetToken.expiresAt.toISOString() }, 'Reset token is valid');
+        } catch (error) {
+            console.error('Password reset token check error:', error);
+            sendError(response, 500, 'Failed to check reset token', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Landing page for the link in the reset email
+     * Browsers get the new-password form (or the expired/invalid page); clients
+     * asking for JSON get the same answer as GET /auth/password/reset/validate
+     */
+    static async showPasswordResetPage(request: IJwtRequest, response: Response): Promise<void> {
+        const { token } = request.query;
+
+        if (typeof token !== 'string' || !/^[0-9a-f]{64}$/.test(token)) {
+            sendResetTokenError(request, response, 'invalid');
+            return;
+        }
+
+        if (!prefersHtml(request)) {
+            await AuthController.validatePasswordResetToken(request, response);
+            return;
+        }
+
+        try {
+            const resetToken = await findPasswordResetToken(token);
+            if (resetToken.status !== 'valid') {
+                sendResetTokenError(request, response, resetToken.status);
                 return;
             }
 
-            const userId = decoded.id;
+            sendPage(response, 200, renderPasswordResetForm({ token, minLength: getPasswordPolicy().minLength }));
+        } catch (error) {
+            console.error('Password reset page error:', error);
+            sendPage(response, 500, renderAccountPage('account-error'));
+        }
+    }
 
-            // Verify account still exists
-            const accountCheck = await pool.query(
-                'SELECT Account_ID FROM Account WHERE Account_ID = $1',
-                [userId]
-            );
+    /**
+     * Reset password with token
+     * The token is spent in the same transaction as the password change, so it
+     * works once; any other password change cancels it too. The hosted form
+     * posts here too, and gets pages back instead of JSON
+     */
+    static async resetPassword(request: IJwtRequest, response: Response): Promise<void> {
+        const { token, password, confirmPassword } = request.body;
+        const html = prefersHtml(request);
 
-            if (accountCheck.rowCount === 0) {
-                sendError(response, 404, 'Account not found', ErrorCodes.USER_NOT_FOUND);
+        try {
+            const resetToken = await findPasswordResetToken(token);
+            if (resetToken.status !== 'valid') {
+                sendResetTokenError(request, response, resetToken.status);
                 return;
             }
 
-            // Execute password reset transaction
-            await executeTransactionWithResponse(
-                async (client) => {
-                    // Generate new salt and hash
-                    const salt = generateSalt();
-                    const saltedHash = generateHash(password, salt);
+            const userId = resetToken.accountId;
 
-                    // Update password
-                    const updateResult = await client.query(
-                        'UPDATE Account_Credential SET Salted_Hash = $1, Salt = $2 WHERE Account_ID = $3',
-                        [saltedHash, salt, userId]
-                    );
+            // Only the hosted form sends the confirmation; API clients check it themselves
+            const violations: Array<{ field: string; message: string }> =
+                confirmPassword !== undefined && confirmPassword !== password
+                    ? [{ field: 'confirmPassword', message: 'Passwords do not match' }]
+                    : await checkNewPassword(pool, password, { accountId: userId });
+            if (violations.length > 0) {
+                if (html) {
+                    sendPage(response, 400, renderPasswordResetForm({
+                        token,
+                        minLength: getPasswordPolicy().minLength,
+                        errors: violations.map(violation => violation.message),
+                    }));
+                    return;
+                }
+                sendValidationError(response, violations);
+                return;
+            }
 
-                    if (updateResult.rowCount === 0) {
-                        // If no credentials exist, create them
-                        await client.query(
-                            'INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt) VALUES ($1, $2, $3)',
-                            [userId, saltedHash, salt]
-                        );
-                    }
-
-                    // Update account timestamp
-                    await client.query(
-                        'UPDATE Account SET Updated_At = NOW() WHERE Account_ID = $1',
-                        [userId]
-                    );
+            const result = await withTransaction(async (client) => {
+                // Someone else may have used the token since it was checked
+                if (!await redeemPasswordResetToken(client, token, userId)) {
+                    return false;
+                }
 
-                    return null;
-                },
-                response,
-                'Password reset successful',
-                'Failed to reset password'
-            );
+                // Creates the credential if the account has none
+                await savePassword(client, userId, password);
+
+                // Update account timestamp
+                await client.query(
+                    'UPDATE Account SET Updated_At = NOW() WHERE Account_ID = $1',
+                    [userId]
+                );
+
+                // Sign out every session that may have been using the old password
+                await revokeAllSessions(client, userId);
+
+                return true;
+            });
+
+            if (!result.success) {
+                console.error('Transaction error:', result.error);
+                if (html) {
+                    sendPage(response, 500, renderAccountPage('account-error'));
+                    return;
+                }
+                sendError(response, 500, 'Failed to reset password', ErrorCodes.SRVR_TRANSACTION_FAILED);
+                return;
+            }
+            if (!result.data) {
+                sendResetTokenError(request, response, 'invalid');
+                return;
+            }
+            invalidateAccountState(userId);
+
+            if (html) {
+                sendPage(response, 200, renderAccountPage('password-reset-success'));
+                return;
+            }
+            sendSuccess(response, null, 'Password reset successful');
 
         } catch (error) {
             console.error('Password reset error:', error);
+            if (html) {
+                sendPage(response, 500, renderAccountPage('account-error'));
+                return;
+            }
             sendError(response, 500, 'Failed to reset password', ErrorCodes.SRVR_TRANSACTION_FAILED);
         }
     }
@@ -1,3 +1,6 @@
 // src/controllers/index.ts
 export { AuthController } from './authController';
 export { VerificationController } from './verificationController';
+export { WellKnownController } from './wellKnownController';
+export { OAuthController } from './oauthController';
+export { WebAuthnController } from './webauthnController';
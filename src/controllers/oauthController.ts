@@ -0,0 +1,514 @@
+// src/controllers/oauthController.ts
+import { Request, Response } from 'express';
+import { IJwtRequest } from '@models';
+import {
+    getPool,
+    parseBasicAuthorization,
+    isIntrospectionClient,
+    validateAccessToken,
+    authenticateWithPassword,
+    describeRetryAfter,
+    getAccountStatusError,
+    revokeAllRefreshTokens,
+    rotateRefreshToken,
+    getOAuthClient,
+    verifyClientSecret,
+    resolveScope,
+    authenticateServiceClient,
+    generateServiceAccessToken,
+    validateAuthorizationRequest,
+    buildRedirectUrl,
+    createAuthorizationCode,
+    cancelAccountDeletion,
+    redeemAuthorizationCode,
+    buildOAuthTokenResponse,
+    renderAuthorizePage,
+    renderOAuthErrorPage,
+    sendPage,
+    getUserForClaims,
+    buildUserClaims,
+    hasScope,
+    isTotpEnabled,
+    readMfaChallenge,
+    verifySecondFactor,
+    generateMfaChallengeToken,
+    AuthorizationRequest,
+    IssuedRefreshToken,
+    OAuthClient
+} from '@utilities';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { FIRST_PARTY_SCOPE } from '@models';
+
+/**
+ * OAuth endpoints speak the wire format from the RFCs rather than our
+ * success/message envelope, so standard client libraries can use them
+ */
+const sendOAuthError = (
+    response: Response,
+    status: number,
+    error: string,
+    description: string
+): void => {
+    response.set('Cache-Control', 'no-store');
+    response.status(status).json({ error, error_description: description });
+};
+
+/**
+ * Pull the authorization request parameters out of a query string or form body
+ * Anything that isn't a plain string (repeated or nested parameters) is dropped
+ */
+const readAuthorizationRequest = (source: Record<string, unknown> = {}): AuthorizationRequest => {
+    const fields: Array<keyof AuthorizationRequest> = [
+        'response_type',
+        'client_id',
+        'redirect_uri',
+        'scope',
+        'state',
+        'code_challenge',
+        'code_challenge_method',
+        'nonce',
+    ];
+
+    const params: AuthorizationRequest = {};
+    fields.forEach(field => {
+        if (typeof source[field] === 'string') {
+            params[field] = source[field] as string;
+        }
+    });
+    return params;
+};
+
+/**
+ * Reject a client that failed to authenticate (RFC 6749 §5.2)
+ */
+const sendInvalidClient = (response: Response, usedBasicAuth: boolean): void => {
+    if (usedBasicAuth) {
+        response.set('WWW-Authenticate', 'Basic realm="oauth"');
+    }
+    sendOAuthError(response, 401, 'invalid_client', 'Client authentication failed');
+};
+
+/**
+ * Issue an access token to a service client (client_credentials grant)
+ * There is no user and no refresh token - the client simply asks again
+ */
+const sendServiceTokenResponse = async (
+    response: Response,
+    clientId: string,
+    clientSecret: unknown,
+    requestedScope: unknown,
+    usedBasicAuth: boolean
+): Promise<void> => {
+    const serviceClient = typeof clientSecret === 'string'
+        ? await authenticateServiceClient({ clientId, clientSecret })
+        : null;
+
+    if (!serviceClient) {
+        sendInvalidClient(response, usedBasicAuth);
+        return;
+    }
+
+    const scope = resolveScope(
+        typeof requestedScope === 'string' ? requestedScope : undefined,
+        serviceClient.allowed_scopes
+    );
+    if (scope === null) {
+        sendOAuthError(response, 400, 'invalid_scope', 'Requested scope is not allowed for this client');
+        return;
+    }
+
+    const accessToken = generateServiceAccessToken({
+        clientId: serviceClient.client_id,
+        scope,
+        tokenVersion: serviceClient.token_version,
+    });
+    const { iat, exp } = jwt.decode(accessToken) as JwtPayload;
+
+    response.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+    response.json({
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: exp - iat,
+        scope,
+    });
+};
+
+/**
+ * Load the account behind a grant and issue its tokens
+ * Role, status and profile are read fresh so changes since login take effect
+ */
+const sendTokenResponse = async (
+    response: Response,
+    client: OAuthClient,
+    accountId: number,
+    scope: string,
+    refreshToken: IssuedRefreshToken,
+    nonce: string | null = null
+): Promise<void> => {
+    const accountResult = await getPool().query(
+        `SELECT Account_ID, FirstName, LastName, Username, Email, Phone, Account_Role,
+                Email_Verified, Phone_Verified, Account_Status, Token_Version, Updated_At
+         FROM Account WHERE Account_ID = $1`,
+        [accountId]
+    );
+
+    if (accountResult.rowCount === 0) {
+        sendOAuthError(response, 400, 'invalid_grant', 'The grant is no longer valid');
+        return;
+    }
+
+    const account = accountResult.rows[0];
+
+    // Suspended, locked and deleted accounts lose all of their sessions
+    const statusError = getAccountStatusError(account.account_status);
+    if (statusError) {
+        await revokeAllRefreshTokens(getPool(), account.account_id);
+        sendOAuthError(response, 400, 'invalid_grant', statusError.message);
+        return;
+    }
+
+    response.set({ 'Cache-Control': 'no-store', Pragma: 'no-cache' });
+    response.json(buildOAuthTokenResponse(account, client.client_id, scope, refreshToken, nonce));
+};
+
+export class OAuthController {
+    /**
+     * Start an authorization code flow
+     * Shows the login/consent page if the request is valid
+     */
+    static async authorize(request: Request, response: Response): Promise<void> {
+        const params = readAuthorizationRequest(request.query as Record<string, unknown>);
+
+        try {
+            const validation = await validateAuthorizationRequest(params);
+
+            if (validation.status === 'fatal') {
+                sendPage(response, 400, renderOAuthErrorPage(validation.message));
+                return;
+            }
+            if (validation.status === 'redirect') {
+                response.redirect(302, buildRedirectUrl(validation.redirectUri, {
+                    error: validation.error,
+                    error_description: validation.description,
+                    state: params.state,
+                }));
+                return;
+            }
+
+            sendPage(response, 200, renderAuthorizePage({
+                client: validation.client,
+                scope: validation.scope,
+                request: params,
+            }));
+        } catch (error) {
+            console.error('Authorization request error:', error);
+            sendPage(response, 500, renderOAuthErrorPage('The server could not process the request.'));
+        }
+    }
+
+    /**
+     * Handle the login/consent form
+     * On approval with valid credentials, redirects back with a one-time code
+     */
+    static async authorizeDecision(request: Request, response: Response): Promise<void> {
+        const body = request.body ?? {};
+        const params = readAuthorizationRequest(body);
+
+        try {
+            // The hidden fields came back from the browser - check them again
+            const validation = await validateAuthorizationRequest(params);
+
+            if (validation.status === 'fatal') {
+                sendPage(response, 400, renderOAuthErrorPage(validation.message));
+                return;
+            }
+            if (validation.status === 'redirect') {
+                response.redirect(302, buildRedirectUrl(validation.redirectUri, {
+                    error: validation.error,
+                    error_description: validation.description,
+                    state: params.state,
+                }));
+                return;
+            }
+
+            if (body.decision !== 'allow') {
+                response.redirect(302, buildRedirectUrl(validation.redirectUri, {
+                    error: 'access_denied',
+                    error_description: 'The user denied the request',
+                    state: params.state,
+                }));
+                return;
+            }
+
+            const showForm = (status: number, error?: string, mfaToken?: string, email?: string) => {
+                sendPage(response, status, renderAuthorizePage({
+                    client: validation.client,
+                    scope: validation.scope,
+                    request: params,
+                    email,
+                    error,
+                    mfaToken,
+                }));
+            };
+
+            let accountId: number;
+
+            if (typeof body.mfa_token === 'string') {
+                // Second step: the password was right, now check the authenticator or recovery code
+                const challenge = await readMfaChallenge(body.mfa_token);
+                if (challenge.status === 'invalid') {
+                    showForm(401, 'Your sign-in expired. Please sign in again.');
+                    return;
+                }
+                if (challenge.status === 'blocked') {
+                    showForm(403, challenge.statusError.message);
+                    return;
+                }
+
+                const totpCode = typeof body.totp_code === 'string' ? body.totp_code.trim() : '';
+                const secondFactor = await verifySecondFactor(challenge.account, totpCode);
+                if (secondFactor.outcome === 'locked') {
+                    const wait = describeRetryAfter(secondFactor.retryAfterSeconds);
+                    showForm(429, `Too many invalid authentication codes. Try again in ${wait}.`);
+                    return;
+                }
+                if (secondFactor.outcome === 'invalid') {
+                    showForm(401, 'Invalid authentication code.', body.mfa_token);
+                    return;
+                }
+
+                accountId = challenge.account.account_id;
+            } else {
+                const email = typeof body.email === 'string' ? body.email : '';
+                const password = typeof body.password === 'string' ? body.password : '';
+                const authentication = await authenticateWithPassword(email, password, request.ip);
+
+                if (authentication.status === 'locked_out') {
+                    const wait = describeRetryAfter(authentication.lockout.retryAfterSeconds);
+                    showForm(429, `Too many failed sign-in attempts. Try again in ${wait}.`, undefined, email);
+                    return;
+                }
+                if (authentication.status !== 'authenticated') {
+                    const isBlocked = authentication.status === 'blocked';
+                    showForm(
+                        isBlocked ? 403 : 401,
+                        authentication.status === 'blocked'
+                            ? authentication.statusError.message
+                            : 'Invalid email or password.',
+                        undefined,
+                        email
+                    );
+                    return;
+                }
+
+                const { account } = authentication;
+
+                // Same rule as /auth/login: two-factor accounts need their code too
+                if (await isTotpEnabled(account.account_id)) {
+                    showForm(200, undefined, generateMfaChallengeToken(account.account_id, account.token_version));
+                    return;
+                }
+
+                accountId = account.account_id;
+            }
+
+            // Signing in to an app counts as coming back, as it does for /auth/login
+            await cancelAccountDeletion(getPool(), accountId);
+
+            const code = await createAuthorizationCode(getPool(), {
+                clientId: validation.client.client_id,
+                accountId,
+                redirectUri: validation.redirectUri,
+                scope: validation.scope,
+                codeChallenge: params.code_challenge,
+                nonce: params.nonce,
+            });
+
+            response.redirect(302, buildRedirectUrl(validation.redirectUri, {
+                code,
+                state: params.state,
+            }));
+        } catch (error) {
+            console.error('Authorization decision error:', error);
+            sendPage(response, 500, renderOAuthErrorPage('The server could not process the request.'));
+        }
+    }
+
+    /**
+     * Token endpoint (RFC 6749 §3.2)
+     * Supports authorization_code (with PKCE) and refresh_token grants for
+     * OAuth clients, and client_credentials for service clients.
+     * Confidential clients authenticate with HTTP Basic or client_secret in
+     * the body; public clients just identify themselves with client_id
+     */
+    static async token(request: Request, response: Response): Promise<void> {
+        const body = request.body ?? {};
+        const basicCredentials = parseBasicAuthorization(request.headers.authorization);
+        const clientId = basicCredentials?.clientId ?? body.client_id;
+        const clientSecret = basicCredentials?.clientSecret ?? body.client_secret;
+
+        try {
+            // Service clients live in their own table and never use the user grants
+            if (body.grant_type === 'client_credentials') {
+                if (typeof clientId !== 'string') {
+                    sendInvalidClient(response, Boolean(basicCredentials));
+                    return;
+                }
+                await sendServiceTokenResponse(response, clientId, clientSecret, body.scope, Boolean(basicCredentials));
+                return;
+            }
+
+            const client = typeof clientId === 'string' ? await getOAuthClient(clientId) : null;
+            if (!client || !verifyClientSecret(client, clientSecret)) {
+                sendInvalidClient(response, Boolean(basicCredentials));
+                return;
+            }
+
+            switch (body.grant_type) {
+                case 'authorization_code': {
+                    if (typeof body.code !== 'string') {
+                        sendOAuthError(response, 400, 'invalid_request', 'The code parameter is required');
+                        return;
+                    }
+
+                    const redemption = await redeemAuthorizationCode(body.code, {
+                        clientId: client.client_id,
+                        redirectUri: body.redirect_uri,
+                        codeVerifier: body.code_verifier,
+                    });
+
+                    if (redemption.status !== 'redeemed') {
+                        sendOAuthError(response, 400, 'invalid_grant', 'Invalid, expired or already used authorization code');
+                        return;
+                    }
+
+                    await sendTokenResponse(
+                        response,
+                        client,
+                        redemption.accountId,
+                        redemption.scope,
+                        redemption.refreshToken,
+                        redemption.nonce
+                    );
+                    return;
+                }
+
+                case 'refresh_token': {
+                    if (typeof body.refresh_token !== 'string') {
+                        sendOAuthError(response, 400, 'invalid_request', 'The refresh_token parameter is required');
+                        return;
+                    }
+
+                    const rotation = await rotateRefreshToken(body.refresh_token, client.client_id);
+
+                    if (rotation.status !== 'rotated') {
+                        sendOAuthError(response, 400, 'invalid_grant', 'Invalid, expired or already used refresh token');
+                        return;
+                    }
+
+                    await sendTokenResponse(response, client, rotation.accountId, rotation.scope, rotation.refreshToken);
+                    return;
+                }
+
+                default:
+                    sendOAuthError(response, 400, 'unsupported_grant_type', 'Supported grant types: authorization_code, refresh_token, client_credentials');
+            }
+        } catch (error) {
+            console.error('Token endpoint error:', error);
+            sendOAuthError(response, 500, 'server_error', 'Failed to issue tokens');
+        }
+    }
+
+    /**
+     * Token introspection for resource servers (RFC 7662)
+     * Callers authenticate with HTTP Basic using INTROSPECTION_CLIENTS.
+     * Any token we can't vouch for - bad signature, expired, revoked, or
+     * belonging to a suspended/locked/deleted account - is simply inactive
+     */
+    static async introspect(request: Request, response: Response): Promise<void> {
+        const credentials = parseBasicAuthorization(request.headers.authorization);
+        if (!credentials || !isIntrospectionClient(credentials)) {
+            response.set('WWW-Authenticate', 'Basic realm="introspection"');
+            sendOAuthError(response, 401, 'invalid_client', 'Client authentication failed');
+            return;
+        }
+
+        const token = request.body?.token;
+        if (typeof token !== 'string' || token.length === 0) {
+            sendOAuthError(response, 400, 'invalid_request', 'The token parameter is required');
+            return;
+        }
+
+        try {
+            const result = await validateAccessToken(token, { allowOAuthTokens: true });
+
+            response.set('Cache-Control', 'no-store');
+            if (result.outcome !== 'active') {
+                response.json({ active: false });
+                return;
+            }
+
+            const claims = result.claims;
+
+            // Service client tokens have no account, so no role or status
+            if (result.accountStatus === null) {
+                response.json({
+                    active: true,
+                    token_type: 'Bearer',
+                    sub: claims.sub,
+                    client_id: claims.client_id,
+                    scope: claims.scope,
+                    exp: claims.exp,
+                    iat: claims.iat,
+                    jti: claims.jti,
+                });
+                return;
+            }
+
+            response.json({
+                active: true,
+                token_type: 'Bearer',
+                sub: String(claims.id),
+                role: claims.role,
+                scope: claims.scope ?? FIRST_PARTY_SCOPE,
+                ...(claims.client_id && { client_id: claims.client_id }),
+                exp: claims.exp,
+                iat: claims.iat,
+                jti: claims.jti,
+                account_status: result.accountStatus,
+            });
+        } catch (error) {
+            console.error('Token introspection error:', error);
+            sendOAuthError(response, 500, 'server_error', 'Failed to introspect token');
+        }
+    }
+
+    /**
+     * OpenID Connect UserInfo endpoint (OIDC Core §5.3)
+     * Returns the claims the token's scope allows. Tokens from our own login
+     * carry every scope; OAuth tokens must have been granted openid
+     */
+    static async userinfo(request: IJwtRequest, response: Response): Promise<void> {
+        const scope = request.claims.scope ?? FIRST_PARTY_SCOPE;
+
+        if (!hasScope(scope, 'openid')) {
+            response.set('WWW-Authenticate', 'Bearer error="insufficient_scope", scope="openid"');
+            sendOAuthError(response, 403, 'insufficient_scope', 'The access token was not granted the openid scope');
+            return;
+        }
+
+        try {
+            const user = await getUserForClaims(request.claims.id);
+            if (!user) {
+                sendOAuthError(response, 401, 'invalid_token', 'The account no longer exists');
+                return;
+            }
+
+            response.set('Cache-Control', 'no-store');
+            response.json(buildUserClaims(user, scope));
+        } catch (error) {
+            console.error('UserInfo error:', error);
+            sendOAuthError(response, 500, 'server_error', 'Failed to load user info');
+        }
+    }
+}
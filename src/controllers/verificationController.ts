@@ -11,9 +11,43 @@ import {
     sendSMSViaEmail,
     getEnvVar,
     isDevelopment,
-    executeTransactionWithResponse
+    executeTransactionWithResponse,
+    withTransaction,
+    prefersHtml,
+    sendPage,
+    renderAccountPage,
+    AccountPageName,
+    verifyPassword,
+    readPasswordHash,
+    checkUserExistence,
+    stageEmailChange,
+    confirmEmailChange,
+    cancelEmailChange,
+    sendEmailChangeConfirmation,
+    sendEmailChangeNotice,
+    stagePhoneChange,
+    confirmPhoneChange
 } from '@utilities';
-import { IJwtRequest } from '@models';
+import { IJwtRequest, EMAIL_CHANGE_EXPIRY_HOURS, PHONE_CHANGE_CODE_EXPIRY_MINUTES } from '@models';
+
+/**
+ * Answer a confirmation link that can't be used: a page for someone who
+ * clicked it in their mail program, the usual JSON error for API clients
+ */
+const sendEmailLinkError = (
+    request: IJwtRequest,
+    response: Response,
+    status: number,
+    message: string,
+    errorCode: string,
+    page: AccountPageName
+): void => {
+    if (prefersHtml(request)) {
+        sendPage(response, status, renderAccountPage(page));
+        return;
+    }
+    sendError(response, status, message, errorCode);
+};
 
 export class VerificationController {
     /**
@@ -45,7 +79,7 @@ export class VerificationController {
             const recentVerification = await pool.query(
                 `SELECT COUNT(*) as count 
                  FROM Email_Verification 
-                 WHERE Account_ID = $1 AND Token_Expires > NOW() AND Created_At > NOW() - INTERVAL '5 minutes'`,
+                 WHERE Account_ID = $1 AND Purpose = 'verify' AND Token_Expires > NOW() AND Created_At > NOW() - INTERVAL '5 minutes'`,
                 [userId]
             );
 
@@ -54,9 +88,9 @@ export class VerificationController {
                 return;
             }
 
-            // Delete old verification tokens for this user
+            // Delete old verification tokens for this user (a pending email change is kept)
             await pool.query(
-                'DELETE FROM Email_Verification WHERE Account_ID = $1',
+                `DELETE FROM Email_Verification WHERE Account_ID = $1 AND Purpose = 'verify'`,
                 [userId]
             );
 
@@ -109,7 +143,7 @@ export class VerificationController {
         const { token } = request.query;
 
         if (!token || typeof token !== 'string') {
-            sendError(response, 400, 'Verification token is required', ErrorCodes.VALD_MISSING_FIELDS);
+            sendEmailLinkError(request, response, 400, 'Verification token is required', ErrorCodes.VALD_MISSING_FIELDS, 'email-link-invalid');
             return;
         }
 
@@ -119,12 +153,12 @@ export class VerificationController {
                 `SELECT ev.Account_ID, ev.Email, ev.Token_Expires, a.Email_Verified
                  FROM Email_Verification ev
                  JOIN Account a ON ev.Account_ID = a.Account_ID
-                 WHERE ev.Verification_Token = $1`,
+                 WHERE ev.Verification_Token = $1 AND ev.Purpose = 'verify'`,
                 [token]
             );
 
             if (verificationResult.rowCount === 0) {
-                sendError(response, 400, 'Invalid verification token', ErrorCodes.VRFY_INVALID_TOKEN);
+                sendEmailLinkError(request, response, 400, 'Invalid verification token', ErrorCodes.VRFY_INVALID_TOKEN, 'email-link-invalid');
                 return;
             }
 
@@ -132,41 +166,198 @@ export class VerificationController {
 
             // Check if already verified
             if (verification.email_verified) {
-                sendError(response, 400, 'Email is already verified', ErrorCodes.VRFY_ALREADY_VERIFIED);
+                sendEmailLinkError(request, response, 400, 'Email is already verified', ErrorCodes.VRFY_ALREADY_VERIFIED, 'email-already-verified');
                 return;
             }
 
             // Check if token is expired
             if (new Date() > new Date(verification.token_expires)) {
-                sendError(response, 400, 'Verification token has expired', ErrorCodes.VRFY_TOKEN_EXPIRED);
+                sendEmailLinkError(request, response, 400, 'Verification token has expired', ErrorCodes.VRFY_TOKEN_EXPIRED, 'email-link-expired');
                 return;
             }
 
             // Execute email verification transaction
-            await executeTransactionWithResponse(
-                async (client) => {
-                    // Mark email as verified
-                    await client.query(
-                        'UPDATE Account SET Email_Verified = TRUE, Updated_At = NOW() WHERE Account_ID = $1',
-                        [verification.account_id]
-                    );
+            const result = await withTransaction(async (client) => {
+                // Mark email as verified
+                await client.query(
+                    'UPDATE Account SET Email_Verified = TRUE, Updated_At = NOW() WHERE Account_ID = $1',
+                    [verification.account_id]
+                );
 
-                    // Delete verification token (single use)
-                    await client.query(
-                        'DELETE FROM Email_Verification WHERE Account_ID = $1',
-                        [verification.account_id]
-                    );
+                // Delete verification token (single use)
+                await client.query(
+                    `DELETE FROM Email_Verification WHERE Account_ID = $1 AND Purpose = 'verify'`,
+                    [verification.account_id]
+                );
+            });
 
-                    return null;
-                },
-                response,
-                'Email verified successfully',
-                'Failed to verify email'
-            );
+            if (!result.success) {
+                console.error('Transaction error:', result.error);
+                sendEmailLinkError(request, response, 500, 'Failed to verify email', ErrorCodes.SRVR_TRANSACTION_FAILED, 'account-error');
+                return;
+            }
+
+            if (prefersHtml(request)) {
+                sendPage(response, 200, renderAccountPage('email-verified'));
+                return;
+            }
+            sendSuccess(response, null, 'Email verified successfully');
 
         } catch (error) {
             console.error('Email verification error:', error);
-            sendError(response, 500, 'Failed to verify email', ErrorCodes.SRVR_TRANSACTION_FAILED);
+            sendEmailLinkError(request, response, 500, 'Failed to verify email', ErrorCodes.SRVR_TRANSACTION_FAILED, 'account-error');
+        }
+    }
+
+    /**
+     * Start changing the account's email address (requires the password)
+     * The new address gets a confirmation link and the current one a heads-up
+     * with a cancel link; nothing changes until the new address is confirmed
+     */
+    static async requestEmailChange(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { newEmail, password } = request.body;
+
+        try {
+            const accountResult = await pool.query(
+                `SELECT a.FirstName, a.Email, c.Salted_Hash, c.Salt, c.Hash_Algorithm, c.Hash_Params
+                 FROM Account a
+                 JOIN Account_Credential c ON c.Account_ID = a.Account_ID
+                 WHERE a.Account_ID = $1`,
+                [userId]
+            );
+
+            if (accountResult.rowCount === 0) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            const account = accountResult.rows[0];
+
+            // A stolen access token alone mustn't be enough to take over the account
+            if (!await verifyPassword(password, readPasswordHash(account))) {
+                sendError(response, 400, 'Current password is incorrect', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                return;
+            }
+
+            if (newEmail === account.email) {
+                sendError(response, 400, 'New email must be different from the current one', ErrorCodes.VALD_INVALID_EMAIL);
+                return;
+            }
+
+            const existing = await checkUserExistence({ email: newEmail });
+            if (existing.exists) {
+                sendError(response, 400, existing.message!, existing.errorCode!);
+                return;
+            }
+
+            // Same basic throttle as verification emails
+            const recentChange = await pool.query(
+                `SELECT COUNT(*) as count
+                 FROM Email_Verification
+                 WHERE Account_ID = $1 AND Purpose = 'change' AND Created_At > NOW() - INTERVAL '5 minutes'`,
+                [userId]
+            );
+
+            if (parseInt(recentChange.rows[0].count) > 0) {
+                sendError(response, 429, 'Please wait before requesting another email change', ErrorCodes.VRFY_RATE_LIMIT_EXCEEDED);
+                return;
+            }
+
+            const staged = await stageEmailChange(userId, account.email, newEmail);
+
+            const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
+            const confirmUrl = `${baseUrl}/auth/user/email/change/confirm?token=${staged.confirmToken}`;
+            const cancelUrl = `${baseUrl}/auth/user/email/change/cancel?token=${staged.cancelToken}`;
+
+            const confirmationSent = await sendEmailChangeConfirmation(newEmail, account.firstname, confirmUrl, EMAIL_CHANGE_EXPIRY_HOURS);
+            const noticeSent = await sendEmailChangeNotice(account.email, account.firstname, newEmail, cancelUrl);
+
+            if (!(confirmationSent && noticeSent) && !isDevelopment()) {
+                sendError(response, 500, 'Failed to send email change confirmation', ErrorCodes.SRVR_EMAIL_SEND_FAILED);
+                return;
+            }
+
+            const responseData: Record<string, string> = {
+                pendingEmail: newEmail,
+                expiresAt: staged.expiresAt.toISOString(),
+            };
+
+            // In development, include both links
+            if (isDevelopment()) {
+                responseData.confirmUrl = confirmUrl;
+                responseData.cancelUrl = cancelUrl;
+            }
+
+            sendSuccess(response, responseData, 'Confirmation email sent to the new address');
+
+        } catch (error) {
+            console.error('Email change request error:', error);
+            sendError(response, 500, 'Failed to start email change', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Confirm a new email address from the link sent to it
+     * Browsers get a result page, API clients JSON
+     */
+    static async confirmEmailChange(request: IJwtRequest, response: Response): Promise<void> {
+        const token = request.query.token as string;
+
+        try {
+            const result = await confirmEmailChange(token);
+
+            switch (result.status) {
+                case 'invalid':
+                    sendEmailLinkError(request, response, 400, 'Invalid verification token', ErrorCodes.VRFY_INVALID_TOKEN, 'email-link-invalid');
+                    return;
+                case 'expired':
+                    sendEmailLinkError(request, response, 400, 'Verification token has expired', ErrorCodes.VRFY_TOKEN_EXPIRED, 'email-link-expired');
+                    return;
+                case 'email_taken':
+                    sendEmailLinkError(request, response, 400, 'Email already exists', ErrorCodes.AUTH_EMAIL_EXISTS, 'email-change-unavailable');
+                    return;
+            }
+
+            if (prefersHtml(request)) {
+                sendPage(response, 200, renderAccountPage('email-change-confirmed', { email: result.email }));
+                return;
+            }
+            sendSuccess(response, { email: result.email }, 'Email changed successfully');
+
+        } catch (error) {
+            console.error('Email change confirmation error:', error);
+            sendEmailLinkError(request, response, 500, 'Failed to change email', ErrorCodes.SRVR_TRANSACTION_FAILED, 'account-error');
+        }
+    }
+
+    /**
+     * Call off a pending email change from the link sent to the old address
+     */
+    static async cancelEmailChange(request: IJwtRequest, response: Response): Promise<void> {
+        const token = request.query.token as string;
+
+        try {
+            const result = await cancelEmailChange(token);
+
+            switch (result.status) {
+                case 'invalid':
+                    sendEmailLinkError(request, response, 400, 'Invalid verification token', ErrorCodes.VRFY_INVALID_TOKEN, 'email-link-invalid');
+                    return;
+                case 'expired':
+                    sendEmailLinkError(request, response, 400, 'Verification token has expired', ErrorCodes.VRFY_TOKEN_EXPIRED, 'email-link-expired');
+                    return;
+            }
+
+            if (prefersHtml(request)) {
+                sendPage(response, 200, renderAccountPage('email-change-cancelled'));
+                return;
+            }
+            sendSuccess(response, null, 'Email change cancelled');
+
+        } catch (error) {
+            console.error('Email change cancellation error:', error);
+            sendEmailLinkError(request, response, 500, 'Failed to cancel email change', ErrorCodes.SRVR_DATABASE_ERROR, 'account-error');
         }
     }
 
@@ -200,7 +391,7 @@ export class VerificationController {
             const recentVerification = await pool.query(
                 `SELECT COUNT(*) as count 
                  FROM Phone_Verification 
-                 WHERE Account_ID = $1 AND Code_Expires > NOW() AND Created_At > NOW() - INTERVAL '1 minute'`,
+                 WHERE Account_ID = $1 AND Purpose = 'verify' AND Code_Expires > NOW() AND Created_At > NOW() - INTERVAL '1 minute'`,
                 [userId]
             );
 
@@ -209,9 +400,9 @@ export class VerificationController {
                 return;
             }
 
-            // Delete old verification codes for this user
+            // Delete old verification codes for this user (a pending number change is kept)
             await pool.query(
-                'DELETE FROM Phone_Verification WHERE Account_ID = $1',
+                `DELETE FROM Phone_Verification WHERE Account_ID = $1 AND Purpose = 'verify'`,
                 [userId]
             );
 
@@ -269,7 +460,7 @@ export class VerificationController {
                 `SELECT pv.*, a.Phone_Verified
                  FROM Phone_Verification pv
                  JOIN Account a ON pv.Account_ID = a.Account_ID
-                 WHERE pv.Account_ID = $1`,
+                 WHERE pv.Account_ID = $1 AND pv.Purpose = 'verify'`,
                 [userId]
             );
 
@@ -302,7 +493,7 @@ export class VerificationController {
             if (verification.verification_code !== code) {
                 // Increment attempt count
                 await pool.query(
-                    'UPDATE Phone_Verification SET Attempts = Attempts + 1 WHERE Account_ID = $1',
+                    `UPDATE Phone_Verification SET Attempts = Attempts + 1 WHERE Account_ID = $1 AND Purpose = 'verify'`,
                     [userId]
                 );
                 
@@ -327,7 +518,7 @@ export class VerificationController {
 
                     // Delete verification code (single use)
                     await client.query(
-                        'DELETE FROM Phone_Verification WHERE Account_ID = $1',
+                        `DELETE FROM Phone_Verification WHERE Account_ID = $1 AND Purpose = 'verify'`,
                         [userId]
                     );
 
@@ -344,6 +535,129 @@ export class VerificationController {
         }
     }
 
+    /**
+     * Start changing the account's phone number (requires the password)
+     * A code is texted to the new number; nothing changes until it's entered
+     */
+    static async requestPhoneChange(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { newPhone, password, carrier } = request.body;
+
+        try {
+            const accountResult = await pool.query(
+                `SELECT a.Phone, c.Salted_Hash, c.Salt, c.Hash_Algorithm, c.Hash_Params
+                 FROM Account a
+                 JOIN Account_Credential c ON c.Account_ID = a.Account_ID
+                 WHERE a.Account_ID = $1`,
+                [userId]
+            );
+
+            if (accountResult.rowCount === 0) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            const account = accountResult.rows[0];
+
+            // A stolen access token alone mustn't be enough to move SMS sign-in to another phone
+            if (!await verifyPassword(password, readPasswordHash(account))) {
+                sendError(response, 400, 'Current password is incorrect', ErrorCodes.AUTH_INVALID_CREDENTIALS);
+                return;
+            }
+
+            if (newPhone === account.phone) {
+                sendError(response, 400, 'New phone number must be different from the current one', ErrorCodes.VALD_INVALID_PHONE);
+                return;
+            }
+
+            const existing = await checkUserExistence({ phone: newPhone });
+            if (existing.exists) {
+                sendError(response, 400, existing.message!, existing.errorCode!);
+                return;
+            }
+
+            // Same basic throttle as verification codes (1 per minute)
+            const recentChange = await pool.query(
+                `SELECT COUNT(*) as count
+                 FROM Phone_Verification
+                 WHERE Account_ID = $1 AND Purpose = 'change' AND Created_At > NOW() - INTERVAL '1 minute'`,
+                [userId]
+            );
+
+            if (parseInt(recentChange.rows[0].count) > 0) {
+                sendError(response, 429, 'Please wait before requesting another SMS code', ErrorCodes.VRFY_RATE_LIMIT_EXCEEDED);
+                return;
+            }
+
+            const { code, expiresAt } = await stagePhoneChange(userId, newPhone);
+
+            const message = `Auth² code to confirm this number: ${code}\nExpires in ${PHONE_CHANGE_CODE_EXPIRY_MINUTES} min\nDo not share`;
+            const smsSent = await sendSMSViaEmail(newPhone, message, carrier);
+
+            if (!smsSent && !isDevelopment()) {
+                sendError(response, 500, 'Failed to send SMS verification code', ErrorCodes.SRVR_SMS_SEND_FAILED);
+                return;
+            }
+
+            const responseData: Record<string, string> = {
+                pendingPhone: newPhone,
+                expiresAt: expiresAt.toISOString(),
+            };
+
+            // In development, include the verification code
+            if (isDevelopment()) {
+                responseData.verificationCode = code;
+            }
+
+            sendSuccess(response, responseData, 'SMS code sent to the new number');
+
+        } catch (error) {
+            console.error('Phone change request error:', error);
+            sendError(response, 500, 'Failed to start phone change', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Confirm a phone change with the code texted to the new number
+     */
+    static async verifyPhoneChange(request: IJwtRequest, response: Response): Promise<void> {
+        const userId = request.claims.id;
+        const { code } = request.body;
+
+        try {
+            const result = await confirmPhoneChange(userId, code);
+
+            switch (result.status) {
+                case 'no_code':
+                    sendError(response, 400, 'No phone change is pending. Please request a new code.', ErrorCodes.VRFY_NO_CODE_FOUND);
+                    return;
+                case 'expired':
+                    sendError(response, 400, 'Verification code has expired', ErrorCodes.VRFY_CODE_EXPIRED);
+                    return;
+                case 'too_many_attempts':
+                    sendError(response, 400, 'Too many failed attempts. Please request a new code.', ErrorCodes.VRFY_TOO_MANY_ATTEMPTS);
+                    return;
+                case 'invalid_code':
+                    sendError(
+                        response,
+                        400,
+                        `Invalid verification code. ${result.remainingAttempts} attempts remaining.`,
+                        ErrorCodes.VRFY_INVALID_CODE
+                    );
+                    return;
+                case 'phone_taken':
+                    sendError(response, 400, 'Phone already exists', ErrorCodes.AUTH_PHONE_EXISTS);
+                    return;
+            }
+
+            sendSuccess(response, { phone: result.phone }, 'Phone number changed successfully');
+
+        } catch (error) {
+            console.error('Phone change verification error:', error);
+            sendError(response, 500, 'Failed to change phone number', ErrorCodes.SRVR_TRANSACTION_FAILED);
+        }
+    }
+
     /**
      * Get supported SMS carriers
      */
@@ -0,0 +1,163 @@
+// src/controllers/webauthnController.ts
+import { Response } from 'express';
+import {
+    pool,
+    sendSuccess,
+    sendError,
+    ErrorCodes,
+    getSessionAccount,
+    getAccountStatusError,
+    createLoginSession,
+    isTotpEnabled,
+    createMfaChallenge,
+    createRegistrationOptions,
+    verifyRegistration,
+    createAuthenticationOptions,
+    verifyAuthentication,
+    listWebAuthnCredentials,
+    deleteWebAuthnCredential
+} from '@utilities';
+import { IJwtRequest } from '@models';
+
+export class WebAuthnController {
+    /**
+     * Start passkey registration
+     * Returns options for navigator.credentials.create()
+     */
+    static async registrationOptions(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const account = await getSessionAccount(request.claims.id);
+
+            if (!account) {
+                sendError(response, 404, 'User not found', ErrorCodes.USER_NOT_FOUND);
+                return;
+            }
+
+            sendSuccess(response, await createRegistrationOptions(account), 'Passkey registration started');
+
+        } catch (error) {
+            console.error('WebAuthn registration options error:', error);
+            sendError(response, 500, 'Failed to start passkey registration', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Finish passkey registration
+     * Verifies the authenticator's attestation before saving the credential
+     */
+    static async verifyRegistration(request: IJwtRequest, response: Response): Promise<void> {
+        const { credential, name } = request.body;
+
+        try {
+            const result = await verifyRegistration(request.claims.id, credential, name);
+
+            if (result.status === 'invalid') {
+                sendError(response, 400, `Passkey registration failed: ${result.reason}`, ErrorCodes.AUTH_WEBAUTHN_FAILED);
+                return;
+            }
+            if (result.status === 'duplicate') {
+                sendError(response, 409, 'This passkey is already registered', ErrorCodes.AUTH_WEBAUTHN_CREDENTIAL_EXISTS);
+                return;
+            }
+
+            sendSuccess(response, result.credential, 'Passkey registered', 201);
+
+        } catch (error) {
+            console.error('WebAuthn registration error:', error);
+            sendError(response, 500, 'Failed to register passkey', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Start passkey sign-in
+     * Returns options for navigator.credentials.get(); the email is optional
+     */
+    static async authenticationOptions(request: IJwtRequest, response: Response): Promise<void> {
+        const { email } = request.body;
+
+        try {
+            sendSuccess(response, await createAuthenticationOptions(email), 'Passkey sign-in started');
+
+        } catch (error) {
+            console.error('WebAuthn authentication options error:', error);
+            sendError(response, 500, 'Failed to start passkey sign-in', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Finish passkey sign-in
+     * A passkey that verified the user (PIN or biometric) is two factors on its
+     * own; otherwise accounts with TOTP enabled still get the MFA challenge
+     */
+    static async verifyAuthentication(request: IJwtRequest, response: Response): Promise<void> {
+        const { credential } = request.body;
+
+        try {
+            const result = await verifyAuthentication(credential);
+
+            if (result.status === 'invalid') {
+                sendError(response, 401, `Passkey sign-in failed: ${result.reason}`, ErrorCodes.AUTH_WEBAUTHN_FAILED);
+                return;
+            }
+
+            // The account may have been deleted since the passkey was looked up
+            const account = await getSessionAccount(result.accountId);
+            if (!account) {
+                sendError(response, 401, 'Passkey sign-in failed: account no longer exists', ErrorCodes.AUTH_WEBAUTHN_FAILED);
+                return;
+            }
+
+            const statusError = getAccountStatusError(account.account_status);
+            if (statusError) {
+                sendError(response, statusError.httpStatus, statusError.message, statusError.errorCode);
+                return;
+            }
+
+            if (!result.userVerified && await isTotpEnabled(account.account_id)) {
+                sendSuccess(response, createMfaChallenge(account), 'Two-factor authentication required');
+                return;
+            }
+
+            const session = await createLoginSession(pool, account);
+
+            sendSuccess(response, session, 'Login successful');
+
+        } catch (error) {
+            console.error('WebAuthn authentication error:', error);
+            sendError(response, 500, 'Server error - contact support', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * List the signed-in user's passkeys
+     */
+    static async listCredentials(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            sendSuccess(response, await listWebAuthnCredentials(request.claims.id), 'Passkeys retrieved');
+
+        } catch (error) {
+            console.error('WebAuthn list error:', error);
+            sendError(response, 500, 'Failed to retrieve passkeys', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+
+    /**
+     * Remove one of the signed-in user's passkeys
+     */
+    static async deleteCredential(request: IJwtRequest, response: Response): Promise<void> {
+        try {
+            const deleted = await deleteWebAuthnCredential(request.claims.id, request.params.credentialId as string);
+
+            if (!deleted) {
+                sendError(response, 404, 'Passkey not found', ErrorCodes.AUTH_WEBAUTHN_CREDENTIAL_NOT_FOUND);
+                return;
+            }
+
+            sendSuccess(response, null, 'Passkey removed');
+
+        } catch (error) {
+            console.error('WebAuthn delete error:', error);
+            sendError(response, 500, 'Failed to remove passkey', ErrorCodes.SRVR_DATABASE_ERROR);
+        }
+    }
+}
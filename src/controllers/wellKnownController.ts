@@ -0,0 +1,40 @@
+// src/controllers/wellKnownController.ts
+import { Request, Response } from 'express';
+import {
+    sendError,
+    ErrorCodes,
+    getJwks,
+    getOpenIdConfiguration
+} from '@utilities';
+
+export class WellKnownController {
+    /**
+     * Publish the JSON Web Key Set used to verify access tokens
+     * Returned as a bare JWKS document (not wrapped in the usual success
+     * envelope) so standard JWT libraries can consume it directly
+     */
+    static getJwks(request: Request, response: Response): void {
+        try {
+            response.set('Cache-Control', 'public, max-age=300');
+            response.json(getJwks());
+        } catch (error) {
+            console.error('JWKS error:', error);
+            sendError(response, 500, 'Failed to load signing keys', ErrorCodes.SRVR_GENERIC_ERROR);
+        }
+    }
+
+    /**
+     * OpenID Provider metadata (OIDC Discovery)
+     * Lets client libraries find our endpoints, keys and supported features
+     * from the issuer URL alone
+     */
+    static getOpenIdConfiguration(request: Request, response: Response): void {
+        try {
+            response.set('Cache-Control', 'public, max-age=300');
+            response.json(getOpenIdConfiguration());
+        } catch (error) {
+            console.error('OpenID configuration error:', error);
+            sendError(response, 500, 'Failed to load provider metadata', ErrorCodes.SRVR_GENERIC_ERROR);
+        }
+    }
+}
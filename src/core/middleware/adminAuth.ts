@@ -103,7 +103,7 @@ export const preventSelfModification = (
         });
     }
 
-    const targetUserId = parseInt(request.params.id);
+    const targetUserId = parseInt(request.params.id as string);
 
     if (targetUserId === request.claims.id) {
         return response.status(403).json({
@@ -131,7 +131,7 @@ export const canModifyTargetUser = async (
         });
     }
 
-    const targetUserId = parseInt(request.params.id);
+    const targetUserId = parseInt(request.params.id as string);
 
     try {
         const pool = getPool();
@@ -1,3 +1,4 @@
 export * from './jwt';
 export * from './verificationChecks';
 export * from './validation';
+export * from './rateLimit';
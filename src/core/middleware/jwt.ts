@@ -1,8 +1,17 @@
-import jwt, { JwtPayload } from 'jsonwebtoken';
 import { Response, NextFunction } from 'express';
 
-import { IJwtClaims, IJwtRequest } from '@models';
-export const checkToken = (
+import { IJwtRequest } from '@models';
+import {
+    ErrorCodes,
+    sendError,
+    validateAccessToken
+} from '@utilities';
+
+/**
+ * Build the middleware that requires a valid access token
+ * Tokens issued to OAuth clients are refused unless allowOAuthTokens is set
+ */
+const requireAccessToken = (allowOAuthTokens: boolean) => async (
     request: IJwtRequest,
     response: Response,
     next: NextFunction
@@ -17,17 +26,45 @@ export const checkToken = (
             token = token.slice(7, token.length);
         }
 
-        jwt.verify(token, process.env.JWT_SECRET, (error, decoded: JwtPayload) => {
-            if (error) {
-                response.status(403).json({
-                    success: false,
-                    message: 'Token is not valid',
-                });
-            } else {
-                request.claims = decoded as IJwtClaims;
-                next();
+        try {
+            const result = await validateAccessToken(token, { allowOAuthTokens });
+
+            switch (result.outcome) {
+                case 'invalid':
+                    response.status(403).json({
+                        success: false,
+                        message: 'Token is not valid',
+                    });
+                    return;
+                case 'revoked':
+                    sendError(response, 401, 'Token has been revoked', ErrorCodes.AUTH_TOKEN_REVOKED);
+                    return;
+                case 'account_status':
+                    sendError(
+                        response,
+                        result.statusError.httpStatus,
+                        result.statusError.message,
+                        result.statusError.errorCode
+                    );
+                    return;
+                case 'active':
+                    // Service client tokens have no account to act as
+                    if (result.accountStatus === null) {
+                        response.status(403).json({
+                            success: false,
+                            message: 'Token is not valid',
+                        });
+                        return;
+                    }
+                    request.claims = result.claims;
             }
-        });
+        } catch (error) {
+            console.error('Token validation error:', error);
+            sendError(response, 500, 'Failed to validate token', ErrorCodes.SRVR_DATABASE_ERROR);
+            return;
+        }
+
+        next();
     } else {
         response.status(401).json({
             success: false,
@@ -35,3 +72,15 @@ export const checkToken = (
         });
     }
 };
+
+/**
+ * Require a first-party access token (from our own sign-in)
+ * Tokens issued to OAuth clients and service clients are refused
+ */
+export const checkToken = requireAccessToken(false);
+
+/**
+ * Also accept access tokens issued to OAuth clients
+ * Only for endpoints that check the token's scope themselves
+ */
+export const checkOAuthToken = requireAccessToken(true);
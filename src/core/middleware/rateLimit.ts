@@ -0,0 +1,151 @@
+// src/core/middleware/rateLimit.ts
+import { Response, NextFunction } from 'express';
+import { IJwtRequest } from '@models';
+import {
+    ErrorCodes,
+    sendError,
+    getEnvVar,
+    describeRetryAfter,
+    getRateLimitStore,
+    RateLimitStore
+} from '@utilities';
+
+/**
+ * - fixed: count hits per window; resets all at once at the window boundary
+ * - sliding: add the previous window's hits, weighted by how much of it still
+ *   overlaps, so a burst across a boundary can't get twice the limit
+ */
+export type RateLimitAlgorithm = 'fixed' | 'sliding';
+
+/**
+ * What a limit is counted per
+ * - ip: the client address
+ * - account: the signed-in account (after checkToken); falls back to the IP
+ * - email: the email in the request body; falls back to the IP
+ */
+export type RateLimitKey = 'ip' | 'account' | 'email';
+
+export interface RateLimitOptions {
+    /** Names the counters and the RATE_LIMIT_<NAME> override; routes sharing a name share a budget */
+    name: string;
+    max: number;
+    windowSeconds: number;
+    algorithm?: RateLimitAlgorithm;
+    keyBy?: RateLimitKey;
+    /** Defaults to the store chosen by RATE_LIMIT_STORE */
+    store?: RateLimitStore;
+}
+
+interface RateLimitPolicy {
+    max: number;
+    windowSeconds: number;
+    algorithm: RateLimitAlgorithm;
+}
+
+/**
+ * The limit in force for a route
+ * RATE_LIMIT_<NAME> overrides the defaults as "<max>/<windowSeconds>" with an
+ * optional "/fixed" or "/sliding", or turns the limit off with "off"
+ * @returns null when the limit is turned off
+ */
+const readPolicy = (options: RateLimitOptions): RateLimitPolicy | null => {
+    const envName = `RATE_LIMIT_${options.name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+    const override = (process.env[envName] || '').trim();
+    const defaults: RateLimitPolicy = {
+        max: options.max,
+        windowSeconds: options.windowSeconds,
+        algorithm: options.algorithm ?? 'fixed',
+    };
+
+    if (!override) {
+        return defaults;
+    }
+    if (override === 'off') {
+        return null;
+    }
+
+    const match = /^(\d+)\/(\d+)(?:\/(fixed|sliding))?$/.exec(override);
+    if (!match || parseInt(match[2], 10) === 0) {
+        console.warn(`⚠️ Ignoring invalid ${envName}="${override}" (expected <max>/<windowSeconds>[/fixed|sliding])`);
+        return defaults;
+    }
+
+    return {
+        max: parseInt(match[1], 10),
+        windowSeconds: parseInt(match[2], 10),
+        algorithm: (match[3] as RateLimitAlgorithm) ?? defaults.algorithm,
+    };
+};
+
+const requestKey = (request: IJwtRequest, keyBy: RateLimitKey): string => {
+    if (keyBy === 'account' && request.claims?.id) {
+        return `account:${request.claims.id}`;
+    }
+    const email = request.body?.email;
+    if (keyBy === 'email' && typeof email === 'string' && email.trim()) {
+        return `email:${email.trim().toLowerCase()}`;
+    }
+    return `ip:${request.ip}`;
+};
+
+/**
+ * Limit how often a route can be called
+ * Sets the RateLimit-Policy/-Limit/-Remaining/-Reset headers on every response,
+ * and answers 429 with Retry-After once the limit is used up. Requests are
+ * let through if the store is unavailable. RATE_LIMIT_ENABLED=false turns
+ * every limit off.
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+    return async (request: IJwtRequest, response: Response, next: NextFunction) => {
+        if (getEnvVar('RATE_LIMIT_ENABLED', 'true') !== 'true') {
+            next();
+            return;
+        }
+        const policy = readPolicy(options);
+        if (!policy) {
+            next();
+            return;
+        }
+
+        const store = options.store ?? getRateLimitStore();
+        const windowMs = policy.windowSeconds * 1000;
+        const now = Date.now();
+        const windowStart = Math.floor(now / windowMs) * windowMs;
+        const key = `${options.name}:${requestKey(request, options.keyBy ?? 'ip')}`;
+
+        let hits: number;
+        try {
+            hits = await store.increment(key, windowStart, windowMs);
+            if (policy.algorithm === 'sliding') {
+                const previous = await store.get(key, windowStart - windowMs);
+                const overlap = 1 - (now - windowStart) / windowMs;
+                hits += Math.floor(previous * overlap);
+            }
+        } catch (error) {
+            console.error('Rate limit store error:', error);
+            next();
+            return;
+        }
+
+        const resetSeconds = Math.max(1, Math.ceil((windowStart + windowMs - now) / 1000));
+        response.set({
+            'RateLimit-Policy': `${policy.max};w=${policy.windowSeconds}`,
+            'RateLimit-Limit': String(policy.max),
+            'RateLimit-Remaining': String(Math.max(0, policy.max - hits)),
+            'RateLimit-Reset': String(resetSeconds),
+        });
+
+        if (hits > policy.max) {
+            response.set('Retry-After', String(resetSeconds));
+            sendError(
+                response,
+                429,
+                `Too many requests. Try again in ${describeRetryAfter(resetSeconds)}.`,
+                ErrorCodes.RATE_LIMIT_EXCEEDED
+            );
+            return;
+        }
+
+        next();
+    };
+};
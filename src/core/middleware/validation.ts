@@ -50,7 +50,7 @@ export const validateLogin = [
  * - lastname: required, 1-100 characters
  * - email: required, valid email format, normalized
  * - username: required, 3-50 characters, alphanumeric with underscore/hyphen
- * - password: required, 8-128 characters
+ * - password: required; the password policy is checked by the controller
  * - phone: required, at least 10 digits
  * NOTE: No role validation - public registration always creates basic users
  */
@@ -84,8 +84,8 @@ export const validateRegister = [
     body('password')
         .notEmpty()
         .withMessage('Password is required')
-        .isLength({ min: 8, max: 128 })
-        .withMessage('Password must be between 8 and 128 characters'),
+        .isString()
+        .withMessage('Password must be a string'),
     body('phone')
         .notEmpty()
         .withMessage('Phone number is required')
@@ -94,6 +94,33 @@ export const validateRegister = [
     handleValidationErrors
 ];
 
+/**
+ * Refresh token validation
+ * - refreshToken: required, trimmed
+ */
+export const validateRefreshToken = [
+    body('refreshToken')
+        .notEmpty()
+        .withMessage('Refresh token is required')
+        .isString()
+        .withMessage('Refresh token must be a string')
+        .trim(),
+    handleValidationErrors
+];
+
+/**
+ * Logout validation
+ * - refreshToken: optional, revokes the session's refresh token family when supplied
+ */
+export const validateLogout = [
+    body('refreshToken')
+        .optional()
+        .isString()
+        .withMessage('Refresh token must be a string')
+        .trim(),
+    handleValidationErrors
+];
+
 // ============================================
 // PASSWORD VALIDATION
 // ============================================
@@ -112,28 +139,110 @@ export const validatePasswordResetRequest = [
     handleValidationErrors
 ];
 
+/**
+ * Magic link request validation
+ * - Email: required, valid email format, normalized
+ */
+export const validateMagicLinkRequest = [
+    body('email')
+        .notEmpty()
+        .withMessage('Email is required')
+        .isEmail()
+        .withMessage('Must be a valid email address')
+        .normalizeEmail(),
+    handleValidationErrors
+];
+
+/**
+ * Magic link token validation (query param)
+ * - token: required, 64 hex characters
+ */
+export const validateMagicLinkToken = [
+    query('token')
+        .notEmpty()
+        .withMessage('Sign-in token is required')
+        .trim()
+        .matches(/^[0-9a-f]{64}$/)
+        .withMessage('Sign-in token is not valid'),
+    handleValidationErrors
+];
+
+/**
+ * SMS sign-in code request validation
+ * - phone: required, at least 10 digits
+ * - carrier: optional, must be valid SMS gateway from SMS_GATEWAYS
+ */
+export const validateSmsLoginRequest = [
+    body('phone')
+        .notEmpty()
+        .withMessage('Phone number is required')
+        .matches(/\d{10,}/)
+        .withMessage('Phone number must contain at least 10 digits'),
+    body('carrier')
+        .optional()
+        .isIn(Object.values(SMS_GATEWAYS))
+        .withMessage(`Carrier must be one of: ${Object.values(SMS_GATEWAYS).join(', ')}`),
+    handleValidationErrors
+];
+
+/**
+ * SMS sign-in validation
+ * - phone: required, at least 10 digits
+ * - code: required, trimmed, exactly 6 digits
+ */
+export const validateSmsLogin = [
+    body('phone')
+        .notEmpty()
+        .withMessage('Phone number is required')
+        .matches(/\d{10,}/)
+        .withMessage('Phone number must contain at least 10 digits'),
+    body('code')
+        .notEmpty()
+        .withMessage('Sign-in code is required')
+        .trim()
+        .matches(/^\d{6}$/)
+        .withMessage('Sign-in code must be exactly 6 digits'),
+    handleValidationErrors
+];
+
+/**
+ * Password reset token validation (query param, checked before showing the form)
+ * - token: required, 64 hex characters
+ */
+export const validatePasswordResetToken = [
+    query('token')
+        .notEmpty()
+        .withMessage('Reset token is required')
+        .trim()
+        .matches(/^[0-9a-f]{64}$/)
+        .withMessage('Reset token is not valid'),
+    handleValidationErrors
+];
+
 /**
  * Password reset validation (with token)
- * - token: required, trimmed
- * - password: required, 8-128 characters
+ * - token: required, 64 hex characters
+ * - password: required; the password policy is checked by the controller
  */
 export const validatePasswordReset = [
     body('token')
         .notEmpty()
         .withMessage('Reset token is required')
-        .trim(),
+        .trim()
+        .matches(/^[0-9a-f]{64}$/)
+        .withMessage('Reset token is not valid'),
     body('password')
         .notEmpty()
         .withMessage('Password is required')
-        .isLength({ min: 8, max: 128 })
-        .withMessage('Password must be between 8 and 128 characters'),
+        .isString()
+        .withMessage('Password must be a string'),
     handleValidationErrors
 ];
 
 /**
  * Password change validation (for authenticated users)
  * - oldPassword: required
- * - newPassword: required, 8-128 characters, different from old password
+ * - newPassword: required, different from old password; the password policy is checked by the controller
  */
 export const validatePasswordChange = [
     body('oldPassword')
@@ -142,8 +251,8 @@ export const validatePasswordChange = [
     body('newPassword')
         .notEmpty()
         .withMessage('New password is required')
-        .isLength({ min: 8, max: 128 })
-        .withMessage('New password must be between 8 and 128 characters')
+        .isString()
+        .withMessage('New password must be a string')
         .custom((value, { req }) => {
             if (value === req.body.oldPassword) {
                 throw new Error('New password must be different from current password');
@@ -183,6 +292,129 @@ export const validatePhoneVerify = [
     handleValidationErrors
 ];
 
+/**
+ * TOTP code validation (enrollment confirmation)
+ * - code: required, exactly 6 digits
+ */
+export const validateTotpCode = [
+    body('code')
+        .notEmpty()
+        .withMessage('Authentication code is required')
+        .matches(/^\d{6}$/)
+        .withMessage('Authentication code must be 6 digits'),
+    handleValidationErrors
+];
+
+/**
+ * Second factor code: a 6-digit TOTP code or a recovery code (xxxxx-xxxxx)
+ */
+const secondFactorCode = () =>
+    body('code')
+        .notEmpty()
+        .withMessage('Authentication code is required')
+        .isString()
+        .trim()
+        .matches(/^(\d{6}|[a-zA-Z0-9]{5}[- ]?[a-zA-Z0-9]{5})$/)
+        .withMessage('Authentication code must be 6 digits or a recovery code');
+
+/**
+ * Second login step validation
+ * - mfaToken: required, from the /auth/login response
+ * - code: required, 6-digit TOTP code or a recovery code
+ */
+export const validateMfaLogin = [
+    body('mfaToken')
+        .notEmpty()
+        .withMessage('MFA token is required')
+        .isString()
+        .withMessage('MFA token must be a string'),
+    secondFactorCode(),
+    handleValidationErrors
+];
+
+/**
+ * Recovery code regeneration validation
+ * - code: required, current TOTP code or an unused recovery code
+ */
+export const validateRecoveryCodeRegeneration = [
+    secondFactorCode(),
+    handleValidationErrors
+];
+
+/**
+ * Base64url fields of a WebAuthn credential response
+ * Signatures and attestation are verified by the controller; this only checks shape
+ */
+const webauthnField = (field: string) =>
+    body(field)
+        .isString()
+        .withMessage(`${field} is required`)
+        .matches(/^[A-Za-z0-9_-]+$/)
+        .withMessage(`${field} must be base64url encoded`);
+
+/**
+ * Passkey registration validation
+ * - credential: PublicKeyCredential from navigator.credentials.create()
+ * - name: optional label, up to 100 characters
+ */
+export const validateWebAuthnRegistration = [
+    webauthnField('credential.id'),
+    webauthnField('credential.response.clientDataJSON'),
+    webauthnField('credential.response.attestationObject'),
+    body('credential.type')
+        .equals('public-key')
+        .withMessage('credential.type must be public-key'),
+    body('name')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 100 })
+        .withMessage('Passkey name must be between 1 and 100 characters'),
+    handleValidationErrors
+];
+
+/**
+ * Passkey sign-in options validation
+ * - email: optional; without it the browser offers discoverable passkeys
+ */
+export const validateWebAuthnLoginOptions = [
+    body('email')
+        .optional()
+        .isEmail()
+        .withMessage('Must be a valid email address')
+        .normalizeEmail(),
+    handleValidationErrors
+];
+
+/**
+ * Passkey sign-in validation
+ * - credential: PublicKeyCredential from navigator.credentials.get()
+ */
+export const validateWebAuthnLogin = [
+    webauthnField('credential.id'),
+    webauthnField('credential.response.clientDataJSON'),
+    webauthnField('credential.response.authenticatorData'),
+    webauthnField('credential.response.signature'),
+    body('credential.type')
+        .equals('public-key')
+        .withMessage('credential.type must be public-key'),
+    body('credential.response.userHandle')
+        .optional({ values: 'null' })
+        .isString()
+        .withMessage('credential.response.userHandle must be a string'),
+    handleValidationErrors
+];
+
+/**
+ * Passkey ID route parameter validation
+ */
+export const validateCredentialIdParam = [
+    param('credentialId')
+        .matches(/^[A-Za-z0-9_-]{1,1400}$/)
+        .withMessage('Passkey ID is not valid'),
+    handleValidationErrors
+];
+
 /**
  * Email verification token validation (query param)
  * - token: required parameter, trimmed
@@ -199,6 +431,122 @@ export const validateEmailToken = [
 // USER/PARAMS VALIDATION
 // ============================================
 
+/**
+ * Email change validation
+ * - newEmail: required, valid email format
+ * - password: required, the current password
+ */
+export const validateEmailChange = [
+    body('newEmail')
+        .isEmail()
+        .withMessage('Must be a valid email address')
+        .normalizeEmail(),
+    body('password')
+        .notEmpty()
+        .withMessage('Current password is required')
+        .isString()
+        .withMessage('Password must be a string'),
+    handleValidationErrors
+];
+
+/**
+ * Phone change validation
+ * - newPhone: required, at least 10 digits
+ * - password: required, the current password
+ * - carrier: optional, must be valid SMS gateway
+ */
+export const validatePhoneChange = [
+    body('newPhone')
+        .notEmpty()
+        .withMessage('Phone number is required')
+        .matches(/\d{10,}/)
+        .withMessage('Phone number must contain at least 10 digits'),
+    body('password')
+        .notEmpty()
+        .withMessage('Current password is required')
+        .isString()
+        .withMessage('Password must be a string'),
+    body('carrier')
+        .optional()
+        .isIn(Object.values(SMS_GATEWAYS))
+        .withMessage(`Carrier must be one of: ${Object.values(SMS_GATEWAYS).join(', ')}`),
+    handleValidationErrors
+];
+
+/**
+ * Optional reason for closing or deleting an account: up to 500 characters
+ */
+const optionalDeletionReason = () =>
+    body('reason')
+        .optional()
+        .isString()
+        .withMessage('Reason must be a string')
+        .isLength({ max: 500 })
+        .withMessage('Reason must be at most 500 characters')
+        .trim();
+
+/**
+ * Account closure validation
+ * - password: required, the current password
+ * - reason: optional, up to 500 characters
+ */
+export const validateAccountClosure = [
+    body('password')
+        .notEmpty()
+        .withMessage('Current password is required')
+        .isString()
+        .withMessage('Password must be a string'),
+    optionalDeletionReason(),
+    handleValidationErrors
+];
+
+/**
+ * Data export validation (own data or admin)
+ * - format: optional query parameter, json (default) or zip
+ */
+export const validateDataExport = [
+    query('format')
+        .optional()
+        .isIn(['json', 'zip'])
+        .withMessage('Format must be json or zip'),
+    handleValidationErrors
+];
+
+/**
+ * Optional first/last name for profile updates: 1-100 characters
+ */
+const optionalName = (field: string, label: string) =>
+    body(field)
+        .optional()
+        .isLength({ min: 1, max: 100 })
+        .withMessage(`${label} must be between 1 and 100 characters`)
+        .trim();
+
+/**
+ * Optional username for profile updates: 3-50 letters, numbers, underscores or hyphens
+ */
+const optionalUsername = () =>
+    body('username')
+        .optional()
+        .isLength({ min: 3, max: 50 })
+        .withMessage('Username must be between 3 and 50 characters')
+        .matches(/^[a-zA-Z0-9_-]+$/)
+        .withMessage('Username can only contain letters, numbers, underscores, and hyphens')
+        .trim();
+
+/**
+ * Own profile update validation, with the same rules as the admin update
+ * All fields are optional - only provided fields will be updated
+ * - firstname, lastname: 1-100 characters
+ * - username: 3-50 letters, numbers, underscores or hyphens
+ */
+export const validateProfileUpdate = [
+    optionalName('firstname', 'First name'),
+    optionalName('lastname', 'Last name'),
+    optionalUsername(),
+    handleValidationErrors
+];
+
 /**
  * Validate user ID in params matches JWT claims
  * Use this for routes where users can only access their own resources
@@ -218,27 +566,6 @@ export const validateUserIdParam = [
 // CUSTOM VALIDATORS (OPTIONAL)
 // ============================================
 
-/**
- * Custom password strength validator (optional, more strict)
- * Add to password fields if you want stronger validation
- * - Minimum 8 characters
- * - At least one uppercase letter
- * - At least one lowercase letter
- * - At least one number
- * - At least one special character (@$!%*?&)
- */
-export const passwordStrength = body('password')
-    .isLength({ min: 8 })
-    .withMessage('Password must be at least 8 characters long')
-    .matches(/[A-Z]/)
-    .withMessage('Password must contain at least one uppercase letter')
-    .matches(/[a-z]/)
-    .withMessage('Password must contain at least one lowercase letter')
-    .matches(/\d/)
-    .withMessage('Password must contain at least one number')
-    .matches(/[@$!%*?&]/)
-    .withMessage('Password must contain at least one special character (@$!%*?&)');
-
 /**
  * Sanitize and validate pagination parameters
  * - page: optional, positive integer
@@ -299,8 +626,8 @@ export const validateAdminCreateUser = [
     body('password')
         .notEmpty()
         .withMessage('Password is required')
-        .isLength({ min: 8, max: 128 })
-        .withMessage('Password must be between 8 and 128 characters'),
+        .isString()
+        .withMessage('Password must be a string'),
     body('phone')
         .optional()
         .matches(/\d{10,}/)
@@ -319,23 +646,9 @@ export const validateAdminCreateUser = [
  * All fields are optional - only provided fields will be updated
  */
 export const validateUserUpdate = [
-    body('firstname')
-        .optional()
-        .isLength({ min: 1, max: 100 })
-        .withMessage('First name must be between 1 and 100 characters')
-        .trim(),
-    body('lastname')
-        .optional()
-        .isLength({ min: 1, max: 100 })
-        .withMessage('Last name must be between 1 and 100 characters')
-        .trim(),
-    body('username')
-        .optional()
-        .isLength({ min: 3, max: 50 })
-        .withMessage('Username must be between 3 and 50 characters')
-        .matches(/^[a-zA-Z0-9_-]+$/)
-        .withMessage('Username can only contain letters, numbers, underscores, and hyphens')
-        .trim(),
+    optionalName('firstname', 'First name'),
+    optionalName('lastname', 'Last name'),
+    optionalUsername(),
     body('email')
         .optional()
         .isEmail()
@@ -362,6 +675,15 @@ export const validateUserUpdate = [
     handleValidationErrors
 ];
 
+/**
+ * User deletion validation (admin)
+ * - reason: optional, up to 500 characters, recorded with the deletion
+ */
+export const validateUserDeletion = [
+    optionalDeletionReason(),
+    handleValidationErrors
+];
+
 /**
  * Admin password reset validation
  * Used when admin resets another user's password
@@ -370,8 +692,8 @@ export const validateAdminPasswordReset = [
     body('password')
         .notEmpty()
         .withMessage('Password is required')
-        .isLength({ min: 8, max: 128 })
-        .withMessage('Password must be between 8 and 128 characters'),
+        .isString()
+        .withMessage('Password must be a string'),
     handleValidationErrors
 ];
 
@@ -387,4 +709,70 @@ export const validateRoleChange = [
         .withMessage('Role must be an integer between 1 and 5')
         .toInt(),
     handleValidationErrors
-];
\ No newline at end of file
+];
+
+/**
+ * Service client ID in params
+ */
+export const validateClientIdParam = [
+    param('clientId')
+        .notEmpty()
+        .withMessage('Client ID is required')
+        .matches(/^[A-Za-z0-9_-]{1,64}$/)
+        .withMessage('Client ID is not valid'),
+    handleValidationErrors
+];
+
+/**
+ * Service client creation validation
+ * - name: required display name
+ * - scopes: array of scope names the client may request
+ * - owner_id: optional account responsible for the client (defaults to the caller)
+ */
+export const validateServiceClientCreate = [
+    body('name')
+        .notEmpty()
+        .withMessage('Client name is required')
+        .isLength({ max: 255 })
+        .withMessage('Client name must be at most 255 characters')
+        .trim(),
+    body('scopes')
+        .isArray()
+        .withMessage('Scopes must be an array'),
+    body('scopes.*')
+        .isString()
+        .matches(/^[a-z0-9:._-]+$/)
+        .withMessage('Scopes may only contain lowercase letters, numbers, and : . _ -'),
+    body('owner_id')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Owner ID must be a positive integer')
+        .toInt(),
+    handleValidationErrors
+];
+
+/**
+ * Service client update validation
+ * All fields are optional - only provided fields will be updated
+ */
+export const validateServiceClientUpdate = [
+    body('name')
+        .optional()
+        .isLength({ min: 1, max: 255 })
+        .withMessage('Client name must be between 1 and 255 characters')
+        .trim(),
+    body('scopes')
+        .optional()
+        .isArray()
+        .withMessage('Scopes must be an array'),
+    body('scopes.*')
+        .isString()
+        .matches(/^[a-z0-9:._-]+$/)
+        .withMessage('Scopes may only contain lowercase letters, numbers, and : . _ -'),
+    body('is_active')
+        .optional()
+        .isBoolean()
+        .withMessage('is_active must be a boolean')
+        .toBoolean(),
+    handleValidationErrors
+];
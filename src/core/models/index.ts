@@ -23,13 +23,24 @@ export const RoleName = {
     [UserRole.OWNER]: 'Owner'
 } as const;
 
+/**
+ * Account lifecycle status (Account.Account_Status)
+ */
+export type AccountStatus = 'pending' | 'active' | 'suspended' | 'locked' | 'deleted';
+
 /**
  * JWT token payload structure
  */
 export interface IJwtClaims {
-    id: number;
+    id: number;     // Account ID (absent on service client tokens)
+    sub?: string;   // Client ID on service client tokens
     name: string;
+    email: string;
     role: UserRole;
+    ver?: number;   // Account (or service client) token version at issue time
+    jti?: string;   // Unique token ID (used for revocation)
+    scope?: string; // Space-separated scopes (absent on first-party login tokens)
+    client_id?: string; // OAuth client the token was issued to
     iat?: number;
     exp?: number;
 }
@@ -55,7 +66,7 @@ export interface IUser {
     account_role: UserRole;
     email_verified: boolean;
     phone_verified: boolean;
-    account_status: 'pending' | 'active' | 'suspended' | 'locked';
+    account_status: AccountStatus;
     created_at?: Date;
     updated_at?: Date;
 }
@@ -112,28 +123,44 @@ export interface IPhoneVerificationRequest {
 }
 
 /**
- * Phone send request body
+ * Refresh token request body
  */
-export interface IPhoneSendRequest {
-    carrier?: string;
+export interface IRefreshTokenRequest {
+    refreshToken: string;
 }
 
 /**
- * Password reset token payload
+ * Phone send request body
  */
-export interface IPasswordResetToken {
-    id: number;
-    email: string;
-    type: 'password_reset';
-    iat?: number;
-    exp?: number;
+export interface IPhoneSendRequest {
+    carrier?: string;
 }
 
+
 /**
  * JWT Configuration Constants
  */
-export const JWT_EXPIRY = '14d';           // Access token expiry
-export const JWT_RESET_EXPIRY = '1h';      // Password reset token expiry
+export const JWT_EXPIRY = '15m';           // Access token expiry (short-lived, renewed via refresh token)
+export const REFRESH_TOKEN_EXPIRY_DAYS = 14; // Refresh token expiry (rotated on every use)
+export const FIRST_PARTY_SCOPE = 'openid profile email phone'; // Scope implied by tokens from our own login
+export const OIDC_SCOPES = ['openid', 'profile', 'email', 'phone']; // Standard scopes controlling userinfo/id_token claims
+export const PASSWORD_RESET_EXPIRY_MINUTES = 60; // Reset links are single-use; the email quotes this too
+export const MAGIC_LINK_EXPIRY_MINUTES = 15;  // Passwordless sign-in links are single-use and short-lived
+export const EMAIL_CHANGE_EXPIRY_HOURS = 24;  // Links confirming (or cancelling) a change of email address
+export const SMS_LOGIN_CODE_EXPIRY_MINUTES = 10; // Texted sign-in codes
+export const SMS_LOGIN_MAX_ATTEMPTS = 3;      // Wrong guesses allowed per sign-in code, as for phone verification
+export const SMS_LOGIN_RESEND_SECONDS = 60;   // Minimum gap between sign-in texts to the same account
+export const PHONE_CHANGE_CODE_EXPIRY_MINUTES = 15; // Code texted to a new number, as for phone verification
+export const PHONE_CHANGE_MAX_ATTEMPTS = 3;    // Wrong guesses allowed before a new code is needed
+export const DATA_EXPORT_LINK_EXPIRY_HOURS = 24; // Emailed download links for personal data exports
+export const DATA_EXPORT_MAX_ATTEMPTS = 3;    // Tries at building a background export before it is marked failed
+export const DATA_EXPORT_RETRY_MINUTES = 10;  // How long a background export may go unfinished before it is tried again
+export const MFA_CHALLENGE_EXPIRY = '5m';    // Time allowed to enter the second factor after the password
+export const MFA_RECOVERY_CODE_COUNT = 10;   // Recovery codes issued at enrollment and on each regeneration
+export const MFA_MAX_ATTEMPTS = 5;           // Wrong second factors in a row before the account's second factor is locked
+export const MFA_LOCKOUT_MINUTES = 15;       // How long the second factor stays locked, across every challenge
+export const WEBAUTHN_CHALLENGE_EXPIRY_SECONDS = 300; // Time allowed to complete a passkey prompt
+export const OAUTH_CODE_EXPIRY_SECONDS = 60; // Authorization codes are exchanged immediately by the client
 
 // Email-to-SMS gateway mappings
 export const SMS_GATEWAYS: { [key: string]: string } = {
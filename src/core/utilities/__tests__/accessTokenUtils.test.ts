@@ -0,0 +1,75 @@
+import { Pool } from 'pg';
+import { validateAccessToken } from '../accessTokenUtils';
+import { clearAccountStateCache } from '../accountStatusUtils';
+import { generateAccessToken, generateVerificationToken } from '../tokenUtils';
+import { ErrorCodes } from '../errorCodes';
+import * as database from '../database';
+
+jest.mock('../database');
+const mockDatabase = database as jest.Mocked<typeof database>;
+
+describe('accessTokenUtils', () => {
+    let mockPool: { query: jest.Mock };
+    const payload = { id: 42, email: 'test@example.com', role: 1, tokenVersion: 3 };
+
+    // First query loads the account state, second checks the revocation list
+    const mockAccount = (status: string, tokenVersion: number, revoked = false) => {
+        mockPool.query
+            .mockResolvedValueOnce({ rowCount: 1, rows: [{ account_status: status, token_version: tokenVersion }] })
+            .mockResolvedValueOnce({ rowCount: revoked ? 1 : 0, rows: [] });
+    };
+
+    beforeEach(() => {
+        clearAccountStateCache();
+        mockPool = { query: jest.fn() };
+        mockDatabase.getPool.mockReturnValue(mockPool as unknown as Pool);
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should accept a live token for an active account', async () => {
+        mockAccount('active', 3);
+
+        const result = await validateAccessToken(generateAccessToken(payload));
+
+        expect(result).toEqual(expect.objectContaining({ outcome: 'active', accountStatus: 'active' }));
+    });
+
+    it('should reject malformed tokens without touching the database', async () => {
+        await expect(validateAccessToken('not-a-token')).resolves.toEqual({ outcome: 'invalid' });
+        expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject verification tokens', async () => {
+        const token = generateVerificationToken(42, 'email');
+
+        await expect(validateAccessToken(token)).resolves.toEqual({ outcome: 'invalid' });
+    });
+
+    it('should reject tokens from an older token version', async () => {
+        mockAccount('active', 4);
+
+        await expect(validateAccessToken(generateAccessToken(payload)))
+            .resolves.toEqual({ outcome: 'revoked' });
+    });
+
+    it('should reject tokens on the revocation list', async () => {
+        mockAccount('active', 3, true);
+
+        await expect(validateAccessToken(generateAccessToken(payload)))
+            .resolves.toEqual({ outcome: 'revoked' });
+    });
+
+    it('should report the status error for suspended accounts', async () => {
+        mockAccount('suspended', 3);
+
+        const result = await validateAccessToken(generateAccessToken(payload));
+
+        expect(result).toEqual({
+            outcome: 'account_status',
+            statusError: expect.objectContaining({ errorCode: ErrorCodes.AUTH_ACCOUNT_SUSPENDED }),
+        });
+    });
+});
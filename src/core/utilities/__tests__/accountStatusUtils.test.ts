@@ -0,0 +1,100 @@
+import { Pool } from 'pg';
+import {
+    getAccountState,
+    invalidateAccountState,
+    clearAccountStateCache,
+    getAccountStatusError
+} from '../accountStatusUtils';
+import { ErrorCodes } from '../errorCodes';
+import * as database from '../database';
+
+jest.mock('../database');
+const mockDatabase = database as jest.Mocked<typeof database>;
+
+describe('accountStatusUtils', () => {
+    let mockPool: { query: jest.Mock };
+
+    beforeEach(() => {
+        clearAccountStateCache();
+        mockPool = {
+            query: jest.fn().mockResolvedValue({
+                rowCount: 1,
+                rows: [{ account_status: 'active', token_version: 2 }],
+            }),
+        };
+        mockDatabase.getPool.mockReturnValue(mockPool as unknown as Pool);
+    });
+
+    afterEach(() => {
+        delete process.env.ACCOUNT_STATUS_CACHE_TTL_SECONDS;
+        jest.clearAllMocks();
+    });
+
+    describe('getAccountState', () => {
+        it('should load status and token version from the database', async () => {
+            const state = await getAccountState(42);
+
+            expect(state).toEqual({ status: 'active', tokenVersion: 2 });
+            expect(mockPool.query).toHaveBeenCalledWith(expect.any(String), [42]);
+        });
+
+        it('should return null for unknown accounts', async () => {
+            mockPool.query.mockResolvedValueOnce({ rowCount: 0, rows: [] });
+            await expect(getAccountState(999)).resolves.toBeNull();
+        });
+
+        it('should serve repeat lookups from the cache', async () => {
+            await getAccountState(42);
+            await getAccountState(42);
+
+            expect(mockPool.query).toHaveBeenCalledTimes(1);
+        });
+
+        it('should re-read the database after invalidation', async () => {
+            await getAccountState(42);
+
+            mockPool.query.mockResolvedValueOnce({
+                rowCount: 1,
+                rows: [{ account_status: 'suspended', token_version: 2 }],
+            });
+            invalidateAccountState(42);
+
+            await expect(getAccountState(42)).resolves.toEqual({ status: 'suspended', tokenVersion: 2 });
+            expect(mockPool.query).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not cache when the TTL is zero', async () => {
+            process.env.ACCOUNT_STATUS_CACHE_TTL_SECONDS = '0';
+
+            await getAccountState(42);
+            await getAccountState(42);
+
+            expect(mockPool.query).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('getAccountStatusError', () => {
+        it('should allow pending and active accounts', () => {
+            expect(getAccountStatusError('pending')).toBeNull();
+            expect(getAccountStatusError('active')).toBeNull();
+        });
+
+        it('should reject suspended accounts', () => {
+            expect(getAccountStatusError('suspended')).toEqual(
+                expect.objectContaining({ httpStatus: 403, errorCode: ErrorCodes.AUTH_ACCOUNT_SUSPENDED })
+            );
+        });
+
+        it('should reject locked accounts', () => {
+            expect(getAccountStatusError('locked')).toEqual(
+                expect.objectContaining({ httpStatus: 403, errorCode: ErrorCodes.AUTH_ACCOUNT_LOCKED })
+            );
+        });
+
+        it('should reject deleted accounts', () => {
+            expect(getAccountStatusError('deleted')).toEqual(
+                expect.objectContaining({ httpStatus: 403, errorCode: ErrorCodes.AUTH_ACCOUNT_DELETED })
+            );
+        });
+    });
+});
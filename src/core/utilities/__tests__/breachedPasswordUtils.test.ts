@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isBreachedPassword } from '../breachedPasswordUtils';
+
+const sha1 = (password: string) => crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+
+describe('Breached Password Utils', () => {
+    let workDir: string;
+
+    beforeAll(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'breached-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        process.env.BREACHED_PASSWORDS_PATH = 'off';
+    });
+
+    it('should screen against a file of hashes, with or without counts', async () => {
+        const corpus = path.join(workDir, 'hashes.txt');
+        fs.writeFileSync(corpus, `# comment\n${sha1('Hunter2Hunter2')}:52\n${sha1('Tr0ub4dor&3').toLowerCase()}\n`);
+        process.env.BREACHED_PASSWORDS_PATH = corpus;
+
+        expect(await isBreachedPassword('Hunter2Hunter2')).toBe(true);
+        expect(await isBreachedPassword('Tr0ub4dor&3')).toBe(true);
+        expect(await isBreachedPassword('CorrectHorse9Battery')).toBe(false);
+    });
+
+    it('should screen against a directory of range files', async () => {
+        const rangeDir = path.join(workDir, 'ranges');
+        const hash = sha1('Hunter2Hunter2');
+        fs.mkdirSync(rangeDir);
+        fs.writeFileSync(path.join(rangeDir, `${hash.slice(0, 5)}.txt`), `0000000000000000000000000000000000A:1\r\n${hash.slice(5)}:52\r\n`);
+        process.env.BREACHED_PASSWORDS_PATH = rangeDir;
+
+        expect(await isBreachedPassword('Hunter2Hunter2')).toBe(true);
+        expect(await isBreachedPassword('CorrectHorse9Battery')).toBe(false);
+    });
+
+    it('should ship a corpus with common passwords', async () => {
+        process.env.BREACHED_PASSWORDS_PATH = 'data/breached-passwords.txt';
+
+        expect(await isBreachedPassword('Password123!')).toBe(true);
+        expect(await isBreachedPassword('Summer2024')).toBe(true);
+    });
+
+    it('should let passwords through when screening is off or the corpus is missing', async () => {
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        try {
+            expect(await isBreachedPassword('Password123!')).toBe(false);
+
+            process.env.BREACHED_PASSWORDS_PATH = path.join(workDir, 'missing.txt');
+            expect(await isBreachedPassword('Password123!')).toBe(false);
+            expect(errorSpy).toHaveBeenCalled();
+        } finally {
+            errorSpy.mockRestore();
+        }
+    });
+});
@@ -0,0 +1,48 @@
+import { decodeCbor, decodeCborPrefix } from '../cborUtils';
+
+describe('cborUtils', () => {
+    const hex = (value: string) => Buffer.from(value, 'hex');
+
+    describe('decodeCbor', () => {
+        // Examples from RFC 8949 Appendix A
+        it.each([
+            ['00', 0],
+            ['17', 23],
+            ['1818', 24],
+            ['1903e8', 1000],
+            ['1a000f4240', 1000000],
+            ['20', -1],
+            ['3863', -100],
+            ['f4', false],
+            ['f5', true],
+            ['f6', null],
+            ['6449455446', 'IETF'],
+        ])('should decode %s', (input, expected) => {
+            expect(decodeCbor(hex(input))).toEqual(expected);
+        });
+
+        it('should decode byte strings as Buffers', () => {
+            expect(decodeCbor(hex('4401020304'))).toEqual(Buffer.from([1, 2, 3, 4]));
+        });
+
+        it('should decode nested arrays and maps with integer keys', () => {
+            expect(decodeCbor(hex('8301820203820405'))).toEqual([1, [2, 3], [4, 5]]);
+            expect(decodeCbor(hex('a201020304'))).toEqual(new Map([[1, 2], [3, 4]]));
+        });
+
+        it('should reject truncated and trailing data', () => {
+            expect(() => decodeCbor(hex('44010203'))).toThrow();
+            expect(() => decodeCbor(hex('0000'))).toThrow();
+        });
+
+        it('should reject indefinite lengths', () => {
+            expect(() => decodeCbor(hex('9f01ff'))).toThrow();
+        });
+    });
+
+    describe('decodeCborPrefix', () => {
+        it('should report how many bytes the first item used', () => {
+            expect(decodeCborPrefix(hex('a10102ff'))).toEqual({ value: new Map([[1, 2]]), length: 3 });
+        });
+    });
+});
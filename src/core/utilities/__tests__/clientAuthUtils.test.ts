@@ -0,0 +1,51 @@
+import { parseBasicAuthorization, isIntrospectionClient } from '../clientAuthUtils';
+
+const basic = (value: string) => `Basic ${Buffer.from(value).toString('base64')}`;
+
+describe('clientAuthUtils', () => {
+    afterEach(() => {
+        delete process.env.INTROSPECTION_CLIENTS;
+    });
+
+    describe('parseBasicAuthorization', () => {
+        it('should decode the client ID and secret', () => {
+            expect(parseBasicAuthorization(basic('orders-api:s3cret:with:colons'))).toEqual({
+                clientId: 'orders-api',
+                clientSecret: 's3cret:with:colons',
+            });
+        });
+
+        it('should form-decode credentials', () => {
+            expect(parseBasicAuthorization(basic('my%20client:a%2Bb'))).toEqual({
+                clientId: 'my client',
+                clientSecret: 'a+b',
+            });
+        });
+
+        it('should return null for missing or malformed headers', () => {
+            expect(parseBasicAuthorization(undefined)).toBeNull();
+            expect(parseBasicAuthorization('Bearer abc')).toBeNull();
+            expect(parseBasicAuthorization(basic('no-separator'))).toBeNull();
+        });
+    });
+
+    describe('isIntrospectionClient', () => {
+        beforeEach(() => {
+            process.env.INTROSPECTION_CLIENTS = 'orders-api:s3cret, billing-api:other';
+        });
+
+        it('should accept configured credentials', () => {
+            expect(isIntrospectionClient({ clientId: 'billing-api', clientSecret: 'other' })).toBe(true);
+        });
+
+        it('should reject a wrong secret or unknown client', () => {
+            expect(isIntrospectionClient({ clientId: 'orders-api', clientSecret: 'other' })).toBe(false);
+            expect(isIntrospectionClient({ clientId: 'unknown', clientSecret: 's3cret' })).toBe(false);
+        });
+
+        it('should reject everyone when nothing is configured', () => {
+            delete process.env.INTROSPECTION_CLIENTS;
+            expect(isIntrospectionClient({ clientId: 'orders-api', clientSecret: 's3cret' })).toBe(false);
+        });
+    });
+});
@@ -3,8 +3,13 @@ import {
     generateHash,
     generateSaltedHash,
     verifyPassword,
+    needsRehash,
+    currentScryptParams,
     generateVerificationCode,
-    generateSecureToken
+    generateSecureToken,
+    hashToken,
+    PasswordHash,
+    PasswordHashAlgorithm
 } from '../credentialingUtils';
 
 describe('credentialingUtils', () => {
@@ -99,13 +104,13 @@ describe('credentialingUtils', () => {
     });
 
     describe('generateSaltedHash', () => {
-        it('should return both salt and hash', async () => {
+        it('should return an scrypt hash with its parameters and salt', async () => {
             const result = await generateSaltedHash('password');
 
-            expect(result).toHaveProperty('salt');
-            expect(result).toHaveProperty('hash');
+            expect(result.algorithm).toBe('scrypt');
+            expect(result.params).toBe(currentScryptParams());
             expect(result.salt).toHaveLength(64);
-            expect(result.hash).toHaveLength(64);
+            expect(result.hash).toMatch(/^[a-f0-9]{128}$/);
         });
 
         it('should generate unique salts for same password', async () => {
@@ -117,13 +122,15 @@ describe('credentialingUtils', () => {
             expect(result1.hash).not.toBe(result2.hash);
         });
 
-        it('should generate verifiable hash', async () => {
-            const password = 'testPassword';
-            const { salt, hash } = await generateSaltedHash(password);
+        it('should follow PASSWORD_SCRYPT_COST', async () => {
+            const original = process.env.PASSWORD_SCRYPT_COST;
+            process.env.PASSWORD_SCRYPT_COST = '11';
 
-            // Manually verify the hash
-            const verificationHash = generateHash(password, salt);
-            expect(hash).toBe(verificationHash);
+            try {
+                expect((await generateSaltedHash('password')).params).toBe('N=2048,r=8,p=1');
+            } finally {
+                process.env.PASSWORD_SCRYPT_COST = original;
+            }
         });
 
         it('should handle long passwords', async () => {
@@ -131,73 +138,89 @@ describe('credentialingUtils', () => {
             const result = await generateSaltedHash(longPassword);
 
             expect(result.salt).toHaveLength(64);
-            expect(result.hash).toHaveLength(64);
+            expect(result.hash).toHaveLength(128);
         });
     });
 
     describe('verifyPassword', () => {
-        it('should return true for correct password', () => {
-            const password = 'correctPassword';
-            const salt = generateSalt();
-            const hash = generateHash(password, salt);
+        /**
+         * A hash as stored before scrypt
+         */
+        const legacyHash = (password: string, salt: string): PasswordHash => ({
+            algorithm: 'sha256',
+            params: null,
+            salt,
+            hash: generateHash(password, salt),
+        });
+
+        it('should return true for correct password', async () => {
+            const stored = await generateSaltedHash('correctPassword');
 
-            const result = verifyPassword(password, salt, hash);
-            expect(result).toBe(true);
+            expect(await verifyPassword('correctPassword', stored)).toBe(true);
         });
 
-        it('should return false for incorrect password', () => {
-            const correctPassword = 'correctPassword';
-            const wrongPassword = 'wrongPassword';
-            const salt = generateSalt();
-            const hash = generateHash(correctPassword, salt);
+        it('should return false for incorrect password', async () => {
+            const stored = await generateSaltedHash('correctPassword');
 
-            const result = verifyPassword(wrongPassword, salt, hash);
-            expect(result).toBe(false);
+            expect(await verifyPassword('wrongPassword', stored)).toBe(false);
         });
 
-        it('should return false for wrong salt', () => {
-            const password = 'testPassword';
-            const correctSalt = generateSalt();
-            const wrongSalt = generateSalt();
-            const hash = generateHash(password, correctSalt);
+        it('should return false for wrong salt', async () => {
+            const stored = await generateSaltedHash('testPassword');
 
-            const result = verifyPassword(password, wrongSalt, hash);
-            expect(result).toBe(false);
+            expect(await verifyPassword('testPassword', { ...stored, salt: generateSalt() })).toBe(false);
         });
 
-        it('should return false for tampered hash', () => {
-            const password = 'testPassword';
-            const salt = generateSalt();
-            const hash = generateHash(password, salt);
-            const tamperedHash = hash.substring(0, 63) + (hash[63] === 'a' ? 'b' : 'a');
+        it('should return false for tampered hash', async () => {
+            const stored = await generateSaltedHash('testPassword');
+            const tamperedHash = stored.hash.substring(0, 127) + (stored.hash[127] === 'a' ? 'b' : 'a');
 
-            const result = verifyPassword(password, salt, tamperedHash);
-            expect(result).toBe(false);
+            expect(await verifyPassword('testPassword', { ...stored, hash: tamperedHash })).toBe(false);
         });
 
-        it('should handle empty strings', () => {
-            const result1 = verifyPassword('', '', generateHash('', ''));
-            expect(result1).toBe(true);
+        it('should use the stored parameters rather than the current ones', async () => {
+            const stored = await generateSaltedHash('testPassword');
+            const original = process.env.PASSWORD_SCRYPT_COST;
+            process.env.PASSWORD_SCRYPT_COST = '11';
+
+            try {
+                expect(await verifyPassword('testPassword', stored)).toBe(true);
+            } finally {
+                process.env.PASSWORD_SCRYPT_COST = original;
+            }
+        });
+
+        it('should reject unreadable parameters and unknown algorithms', async () => {
+            const stored = await generateSaltedHash('testPassword');
 
-            const result2 = verifyPassword('password', '', generateHash('password', ''));
-            expect(result2).toBe(true);
+            expect(await verifyPassword('testPassword', { ...stored, params: 'N=abc' })).toBe(false);
+            expect(await verifyPassword('testPassword', { ...stored, algorithm: 'md5' as PasswordHashAlgorithm })).toBe(false);
         });
 
-        it('should be case sensitive', () => {
+        it('should verify legacy SHA256 hashes', async () => {
             const salt = generateSalt();
-            const hash = generateHash('Password', salt);
 
-            expect(verifyPassword('Password', salt, hash)).toBe(true);
-            expect(verifyPassword('password', salt, hash)).toBe(false);
-            expect(verifyPassword('PASSWORD', salt, hash)).toBe(false);
+            expect(await verifyPassword('Password', legacyHash('Password', salt))).toBe(true);
+            expect(await verifyPassword('password', legacyHash('Password', salt))).toBe(false);
+            expect(await verifyPassword('', legacyHash('', ''))).toBe(true);
         });
 
-        it('should work with generateSaltedHash', async () => {
-            const password = 'integrationTest';
-            const { salt, hash } = await generateSaltedHash(password);
+        it('should be case sensitive', async () => {
+            const stored = await generateSaltedHash('Password');
 
-            expect(verifyPassword(password, salt, hash)).toBe(true);
-            expect(verifyPassword('wrongPassword', salt, hash)).toBe(false);
+            expect(await verifyPassword('Password', stored)).toBe(true);
+            expect(await verifyPassword('password', stored)).toBe(false);
+            expect(await verifyPassword('PASSWORD', stored)).toBe(false);
+        });
+
+        describe('needsRehash', () => {
+            it('should flag legacy hashes and outdated scrypt parameters', async () => {
+                const stored = await generateSaltedHash('password');
+
+                expect(needsRehash(stored)).toBe(false);
+                expect(needsRehash(legacyHash('password', generateSalt()))).toBe(true);
+                expect(needsRehash({ ...stored, params: 'N=1024,r=4,p=1' })).toBe(true);
+            });
         });
     });
 
@@ -326,6 +349,23 @@ describe('credentialingUtils', () => {
         });
     });
 
+    describe('hashToken', () => {
+        it('should generate a 64-character SHA256 hex digest', () => {
+            const digest = hashToken(generateSecureToken());
+            expect(digest).toMatch(/^[a-f0-9]{64}$/);
+        });
+
+        it('should be deterministic so tokens can be looked up by hash', () => {
+            const token = generateSecureToken();
+            expect(hashToken(token)).toBe(hashToken(token));
+        });
+
+        it('should not return the token itself', () => {
+            const token = generateSecureToken();
+            expect(hashToken(token)).not.toBe(token);
+        });
+    });
+
     describe('Integration tests', () => {
         it('should work end-to-end for password creation and verification', async () => {
             const passwords = [
@@ -338,16 +378,16 @@ describe('credentialingUtils', () => {
             ];
 
             for (const password of passwords) {
-                const { salt, hash } = await generateSaltedHash(password);
+                const stored = await generateSaltedHash(password);
 
                 // Should verify correctly
-                expect(verifyPassword(password, salt, hash)).toBe(true);
+                expect(await verifyPassword(password, stored)).toBe(true);
 
                 // Should fail with wrong password
-                expect(verifyPassword(password + 'x', salt, hash)).toBe(false);
+                expect(await verifyPassword(password + 'x', stored)).toBe(false);
 
                 // Should fail with wrong salt
-                expect(verifyPassword(password, generateSalt(), hash)).toBe(false);
+                expect(await verifyPassword(password, { ...stored, salt: generateSalt() })).toBe(false);
             }
         });
 
@@ -370,9 +410,9 @@ describe('credentialingUtils', () => {
             expect(results[0].hash).not.toBe(results[2].hash);
 
             // But all should verify correctly
-            for (const { salt, hash } of results) {
-                expect(verifyPassword(password, salt, hash)).toBe(true);
+            for (const stored of results) {
+                expect(await verifyPassword(password, stored)).toBe(true);
             }
         });
     });
-});
\ No newline at end of file
+});
@@ -412,7 +412,8 @@ describe('emailService', () => {
             const result = await sendPasswordResetEmail(
                 'user@example.com',
                 'Jane',
-                'https://example.com/reset?token=xyz789'
+                'https://example.com/reset?token=xyz789',
+                60
             );
 
             expect(result).toBe(true);
@@ -426,7 +427,7 @@ describe('emailService', () => {
             const htmlContent = mockTransporter.sendMail.mock.calls[0][0].html;
             expect(htmlContent).toContain('https://example.com/reset?token=xyz789');
             expect(htmlContent).toContain('Reset Password');
-            expect(htmlContent).toContain('This link will expire in 1 hour');
+            expect(htmlContent).toContain('This link will expire in 60 minutes and can only be used once');
         });
 
         it('should handle password reset email sending errors', async () => {
@@ -436,7 +437,8 @@ describe('emailService', () => {
             const result = await sendPasswordResetEmail(
                 'user@example.com',
                 'Jane',
-                'https://example.com/reset?token=xyz789'
+                'https://example.com/reset?token=xyz789',
+                60
             );
 
             expect(result).toBe(false);
@@ -463,7 +465,8 @@ describe('emailService', () => {
             const resetResult = await sendPasswordResetEmail(
                 'existinguser@example.com',
                 'Existing User',
-                'https://example.com/reset?token=xyz789'
+                'https://example.com/reset?token=xyz789',
+                60
             );
 
             // Send SMS
@@ -0,0 +1,47 @@
+import { encryptSecret, decryptSecret } from '../encryptionUtils';
+
+describe('encryptionUtils', () => {
+    const originalKey = process.env.MFA_ENCRYPTION_KEY;
+
+    afterEach(() => {
+        if (originalKey === undefined) {
+            delete process.env.MFA_ENCRYPTION_KEY;
+        } else {
+            process.env.MFA_ENCRYPTION_KEY = originalKey;
+        }
+    });
+
+    it('should round-trip a secret', () => {
+        const encrypted = encryptSecret('JBSWY3DPEHPK3PXP', 'account:1:totp');
+
+        expect(encrypted).toMatch(/^v1:/);
+        expect(encrypted).not.toContain('JBSWY3DPEHPK3PXP');
+        expect(decryptSecret(encrypted, 'account:1:totp')).toBe('JBSWY3DPEHPK3PXP');
+    });
+
+    it('should use a fresh IV every time', () => {
+        expect(encryptSecret('secret', 'ctx')).not.toBe(encryptSecret('secret', 'ctx'));
+    });
+
+    it('should refuse to decrypt under a different context', () => {
+        const encrypted = encryptSecret('JBSWY3DPEHPK3PXP', 'account:1:totp');
+
+        expect(() => decryptSecret(encrypted, 'account:2:totp')).toThrow();
+    });
+
+    it('should detect tampering', () => {
+        const [version, iv, tag, ciphertext] = encryptSecret('JBSWY3DPEHPK3PXP', 'ctx').split(':');
+        const flipped = Buffer.from(ciphertext, 'base64url');
+        flipped[0] ^= 1;
+
+        expect(() => decryptSecret([version, iv, tag, flipped.toString('base64url')].join(':'), 'ctx')).toThrow();
+    });
+
+    it('should use MFA_ENCRYPTION_KEY when configured', () => {
+        process.env.MFA_ENCRYPTION_KEY = 'a'.repeat(64);
+        const encrypted = encryptSecret('secret', 'ctx');
+
+        process.env.MFA_ENCRYPTION_KEY = 'b'.repeat(64);
+        expect(() => decryptSecret(encrypted, 'ctx')).toThrow();
+    });
+});
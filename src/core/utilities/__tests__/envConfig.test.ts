@@ -20,6 +20,7 @@ describe('envConfig', () => {
         delete process.env.APP_BASE_URL;
         delete process.env.DEFAULT_SMS_CARRIER;
         delete process.env.JWT_EXPIRY;
+        delete process.env.REFRESH_TOKEN_EXPIRY_DAYS;
     });
 
     afterEach(() => {
@@ -72,6 +73,19 @@ describe('envConfig', () => {
             consoleErrorSpy.mockRestore();
         });
 
+        it.each(['abc', '9', '21', '17.5'])('should reject PASSWORD_SCRYPT_COST=%s at startup', (cost) => {
+            process.env.JWT_SECRET = 'test-secret';
+            process.env.DATABASE_URL = 'postgresql://test';
+            process.env.EMAIL_USER = 'test@example.com';
+            process.env.EMAIL_PASSWORD = 'password123';
+            process.env.PASSWORD_SCRYPT_COST = cost;
+
+            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+            expect(() => validateEnv()).toThrow(`PASSWORD_SCRYPT_COST must be a whole number from 10 to 20 (got "${cost}")`);
+            expect(consoleErrorSpy).toHaveBeenCalled();
+        });
+
         it('should set default values for optional variables', () => {
             // Set required variables
             process.env.JWT_SECRET = 'test-secret';
@@ -92,7 +106,8 @@ describe('envConfig', () => {
             expect(process.env.SEND_SMS_EMAILS).toBe('false');
             expect(process.env.APP_BASE_URL).toBe('http://localhost:8000');
             expect(process.env.DEFAULT_SMS_CARRIER).toBe('att');
-            expect(process.env.JWT_EXPIRY).toBe('14d');
+            expect(process.env.JWT_EXPIRY).toBe('15m');
+            expect(process.env.REFRESH_TOKEN_EXPIRY_DAYS).toBe('14');
 
             consoleSpy.mockRestore();
         });
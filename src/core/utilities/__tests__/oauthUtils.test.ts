@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { resolveScope, verifyPkce, buildRedirectUrl, verifyClientSecret, OAuthClient } from '../oauthUtils';
+import { hashToken } from '../credentialingUtils';
+
+describe('oauthUtils', () => {
+    describe('resolveScope', () => {
+        it('should grant everything allowed when no scope is requested', () => {
+            expect(resolveScope(undefined, 'profile email')).toBe('profile email');
+            expect(resolveScope('  ', 'profile email')).toBe('profile email');
+        });
+
+        it('should grant a subset of the allowed scopes', () => {
+            expect(resolveScope('email email', 'profile email phone')).toBe('email');
+        });
+
+        it('should refuse scopes the client may not request', () => {
+            expect(resolveScope('email admin', 'profile email')).toBeNull();
+        });
+    });
+
+    describe('verifyPkce', () => {
+        // RFC 7636 Appendix B
+        const verifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+        const challenge = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM';
+
+        it('should accept the verifier for the challenge', () => {
+            expect(verifyPkce(verifier, challenge)).toBe(true);
+        });
+
+        it('should reject a different or malformed verifier', () => {
+            expect(verifyPkce(verifier.replace('d', 'e'), challenge)).toBe(false);
+            expect(verifyPkce('too-short', createHash('sha256').update('too-short').digest('base64url'))).toBe(false);
+            expect(verifyPkce(undefined, challenge)).toBe(false);
+        });
+    });
+
+    describe('verifyClientSecret', () => {
+        const client: OAuthClient = {
+            client_id: 'app',
+            client_name: 'App',
+            client_secret_hash: null,
+            redirect_uris: [],
+            allowed_scopes: 'profile',
+        };
+
+        it('should let public clients through without a secret', () => {
+            expect(verifyClientSecret(client)).toBe(true);
+        });
+
+        it('should require the right secret for confidential clients', () => {
+            const confidential = { ...client, client_secret_hash: hashToken('s3cret') };
+
+            expect(verifyClientSecret(confidential, 's3cret')).toBe(true);
+            expect(verifyClientSecret(confidential, 'wrong')).toBe(false);
+            expect(verifyClientSecret(confidential)).toBe(false);
+        });
+    });
+
+    describe('buildRedirectUrl', () => {
+        it('should append parameters and skip undefined ones', () => {
+            const url = buildRedirectUrl('https://app.example.com/cb?keep=1', { code: 'abc', state: undefined });
+
+            expect(url).toBe('https://app.example.com/cb?keep=1&code=abc');
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { buildUserClaims, getIssuer, hasScope } from '../oidcUtils';
+import { IUser, UserRole } from '../../models';
+
+describe('oidcUtils', () => {
+    const user: IUser = {
+        account_id: 42,
+        firstname: 'Ada',
+        lastname: 'Lovelace',
+        username: 'ada',
+        email: 'ada@example.com',
+        phone: '2065551234',
+        account_role: UserRole.USER,
+        email_verified: true,
+        phone_verified: false,
+        account_status: 'active',
+        updated_at: new Date('2024-01-02T03:04:05Z'),
+    };
+
+    describe('buildUserClaims', () => {
+        it('should always include sub as a string', () => {
+            expect(buildUserClaims(user, 'openid')).toEqual({ sub: '42' });
+        });
+
+        it('should map profile claims', () => {
+            expect(buildUserClaims(user, 'openid profile')).toEqual({
+                sub: '42',
+                name: 'Ada Lovelace',
+                given_name: 'Ada',
+                family_name: 'Lovelace',
+                preferred_username: 'ada',
+                updated_at: 1704164645,
+            });
+        });
+
+        it('should map email and phone claims with their verification status', () => {
+            expect(buildUserClaims(user, 'openid email phone')).toEqual({
+                sub: '42',
+                email: 'ada@example.com',
+                email_verified: true,
+                phone_number: '2065551234',
+                phone_number_verified: false,
+            });
+        });
+
+        it('should leave out phone claims when there is no phone number', () => {
+            const claims = buildUserClaims({ ...user, phone: null }, 'openid phone');
+
+            expect(claims.phone_number).toBeUndefined();
+            expect(claims.phone_number_verified).toBeUndefined();
+        });
+    });
+
+    describe('hasScope', () => {
+        it('should match whole scope names only', () => {
+            expect(hasScope('openid profile', 'profile')).toBe(true);
+            expect(hasScope('openid profiles', 'profile')).toBe(false);
+            expect(hasScope(undefined, 'openid')).toBe(false);
+        });
+    });
+
+    describe('getIssuer', () => {
+        const originalBaseUrl = process.env.APP_BASE_URL;
+
+        afterEach(() => {
+            if (originalBaseUrl === undefined) {
+                delete process.env.APP_BASE_URL;
+            } else {
+                process.env.APP_BASE_URL = originalBaseUrl;
+            }
+        });
+
+        it('should strip trailing slashes from APP_BASE_URL', () => {
+            process.env.APP_BASE_URL = 'https://auth.example.com/';
+
+            expect(getIssuer()).toBe('https://auth.example.com');
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { escapeHtml, fillTemplate, renderPage } from '../pageTemplates';
+import { renderAccountPage, renderPasswordResetForm } from '../accountPages';
+
+describe('Page Templates', () => {
+    let workDir: string;
+
+    beforeAll(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pages-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        delete process.env.APP_NAME;
+        delete process.env.PAGE_TEMPLATE_DIR;
+    });
+
+    describe('fillTemplate', () => {
+        it('should escape values but not markup, and drop unknown placeholders', () => {
+            const filled = fillTemplate(
+                '<p>{{name}}</p>{{ list }}{{missing}}',
+                { name: '<script>' },
+                { list: '<ul></ul>' }
+            );
+
+            expect(filled).toBe('<p>&lt;script&gt;</p><ul></ul>');
+            expect(escapeHtml('"a" & \'b\'')).toBe('&quot;a&quot; &amp; &#39;b&#39;');
+        });
+    });
+
+    describe('renderPage', () => {
+        it('should brand the built-in layout with APP_NAME', () => {
+            process.env.APP_NAME = 'Acme <ID>';
+
+            const html = renderPage('Welcome', '<p>Hello</p>');
+
+            expect(html).toContain('<title>Welcome - Acme &lt;ID&gt;</title>');
+            expect(html).toContain('<p>Hello</p>');
+        });
+
+        it('should use a layout from PAGE_TEMPLATE_DIR', () => {
+            const directory = path.join(workDir, 'layout');
+            fs.mkdirSync(directory);
+            fs.writeFileSync(path.join(directory, 'layout.html'), '<html><h2>{{appName}}</h2>{{content}}</html>');
+            process.env.PAGE_TEMPLATE_DIR = directory;
+            process.env.APP_NAME = 'Acme';
+
+            expect(renderPage('Welcome', '<p>Hello</p>')).toBe('<html><h2>Acme</h2><p>Hello</p></html>');
+        });
+    });
+
+    describe('account pages', () => {
+        it('should let a deployment replace a single page', () => {
+            const directory = path.join(workDir, 'pages');
+            fs.mkdirSync(directory);
+            fs.writeFileSync(path.join(directory, 'email-verified.html'), '<p>All set at {{appName}}!</p>');
+            process.env.PAGE_TEMPLATE_DIR = directory;
+
+            expect(renderAccountPage('email-verified')).toContain('<p>All set at Auth²!</p>');
+            expect(renderAccountPage('email-link-expired')).toContain('This link has expired');
+        });
+
+        it('should escape the token and errors on the reset form', () => {
+            const html = renderPasswordResetForm({
+                token: '"><script>',
+                minLength: 8,
+                errors: ['Too <short>'],
+            });
+
+            expect(html).toContain('value="&quot;&gt;&lt;script&gt;"');
+            expect(html).toContain('<li>Too &lt;short&gt;</li>');
+            expect(html).toContain('minlength="8"');
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import { checkPasswordRules, getPasswordPolicy } from '../passwordPolicyUtils';
+
+describe('Password Policy Utils', () => {
+    afterEach(() => {
+        delete process.env.PASSWORD_MIN_LENGTH;
+        delete process.env.PASSWORD_REQUIRED_CLASSES;
+    });
+
+    describe('getPasswordPolicy', () => {
+        it('should default to 8-128 characters with upper, lower and digit', () => {
+            expect(getPasswordPolicy()).toEqual({
+                minLength: 8,
+                maxLength: 128,
+                requiredClasses: ['uppercase', 'lowercase', 'digit'],
+                historyCount: 5,
+            });
+        });
+
+        it('should ignore unknown character classes', () => {
+            process.env.PASSWORD_REQUIRED_CLASSES = 'symbol, emoji ,digit';
+
+            expect(getPasswordPolicy().requiredClasses).toEqual(['symbol', 'digit']);
+        });
+    });
+
+    describe('checkPasswordRules', () => {
+        it('should accept a password that meets every rule', () => {
+            expect(checkPasswordRules('Password123!', { username: 'jdoe', email: 'jdoe@example.com' })).toEqual([]);
+        });
+
+        it('should list every broken rule', () => {
+            const violations = checkPasswordRules('short');
+
+            expect(violations.map(violation => violation.rule)).toEqual(['length', 'uppercase', 'digit']);
+            expect(violations[0]).toEqual({
+                field: 'password',
+                rule: 'length',
+                message: 'Password must be between 8 and 128 characters',
+            });
+        });
+
+        it('should reject passwords longer than the maximum', () => {
+            expect(checkPasswordRules(`Aa1${'x'.repeat(126)}`).map(violation => violation.rule)).toEqual(['length']);
+        });
+
+        it('should follow the configured length and classes', () => {
+            process.env.PASSWORD_MIN_LENGTH = '12';
+            process.env.PASSWORD_REQUIRED_CLASSES = 'symbol';
+
+            expect(checkPasswordRules('lowercaseonly!')).toEqual([]);
+            expect(checkPasswordRules('Password123').map(violation => violation.rule)).toEqual(['length', 'symbol']);
+        });
+
+        it('should reject the username or email local part, ignoring case', () => {
+            const context = { username: 'johnny', email: 'jsmith@example.com' };
+
+            expect(checkPasswordRules('MyJOHNNY2024', context)[0].rule).toBe('personal_info');
+            expect(checkPasswordRules('Jsmith2024!', context)[0].rule).toBe('personal_info');
+        });
+
+        it('should not check very short usernames', () => {
+            expect(checkPasswordRules('Password123!', { username: 'pa' })).toEqual([]);
+        });
+
+        it('should report against the given field', () => {
+            expect(checkPasswordRules('short', {}, 'newPassword')[0].field).toBe('newPassword');
+        });
+    });
+});
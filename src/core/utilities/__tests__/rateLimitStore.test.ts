@@ -0,0 +1,90 @@
+import {
+    createMemoryRateLimitStore,
+    createPostgresRateLimitStore,
+    RateLimitStore
+} from '../rateLimitStore';
+import { createTestDatabase, closeTestDatabase, TestDatabase } from '../../../test/helpers/pgMemSetup';
+
+const WINDOW_MS = 60 * 1000;
+const WINDOW_START = Math.floor(Date.now() / WINDOW_MS) * WINDOW_MS;
+
+/**
+ * Behaviour both stores must share
+ */
+const describeStore = (createStore: () => RateLimitStore) => {
+    it('should count hits per key and window', async () => {
+        const store = createStore();
+
+        expect(await store.increment('a', WINDOW_START, WINDOW_MS)).toBe(1);
+        expect(await store.increment('a', WINDOW_START, WINDOW_MS)).toBe(2);
+        expect(await store.increment('b', WINDOW_START, WINDOW_MS)).toBe(1);
+        expect(await store.increment('a', WINDOW_START + WINDOW_MS, WINDOW_MS)).toBe(1);
+    });
+
+    it('should read a window without counting a hit', async () => {
+        const store = createStore();
+        await store.increment('read', WINDOW_START, WINDOW_MS);
+
+        expect(await store.get('read', WINDOW_START)).toBe(1);
+        expect(await store.get('read', WINDOW_START)).toBe(1);
+        expect(await store.get('read', WINDOW_START - WINDOW_MS)).toBe(0);
+    });
+};
+
+describe('Rate limit stores', () => {
+    describe('memory', () => {
+        describeStore(createMemoryRateLimitStore);
+
+        it('should sweep counters once their windows have passed', async () => {
+            const store = createMemoryRateLimitStore();
+            const now = Date.now();
+            const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+            try {
+                await store.increment('old', WINDOW_START - 3 * WINDOW_MS, WINDOW_MS);
+                nowSpy.mockReturnValue(now + 2 * WINDOW_MS);
+                await store.increment('new', WINDOW_START, WINDOW_MS);
+
+                expect(await store.get('old', WINDOW_START - 3 * WINDOW_MS)).toBe(0);
+            } finally {
+                nowSpy.mockRestore();
+            }
+        });
+    });
+
+    describe('postgres', () => {
+        let database: TestDatabase;
+
+        beforeAll(() => {
+            database = createTestDatabase();
+        });
+
+        afterAll(async () => {
+            await closeTestDatabase(database);
+        });
+
+        beforeEach(async () => {
+            await database.pool.query('DELETE FROM Rate_Limit_Counter');
+        });
+
+        describeStore(createPostgresRateLimitStore);
+
+        it('should share counters between store instances', async () => {
+            await createPostgresRateLimitStore().increment('shared', WINDOW_START, WINDOW_MS);
+
+            expect(await createPostgresRateLimitStore().increment('shared', WINDOW_START, WINDOW_MS)).toBe(2);
+        });
+
+        it('should sweep expired counters', async () => {
+            await database.pool.query(
+                `INSERT INTO Rate_Limit_Counter (Bucket_Key, Window_Start, Hit_Count, Expires_At)
+                 VALUES ('expired', NOW() - INTERVAL '1 hour', 5, NOW() - INTERVAL '1 minute')`
+            );
+
+            await createPostgresRateLimitStore().increment('fresh', WINDOW_START, WINDOW_MS);
+            const remaining = await database.pool.query('SELECT Bucket_Key FROM Rate_Limit_Counter');
+
+            expect(remaining.rows.map(row => row.bucket_key)).toEqual(['fresh']);
+        });
+    });
+});
@@ -0,0 +1,146 @@
+import { PoolClient } from 'pg';
+import { rotateRefreshToken, issueRefreshToken } from '../refreshTokenUtils';
+import { hashToken } from '../credentialingUtils';
+import * as transactionUtils from '../transactionUtils';
+
+// Run transaction callbacks against a mock client instead of a real pool
+jest.mock('../transactionUtils');
+const mockTransactionUtils = transactionUtils as jest.Mocked<typeof transactionUtils>;
+
+describe('refreshTokenUtils', () => {
+    let mockClient: { query: jest.Mock };
+
+    const storedToken = (overrides: Record<string, unknown> = {}) => ({
+        rowCount: 1,
+        rows: [{
+            token_id: 7,
+            account_id: 42,
+            family_id: 'family-1',
+            expires_at: new Date(Date.now() + 60_000),
+            revoked_at: null,
+            replaced_by: null,
+            client_id: null,
+            scope: null,
+            ...overrides,
+        }],
+    });
+
+    beforeEach(() => {
+        mockClient = { query: jest.fn().mockResolvedValue({ rowCount: 1, rows: [] }) };
+
+        mockTransactionUtils.withTransaction.mockImplementation(async (operation) => ({
+            success: true,
+            data: await operation(mockClient as unknown as PoolClient),
+        }));
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('issueRefreshToken', () => {
+        it('should store only the hash of the token', async () => {
+            const issued = await issueRefreshToken(mockClient as unknown as PoolClient, 42, { familyId: 'family-1' });
+
+            const [, params] = mockClient.query.mock.calls[0];
+            expect(params).toEqual([42, 'family-1', hashToken(issued.token), issued.expiresAt, null, null]);
+            expect(params).not.toContain(issued.token);
+        });
+
+        it('should start a new family when none is given', async () => {
+            const first = await issueRefreshToken(mockClient as unknown as PoolClient, 42);
+            const second = await issueRefreshToken(mockClient as unknown as PoolClient, 42);
+
+            expect(first.familyId).not.toBe(second.familyId);
+        });
+
+        it('should honour REFRESH_TOKEN_EXPIRY_DAYS', async () => {
+            process.env.REFRESH_TOKEN_EXPIRY_DAYS = '1';
+
+            const issued = await issueRefreshToken(mockClient as unknown as PoolClient, 42);
+            const expectedExpiry = Date.now() + 24 * 60 * 60 * 1000;
+
+            expect(Math.abs(issued.expiresAt.getTime() - expectedExpiry)).toBeLessThan(5000);
+            delete process.env.REFRESH_TOKEN_EXPIRY_DAYS;
+        });
+    });
+
+    describe('rotateRefreshToken', () => {
+        it('should report unknown tokens as invalid', async () => {
+            mockClient.query.mockResolvedValueOnce({ rowCount: 0, rows: [] });
+
+            const result = await rotateRefreshToken('unknown');
+            expect(result).toEqual({ status: 'invalid' });
+        });
+
+        it('should issue a replacement in the same family', async () => {
+            mockClient.query.mockResolvedValueOnce(storedToken());
+
+            const result = await rotateRefreshToken('valid');
+
+            expect(result.status).toBe('rotated');
+            if (result.status === 'rotated') {
+                expect(result.accountId).toBe(42);
+                expect(result.refreshToken.familyId).toBe('family-1');
+                expect(result.refreshToken.token).not.toBe('valid');
+            }
+
+            // Old token must be marked as replaced
+            const updateCall = mockClient.query.mock.calls.find(([sql]) => sql.includes('Replaced_By ='));
+            expect(updateCall).toBeDefined();
+            expect(updateCall![1][1]).toBe(7);
+        });
+
+        it('should revoke the whole family when a rotated token is replayed', async () => {
+            mockClient.query.mockResolvedValueOnce(storedToken({ revoked_at: new Date(), replaced_by: 8 }));
+
+            const result = await rotateRefreshToken('stolen');
+
+            expect(result).toEqual({ status: 'reused', accountId: 42 });
+            const revokeCall = mockClient.query.mock.calls.find(([sql]) => sql.includes('WHERE Family_ID = $1'));
+            expect(revokeCall![1]).toEqual(['family-1']);
+        });
+
+        it('should reject revoked tokens that were never rotated', async () => {
+            mockClient.query.mockResolvedValueOnce(storedToken({ revoked_at: new Date() }));
+
+            const result = await rotateRefreshToken('logged-out');
+            expect(result).toEqual({ status: 'invalid' });
+        });
+
+        it('should carry the client and scope over to the replacement', async () => {
+            mockClient.query.mockResolvedValueOnce(storedToken({ client_id: 'web-app', scope: 'profile' }));
+
+            const result = await rotateRefreshToken('valid', 'web-app');
+
+            expect(result).toEqual(expect.objectContaining({ status: 'rotated', scope: 'profile' }));
+            const insertCall = mockClient.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO Refresh_Token'));
+            expect(insertCall![1].slice(4)).toEqual(['web-app', 'profile']);
+        });
+
+        it('should reject tokens issued to a different client', async () => {
+            mockClient.query.mockResolvedValueOnce(storedToken({ client_id: 'web-app' }));
+
+            const result = await rotateRefreshToken('valid');
+
+            expect(result).toEqual({ status: 'invalid' });
+            expect(mockClient.query).toHaveBeenCalledTimes(1);
+        });
+
+        it('should reject expired tokens', async () => {
+            mockClient.query.mockResolvedValueOnce(storedToken({ expires_at: new Date(Date.now() - 1000) }));
+
+            const result = await rotateRefreshToken('old');
+            expect(result).toEqual({ status: 'expired' });
+        });
+
+        it('should rethrow database failures', async () => {
+            mockTransactionUtils.withTransaction.mockResolvedValueOnce({
+                success: false,
+                error: new Error('connection lost'),
+            });
+
+            await expect(rotateRefreshToken('any')).rejects.toThrow('connection lost');
+        });
+    });
+});
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import {
+    rotateSigningKeys,
+    generateSigningKey,
+    getActiveSigningKey,
+    getVerificationKey,
+    getJwks,
+    resetSigningKeyCache
+} from '../signingKeyStore';
+import { generateAccessToken, verifyToken } from '../tokenUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('signingKeyStore', () => {
+    let keysDir: string;
+
+    const backdateKey = (kid: string, field: 'createdAt' | 'retiredAt', days: number): void => {
+        const file = path.join(keysDir, `${kid}.json`);
+        const key = JSON.parse(fs.readFileSync(file, 'utf8'));
+        key[field] = new Date(Date.now() - days * DAY_MS).toISOString();
+        fs.writeFileSync(file, JSON.stringify(key));
+    };
+
+    beforeEach(() => {
+        keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'signing-keys-'));
+        process.env.JWT_KEYS_DIR = keysDir;
+        resetSigningKeyCache();
+    });
+
+    afterEach(() => {
+        fs.rmSync(keysDir, { recursive: true, force: true });
+        delete process.env.JWT_ALGORITHM;
+        resetSigningKeyCache();
+    });
+
+    describe('rotateSigningKeys', () => {
+        it('should generate and persist a key when none exists', () => {
+            const key = rotateSigningKeys();
+
+            expect(key.alg).toBe('RS256');
+            expect(key.privateKey).toContain('ENCRYPTED PRIVATE KEY');
+            expect(fs.existsSync(path.join(keysDir, `${key.kid}.json`))).toBe(true);
+        });
+
+        it('should reuse the active key until rotation is due', () => {
+            const first = rotateSigningKeys();
+            resetSigningKeyCache();
+
+            expect(rotateSigningKeys().kid).toBe(first.kid);
+        });
+
+        it('should rotate keys older than the rotation period', () => {
+            const first = rotateSigningKeys();
+            backdateKey(first.kid, 'createdAt', 31);
+
+            const second = rotateSigningKeys();
+
+            expect(second.kid).not.toBe(first.kid);
+            expect(getVerificationKey(first.kid)?.retiredAt).not.toBeNull();
+        });
+
+        it('should prune retired keys once the overlap window has passed', () => {
+            const first = rotateSigningKeys();
+            rotateSigningKeys(true);
+            backdateKey(first.kid, 'retiredAt', 3);
+
+            rotateSigningKeys();
+
+            expect(fs.existsSync(path.join(keysDir, `${first.kid}.json`))).toBe(false);
+            expect(getVerificationKey(first.kid)).toBeUndefined();
+        });
+
+        it('should rotate when the configured algorithm changes', () => {
+            rotateSigningKeys();
+            process.env.JWT_ALGORITHM = 'ES256';
+
+            expect(rotateSigningKeys().alg).toBe('ES256');
+        });
+
+        it('should reject unsupported algorithms', () => {
+            process.env.JWT_ALGORITHM = 'HS256';
+
+            expect(() => rotateSigningKeys()).toThrow('Unsupported JWT_ALGORITHM');
+        });
+    });
+
+    describe('getJwks', () => {
+        it('should publish public keys for active and retired keys only', () => {
+            const first = rotateSigningKeys();
+            const second = rotateSigningKeys(true);
+
+            const jwks = getJwks();
+
+            expect(jwks.keys.map(key => key.kid)).toEqual([second.kid, first.kid]);
+            expect(jwks.keys[0]).toEqual(expect.objectContaining({ kty: 'RSA', alg: 'RS256', use: 'sig' }));
+            expect(jwks.keys[0]).not.toHaveProperty('d');
+        });
+    });
+
+    describe('token signing', () => {
+        const payload = { id: 1, email: 'test@example.com', role: 1, tokenVersion: 0 };
+
+        it.each(['RS256', 'ES256'])('should sign and verify %s tokens with a kid header', (alg) => {
+            process.env.JWT_ALGORITHM = alg;
+
+            const token = generateAccessToken(payload);
+            const header = jwt.decode(token, { complete: true })?.header;
+
+            expect(header).toEqual(expect.objectContaining({ alg, kid: getActiveSigningKey().kid }));
+            expect(verifyToken(token)).toEqual(expect.objectContaining({ id: 1, ver: 0 }));
+        });
+
+        it('should keep verifying tokens from a retired key during the overlap', () => {
+            const token = generateAccessToken(payload);
+            rotateSigningKeys(true);
+
+            expect(verifyToken(token)).toEqual(expect.objectContaining({ id: 1 }));
+        });
+
+        it('should reject tokens signed with an unknown key', () => {
+            const token = jwt.sign({ id: 1 }, 'some-shared-secret', { keyid: 'unknown' });
+
+            expect(() => verifyToken(token)).toThrow('unknown signing key');
+        });
+
+        it('should pick up a key another instance wrote, but throttle reloads on unknown kids', () => {
+            rotateSigningKeys();
+            const fromOtherInstance = generateSigningKey();
+            fs.writeFileSync(path.join(keysDir, `${fromOtherInstance.kid}.json`), JSON.stringify(fromOtherInstance));
+            const readdir = jest.spyOn(fs, 'readdirSync');
+
+            expect(getVerificationKey('not-a-kid')).toBeUndefined();
+            expect(getVerificationKey(fromOtherInstance.kid)).toEqual(fromOtherInstance);
+            expect(getVerificationKey('0123456789abcdef')).toBeUndefined();
+            expect(readdir).toHaveBeenCalledTimes(1);
+
+            readdir.mockRestore();
+        });
+
+        it('should reject tokens whose algorithm does not match the key', () => {
+            const key = rotateSigningKeys();
+            const forged = jwt.sign({ id: 1 }, key.publicKey.replace(/\n/g, ''), { keyid: key.kid });
+
+            expect(() => verifyToken(forged)).toThrow();
+        });
+    });
+});
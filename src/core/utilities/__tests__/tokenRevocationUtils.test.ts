@@ -0,0 +1,69 @@
+import { Pool } from 'pg';
+import {
+    revokeAccessToken,
+    isAccessTokenRevoked,
+    revokeAllSessions
+} from '../tokenRevocationUtils';
+import { getAccountState, clearAccountStateCache } from '../accountStatusUtils';
+import * as database from '../database';
+
+jest.mock('../database');
+const mockDatabase = database as jest.Mocked<typeof database>;
+
+describe('tokenRevocationUtils', () => {
+    let mockPool: { query: jest.Mock };
+
+    beforeEach(() => {
+        mockPool = { query: jest.fn().mockResolvedValue({ rowCount: 0, rows: [] }) };
+        mockDatabase.getPool.mockReturnValue(mockPool as unknown as Pool);
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('revokeAccessToken', () => {
+        it('should purge expired entries and record the jti', async () => {
+            const expiresAt = new Date(Date.now() + 60_000);
+
+            await revokeAccessToken(mockPool as unknown as Pool, 'jti-1', 42, expiresAt);
+
+            expect(mockPool.query.mock.calls[0][0]).toContain('DELETE FROM Revoked_Token');
+            expect(mockPool.query.mock.calls[1][1]).toEqual(['jti-1', 42, expiresAt]);
+        });
+    });
+
+    describe('isAccessTokenRevoked', () => {
+        it('should return true when the jti is on the list', async () => {
+            mockPool.query.mockResolvedValueOnce({ rowCount: 1, rows: [{}] });
+            await expect(isAccessTokenRevoked('jti-1')).resolves.toBe(true);
+        });
+
+        it('should return false when the jti is not on the list', async () => {
+            await expect(isAccessTokenRevoked('jti-2')).resolves.toBe(false);
+        });
+    });
+
+    describe('revokeAllSessions', () => {
+        it('should bump the token version and revoke refresh tokens', async () => {
+            await revokeAllSessions(mockPool as unknown as Pool, 42);
+
+            const statements = mockPool.query.mock.calls.map(([sql]) => sql);
+            expect(statements[0]).toContain('Token_Version = Token_Version + 1');
+            expect(statements[1]).toContain('UPDATE Refresh_Token');
+            expect(mockPool.query.mock.calls.every(([, params]) => params[0] === 42)).toBe(true);
+        });
+
+        it('should leave the cached account state for the caller to drop after commit', async () => {
+            clearAccountStateCache();
+            mockPool.query.mockResolvedValueOnce({ rowCount: 1, rows: [{ account_status: 'active', token_version: 0 }] });
+            await getAccountState(42);
+
+            await revokeAllSessions(mockPool as unknown as Pool, 42);
+            mockPool.query.mockClear();
+
+            await expect(getAccountState(42)).resolves.toEqual({ status: 'active', tokenVersion: 0 });
+            expect(mockPool.query).not.toHaveBeenCalled();
+        });
+    });
+});
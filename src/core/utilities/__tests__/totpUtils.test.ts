@@ -0,0 +1,89 @@
+import {
+    base32Encode,
+    base32Decode,
+    generateTotp,
+    generateTotpSecret,
+    getTotpStep,
+    verifyTotp,
+    buildOtpauthUri
+} from '../totpUtils';
+
+describe('totpUtils', () => {
+    // RFC 6238 Appendix B uses the ASCII seed "12345678901234567890" for SHA-1
+    const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+    describe('base32', () => {
+        it('should encode the RFC 4648 test vectors', () => {
+            expect(base32Encode(Buffer.from('f'))).toBe('MY');
+            expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+        });
+
+        it('should round-trip random bytes', () => {
+            const secret = generateTotpSecret();
+
+            expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+            expect(base32Encode(base32Decode(secret))).toBe(secret);
+        });
+
+        it('should ignore case, spaces and padding when decoding', () => {
+            expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+        });
+
+        it('should reject characters outside the alphabet', () => {
+            expect(() => base32Decode('MZXW1')).toThrow();
+        });
+    });
+
+    describe('generateTotp', () => {
+        it.each([
+            [59, '94287082'],
+            [1111111109, '07081804'],
+            [1111111111, '14050471'],
+            [1234567890, '89005924'],
+            [2000000000, '69279037'],
+            [20000000000, '65353130'],
+        ])('should match the RFC 6238 vector at T=%i', (seconds, expected) => {
+            expect(generateTotp(RFC_SECRET, getTotpStep(seconds * 1000), 8)).toBe(expected);
+        });
+
+        it('should default to 6 digits', () => {
+            expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000))).toBe('287082');
+        });
+    });
+
+    describe('verifyTotp', () => {
+        const now = 1111111111 * 1000;
+
+        it('should return the matching step for a current code', () => {
+            const step = getTotpStep(now);
+
+            expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), now)).toBe(step);
+        });
+
+        it('should allow one step of clock drift either way', () => {
+            const step = getTotpStep(now);
+
+            expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now)).toBe(step - 1);
+            expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), now)).toBe(step + 1);
+            expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), now)).toBeNull();
+        });
+
+        it('should reject malformed codes', () => {
+            expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+            expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+        });
+    });
+
+    describe('buildOtpauthUri', () => {
+        it('should include the label, secret and issuer', () => {
+            const uri = new URL(buildOtpauthUri('JBSWY3DPEHPK3PXP', 'alice@example.com', 'Auth2'));
+
+            expect(uri.protocol).toBe('otpauth:');
+            expect(uri.host).toBe('totp');
+            expect(decodeURIComponent(uri.pathname)).toBe('/Auth2:alice@example.com');
+            expect(uri.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+            expect(uri.searchParams.get('issuer')).toBe('Auth2');
+            expect(uri.searchParams.get('digits')).toBe('6');
+        });
+    });
+});
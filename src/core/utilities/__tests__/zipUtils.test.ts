@@ -0,0 +1,55 @@
+import { inflateRawSync } from 'zlib';
+import { crc32, createZip } from '../zipUtils';
+
+describe('zipUtils', () => {
+    /**
+     * Read the entries back through the central directory, as unzip tools do
+     */
+    const readZip = (zip: Buffer): Record<string, string> => {
+        const endOffset = zip.length - 22;
+        expect(zip.readUInt32LE(endOffset)).toBe(0x06054b50);
+
+        const count = zip.readUInt16LE(endOffset + 10);
+        let offset = zip.readUInt32LE(endOffset + 16);
+        const files: Record<string, string> = {};
+
+        for (let i = 0; i < count; i++) {
+            expect(zip.readUInt32LE(offset)).toBe(0x02014b50);
+            const checksum = zip.readUInt32LE(offset + 16);
+            const compressedSize = zip.readUInt32LE(offset + 20);
+            const nameLength = zip.readUInt16LE(offset + 28);
+            const localOffset = zip.readUInt32LE(offset + 42);
+            const name = zip.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+            const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26);
+            const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+            expect(crc32(data)).toBe(checksum);
+
+            files[name] = data.toString('utf8');
+            offset += 46 + nameLength;
+        }
+        return files;
+    };
+
+    it('should compute the standard CRC-32 check value', () => {
+        expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+        expect(crc32(Buffer.alloc(0))).toBe(0);
+    });
+
+    it('should build an archive whose files read back unchanged', () => {
+        const zip = createZip([
+            { name: 'account.json', content: '{"email":"zip@example.com"}' },
+            { name: 'notes/ünïcode.txt', content: Buffer.from('x'.repeat(5000)) },
+        ]);
+
+        expect(zip.subarray(0, 4).toString('latin1')).toBe('PK\u0003\u0004');
+        expect(readZip(zip)).toEqual({
+            'account.json': '{"email":"zip@example.com"}',
+            'notes/ünïcode.txt': 'x'.repeat(5000),
+        });
+    });
+
+    it('should build a valid empty archive', () => {
+        expect(readZip(createZip([]))).toEqual({});
+    });
+});
@@ -0,0 +1,82 @@
+// src/core/utilities/accessTokenUtils.ts
+import { AccountStatus, IJwtClaims } from '@models';
+import { verifyToken, OAUTH_ACCESS_TOKEN_TYPE } from './tokenUtils';
+import { isAccessTokenRevoked } from './tokenRevocationUtils';
+import { getAccountState, getAccountStatusError, AccountStatusError } from './accountStatusUtils';
+import { getServiceClient } from './serviceClientUtils';
+
+/**
+ * Outcome of checking an access token
+ * - active: usable; claims and the live account status are included
+ *   (accountStatus is null for service client tokens, which have no account)
+ * - invalid: bad signature, expired, or not an access token at all
+ * - revoked: logged out, or issued before the account's token version changed
+ * - account_status: signature fine but the account may not authenticate
+ */
+export type AccessTokenValidation =
+    | { outcome: 'active'; claims: IJwtClaims; accountStatus: AccountStatus | null }
+    | { outcome: 'invalid' | 'revoked' }
+    | { outcome: 'account_status'; statusError: AccountStatusError };
+
+/**
+ * - allowOAuthTokens: also accept tokens issued to OAuth clients. Only for
+ *   endpoints that check the token's scope themselves (userinfo, introspection)
+ */
+export interface AccessTokenValidationOptions {
+    allowOAuthTokens?: boolean;
+}
+
+/**
+ * Fully validate an access token: signature and expiry, then revocation,
+ * then the live account status. Shared by checkToken and token introspection
+ * so both always agree on whether a token is usable
+ *
+ * @throws If the database can't be reached
+ */
+export const validateAccessToken = async (
+    token: string,
+    { allowOAuthTokens = false }: AccessTokenValidationOptions = {}
+): Promise<AccessTokenValidation> => {
+    let claims: IJwtClaims & { type?: string };
+    try {
+        claims = verifyToken<IJwtClaims & { type?: string }>(token);
+    } catch (error) {
+        return { outcome: 'invalid' };
+    }
+
+    // MFA challenge and verification tokens share the signing keys but carry a
+    // type; so do OAuth client tokens, which are only accepted when allowed
+    const allowedType = allowOAuthTokens && claims.type === OAUTH_ACCESS_TOKEN_TYPE;
+    if ((claims.type !== undefined && !allowedType) || !claims.jti) {
+        return { outcome: 'invalid' };
+    }
+
+    // Service client tokens: the client must still exist, be enabled,
+    // and not have had its tokens revoked (secret rotation, disabling)
+    if (claims.id === undefined) {
+        const serviceClient = claims.sub ? await getServiceClient(claims.sub) : null;
+        if (!serviceClient || !serviceClient.is_active || claims.ver !== serviceClient.token_version) {
+            return { outcome: 'revoked' };
+        }
+        return { outcome: 'active', claims, accountStatus: null };
+    }
+
+    // A valid signature is not enough - the token may have been
+    // logged out, or the account may have revoked all of its tokens
+    const accountState = await getAccountState(claims.id);
+    if (
+        accountState === null ||
+        claims.ver !== accountState.tokenVersion ||
+        (await isAccessTokenRevoked(claims.jti))
+    ) {
+        return { outcome: 'revoked' };
+    }
+
+    // Suspended, locked and deleted accounts lose access immediately
+    const statusError = getAccountStatusError(accountState.status);
+    if (statusError) {
+        return { outcome: 'account_status', statusError };
+    }
+
+    return { outcome: 'active', claims, accountStatus: accountState.status };
+};
@@ -0,0 +1,38 @@
+// src/core/utilities/accountAuditUtils.ts
+import { Queryable } from './database';
+
+/**
+ * Events recorded against an account
+ * - locked_out / mfa_locked: too many wrong passwords or second factors (automatic)
+ * - the rest are admin actions; password_reset and deleted also sign the account out everywhere
+ */
+export type AccountAuditAction =
+    | 'locked_out'
+    | 'mfa_locked'
+    | 'unlocked'
+    | 'mfa_reset'
+    | 'password_reset'
+    | 'role_changed'
+    | 'status_changed'
+    | 'profile_updated'
+    | 'deleted';
+
+/**
+ * Record an event in the account's audit trail (the Account_Audit table)
+ * Sign-in attempts and password changes have their own tables; this covers
+ * the lockouts and admin actions that would otherwise leave no trace
+ * @param actorId The admin who acted, or null for automatic events
+ * @param details Extra facts about the event, stored as JSON
+ */
+export const recordAccountAudit = async (
+    db: Queryable,
+    accountId: number,
+    actorId: number | null,
+    action: AccountAuditAction,
+    details: Record<string, unknown> = {}
+): Promise<void> => {
+    await db.query(
+        'INSERT INTO Account_Audit (Account_ID, Actor_ID, Action, Details) VALUES ($1, $2, $3, $4)',
+        [accountId, actorId, action, JSON.stringify(details)]
+    );
+};
@@ -0,0 +1,213 @@
+// src/core/utilities/accountClosureUtils.ts
+import { getPool, Queryable } from './database';
+import { generateSecureToken, hashToken } from './credentialingUtils';
+import { getEnvVar } from './envConfig';
+import { withTransaction } from './transactionUtils';
+import { revokeAllSessions } from './tokenRevocationUtils';
+import { invalidateAccountState } from './accountStatusUtils';
+
+/**
+ * A closed account keeps its status until its grace period is over; signing
+ * in or following the restore link (an Email_Verification row with purpose
+ * 'restore') cancels the deletion. After that, purgeClosedAccounts strips the
+ * account's personal data and marks it deleted
+ */
+export interface ScheduledDeletion {
+    restoreToken: string;
+    deletionScheduledFor: Date;
+}
+
+/**
+ * Outcome of following the restore link
+ * - restored: the deletion was cancelled; the user can sign in again
+ * - invalid: unknown token, already used, or the account is already gone
+ */
+export type AccountRestoration =
+    | { status: 'restored'; accountId: number }
+    | { status: 'invalid' };
+
+/**
+ * Tables holding credentials, codes and sign-in history, emptied for an
+ * account when it is anonymized
+ */
+const ACCOUNT_DATA_TABLES = [
+    'Account_Credential',
+    'Phone_Verification',
+    'Email_Verification',
+    'Refresh_Token',
+    'Revoked_Token',
+    'OAuth_Authorization_Code',
+    'MFA_Recovery_Code',
+    'Account_MFA',
+    'WebAuthn_Credential',
+    'WebAuthn_Challenge',
+    'Password_Reset_Token',
+    'Magic_Link_Token',
+    'SMS_Login_Code',
+    'Password_History',
+    'Login_Attempt',
+    'Data_Export',
+    'Account_Audit',
+];
+
+/**
+ * Days between closing an account and its data being removed
+ */
+export const getAccountDeletionGraceDays = (): number => {
+    return parseInt(getEnvVar('ACCOUNT_DELETION_GRACE_DAYS', '30'));
+};
+
+/**
+ * Close an account: schedule its deletion and sign it out everywhere
+ * Any earlier restore link is replaced by the new one
+ * @returns The raw token for the restore link and when the data will be removed
+ */
+export const scheduleAccountDeletion = async (
+    accountId: number,
+    email: string,
+    reason: string | null
+): Promise<ScheduledDeletion> => {
+    const restoreToken = generateSecureToken();
+    const deletionScheduledFor = new Date(Date.now() + getAccountDeletionGraceDays() * 24 * 60 * 60 * 1000);
+
+    const result = await withTransaction(async (client) => {
+        await client.query(
+            `UPDATE Account SET Deletion_Scheduled_For = $1, Deletion_Reason = $2, Updated_At = NOW()
+             WHERE Account_ID = $3`,
+            [deletionScheduledFor, reason, accountId]
+        );
+        await client.query(
+            `DELETE FROM Email_Verification WHERE Account_ID = $1 AND Purpose = 'restore'`,
+            [accountId]
+        );
+        await client.query(
+            `INSERT INTO Email_Verification (Account_ID, Email, Verification_Token, Token_Expires, Purpose)
+             VALUES ($1, $2, $3, $4, 'restore')`,
+            [accountId, email, hashToken(restoreToken), deletionScheduledFor]
+        );
+        await revokeAllSessions(client, accountId);
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+    invalidateAccountState(accountId);
+
+    return { restoreToken, deletionScheduledFor };
+};
+
+/**
+ * Cancel an account's scheduled deletion, if it has one
+ * Called whenever the account signs in
+ * @returns Whether a deletion was cancelled
+ */
+export const cancelAccountDeletion = async (db: Queryable, accountId: number): Promise<boolean> => {
+    const account = await db.query(
+        'SELECT Deletion_Scheduled_For FROM Account WHERE Account_ID = $1',
+        [accountId]
+    );
+    if (account.rowCount === 0 || account.rows[0].deletion_scheduled_for === null) {
+        return false;
+    }
+
+    await db.query(
+        `UPDATE Account SET Deletion_Scheduled_For = NULL, Deletion_Reason = NULL, Updated_At = NOW()
+         WHERE Account_ID = $1`,
+        [accountId]
+    );
+    await db.query(
+        `DELETE FROM Email_Verification WHERE Account_ID = $1 AND Purpose = 'restore'`,
+        [accountId]
+    );
+    return true;
+};
+
+/**
+ * Cancel a scheduled deletion from the emailed restore link
+ * The link works until the account is anonymized, even if that is a little
+ * after the scheduled time
+ */
+export const restoreAccount = async (token: string): Promise<AccountRestoration> => {
+    const pool = getPool();
+    const row = await pool.query(
+        `SELECT Account_ID FROM Email_Verification WHERE Verification_Token = $1 AND Purpose = 'restore'`,
+        [hashToken(token)]
+    );
+
+    if (row.rowCount === 0) {
+        return { status: 'invalid' };
+    }
+
+    const accountId = row.rows[0].account_id;
+    if (!await cancelAccountDeletion(pool, accountId)) {
+        return { status: 'invalid' };
+    }
+
+    return { status: 'restored', accountId };
+};
+
+/**
+ * Anonymize one closed account
+ * The row stays (service clients and admin statistics refer to it) but its
+ * name, email and phone are replaced by placeholders unique to the account,
+ * and everything it could sign in or recover with is deleted
+ */
+const anonymizeAccount = async (accountId: number): Promise<void> => {
+    const result = await withTransaction(async (client) => {
+        const account = await client.query(
+            'SELECT Email FROM Account WHERE Account_ID = $1',
+            [accountId]
+        );
+        if (account.rowCount === 0) {
+            return;
+        }
+
+        for (const table of ACCOUNT_DATA_TABLES) {
+            await client.query(`DELETE FROM ${table} WHERE Account_ID = $1`, [accountId]);
+        }
+        await client.query(
+            'DELETE FROM Login_Lockout WHERE Email = $1',
+            [account.rows[0].email.trim().toLowerCase()]
+        );
+
+        await client.query(
+            `UPDATE Account
+             SET FirstName = 'Deleted', LastName = 'User', Username = $1, Email = $2, Phone = $3,
+                 Email_Verified = FALSE, Phone_Verified = FALSE, Account_Status = 'deleted',
+                 Token_Version = Token_Version + 1, Deletion_Scheduled_For = NULL,
+                 Deleted_At = NOW(), Updated_At = NOW()
+             WHERE Account_ID = $4`,
+            [`deleted-${accountId}`, `deleted-${accountId}@deleted.invalid`, `del-${accountId}`, accountId]
+        );
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+    invalidateAccountState(accountId);
+};
+
+/**
+ * Anonymize every closed account whose grace period is over
+ * Run periodically by the server; each account is handled in its own
+ * transaction, so one failure doesn't hold up the rest
+ * @returns How many accounts were anonymized
+ */
+export const purgeClosedAccounts = async (): Promise<number> => {
+    const due = await getPool().query(
+        'SELECT Account_ID FROM Account WHERE Deletion_Scheduled_For <= $1',
+        [new Date()]
+    );
+
+    let purged = 0;
+    for (const { account_id: accountId } of due.rows) {
+        try {
+            await anonymizeAccount(accountId);
+            purged++;
+        } catch (error) {
+            console.error(`Account purge failed for account ${accountId}:`, error);
+        }
+    }
+
+    return purged;
+};
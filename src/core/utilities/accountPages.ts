@@ -0,0 +1,168 @@
+/**
+ * HTML pages for the links in account emails
+ *
+ * Email confirmation and password reset links are opened in a browser, so
+ * those endpoints answer with a page unless the client asks for JSON. Each
+ * page can be replaced by a <page-name>.html file in PAGE_TEMPLATE_DIR (see
+ * pageTemplates); the built-in versions below show which placeholders exist.
+ */
+
+import { escapeHtml, fillTemplate, getAppName, loadPageTemplate, renderPage } from './pageTemplates';
+
+export type AccountPageName =
+    | 'email-verified'
+    | 'email-already-verified'
+    | 'email-link-expired'
+    | 'email-link-invalid'
+    | 'email-change-confirmed'
+    | 'email-change-cancelled'
+    | 'email-change-unavailable'
+    | 'password-reset-form'
+    | 'password-reset-success'
+    | 'password-reset-expired'
+    | 'password-reset-invalid'
+    | 'account-restored'
+    | 'account-restore-invalid'
+    | 'account-error';
+
+/**
+ * Built-in title and content for each page
+ * Placeholders: {{appName}} everywhere; email-change-confirmed adds {{email}};
+ * the reset form adds {{token}}, {{minLength}} and {{errors}} (a list of
+ * problems, or nothing)
+ */
+const ACCOUNT_PAGES: Record<AccountPageName, { title: string; content: string }> = {
+    'email-verified': {
+        title: 'Email verified',
+        content: `        <h1>Email verified</h1>
+        <p class="success">Your email address has been confirmed.</p>
+        <p>You can close this page and return to {{appName}}.</p>`,
+    },
+    'email-already-verified': {
+        title: 'Email already verified',
+        content: `        <h1>Email already verified</h1>
+        <p>This email address has already been confirmed - there is nothing more to do.</p>`,
+    },
+    'email-link-expired': {
+        title: 'Link expired',
+        content: `        <h1>This link has expired</h1>
+        <p class="error">Confirmation links only work for a limited time.</p>
+        <p>Sign in to {{appName}} and ask for a new confirmation email.</p>`,
+    },
+    'email-link-invalid': {
+        title: 'Invalid link',
+        content: `        <h1>This link is not valid</h1>
+        <p class="error">It may have been used already, or been cut short by your mail program.</p>
+        <p>Sign in to {{appName}} and ask for a new confirmation email.</p>`,
+    },
+    'email-change-confirmed': {
+        title: 'Email changed',
+        content: `        <h1>Email changed</h1>
+        <p class="success">Your account now uses {{email}}.</p>
+        <p>Use this address the next time you sign in to {{appName}}.</p>`,
+    },
+    'email-change-cancelled': {
+        title: 'Email change cancelled',
+        content: `        <h1>Email change cancelled</h1>
+        <p>Your account keeps its current email address.</p>
+        <p>If you didn't ask for the change, change your {{appName}} password now.</p>`,
+    },
+    'email-change-unavailable': {
+        title: 'Email address unavailable',
+        content: `        <h1>That address can't be used</h1>
+        <p class="error">Another account has started using it since you asked for the change.</p>
+        <p>Your account keeps its current email address.</p>`,
+    },
+    'password-reset-form': {
+        title: 'Reset your password',
+        content: `        <h1>Choose a new password</h1>
+{{errors}}        <form method="POST" action="/auth/password/reset">
+        <input type="hidden" name="token" value="{{token}}">
+        <label for="password">New password</label>
+        <input type="password" id="password" name="password" minlength="{{minLength}}" autocomplete="new-password" required autofocus>
+        <label for="confirmPassword">Confirm new password</label>
+        <input type="password" id="confirmPassword" name="confirmPassword" minlength="{{minLength}}" autocomplete="new-password" required>
+        <div class="actions">
+            <button type="submit" class="primary">Reset password</button>
+        </div>
+        </form>`,
+    },
+    'password-reset-success': {
+        title: 'Password reset',
+        content: `        <h1>Password reset</h1>
+        <p class="success">Your password has been changed and you have been signed out everywhere.</p>
+        <p>Return to {{appName}} and sign in with your new password.</p>`,
+    },
+    'password-reset-expired': {
+        title: 'Link expired',
+        content: `        <h1>This link has expired</h1>
+        <p class="error">Password reset links only work for a limited time.</p>
+        <p>Ask {{appName}} for a new reset email.</p>`,
+    },
+    'password-reset-invalid': {
+        title: 'Invalid link',
+        content: `        <h1>This link is not valid</h1>
+        <p class="error">It may have been used already, or replaced by a newer reset email.</p>
+        <p>Ask {{appName}} for a new reset email.</p>`,
+    },
+    'account-restored': {
+        title: 'Account restored',
+        content: `        <h1>Account restored</h1>
+        <p class="success">Your account is no longer scheduled for deletion.</p>
+        <p>Sign in to {{appName}} to continue where you left off.</p>`,
+    },
+    'account-restore-invalid': {
+        title: 'Invalid link',
+        content: `        <h1>This link is not valid</h1>
+        <p class="error">The account may already have been restored, or its data already removed.</p>
+        <p>Try signing in to {{appName}}.</p>`,
+    },
+    'account-error': {
+        title: 'Something went wrong',
+        content: `        <h1>Something went wrong</h1>
+        <p class="error">The server could not process the request.</p>
+        <p>Please try the link again in a few minutes.</p>`,
+    },
+};
+
+/**
+ * Render one of the account pages, using the deployment's template if it has one
+ * @param values Plain-text placeholder values (escaped)
+ * @param markup Placeholder values that are already HTML
+ */
+export const renderAccountPage = (
+    name: AccountPageName,
+    values: Record<string, string> = {},
+    markup: Record<string, string> = {}
+): string => {
+    const page = ACCOUNT_PAGES[name];
+    const content = fillTemplate(
+        loadPageTemplate(name) ?? page.content,
+        { appName: getAppName(), ...values },
+        markup
+    );
+    return renderPage(page.title, content);
+};
+
+/**
+ * New-password form for a usable reset token
+ * The form posts to POST /auth/password/reset, which answers with the success
+ * page, or this form again listing what was wrong with the password
+ */
+export const renderPasswordResetForm = (options: {
+    token: string;
+    minLength: number;
+    errors?: string[];
+}): string => {
+    const errors = options.errors?.length
+        ? `        <ul class="error" role="alert">\n${options.errors
+            .map(message => `            <li>${escapeHtml(message)}</li>`)
+            .join('\n')}\n        </ul>\n`
+        : '';
+
+    return renderAccountPage(
+        'password-reset-form',
+        { token: options.token, minLength: String(options.minLength) },
+        { errors }
+    );
+};
@@ -0,0 +1,105 @@
+// src/core/utilities/accountStatusUtils.ts
+import { AccountStatus } from '@models';
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+import { ErrorCodes } from './errorCodes';
+
+/**
+ * Live account state checked on every authenticated request
+ */
+export interface AccountState {
+    status: AccountStatus;
+    tokenVersion: number;
+}
+
+/**
+ * Why an account may not authenticate, ready to pass to sendError()
+ */
+export interface AccountStatusError {
+    httpStatus: number;
+    message: string;
+    errorCode: string;
+}
+
+/**
+ * Small in-process cache so checkToken doesn't hit the database on every request
+ * Entries expire after ACCOUNT_STATUS_CACHE_TTL_SECONDS and are dropped
+ * immediately when this process changes an account's status or token version
+ */
+const accountStateCache = new Map<number, { state: AccountState; expiresAt: number }>();
+
+const getCacheTtlMs = (): number => {
+    return parseInt(getEnvVar('ACCOUNT_STATUS_CACHE_TTL_SECONDS', '30')) * 1000;
+};
+
+/**
+ * Get the current status and token version for an account
+ * Returns null if the account does not exist
+ */
+export const getAccountState = async (accountId: number): Promise<AccountState | null> => {
+    const cached = accountStateCache.get(accountId);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.state;
+    }
+
+    const result = await getPool().query(
+        'SELECT Account_Status, Token_Version FROM Account WHERE Account_ID = $1',
+        [accountId]
+    );
+
+    if (result.rowCount === 0) {
+        accountStateCache.delete(accountId);
+        return null;
+    }
+
+    const state: AccountState = {
+        status: result.rows[0].account_status,
+        tokenVersion: result.rows[0].token_version,
+    };
+
+    accountStateCache.set(accountId, { state, expiresAt: Date.now() + getCacheTtlMs() });
+    return state;
+};
+
+/**
+ * Drop an account from the cache after changing its status or token version
+ */
+export const invalidateAccountState = (accountId: number): void => {
+    accountStateCache.delete(accountId);
+};
+
+/**
+ * Empty the whole cache (used by tests)
+ */
+export const clearAccountStateCache = (): void => {
+    accountStateCache.clear();
+};
+
+/**
+ * Map an account status to the error it should produce, if any
+ * Pending accounts may still sign in - they just haven't verified yet
+ */
+export const getAccountStatusError = (status: string): AccountStatusError | null => {
+    switch (status) {
+        case 'suspended':
+            return {
+                httpStatus: 403,
+                message: 'Account is suspended. Please contact support.',
+                errorCode: ErrorCodes.AUTH_ACCOUNT_SUSPENDED,
+            };
+        case 'locked':
+            return {
+                httpStatus: 403,
+                message: 'Account is locked. Please contact support.',
+                errorCode: ErrorCodes.AUTH_ACCOUNT_LOCKED,
+            };
+        case 'deleted':
+            return {
+                httpStatus: 403,
+                message: 'Account has been deleted.',
+                errorCode: ErrorCodes.AUTH_ACCOUNT_DELETED,
+            };
+        default:
+            return null;
+    }
+};
@@ -0,0 +1,101 @@
+// src/core/utilities/breachedPasswordUtils.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+
+/**
+ * SHA-1 hashes from a corpus file, loaded once per path
+ */
+let loadedCorpus: { location: string; hashes: Set<string> } | null = null;
+
+const sha1 = (password: string): string => {
+    return crypto.createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+};
+
+/**
+ * Read a corpus file: one SHA-1 hash per line, optionally followed by ":<count>"
+ * (the Have I Been Pwned download format). Blank lines and # comments are skipped.
+ */
+const loadCorpusFile = async (location: string): Promise<Set<string>> => {
+    if (loadedCorpus?.location === location) {
+        return loadedCorpus.hashes;
+    }
+
+    const hashes = new Set<string>();
+    const contents = await fs.promises.readFile(location, 'utf8');
+    for (const line of contents.split('\n')) {
+        const hash = line.split(':')[0].trim().toUpperCase();
+        if (hash && !hash.startsWith('#')) {
+            hashes.add(hash);
+        }
+    }
+
+    loadedCorpus = { location, hashes };
+    return hashes;
+};
+
+/**
+ * Look a hash up in a directory of k-anonymity range files: <PREFIX>.txt holds
+ * "<suffix>:<count>" lines for every hash starting with that 5-character prefix,
+ * so only one small file is read per lookup however large the corpus is
+ */
+const inRangeDirectory = async (directory: string, hash: string): Promise<boolean> => {
+    const prefix = hash.slice(0, 5);
+    let contents: string;
+    try {
+        contents = await fs.promises.readFile(path.join(directory, `${prefix}.txt`), 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return false;
+        }
+        throw error;
+    }
+
+    const suffix = hash.slice(5);
+    return contents.split('\n').some(line => line.split(':')[0].trim().toUpperCase() === suffix);
+};
+
+/**
+ * Check a password against the local breached/common-password corpus
+ * BREACHED_PASSWORDS_PATH is either a file of SHA-1 hashes or a directory of
+ * range files (see above); "off" disables screening. No network access is
+ * needed. If the corpus can't be read the password is let through, and the
+ * error logged, rather than blocking every password change.
+ */
+export const isBreachedPassword = async (password: string): Promise<boolean> => {
+    const configured = getEnvVar('BREACHED_PASSWORDS_PATH', 'data/breached-passwords.txt');
+    if (configured === 'off') {
+        return false;
+    }
+
+    const location = path.resolve(configured);
+    const hash = sha1(password);
+    try {
+        const stats = await fs.promises.stat(location);
+        if (stats.isDirectory()) {
+            return await inRangeDirectory(location, hash);
+        }
+        return (await loadCorpusFile(location)).has(hash);
+    } catch (error) {
+        console.error('Breached password corpus error:', error);
+        return false;
+    }
+};
+
+/**
+ * Record whether the password an account just signed in with is in the corpus,
+ * for the admin dashboard. Best effort: a failure is only logged.
+ */
+export const flagBreachedPassword = async (accountId: number, password: string): Promise<void> => {
+    try {
+        const breached = await isBreachedPassword(password);
+        await getPool().query(
+            'UPDATE Account_Credential SET Password_Breached = $1 WHERE Account_ID = $2',
+            [breached, accountId]
+        );
+    } catch (error) {
+        console.error('Breached password flag error:', error);
+    }
+};
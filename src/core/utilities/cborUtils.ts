@@ -0,0 +1,124 @@
+// src/core/utilities/cborUtils.ts
+
+/**
+ * A decoded CBOR value (RFC 8949)
+ * Maps stay as Map because WebAuthn/COSE keys are often integers
+ */
+export type CborValue =
+    | number
+    | string
+    | boolean
+    | null
+    | undefined
+    | Buffer
+    | CborValue[]
+    | Map<CborValue, CborValue>;
+
+/**
+ * Read the argument that follows an initial byte
+ * Values 0-23 are inline; 24-27 mean 1, 2, 4 or 8 following bytes
+ */
+const readArgument = (buffer: Buffer, offset: number, info: number): { value: number; offset: number } => {
+    if (info < 24) {
+        return { value: info, offset };
+    }
+
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (size === 0) {
+        // 28-30 are reserved, 31 is indefinite length - WebAuthn requires definite lengths
+        throw new Error('Unsupported CBOR length encoding');
+    }
+    if (offset + size > buffer.length) {
+        throw new Error('Truncated CBOR data');
+    }
+
+    const value = size === 8 ? Number(buffer.readBigUInt64BE(offset)) : buffer.readUIntBE(offset, size);
+    if (!Number.isSafeInteger(value)) {
+        throw new Error('CBOR integer too large');
+    }
+    return { value, offset: offset + size };
+};
+
+/**
+ * Decode one item starting at offset
+ * @returns The value and the offset just past it
+ */
+const decodeItem = (buffer: Buffer, offset: number): { value: CborValue; offset: number } => {
+    if (offset >= buffer.length) {
+        throw new Error('Truncated CBOR data');
+    }
+
+    const initial = buffer[offset];
+    const majorType = initial >> 5;
+    const info = initial & 0x1f;
+    const argument = readArgument(buffer, offset + 1, info);
+    let position = argument.offset;
+
+    switch (majorType) {
+        case 0:
+            return { value: argument.value, offset: position };
+        case 1:
+            return { value: -1 - argument.value, offset: position };
+        case 2:
+        case 3: {
+            const end = position + argument.value;
+            if (end > buffer.length) {
+                throw new Error('Truncated CBOR data');
+            }
+            const bytes = buffer.subarray(position, end);
+            return { value: majorType === 2 ? Buffer.from(bytes) : bytes.toString('utf8'), offset: end };
+        }
+        case 4: {
+            const items: CborValue[] = [];
+            for (let i = 0; i < argument.value; i++) {
+                const item = decodeItem(buffer, position);
+                items.push(item.value);
+                position = item.offset;
+            }
+            return { value: items, offset: position };
+        }
+        case 5: {
+            const map = new Map<CborValue, CborValue>();
+            for (let i = 0; i < argument.value; i++) {
+                const key = decodeItem(buffer, position);
+                const value = decodeItem(buffer, key.offset);
+                map.set(key.value, value.value);
+                position = value.offset;
+            }
+            return { value: map, offset: position };
+        }
+        case 6:
+            // Tags only annotate the following item
+            return decodeItem(buffer, position);
+        default:
+            switch (info) {
+                case 20: return { value: false, offset: position };
+                case 21: return { value: true, offset: position };
+                case 22: return { value: null, offset: position };
+                case 23: return { value: undefined, offset: position };
+                default: throw new Error('Unsupported CBOR simple value');
+            }
+    }
+};
+
+/**
+ * Decode the CBOR item at the start of a buffer, allowing trailing data
+ * Authenticator data places extensions straight after the credential public key
+ * @returns The value and how many bytes it used
+ */
+export const decodeCborPrefix = (buffer: Buffer): { value: CborValue; length: number } => {
+    const { value, offset } = decodeItem(buffer, 0);
+    return { value, length: offset };
+};
+
+/**
+ * Decode a buffer holding exactly one CBOR item
+ * @throws Error on malformed, unsupported or trailing data
+ */
+export const decodeCbor = (buffer: Buffer): CborValue => {
+    const { value, length } = decodeCborPrefix(buffer);
+    if (length !== buffer.length) {
+        throw new Error('Unexpected data after CBOR item');
+    }
+    return value;
+};
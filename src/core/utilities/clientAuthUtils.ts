@@ -0,0 +1,57 @@
+// src/core/utilities/clientAuthUtils.ts
+import { secureCompare } from './credentialingUtils';
+
+/**
+ * Credentials presented by a calling service or OAuth client
+ */
+export interface ClientCredentials {
+    clientId: string;
+    clientSecret: string;
+}
+
+/**
+ * Parse an HTTP Basic Authorization header (RFC 7617)
+ * OAuth clients form-encode the ID and secret before base64 (RFC 6749 §2.3.1)
+ * @returns The credentials, or null if the header is missing or malformed
+ */
+export const parseBasicAuthorization = (header?: string): ClientCredentials | null => {
+    if (!header || !header.startsWith('Basic ')) {
+        return null;
+    }
+
+    const decoded = Buffer.from(header.slice(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator <= 0) {
+        return null;
+    }
+
+    try {
+        return {
+            clientId: decodeURIComponent(decoded.slice(0, separator).replace(/\+/g, ' ')),
+            clientSecret: decodeURIComponent(decoded.slice(separator + 1).replace(/\+/g, ' ')),
+        };
+    } catch (error) {
+        return null;
+    }
+};
+
+/**
+ * Check credentials against INTROSPECTION_CLIENTS
+ * Format: comma-separated id:secret pairs, e.g. "orders-api:s3cret,billing:s3cret2"
+ */
+export const isIntrospectionClient = (credentials: ClientCredentials): boolean => {
+    const configured = (process.env.INTROSPECTION_CLIENTS || '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.includes(':'));
+
+    // Check every entry so the response time doesn't reveal which IDs exist
+    let matched = false;
+    for (const entry of configured) {
+        const separator = entry.indexOf(':');
+        const idMatches = secureCompare(credentials.clientId, entry.slice(0, separator));
+        const secretMatches = secureCompare(credentials.clientSecret, entry.slice(separator + 1));
+        matched = (idMatches && secretMatches) || matched;
+    }
+    return matched;
+};
@@ -1,4 +1,32 @@
-import { randomBytes, createHash } from 'crypto';
+import { randomBytes, createHash, timingSafeEqual, scrypt } from 'crypto';
+import { getPasswordScryptCost } from './envConfig';
+
+/**
+ * Password hashing algorithms, as recorded in Account_Credential.Hash_Algorithm
+ * - sha256: legacy single SHA256 over password + salt; only ever verified, never written
+ * - scrypt: memory-hard KDF, parameters recorded in Hash_Params
+ */
+export type PasswordHashAlgorithm = 'sha256' | 'scrypt';
+
+/**
+ * A stored password hash and everything needed to check it
+ */
+export interface PasswordHash {
+    algorithm: PasswordHashAlgorithm;
+    params: string | null;
+    salt: string;
+    hash: string;
+}
+
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+
+interface ScryptParams {
+    N: number;
+    r: number;
+    p: number;
+}
 
 /**
  * Generate a random salt for password hashing
@@ -10,6 +38,8 @@ export const generateSalt = (): string => {
 
 /**
  * Generate a hash from a password and salt using SHA256
+ * Legacy format - kept only to check passwords stored before scrypt, which
+ * are upgraded on the next successful login
  * @param {string} password - The password to hash
  * @param {string} salt - The salt to use
  * @returns {string} The hashed password
@@ -20,35 +50,107 @@ export const generateHash = (password: string, salt: string): string => {
         .digest('hex');
 };
 
+/**
+ * Current scrypt parameters, in the form stored in Hash_Params
+ * The cost N is 2^PASSWORD_SCRYPT_COST (default 2^17, 128 MiB per hash)
+ */
+export const currentScryptParams = (): string => {
+    return `N=${2 ** getPasswordScryptCost()},r=${SCRYPT_BLOCK_SIZE},p=${SCRYPT_PARALLELIZATION}`;
+};
+
+/**
+ * Parse stored scrypt parameters ("N=131072,r=8,p=1")
+ */
+const parseScryptParams = (params: string | null): ScryptParams | null => {
+    const match = /^N=(\d+),r=(\d+),p=(\d+)$/.exec(params ?? '');
+    if (!match) {
+        return null;
+    }
+    return { N: parseInt(match[1], 10), r: parseInt(match[2], 10), p: parseInt(match[3], 10) };
+};
+
+/**
+ * Run scrypt off the main thread
+ */
+const deriveScryptKey = (password: string, salt: string, { N, r, p }: ScryptParams): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        // maxmem must exceed the 128 * N * r bytes scrypt needs
+        scrypt(password, Buffer.from(salt, 'hex'), SCRYPT_KEY_LENGTH, { N, r, p, maxmem: 256 * N * r }, (error, key) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(key);
+            }
+        });
+    });
+};
+
 /**
  * Generate salt and hash for a password in one operation
+ * Always uses scrypt with the current parameters
  * @param {string} password - The password to hash
- * @returns {Promise<{salt: string, hash: string}>} The salt and hash
+ * @returns {Promise<PasswordHash>} The algorithm, parameters, salt and hash to store
  */
-export const generateSaltedHash = async (
-    password: string
-): Promise<{ salt: string; hash: string }> => {
+export const generateSaltedHash = async (password: string): Promise<PasswordHash> => {
     const salt = generateSalt();
-    const hash = generateHash(password, salt);
-    return { salt, hash };
+    const params = currentScryptParams();
+    const scryptParams = parseScryptParams(params);
+    if (!scryptParams) {
+        throw new Error(`Invalid scrypt parameters "${params}"`);
+    }
+
+    const key = await deriveScryptKey(password, salt, scryptParams);
+    return { algorithm: 'scrypt', params, salt, hash: key.toString('hex') };
 };
 
 /**
- * Verify a password against a stored hash and salt
+ * Verify a password against a stored hash, in whichever format it was stored
  * @param {string} password - The password to verify
- * @param {string} salt - The stored salt
- * @param {string} storedHash - The stored hash
- * @returns {boolean} Whether the password is correct
+ * @param {PasswordHash} stored - The stored algorithm, parameters, salt and hash
+ * @returns {Promise<boolean>} Whether the password is correct
+ */
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+    const expected = Buffer.from(stored.hash, 'hex');
+    let actual: Buffer;
+
+    if (stored.algorithm === 'scrypt') {
+        const params = parseScryptParams(stored.params);
+        if (!params) {
+            return false;
+        }
+        actual = await deriveScryptKey(password, stored.salt, params);
+    } else if (stored.algorithm === 'sha256') {
+        actual = Buffer.from(generateHash(password, stored.salt ?? ''), 'hex');
+    } else {
+        return false;
+    }
+
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+/**
+ * Whether a stored hash should be replaced after the next successful login
+ * True for legacy SHA256 hashes and for scrypt hashes with outdated parameters
  */
-export const verifyPassword = (
-    password: string,
-    salt: string,
-    storedHash: string
-): boolean => {
-    const hash = generateHash(password, salt);
-    return hash === storedHash;
+export const needsRehash = (stored: PasswordHash): boolean => {
+    return stored.algorithm !== 'scrypt' || stored.params !== currentScryptParams();
 };
 
+/**
+ * Read a password hash from an Account_Credential row
+ */
+export const readPasswordHash = (row: {
+    hash_algorithm: PasswordHashAlgorithm;
+    hash_params: string | null;
+    salt: string;
+    salted_hash: string;
+}): PasswordHash => ({
+    algorithm: row.hash_algorithm,
+    params: row.hash_params,
+    salt: row.salt,
+    hash: row.salted_hash,
+});
+
 /**
  * Generate a 6-digit verification code for SMS
  * @returns {string} A 6-digit code
@@ -65,3 +167,29 @@ export const generateVerificationCode = (): string => {
 export const generateSecureToken = (bytes: number = 32): string => {
     return randomBytes(bytes).toString('hex');
 };
+
+/**
+ * Hash an opaque token (refresh token, reset token, etc.) for storage
+ * Tokens are high-entropy random values, so a fast SHA256 digest is enough
+ * and lets us look the token up by its hash
+ * @param {string} token - The raw token handed to the client
+ * @returns {string} The SHA256 digest as a hex string
+ */
+export const hashToken = (token: string): string => {
+    return createHash('sha256').update(token).digest('hex');
+};
+
+
+/**
+ * Compare two secrets in constant time
+ * Both values are hashed first so differing lengths don't leak through timing
+ * @param {string} provided - The value supplied by the caller
+ * @param {string} expected - The value we expect
+ * @returns {boolean} Whether the values are equal
+ */
+export const secureCompare = (provided: string, expected: string): boolean => {
+    return timingSafeEqual(
+        createHash('sha256').update(provided).digest(),
+        createHash('sha256').update(expected).digest()
+    );
+};
@@ -0,0 +1,401 @@
+// src/core/utilities/dataExportUtils.ts
+import { DATA_EXPORT_LINK_EXPIRY_HOURS, DATA_EXPORT_MAX_ATTEMPTS, DATA_EXPORT_RETRY_MINUTES } from '@models';
+import { getPool } from './database';
+import { generateSecureToken, hashToken } from './credentialingUtils';
+import { getEnvVar } from './envConfig';
+import { sendDataExportEmail } from './emailService';
+import { createZip } from './zipUtils';
+
+export type DataExportFormat = 'json' | 'zip';
+
+type Rows = Record<string, unknown>[];
+
+/**
+ * Everything the service stores about one account
+ * Each top-level key is one file in the ZIP version
+ */
+export interface DataExportBundle {
+    exportInfo: { accountId: number; exportedAt: string; redacted: string[] };
+    account: Record<string, unknown>;
+    password: { set: boolean; algorithm: string | null; breached: boolean; changes: Rows };
+    verification: { email: Rows; phone: Rows };
+    loginHistory: { attempts: Rows; lockout: Record<string, unknown> | null };
+    sessions: { refreshTokens: Rows; oauthAuthorizations: Rows };
+    twoFactor: { totpEnabled: boolean; enabledAt: unknown; recoveryCodes: Rows };
+    passkeys: Rows;
+    emailedLinks: { passwordResets: Rows; magicLinks: Rows; smsLoginCodes: Rows };
+    serviceClients: Rows;
+    dataExports: Rows;
+    audit: Rows;
+}
+
+/**
+ * An export ready to send as a download
+ */
+export interface DataExportFile {
+    filename: string;
+    contentType: string;
+    body: Buffer | string;
+}
+
+/**
+ * Outcome of asking for an export
+ * - ready: the history is small enough to build straight away
+ * - queued: it's being built in the background; the requester gets a link by email
+ * - throttled: a background export for this account was started moments ago
+ * - not_found: no such account
+ */
+export type DataExportRequest =
+    | { status: 'ready'; file: DataExportFile }
+    | { status: 'queued'; downloadUrl: string; expiresAt: Date }
+    | { status: 'throttled' | 'not_found' };
+
+/**
+ * Outcome of following an emailed download link
+ */
+export type DataExportDownload =
+    | { status: 'ready'; file: DataExportFile }
+    | { status: 'pending' | 'failed' | 'expired' | 'invalid' };
+
+/**
+ * Secrets that are stored for an account but never exported
+ */
+const REDACTED_FIELDS = [
+    'Password hashes and salts (current and previous passwords)',
+    'Email verification, email change and restore tokens',
+    'Phone verification codes',
+    'Refresh token hashes and revoked access token IDs',
+    'OAuth authorization code hashes and PKCE challenges',
+    'Authenticator app (TOTP) secret and recovery code hashes',
+    'Passkey public keys',
+    'Password reset, magic link and SMS sign-in code hashes',
+    'Service client secret hashes',
+    'Data export download tokens',
+];
+
+/**
+ * Sign-in and session rows above which an export is built in the background
+ */
+export const getDataExportSyncMaxRows = (): number => {
+    return parseInt(getEnvVar('DATA_EXPORT_SYNC_MAX_ROWS', '1000'));
+};
+
+/**
+ * Collect everything stored about an account, leaving out secrets
+ * @returns null if the account does not exist
+ */
+export const buildDataExport = async (accountId: number): Promise<DataExportBundle | null> => {
+    const pool = getPool();
+    const select = async (sql: string, params: unknown[] = [accountId]): Promise<Rows> => {
+        return (await pool.query(sql, params)).rows;
+    };
+
+    const [account] = await select(
+        `SELECT Account_ID, FirstName, LastName, Username, Email, Email_Verified, Phone, Phone_Verified,
+                Account_Role, Account_Status, Token_Version, Deletion_Scheduled_For, Deletion_Reason,
+                Deleted_At, Created_At, Updated_At
+         FROM Account WHERE Account_ID = $1`
+    );
+    if (!account) {
+        return null;
+    }
+
+    const [credential] = await select(
+        'SELECT Hash_Algorithm, Password_Breached FROM Account_Credential WHERE Account_ID = $1'
+    );
+    const [mfa] = await select(
+        'SELECT TOTP_Enabled, Enabled_At, Created_At FROM Account_MFA WHERE Account_ID = $1'
+    );
+    const [lockout] = await select(
+        'SELECT Failed_Count, Lockout_Count, Locked_Until, Updated_At FROM Login_Lockout WHERE Email = $1',
+        [String(account.email).trim().toLowerCase()]
+    );
+
+    return {
+        exportInfo: { accountId, exportedAt: new Date().toISOString(), redacted: REDACTED_FIELDS },
+        account,
+        password: {
+            set: credential !== undefined,
+            algorithm: (credential?.hash_algorithm as string) ?? null,
+            breached: credential?.password_breached === true,
+            changes: await select(
+                'SELECT Replaced_At FROM Password_History WHERE Account_ID = $1 ORDER BY History_ID'
+            ),
+        },
+        verification: {
+            email: await select(
+                `SELECT Email, Purpose, Token_Expires, Verified, Created_At
+                 FROM Email_Verification WHERE Account_ID = $1 ORDER BY Verification_ID`
+            ),
+            phone: await select(
+                `SELECT Phone, Purpose, Code_Expires, Attempts, Verified, Created_At
+                 FROM Phone_Verification WHERE Account_ID = $1 ORDER BY Verification_ID`
+            ),
+        },
+        loginHistory: {
+            attempts: await select(
+                `SELECT Email, IP_Address, Succeeded, Attempted_At
+                 FROM Login_Attempt WHERE Account_ID = $1 ORDER BY Attempt_ID`
+            ),
+            lockout: lockout ?? null,
+        },
+        sessions: {
+            refreshTokens: await select(
+                `SELECT Family_ID, Client_ID, Scope, Created_At, Expires_At, Revoked_At, Replaced_By
+                 FROM Refresh_Token WHERE Account_ID = $1 ORDER BY Token_ID`
+            ),
+            oauthAuthorizations: await select(
+                `SELECT Client_ID, Redirect_URI, Scope, Created_At, Expires_At, Used_At
+                 FROM OAuth_Authorization_Code WHERE Account_ID = $1 ORDER BY Created_At`
+            ),
+        },
+        twoFactor: {
+            totpEnabled: mfa?.totp_enabled === true,
+            enabledAt: mfa?.enabled_at ?? null,
+            recoveryCodes: await select(
+                'SELECT Created_At, Used_At FROM MFA_Recovery_Code WHERE Account_ID = $1 ORDER BY Code_ID'
+            ),
+        },
+        passkeys: await select(
+            `SELECT Credential_ID, Name, Public_Key_Alg, Transports, AAGUID, Attestation_Format,
+                    Sign_Count, Created_At, Last_Used_At
+             FROM WebAuthn_Credential WHERE Account_ID = $1 ORDER BY Created_At`
+        ),
+        emailedLinks: {
+            passwordResets: await select(
+                `SELECT Email, Created_At, Expires_At, Used_At
+                 FROM Password_Reset_Token WHERE Account_ID = $1 ORDER BY Created_At`
+            ),
+            magicLinks: await select(
+                `SELECT Email, Created_At, Expires_At, Used_At
+                 FROM Magic_Link_Token WHERE Account_ID = $1 ORDER BY Created_At`
+            ),
+            smsLoginCodes: await select(
+                'SELECT Phone, Attempts, Created_At, Expires_At FROM SMS_Login_Code WHERE Account_ID = $1'
+            ),
+        },
+        serviceClients: await select(
+            `SELECT Client_ID, Client_Name, Allowed_Scopes, Is_Active, Created_At, Updated_At
+             FROM Service_Client WHERE Owner_Account_ID = $1 ORDER BY Created_At`
+        ),
+        dataExports: await select(
+            `SELECT Requested_By, Format, Status, Attempts, Created_At, Completed_At, Expires_At
+             FROM Data_Export WHERE Account_ID = $1 ORDER BY Export_ID`
+        ),
+        audit: (await select(
+            `SELECT Action, Actor_ID, Details, Created_At
+             FROM Account_Audit WHERE Account_ID = $1 ORDER BY Audit_ID`
+        )).map(entry => ({ ...entry, details: JSON.parse(String(entry.details ?? '{}')) })),
+    };
+};
+
+/**
+ * Turn a bundle into a download: one JSON document, or a ZIP with one JSON
+ * file per section (exportInfo becomes export-info.json)
+ */
+export const packageDataExport = (bundle: DataExportBundle, format: DataExportFormat): DataExportFile => {
+    const basename = `account-${bundle.exportInfo.accountId}-export`;
+
+    if (format === 'zip') {
+        const entries = Object.entries(bundle).map(([section, content]) => ({
+            name: `${section.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}.json`,
+            content: JSON.stringify(content, null, 2),
+        }));
+        return { filename: `${basename}.zip`, contentType: 'application/zip', body: createZip(entries) };
+    }
+
+    return {
+        filename: `${basename}.json`,
+        contentType: 'application/json',
+        body: JSON.stringify(bundle, null, 2),
+    };
+};
+
+/**
+ * Rows that make an export slow to build: sign-in attempts and refresh tokens
+ * are the histories that grow without bound
+ */
+const countHistoryRows = async (accountId: number): Promise<number> => {
+    const pool = getPool();
+    const attempts = await pool.query('SELECT COUNT(*) AS count FROM Login_Attempt WHERE Account_ID = $1', [accountId]);
+    const tokens = await pool.query('SELECT COUNT(*) AS count FROM Refresh_Token WHERE Account_ID = $1', [accountId]);
+    return parseInt(attempts.rows[0].count) + parseInt(tokens.rows[0].count);
+};
+
+/**
+ * The emailed link for a background export
+ */
+const getDownloadUrl = (token: string): string => {
+    const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
+    return `${baseUrl}/auth/user/export/download?token=${token}`;
+};
+
+/**
+ * Build a queued export, email the link to whoever asked for it and store it
+ * Runs in the background. Each attempt is counted on the row; a failed one
+ * stays pending for retryDataExports until DATA_EXPORT_MAX_ATTEMPTS, then the
+ * export is marked failed, which its download link reports. The export is only
+ * ready once its link has gone out: if the email fails, the retry sends a new one
+ * @param token The download token to email. Retries issue a new one, since
+ * only its hash is stored and no link went out for a failed attempt
+ */
+const processDataExport = async (exportId: number, token: string = generateSecureToken()): Promise<void> => {
+    const pool = getPool();
+
+    const row = await pool.query(
+        `UPDATE Data_Export SET Token_Hash = $2, Attempts = Attempts + 1, Last_Attempt_At = NOW()
+         WHERE Export_ID = $1 AND Status = 'pending'
+         RETURNING Account_ID, Requested_By, Attempts`,
+        [exportId, hashToken(token)]
+    );
+    if (row.rowCount === 0) {
+        return;
+    }
+    const { account_id: accountId, requested_by: requestedBy, attempts } = row.rows[0];
+
+    try {
+        const bundle = await buildDataExport(accountId);
+
+        const requester = await pool.query(
+            'SELECT FirstName, Email FROM Account WHERE Account_ID = $1',
+            [requestedBy]
+        );
+        if (requester.rowCount === 0) {
+            throw new Error('The account that requested the export no longer exists');
+        }
+
+        const accountLabel = requestedBy === accountId ? undefined : `${bundle.account.username} (account ${accountId})`;
+        const sent = await sendDataExportEmail(
+            requester.rows[0].email,
+            requester.rows[0].firstname,
+            getDownloadUrl(token),
+            DATA_EXPORT_LINK_EXPIRY_HOURS,
+            accountLabel
+        );
+        if (!sent) {
+            throw new Error('The download link could not be emailed');
+        }
+
+        // A download in the moment before this lands is told to try again shortly
+        await pool.query(
+            `UPDATE Data_Export SET Bundle = $1, Status = 'ready', Completed_At = NOW() WHERE Export_ID = $2`,
+            [JSON.stringify(bundle), exportId]
+        );
+    } catch (error) {
+        const finalAttempt = attempts >= DATA_EXPORT_MAX_ATTEMPTS;
+        console.error(`Data export ${exportId} failed (attempt ${attempts}${finalAttempt ? ', giving up' : ''}):`, error);
+        await pool.query(
+            'UPDATE Data_Export SET Status = $1, Last_Error = $2 WHERE Export_ID = $3',
+            [finalAttempt ? 'failed' : 'pending', error instanceof Error ? error.message : String(error), exportId]
+        ).catch(() => undefined);
+    }
+};
+
+/**
+ * Build queued exports again whose last attempt failed or never finished
+ * (the server restarted mid-build). Run periodically by the server
+ * @returns How many exports were retried
+ */
+export const retryDataExports = async (): Promise<number> => {
+    const staleBefore = new Date(Date.now() - DATA_EXPORT_RETRY_MINUTES * 60 * 1000);
+    const due = await getPool().query(
+        `SELECT Export_ID, Last_Attempt_At FROM Data_Export
+         WHERE Status = 'pending' AND Expires_At > $1 ORDER BY Export_ID`,
+        [new Date()]
+    );
+
+    let retried = 0;
+    for (const { export_id: exportId, last_attempt_at: lastAttemptAt } of due.rows) {
+        if (lastAttemptAt === null || new Date(lastAttemptAt) <= staleBefore) {
+            await processDataExport(exportId);
+            retried++;
+        }
+    }
+
+    return retried;
+};
+
+/**
+ * Export an account's data, building it now if the history is small and in
+ * the background otherwise
+ * @param requestedBy The account asking: the user themselves or an administrator,
+ * who is also who the download link is emailed to
+ */
+export const requestDataExport = async (
+    accountId: number,
+    requestedBy: number,
+    format: DataExportFormat
+): Promise<DataExportRequest> => {
+    const pool = getPool();
+
+    if ((await countHistoryRows(accountId)) <= getDataExportSyncMaxRows()) {
+        const bundle = await buildDataExport(accountId);
+        if (!bundle) {
+            return { status: 'not_found' };
+        }
+        return { status: 'ready', file: packageDataExport(bundle, format) };
+    }
+
+    const recent = await pool.query(
+        `SELECT COUNT(*) AS count FROM Data_Export
+         WHERE Account_ID = $1 AND Requested_By = $2 AND Created_At > NOW() - INTERVAL '5 minutes'`,
+        [accountId, requestedBy]
+    );
+    if (parseInt(recent.rows[0].count) > 0) {
+        return { status: 'throttled' };
+    }
+
+    const token = generateSecureToken();
+    const expiresAt = new Date(Date.now() + DATA_EXPORT_LINK_EXPIRY_HOURS * 60 * 60 * 1000);
+    const inserted = await pool.query(
+        `INSERT INTO Data_Export (Account_ID, Requested_By, Format, Token_Hash, Expires_At)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING Export_ID`,
+        [accountId, requestedBy, format, hashToken(token), expiresAt]
+    );
+
+    // Not awaited: the request returns while the export is built. The row
+    // tracks the job, so a failure is recorded and retried rather than lost
+    void processDataExport(inserted.rows[0].export_id, token).catch(error => {
+        console.error(`Data export ${inserted.rows[0].export_id} could not be started:`, error);
+    });
+
+    return { status: 'queued', downloadUrl: getDownloadUrl(token), expiresAt };
+};
+
+/**
+ * Look up the export behind an emailed download link
+ * Links can be used any number of times until they expire
+ */
+export const findDataExport = async (token: string): Promise<DataExportDownload> => {
+    const result = await getPool().query(
+        'SELECT Format, Status, Bundle, Expires_At FROM Data_Export WHERE Token_Hash = $1',
+        [hashToken(token)]
+    );
+
+    if (result.rowCount === 0) {
+        return { status: 'invalid' };
+    }
+
+    const row = result.rows[0];
+    if (new Date(row.expires_at).getTime() <= Date.now()) {
+        return { status: 'expired' };
+    }
+    if (row.status !== 'ready') {
+        return { status: row.status === 'failed' ? 'failed' : 'pending' };
+    }
+
+    return { status: 'ready', file: packageDataExport(JSON.parse(row.bundle), row.format) };
+};
+
+/**
+ * Delete exports whose download link has expired
+ * @returns How many were deleted
+ */
+export const deleteExpiredDataExports = async (): Promise<number> => {
+    const result = await getPool().query(
+        'DELETE FROM Data_Export WHERE Expires_At <= $1',
+        [new Date()]
+    );
+    return result.rowCount ?? 0;
+};
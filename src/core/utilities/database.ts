@@ -1,8 +1,14 @@
 // Database connection management
-import { Pool, PoolConfig } from 'pg';
+import { Pool, PoolClient, PoolConfig } from 'pg';
 
 let pool: Pool | null = null;
 
+/**
+ * Anything that can run a query - the shared pool or a client checked out
+ * for a transaction. Lets helpers participate in a caller's transaction.
+ */
+export type Queryable = Pool | PoolClient;
+
 /**
  * Get database configuration based on environment variables
  */
@@ -80,5 +86,19 @@ export const getPool = (): Pool => {
     return pool;
 };
 
+/**
+ * Replace the connection pool (e.g. with an in-memory pg-mem pool in tests)
+ */
+export const setPool = (newPool: Pool): void => {
+    pool = newPool;
+};
+
+/**
+ * Forget the current pool without closing it (used by tests)
+ */
+export const resetPool = (): void => {
+    pool = null;
+};
+
 // Export pool for backward compatibility (deprecated - use getPool() instead)
 export { pool };
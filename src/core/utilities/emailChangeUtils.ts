@@ -0,0 +1,142 @@
+// src/core/utilities/emailChangeUtils.ts
+import { EMAIL_CHANGE_EXPIRY_HOURS } from '@models';
+import { getPool } from './database';
+import { generateSecureToken, hashToken } from './credentialingUtils';
+import { withTransaction } from './transactionUtils';
+
+/**
+ * A staged email change is two Email_Verification rows sharing an expiry:
+ * - change: the new address, confirmed by the link sent to it
+ * - cancel_change: the old address, whose heads-up email can call it off
+ * Only token hashes are stored for these purposes
+ */
+export type EmailChangePurpose = 'change' | 'cancel_change';
+
+export interface StagedEmailChange {
+    confirmToken: string;
+    cancelToken: string;
+    expiresAt: Date;
+}
+
+/**
+ * Outcome of following the confirmation link
+ * - changed: the account now uses the new address, which counts as verified
+ * - email_taken: another account took the address since the change was staged
+ * - expired / invalid: the link is out of date, or unknown, used or cancelled
+ */
+export type EmailChangeConfirmation =
+    | { status: 'changed'; accountId: number; email: string }
+    | { status: 'email_taken' | 'expired' | 'invalid' };
+
+/**
+ * Outcome of following the cancel link
+ */
+export type EmailChangeCancellation = { status: 'cancelled' | 'expired' | 'invalid' };
+
+/**
+ * Stage a change of address, replacing any change already pending
+ * The account keeps its current email until the new one is confirmed
+ * @returns The raw tokens for the two links
+ */
+export const stageEmailChange = async (
+    accountId: number,
+    currentEmail: string,
+    newEmail: string
+): Promise<StagedEmailChange> => {
+    const pool = getPool();
+    const confirmToken = generateSecureToken();
+    const cancelToken = generateSecureToken();
+    const expiresAt = new Date(Date.now() + EMAIL_CHANGE_EXPIRY_HOURS * 60 * 60 * 1000);
+
+    await pool.query(
+        `DELETE FROM Email_Verification WHERE Account_ID = $1 AND Purpose IN ('change', 'cancel_change')`,
+        [accountId]
+    );
+    await pool.query(
+        `INSERT INTO Email_Verification (Account_ID, Email, Verification_Token, Token_Expires, Purpose)
+         VALUES ($1, $2, $3, $4, 'change'), ($1, $5, $6, $4, 'cancel_change')`,
+        [accountId, newEmail, hashToken(confirmToken), expiresAt, currentEmail, hashToken(cancelToken)]
+    );
+
+    return { confirmToken, cancelToken, expiresAt };
+};
+
+/**
+ * Look up the row behind an email change link
+ * @returns null for an unknown token
+ */
+const findEmailChangeRow = async (
+    token: string,
+    purpose: EmailChangePurpose
+): Promise<{ account_id: number; email: string; token_expires: Date } | null> => {
+    const result = await getPool().query(
+        `SELECT Account_ID, Email, Token_Expires FROM Email_Verification
+         WHERE Verification_Token = $1 AND Purpose = $2`,
+        [hashToken(token), purpose]
+    );
+    return result.rowCount > 0 ? result.rows[0] : null;
+};
+
+/**
+ * Switch the account to the new address from a confirmation link
+ * In one transaction: the address changes and is marked verified, every
+ * verification and change link for the account is deleted, and outstanding
+ * password reset links (sent to the old address) stop working
+ */
+export const confirmEmailChange = async (token: string): Promise<EmailChangeConfirmation> => {
+    const row = await findEmailChangeRow(token, 'change');
+    if (!row) {
+        return { status: 'invalid' };
+    }
+    if (new Date(row.token_expires).getTime() <= Date.now()) {
+        return { status: 'expired' };
+    }
+
+    const accountId = row.account_id;
+    const result = await withTransaction(async (client) => {
+        const taken = await client.query(
+            'SELECT Account_ID FROM Account WHERE Email = $1 AND Account_ID <> $2',
+            [row.email, accountId]
+        );
+        if (taken.rowCount > 0) {
+            return false;
+        }
+
+        await client.query(
+            'UPDATE Account SET Email = $1, Email_Verified = TRUE, Updated_At = NOW() WHERE Account_ID = $2',
+            [row.email, accountId]
+        );
+        await client.query('DELETE FROM Email_Verification WHERE Account_ID = $1', [accountId]);
+        await client.query('DELETE FROM Password_Reset_Token WHERE Account_ID = $1', [accountId]);
+        return true;
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+    if (!result.data) {
+        return { status: 'email_taken' };
+    }
+
+    return { status: 'changed', accountId, email: row.email };
+};
+
+/**
+ * Call off a pending change from the link sent to the old address
+ * Both links stop working; the account keeps its current email
+ */
+export const cancelEmailChange = async (token: string): Promise<EmailChangeCancellation> => {
+    const row = await findEmailChangeRow(token, 'cancel_change');
+    if (!row) {
+        return { status: 'invalid' };
+    }
+    if (new Date(row.token_expires).getTime() <= Date.now()) {
+        return { status: 'expired' };
+    }
+
+    await getPool().query(
+        `DELETE FROM Email_Verification WHERE Account_ID = $1 AND Purpose IN ('change', 'cancel_change')`,
+        [row.account_id]
+    );
+    return { status: 'cancelled' };
+};
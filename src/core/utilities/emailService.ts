@@ -163,13 +163,121 @@ export const sendVerificationEmail = async (
     });
 };
 
+/**
+ * Send the link that confirms a new email address
+ * Goes to the new address: following it proves the user can read that inbox
+ */
+export const sendEmailChangeConfirmation = async (
+    email: string,
+    firstname: string,
+    confirmUrl: string,
+    expiresInHours: number
+): Promise<boolean> => {
+    return sendEmail({
+        to: email,
+        subject: 'Confirm your new email address - Auth²',
+        html: `
+            <h2>Confirm Your New Email Address</h2>
+            <p>Hi ${firstname},</p>
+            <p>You asked to use this address for your Auth² account. Click the link below to confirm:</p>
+            <a href="${confirmUrl}" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">Confirm Email</a>
+            <p>Or copy and paste this link into your browser:</p>
+            <p>${confirmUrl}</p>
+            <p>This link will expire in ${expiresInHours} hours. Your account keeps its current address until then.</p>
+            <p>If you didn't ask for this, please ignore this email.</p>
+        `,
+    });
+};
+
+/**
+ * Warn the current address that a change to another one was requested
+ * If it wasn't them, the cancel link stops the change before it happens
+ */
+export const sendEmailChangeNotice = async (
+    email: string,
+    firstname: string,
+    newEmail: string,
+    cancelUrl: string
+): Promise<boolean> => {
+    return sendEmail({
+        to: email,
+        subject: 'Your email address is being changed - Auth²',
+        html: `
+            <h2>Email Change Requested</h2>
+            <p>Hi ${firstname},</p>
+            <p>Someone signed in to your account asked to change its email address to ${newEmail}. The change only happens once that address is confirmed.</p>
+            <p>If this wasn't you, cancel the change and then change your password:</p>
+            <a href="${cancelUrl}" style="display: inline-block; padding: 10px 20px; background-color: #dc3545; color: white; text-decoration: none; border-radius: 5px;">Cancel Change</a>
+            <p>Or copy and paste this link into your browser:</p>
+            <p>${cancelUrl}</p>
+        `,
+    });
+};
+
+/**
+ * Confirm that the account was closed and explain how to undo it
+ * Signing in again also restores the account, as long as it's before the deletion date
+ */
+export const sendAccountClosureEmail = async (
+    email: string,
+    firstname: string,
+    restoreUrl: string,
+    deletionDate: Date
+): Promise<boolean> => {
+    const deletionDay = deletionDate.toUTCString().slice(0, 16);
+
+    return sendEmail({
+        to: email,
+        subject: 'Your account has been closed - Auth²',
+        html: `
+            <h2>Account Closed</h2>
+            <p>Hi ${firstname},</p>
+            <p>Your account has been closed and you have been signed out everywhere. Its data will be permanently removed on ${deletionDay}.</p>
+            <p>Changed your mind? Restore the account before then, or simply sign in again:</p>
+            <a href="${restoreUrl}" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">Restore Account</a>
+            <p>Or copy and paste this link into your browser:</p>
+            <p>${restoreUrl}</p>
+            <p>If you didn't close your account, restore it and change your password.</p>
+        `,
+    });
+};
+
+/**
+ * Send the download link for a personal data export built in the background
+ * @param accountLabel Whose data it is, for exports an administrator asked for
+ */
+export const sendDataExportEmail = async (
+    email: string,
+    firstname: string,
+    downloadUrl: string,
+    expiresInHours: number,
+    accountLabel?: string
+): Promise<boolean> => {
+    const subject = accountLabel ? `The data export for ${accountLabel}` : 'Your data export';
+
+    return sendEmail({
+        to: email,
+        subject: 'Your data export is ready - Auth²',
+        html: `
+            <h2>Data Export Ready</h2>
+            <p>Hi ${firstname},</p>
+            <p>${subject} is ready to download:</p>
+            <a href="${downloadUrl}" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">Download Export</a>
+            <p>Or copy and paste this link into your browser:</p>
+            <p>${downloadUrl}</p>
+            <p>This link will expire in ${expiresInHours} hours. Anyone with the link can download the export, so don't forward this email.</p>
+        `,
+    });
+};
+
 /**
  * Send password reset email
  */
 export const sendPasswordResetEmail = async (
     email: string,
     firstname: string,
-    resetUrl: string
+    resetUrl: string,
+    expiresInMinutes: number
 ): Promise<boolean> => {
     return sendEmail({
         to: email,
@@ -181,8 +289,54 @@ export const sendPasswordResetEmail = async (
             <a href="${resetUrl}" style="display: inline-block; padding: 10px 20px; background-color: #dc3545; color: white; text-decoration: none; border-radius: 5px;">Reset Password</a>
             <p>Or copy and paste this link into your browser:</p>
             <p>${resetUrl}</p>
-            <p>This link will expire in 1 hour.</p>
+            <p>This link will expire in ${expiresInMinutes} minutes and can only be used once.</p>
             <p>If you didn't request this, please ignore this email and your password will remain unchanged.</p>
         `,
     });
-};
\ No newline at end of file
+};
+/**
+ * Tell the account owner a recovery code was used to sign in
+ * If it wasn't them, their password and a recovery code are both compromised
+ */
+export const sendRecoveryCodeUsedEmail = async (
+    email: string,
+    firstname: string,
+    remainingCodes: number
+): Promise<boolean> => {
+    return sendEmail({
+        to: email,
+        subject: 'A recovery code was used to sign in - Auth²',
+        html: `
+            <h2>Recovery Code Used</h2>
+            <p>Hi ${firstname},</p>
+            <p>A one-time recovery code was just used to sign in to your account instead of your authenticator app.</p>
+            <p>You have ${remainingCodes} unused recovery code${remainingCodes === 1 ? '' : 's'} left. You can generate a new set from your account settings.</p>
+            <p>If this wasn't you, change your password immediately and contact support.</p>
+        `,
+    });
+};
+
+/**
+ * Send a passwordless sign-in link
+ */
+export const sendMagicLinkEmail = async (
+    email: string,
+    firstname: string,
+    loginUrl: string,
+    expiresInMinutes: number
+): Promise<boolean> => {
+    return sendEmail({
+        to: email,
+        subject: 'Your sign-in link - Auth²',
+        html: `
+            <h2>Sign in to Auth²</h2>
+            <p>Hi ${firstname},</p>
+            <p>Click the link below to sign in. No password needed:</p>
+            <a href="${loginUrl}" style="display: inline-block; padding: 10px 20px; background-color: #007bff; color: white; text-decoration: none; border-radius: 5px;">Sign In</a>
+            <p>Or copy and paste this link into your browser:</p>
+            <p>${loginUrl}</p>
+            <p>This link will expire in ${expiresInMinutes} minutes and can only be used once.</p>
+            <p>If you didn't request this, you can ignore this email. Nobody can sign in without the link.</p>
+        `,
+    });
+};
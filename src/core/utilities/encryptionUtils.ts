@@ -0,0 +1,61 @@
+// src/core/utilities/encryptionUtils.ts
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { getEnvVar } from './envConfig';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+/**
+ * Key for encrypting secrets stored in the database
+ * MFA_ENCRYPTION_KEY (32 bytes as 64 hex characters) if set, otherwise a
+ * key derived from JWT_SECRET. Changing either makes stored secrets unreadable.
+ */
+const getEncryptionKey = (): Buffer => {
+    const configured = process.env.MFA_ENCRYPTION_KEY;
+    if (configured) {
+        if (!/^[0-9a-fA-F]{64}$/.test(configured)) {
+            throw new Error('MFA_ENCRYPTION_KEY must be 64 hex characters (32 bytes)');
+        }
+        return Buffer.from(configured, 'hex');
+    }
+    return createHash('sha256').update(`mfa-encryption:${getEnvVar('JWT_SECRET')}`).digest();
+};
+
+/**
+ * Encrypt a secret for storage (AES-256-GCM)
+ * The context (e.g. the owning account ID) is authenticated but not stored,
+ * so a ciphertext copied onto another row fails to decrypt
+ * @returns "v1:<iv>:<tag>:<ciphertext>", base64url encoded parts
+ */
+export const encryptSecret = (plaintext: string, context: string): string => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+    cipher.setAAD(Buffer.from(context));
+
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [FORMAT_VERSION, iv, tag, ciphertext]
+        .map(part => typeof part === 'string' ? part : part.toString('base64url'))
+        .join(':');
+};
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ * @throws Error if the value was tampered with, or the key or context differ
+ */
+export const decryptSecret = (encrypted: string, context: string): string => {
+    const [version, iv, tag, ciphertext] = encrypted.split(':');
+    if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+        throw new Error('Unrecognised encrypted secret format');
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(context));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+
+    return Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, 'base64url')),
+        decipher.final(),
+    ]).toString('utf8');
+};
@@ -16,12 +16,27 @@ export const ErrorCodes = {
     AUTH_TOKEN_EXPIRED: 'AUTH008',
     AUTH_UNAUTHORIZED: 'AUTH009',
     AUTH_INVALID_TOKEN: 'AUTH010',
+    AUTH_REFRESH_TOKEN_REUSED: 'AUTH011',
+    AUTH_TOKEN_REVOKED: 'AUTH012',
+    AUTH_ACCOUNT_DELETED: 'AUTH013',
+    AUTH_MFA_INVALID_CODE: 'AUTH014',
+    AUTH_MFA_ALREADY_ENABLED: 'AUTH015',
+    AUTH_MFA_NOT_STARTED: 'AUTH016',
+    AUTH_MFA_CHALLENGE_INVALID: 'AUTH017',
+    AUTH_MFA_NOT_ENABLED: 'AUTH018',
+    AUTH_WEBAUTHN_FAILED: 'AUTH019',
+    AUTH_WEBAUTHN_CREDENTIAL_EXISTS: 'AUTH020',
+    AUTH_WEBAUTHN_CREDENTIAL_NOT_FOUND: 'AUTH021',
+    AUTH_MAGIC_LINK_INVALID: 'AUTH022',
+    AUTH_SMS_CODE_INVALID: 'AUTH023',
+    AUTH_TOO_MANY_ATTEMPTS: 'AUTH024',
     
     // User errors (USER001-USER099)
     USER_NOT_FOUND: 'USER001',
     USER_CREDENTIALS_NOT_FOUND: 'USER002',
     USER_EMAIL_NOT_VERIFIED: 'USER003',
     USER_PHONE_NOT_VERIFIED: 'USER004',
+    USER_EXPORT_PENDING: 'USER005',
     
     // Password errors (PASS001-PASS099)
     PASS_INCORRECT_OLD: 'PASS001',
@@ -52,6 +67,9 @@ export const ErrorCodes = {
     VALD_INVALID_INPUT: 'VALD005',
     VALD_INVALID_PASSWORD: 'VALD006',
     
+    // Rate limit errors (RATE001-RATE099)
+    RATE_LIMIT_EXCEEDED: 'RATE001',
+    
     // Server errors (SRVR001-SRVR099)
     SRVR_DATABASE_ERROR: 'SRVR001',
     SRVR_EMAIL_SEND_FAILED: 'SRVR002',
@@ -9,4 +9,35 @@ export * from './tokenUtils';
 export * from './userExistenceUtils';
 export * from './transactionUtils';
 export * from './markdownUtils';
+export * from './refreshTokenUtils';
+export * from './sessionUtils';
+export * from './tokenRevocationUtils';
+export * from './accountStatusUtils';
 
+export * from './signingKeyStore';
+export * from './accessTokenUtils';
+export * from './clientAuthUtils';
+export * from './oauthUtils';
+export * from './pageTemplates';
+export * from './oauthPages';
+export * from './accountPages';
+export * from './serviceClientUtils';
+export * from './oidcUtils';
+export * from './encryptionUtils';
+export * from './totpUtils';
+export * from './mfaUtils';
+export * from './magicLinkUtils';
+export * from './passwordResetUtils';
+export * from './emailChangeUtils';
+export * from './phoneChangeUtils';
+export * from './accountAuditUtils';
+export * from './accountClosureUtils';
+export * from './dataExportUtils';
+export * from './smsLoginUtils';
+export * from './passwordPolicyUtils';
+export * from './breachedPasswordUtils';
+export * from './loginLockoutUtils';
+export * from './rateLimitStore';
+export * from './cborUtils';
+export * from './zipUtils';
+export * from './webauthnUtils';
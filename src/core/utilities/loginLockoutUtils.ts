@@ -0,0 +1,208 @@
+// src/core/utilities/loginLockoutUtils.ts
+import { getPool, Queryable } from './database';
+import { getEnvVar } from './envConfig';
+import { invalidateAccountState } from './accountStatusUtils';
+import { recordAccountAudit } from './accountAuditUtils';
+
+/**
+ * Why password sign-in is refused for now
+ * - account: too many failures for this email; locked with exponential backoff
+ * - ip: too many failures from this address, across any emails
+ */
+export interface LoginLockout {
+    scope: 'account' | 'ip';
+    retryAfterSeconds: number;
+}
+
+interface LockoutConfig {
+    threshold: number;
+    baseSeconds: number;
+    maxSeconds: number;
+    ipMaxFailures: number;
+    ipWindowSeconds: number;
+}
+
+const getLockoutConfig = (): LockoutConfig => ({
+    threshold: parseInt(getEnvVar('LOGIN_LOCKOUT_THRESHOLD', '5'), 10),
+    baseSeconds: parseInt(getEnvVar('LOGIN_LOCKOUT_BASE_SECONDS', '60'), 10),
+    maxSeconds: parseInt(getEnvVar('LOGIN_LOCKOUT_MAX_SECONDS', '3600'), 10),
+    ipMaxFailures: parseInt(getEnvVar('LOGIN_IP_MAX_FAILURES', '20'), 10),
+    ipWindowSeconds: parseInt(getEnvVar('LOGIN_IP_WINDOW_SECONDS', '900'), 10),
+});
+
+/**
+ * Lockouts are keyed by the email as typed (case-insensitive), not by account,
+ * so unknown emails lock exactly like real ones and the response can't reveal
+ * which emails are registered
+ */
+const lockoutKey = (email: string): string => email.trim().toLowerCase();
+
+const secondsUntil = (date: Date): number => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+/**
+ * Check whether password sign-in is currently refused for this email or IP
+ * @returns The lockout in force (the email's is checked first), or null if sign-in may proceed
+ */
+export const getLoginLockout = async (email: string, ipAddress?: string): Promise<LoginLockout | null> => {
+    const pool = getPool();
+    const config = getLockoutConfig();
+
+    const accountLock = await pool.query(
+        'SELECT Locked_Until FROM Login_Lockout WHERE Email = $1 AND Locked_Until > NOW()',
+        [lockoutKey(email)]
+    );
+    if (accountLock.rowCount > 0) {
+        return { scope: 'account', retryAfterSeconds: secondsUntil(new Date(accountLock.rows[0].locked_until)) };
+    }
+
+    if (ipAddress) {
+        const windowStart = new Date(Date.now() - config.ipWindowSeconds * 1000);
+        const ipFailures = await pool.query(
+            `SELECT COUNT(*) AS failures, MIN(Attempted_At) AS oldest
+             FROM Login_Attempt
+             WHERE IP_Address = $1 AND Succeeded = FALSE AND Attempted_At > $2`,
+            [ipAddress, windowStart]
+        );
+        const { failures, oldest } = ipFailures.rows[0];
+        if (parseInt(failures, 10) >= config.ipMaxFailures) {
+            const windowEnd = new Date(new Date(oldest).getTime() + config.ipWindowSeconds * 1000);
+            return { scope: 'ip', retryAfterSeconds: secondsUntil(windowEnd) };
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Record a wrong password (or unknown email)
+ * Every LOGIN_LOCKOUT_THRESHOLD consecutive failures lock the email for
+ * LOGIN_LOCKOUT_BASE_SECONDS, doubling with each further lockout up to
+ * LOGIN_LOCKOUT_MAX_SECONDS. Lockouts of a registered account go in its audit trail
+ * @returns The lockout this failure triggered, if any
+ */
+export const recordFailedLogin = async (
+    email: string,
+    accountId: number | null,
+    ipAddress?: string
+): Promise<LoginLockout | null> => {
+    const pool = getPool();
+    const config = getLockoutConfig();
+    const key = lockoutKey(email);
+
+    await pool.query(
+        'INSERT INTO Login_Attempt (Email, Account_ID, IP_Address, Succeeded) VALUES ($1, $2, $3, FALSE)',
+        [key, accountId, ipAddress ?? null]
+    );
+
+    const counter = await pool.query(
+        `INSERT INTO Login_Lockout (Email, Failed_Count) VALUES ($1, 1)
+         ON CONFLICT (Email) DO UPDATE SET Failed_Count = Login_Lockout.Failed_Count + 1, Updated_At = NOW()
+         RETURNING Failed_Count, Lockout_Count`,
+        [key]
+    );
+    const { failed_count: failedCount, lockout_count: lockoutCount } = counter.rows[0];
+
+    if (failedCount < config.threshold) {
+        return null;
+    }
+
+    const lockSeconds = Math.min(config.baseSeconds * 2 ** lockoutCount, config.maxSeconds);
+    await pool.query(
+        `UPDATE Login_Lockout
+         SET Failed_Count = 0, Lockout_Count = Lockout_Count + 1, Locked_Until = $2, Updated_At = NOW()
+         WHERE Email = $1`,
+        [key, new Date(Date.now() + lockSeconds * 1000)]
+    );
+    if (accountId !== null) {
+        await recordAccountAudit(pool, accountId, null, 'locked_out', { lockedForSeconds: lockSeconds });
+    }
+
+    return { scope: 'account', retryAfterSeconds: lockSeconds };
+};
+
+/**
+ * Record a successful sign-in, which clears the email's failures and backoff
+ */
+export const recordSuccessfulLogin = async (
+    email: string,
+    accountId: number,
+    ipAddress?: string
+): Promise<void> => {
+    const pool = getPool();
+    const key = lockoutKey(email);
+
+    await pool.query(
+        'INSERT INTO Login_Attempt (Email, Account_ID, IP_Address, Succeeded) VALUES ($1, $2, $3, TRUE)',
+        [key, accountId, ipAddress ?? null]
+    );
+    await pool.query('DELETE FROM Login_Lockout WHERE Email = $1', [key]);
+};
+
+/**
+ * Lift a lockout early (admin action)
+ * Clears the temporary lockout and backoff for the account's email and any
+ * lock on its second factor, and reactivates an account whose status was set
+ * to 'locked'
+ * @returns Whether the account was locked in any of these ways
+ */
+export const unlockAccount = async (db: Queryable, accountId: number): Promise<boolean> => {
+    const accountResult = await db.query('SELECT Email FROM Account WHERE Account_ID = $1', [accountId]);
+    if (accountResult.rowCount === 0) {
+        return false;
+    }
+
+    const cleared = await db.query(
+        'DELETE FROM Login_Lockout WHERE Email = $1 RETURNING Locked_Until',
+        [lockoutKey(accountResult.rows[0].email)]
+    );
+    const secondFactor = await db.query(
+        'SELECT Locked_Until FROM Account_MFA WHERE Account_ID = $1',
+        [accountId]
+    );
+    await db.query(
+        'UPDATE Account_MFA SET Failed_Attempts = 0, Locked_Until = NULL WHERE Account_ID = $1',
+        [accountId]
+    );
+    const wasLockedOut = [...cleared.rows, ...secondFactor.rows]
+        .some(row => row.locked_until && new Date(row.locked_until) > new Date());
+
+    const reactivated = await db.query(
+        `UPDATE Account SET Account_Status = 'active', Updated_At = NOW()
+         WHERE Account_ID = $1 AND Account_Status = 'locked'`,
+        [accountId]
+    );
+    if (reactivated.rowCount > 0) {
+        invalidateAccountState(accountId);
+    }
+
+    return wasLockedOut || reactivated.rowCount > 0;
+};
+
+/**
+ * Delete sign-in attempts older than LOGIN_ATTEMPT_RETENTION_DAYS
+ * Attempts inside the IP window are always kept, since they still count
+ * towards the IP lockout. Run periodically by the server
+ * @returns How many attempts were deleted
+ */
+export const deleteOldLoginAttempts = async (): Promise<number> => {
+    const retentionSeconds = Math.max(
+        parseInt(getEnvVar('LOGIN_ATTEMPT_RETENTION_DAYS', '90'), 10) * 24 * 60 * 60,
+        getLockoutConfig().ipWindowSeconds
+    );
+    const result = await getPool().query(
+        'DELETE FROM Login_Attempt WHERE Attempted_At < $1',
+        [new Date(Date.now() - retentionSeconds * 1000)]
+    );
+    return result.rowCount ?? 0;
+};
+
+/**
+ * Describe a wait for error messages ("45 seconds", "3 minutes")
+ */
+export const describeRetryAfter = (seconds: number): string => {
+    if (seconds < 60) {
+        return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    }
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
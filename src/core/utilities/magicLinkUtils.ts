@@ -0,0 +1,67 @@
+// src/core/utilities/magicLinkUtils.ts
+import { MAGIC_LINK_EXPIRY_MINUTES } from '@models';
+import { getPool } from './database';
+import { generateSecureToken, hashToken } from './credentialingUtils';
+import { getSessionAccount, SessionAccount } from './sessionUtils';
+import { getAccountStatusError, AccountStatusError } from './accountStatusUtils';
+
+/**
+ * Outcome of following a sign-in link
+ * - valid: the link was unused and in date; it is now spent
+ * - invalid: unknown, used or expired link, or the account's email has
+ *   changed or is no longer verified since it was sent
+ * - blocked: the account has since been suspended, locked or deleted
+ */
+export type MagicLinkRedemption =
+    | { status: 'valid'; account: SessionAccount }
+    | { status: 'invalid' }
+    | { status: 'blocked'; statusError: AccountStatusError };
+
+/**
+ * Issue a sign-in link token for an account's (verified) email
+ * Only the newest link works - issuing one cancels any still outstanding
+ * @returns The raw token for the URL; only its hash is stored
+ */
+export const issueMagicLinkToken = async (accountId: number, email: string): Promise<string> => {
+    const pool = getPool();
+    const token = generateSecureToken();
+
+    await pool.query('DELETE FROM Magic_Link_Token WHERE Account_ID = $1', [accountId]);
+    await pool.query(
+        `INSERT INTO Magic_Link_Token (Token_Hash, Account_ID, Email, Expires_At)
+         VALUES ($1, $2, $3, $4)`,
+        [hashToken(token), accountId, email, new Date(Date.now() + MAGIC_LINK_EXPIRY_MINUTES * 60 * 1000)]
+    );
+
+    return token;
+};
+
+/**
+ * Spend a sign-in link token
+ * Marked used before anything else, so two clicks can't both sign in
+ */
+export const redeemMagicLinkToken = async (token: string): Promise<MagicLinkRedemption> => {
+    const redeemed = await getPool().query(
+        `UPDATE Magic_Link_Token SET Used_At = NOW()
+         WHERE Token_Hash = $1 AND Used_At IS NULL AND Expires_At > NOW()
+         RETURNING Account_ID, Email`,
+        [hashToken(token)]
+    );
+
+    if (redeemed.rowCount === 0) {
+        return { status: 'invalid' };
+    }
+
+    const { account_id: accountId, email } = redeemed.rows[0];
+    const account = await getSessionAccount(accountId);
+    if (!account || account.email !== email || !account.email_verified) {
+        return { status: 'invalid' };
+    }
+
+    const statusError = getAccountStatusError(account.account_status);
+    if (statusError) {
+        return { status: 'blocked', statusError };
+    }
+
+    return { status: 'valid', account };
+};
@@ -0,0 +1,405 @@
+// src/core/utilities/mfaUtils.ts
+import { randomBytes } from 'crypto';
+import { MFA_RECOVERY_CODE_COUNT, MFA_MAX_ATTEMPTS, MFA_LOCKOUT_MINUTES } from '@models';
+import { getPool, Queryable } from './database';
+import { getEnvVar } from './envConfig';
+import { encryptSecret, decryptSecret } from './encryptionUtils';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri, base32Encode } from './totpUtils';
+import { hashToken } from './credentialingUtils';
+import { verifyToken, generateMfaChallengeToken } from './tokenUtils';
+import { withTransaction } from './transactionUtils';
+import { sendRecoveryCodeUsedEmail } from './emailService';
+import { getSessionAccount, SessionAccount } from './sessionUtils';
+import { getAccountStatusError, AccountStatusError } from './accountStatusUtils';
+import { recordAccountAudit } from './accountAuditUtils';
+
+/**
+ * A started (not yet confirmed) TOTP enrollment
+ * The secret is shown once so the user can add it to an authenticator app
+ */
+export interface TotpEnrollment {
+    secret: string;
+    otpauthUri: string;
+}
+
+/**
+ * Outcome of confirming an enrollment with a first code
+ * Recovery codes are issued (and shown once) when two-factor is switched on
+ */
+export type TotpConfirmationResult =
+    | { status: 'enabled'; recoveryCodes: string[] }
+    | { status: 'invalid_code' }
+    | { status: 'not_started' }
+    | { status: 'already_enabled' };
+
+/**
+ * Response to a first sign-in step when a second factor is still needed
+ */
+export interface MfaChallenge {
+    mfaRequired: true;
+    mfaToken: string;
+    methods: string[];
+}
+
+/**
+ * Outcome of checking a second factor at sign-in
+ * - totp: a valid authenticator code
+ * - recovery_code: an unused recovery code, now spent
+ * - invalid: neither
+ * - locked: too many wrong codes in a row; nothing is checked until the lock ends
+ */
+export type SecondFactorResult =
+    | { outcome: 'totp' }
+    | { outcome: 'recovery_code'; remainingRecoveryCodes: number }
+    | { outcome: 'invalid' }
+    | { outcome: 'locked'; retryAfterSeconds: number };
+
+/**
+ * Outcome of checking an MFA challenge token from login
+ * - valid: the password step was completed for this account
+ * - invalid: bad, expired or outdated token (password changed, sessions revoked)
+ * - blocked: the account has since been suspended, locked or deleted
+ */
+export type MfaChallengeResult =
+    | { status: 'valid'; account: SessionAccount }
+    | { status: 'invalid' }
+    | { status: 'blocked'; statusError: AccountStatusError };
+
+/**
+ * The encrypted secret is bound to its account so rows can't be swapped
+ */
+const getSecretContext = (accountId: number): string => `account:${accountId}:totp`;
+
+/**
+ * Whether an account must pass a TOTP check to sign in
+ */
+export const isTotpEnabled = async (accountId: number): Promise<boolean> => {
+    const result = await getPool().query(
+        'SELECT TOTP_Enabled FROM Account_MFA WHERE Account_ID = $1',
+        [accountId]
+    );
+    return result.rowCount > 0 && result.rows[0].totp_enabled;
+};
+
+/**
+ * Start (or restart) TOTP enrollment with a fresh secret
+ * Nothing changes at login until the enrollment is confirmed
+ * @returns The new secret, or null if TOTP is already enabled
+ */
+export const startTotpEnrollment = async (
+    accountId: number,
+    accountName: string
+): Promise<TotpEnrollment | null> => {
+    if (await isTotpEnabled(accountId)) {
+        return null;
+    }
+
+    const secret = generateTotpSecret();
+    const pool = getPool();
+
+    // Replace any earlier unconfirmed enrollment
+    await pool.query(
+        'DELETE FROM Account_MFA WHERE Account_ID = $1 AND TOTP_Enabled = FALSE',
+        [accountId]
+    );
+    await pool.query(
+        'INSERT INTO Account_MFA (Account_ID, TOTP_Secret) VALUES ($1, $2)',
+        [accountId, encryptSecret(secret, getSecretContext(accountId))]
+    );
+
+    return {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, accountName, getEnvVar('MFA_ISSUER', 'Auth2')),
+    };
+};
+
+/**
+ * Check a code against an account's TOTP secret
+ * Each time step can only be used once - a code seen by a shoulder-surfer or
+ * proxy can't be replayed within its 30 seconds
+ */
+const checkAccountTotp = async (
+    accountId: number,
+    code: string,
+    requireEnabled: boolean
+): Promise<boolean> => {
+    const pool = getPool();
+    const result = await pool.query(
+        'SELECT TOTP_Secret, TOTP_Enabled FROM Account_MFA WHERE Account_ID = $1',
+        [accountId]
+    );
+
+    if (result.rowCount === 0 || result.rows[0].totp_enabled !== requireEnabled) {
+        return false;
+    }
+
+    const secret = decryptSecret(result.rows[0].totp_secret, getSecretContext(accountId));
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+        return false;
+    }
+
+    const update = await pool.query(
+        `UPDATE Account_MFA SET TOTP_Last_Step = $1
+         WHERE Account_ID = $2 AND (TOTP_Last_Step IS NULL OR TOTP_Last_Step < $1)`,
+        [step, accountId]
+    );
+    return update.rowCount > 0;
+};
+
+/**
+ * Finish enrollment by proving the authenticator app produces valid codes
+ */
+export const confirmTotpEnrollment = async (
+    accountId: number,
+    code: string
+): Promise<TotpConfirmationResult> => {
+    const result = await getPool().query(
+        'SELECT TOTP_Enabled FROM Account_MFA WHERE Account_ID = $1',
+        [accountId]
+    );
+
+    if (result.rowCount === 0) {
+        return { status: 'not_started' };
+    }
+    if (result.rows[0].totp_enabled) {
+        return { status: 'already_enabled' };
+    }
+    if (!(await checkAccountTotp(accountId, code, false))) {
+        return { status: 'invalid_code' };
+    }
+
+    const enabled = await withTransaction(async (client) => {
+        await client.query(
+            'UPDATE Account_MFA SET TOTP_Enabled = TRUE, Enabled_At = NOW() WHERE Account_ID = $1',
+            [accountId]
+        );
+        return replaceRecoveryCodes(client, accountId);
+    });
+
+    if (!enabled.success) {
+        throw enabled.error;
+    }
+    return { status: 'enabled', recoveryCodes: enabled.data };
+};
+
+/**
+ * Verify a TOTP code at sign-in
+ */
+export const verifyAccountTotp = async (accountId: number, code: string): Promise<boolean> => {
+    return checkAccountTotp(accountId, code, true);
+};
+
+/**
+ * Recovery codes are compared without case or separators, so "ABCDE-FGHIJ",
+ * "abcde fghij" and "abcdefghij" are the same code
+ */
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Generate a recovery code: 10 base32 characters (50 bits), shown as xxxxx-xxxxx
+ */
+const generateRecoveryCode = (): string => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+/**
+ * Replace an account's recovery codes with a fresh set
+ * Earlier codes, used or not, stop working
+ * @returns The new codes in plain text - only their hashes are stored
+ */
+const replaceRecoveryCodes = async (db: Queryable, accountId: number): Promise<string[]> => {
+    await db.query('DELETE FROM MFA_Recovery_Code WHERE Account_ID = $1', [accountId]);
+
+    const codes = Array.from({ length: MFA_RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    for (const code of codes) {
+        await db.query(
+            'INSERT INTO MFA_Recovery_Code (Account_ID, Code_Hash) VALUES ($1, $2)',
+            [accountId, hashToken(normalizeRecoveryCode(code))]
+        );
+    }
+    return codes;
+};
+
+/**
+ * Issue a new set of recovery codes for an account with two-factor enabled
+ * @returns The new codes, or null if two-factor isn't enabled
+ */
+export const regenerateRecoveryCodes = async (accountId: number): Promise<string[] | null> => {
+    if (!(await isTotpEnabled(accountId))) {
+        return null;
+    }
+
+    const result = await withTransaction(client => replaceRecoveryCodes(client, accountId));
+    if (!result.success) {
+        throw result.error;
+    }
+    return result.data;
+};
+
+/**
+ * Spend a recovery code
+ * @returns How many unused codes remain, or null if the code isn't a valid unused one
+ */
+const redeemRecoveryCode = async (accountId: number, code: string): Promise<number | null> => {
+    const pool = getPool();
+    const redeemed = await pool.query(
+        `UPDATE MFA_Recovery_Code SET Used_At = NOW()
+         WHERE Account_ID = $1 AND Code_Hash = $2 AND Used_At IS NULL`,
+        [accountId, hashToken(normalizeRecoveryCode(code))]
+    );
+    if (redeemed.rowCount === 0) {
+        return null;
+    }
+
+    const remaining = await pool.query(
+        'SELECT COUNT(*) AS remaining FROM MFA_Recovery_Code WHERE Account_ID = $1 AND Used_At IS NULL',
+        [accountId]
+    );
+    return Number(remaining.rows[0].remaining);
+};
+
+/**
+ * How long the account's second factor is still locked, if it is
+ */
+const getSecondFactorLock = async (accountId: number): Promise<number | null> => {
+    const result = await getPool().query(
+        'SELECT Locked_Until FROM Account_MFA WHERE Account_ID = $1',
+        [accountId]
+    );
+    const lockedUntil = result.rows[0]?.locked_until;
+    if (!lockedUntil || new Date(lockedUntil).getTime() <= Date.now()) {
+        return null;
+    }
+    return Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000);
+};
+
+/**
+ * Count a wrong second factor against the account
+ * Failures are kept per account rather than per challenge token, since a
+ * new challenge is only a password away. The MFA_MAX_ATTEMPTS-th failure in
+ * a row locks the second factor for MFA_LOCKOUT_MINUTES
+ * @returns The lock this failure triggered, in seconds, if any
+ */
+const recordSecondFactorFailure = async (accountId: number): Promise<number | null> => {
+    const pool = getPool();
+    const counter = await pool.query(
+        `UPDATE Account_MFA SET Failed_Attempts = Failed_Attempts + 1
+         WHERE Account_ID = $1
+         RETURNING Failed_Attempts`,
+        [accountId]
+    );
+    if (counter.rowCount === 0 || counter.rows[0].failed_attempts < MFA_MAX_ATTEMPTS) {
+        return null;
+    }
+
+    await pool.query(
+        'UPDATE Account_MFA SET Failed_Attempts = 0, Locked_Until = $1 WHERE Account_ID = $2',
+        [new Date(Date.now() + MFA_LOCKOUT_MINUTES * 60 * 1000), accountId]
+    );
+    await recordAccountAudit(pool, accountId, null, 'mfa_locked', { lockedForSeconds: MFA_LOCKOUT_MINUTES * 60 });
+    return MFA_LOCKOUT_MINUTES * 60;
+};
+
+/**
+ * Try a recovery code in place of the authenticator, emailing the owner if it works
+ */
+const redeemRecoveryCodeFactor = async (
+    account: SessionAccount,
+    code: string
+): Promise<SecondFactorResult> => {
+    const remainingRecoveryCodes = await redeemRecoveryCode(account.account_id, code);
+    if (remainingRecoveryCodes === null) {
+        return { outcome: 'invalid' };
+    }
+
+    await sendRecoveryCodeUsedEmail(account.email, account.firstname, remainingRecoveryCodes);
+    return { outcome: 'recovery_code', remainingRecoveryCodes };
+};
+
+/**
+ * Check the second factor at sign-in: a TOTP code, or a recovery code in its place
+ * Using a recovery code emails the account owner, since it means the
+ * authenticator was bypassed. Wrong codes count towards a lock on the
+ * account's second factor; a correct one resets the count
+ */
+export const verifySecondFactor = async (
+    account: SessionAccount,
+    code: string
+): Promise<SecondFactorResult> => {
+    const accountId = account.account_id;
+
+    const lockedForSeconds = await getSecondFactorLock(accountId);
+    if (lockedForSeconds !== null) {
+        return { outcome: 'locked', retryAfterSeconds: lockedForSeconds };
+    }
+
+    let result: SecondFactorResult;
+    if (/^\d{6}$/.test(code)) {
+        result = (await verifyAccountTotp(accountId, code)) ? { outcome: 'totp' } : { outcome: 'invalid' };
+    } else {
+        result = await redeemRecoveryCodeFactor(account, code);
+    }
+
+    if (result.outcome === 'invalid') {
+        const lockSeconds = await recordSecondFactorFailure(accountId);
+        return lockSeconds === null ? result : { outcome: 'locked', retryAfterSeconds: lockSeconds };
+    }
+
+    await getPool().query(
+        'UPDATE Account_MFA SET Failed_Attempts = 0 WHERE Account_ID = $1',
+        [accountId]
+    );
+    return result;
+};
+
+/**
+ * Remove every second factor from an account (admin reset, lost device)
+ * Recovery codes go with the enrollment row (ON DELETE CASCADE)
+ * @returns Whether the account had anything enrolled
+ */
+export const resetAccountMfa = async (db: Queryable, accountId: number): Promise<boolean> => {
+    const result = await db.query('DELETE FROM Account_MFA WHERE Account_ID = $1', [accountId]);
+    return result.rowCount > 0;
+};
+
+/**
+ * Start the second sign-in step for an account with two-factor enabled
+ * The token is exchanged, with a code, at POST /auth/login/mfa
+ */
+export const createMfaChallenge = (account: SessionAccount): MfaChallenge => ({
+    mfaRequired: true,
+    mfaToken: generateMfaChallengeToken(account.account_id, account.token_version),
+    methods: ['totp', 'recovery_code'],
+});
+
+/**
+ * Check the challenge token issued by login when a second factor is needed
+ * The account is reloaded so status and token version changes since the
+ * password step are respected
+ */
+export const readMfaChallenge = async (mfaToken: string): Promise<MfaChallengeResult> => {
+    let claims: { id?: number; type?: string; ver?: number };
+    try {
+        claims = verifyToken(mfaToken);
+    } catch {
+        return { status: 'invalid' };
+    }
+
+    if (claims.type !== 'mfa_challenge' || typeof claims.id !== 'number') {
+        return { status: 'invalid' };
+    }
+
+    const account = await getSessionAccount(claims.id);
+    if (!account || account.token_version !== claims.ver) {
+        return { status: 'invalid' };
+    }
+
+    const statusError = getAccountStatusError(account.account_status);
+    if (statusError) {
+        return { status: 'blocked', statusError };
+    }
+
+    return { status: 'valid', account };
+};
@@ -0,0 +1,84 @@
+/**
+ * HTML pages for the OAuth authorization endpoint
+ *
+ * The login/consent page is served by this service so that front ends never
+ * see the user's password. Everything interpolated into the markup goes
+ * through escapeHtml - request parameters are attacker-controlled.
+ */
+
+import { AuthorizationRequest, OAuthClient } from './oauthUtils';
+import { escapeHtml, renderPage } from './pageTemplates';
+
+/**
+ * Human-readable descriptions shown on the consent page
+ */
+const SCOPE_DESCRIPTIONS: Record<string, string> = {
+    openid: 'Your account ID',
+    profile: 'Your name and username',
+    email: 'Your email address',
+    phone: 'Your phone number',
+};
+
+/**
+ * Login and consent page for a validated authorization request
+ * The original request parameters ride along as hidden fields so the POST
+ * can be validated again from scratch. With an mfaToken the password step is
+ * done and the page asks for the authenticator code instead
+ */
+export const renderAuthorizePage = (options: {
+    client: OAuthClient;
+    scope: string;
+    request: AuthorizationRequest;
+    email?: string;
+    error?: string;
+    mfaToken?: string;
+}): string => {
+    const hiddenFields = Object.entries(options.request)
+        .filter(([, value]) => typeof value === 'string')
+        .map(([name, value]) =>
+            `        <input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value as string)}">`
+        )
+        .join('\n');
+
+    const scopeItems = options.scope
+        .split(' ')
+        .filter(Boolean)
+        .map(scope => `            <li>${escapeHtml(SCOPE_DESCRIPTIONS[scope] ?? scope)}</li>`)
+        .join('\n');
+
+    const errorMessage = options.error
+        ? `        <p class="error" role="alert">${escapeHtml(options.error)}</p>\n`
+        : '';
+
+    const credentialFields = options.mfaToken
+        ? `        <input type="hidden" name="mfa_token" value="${escapeHtml(options.mfaToken)}">
+        <label for="totp_code">Authentication code or recovery code</label>
+        <input type="text" id="totp_code" name="totp_code" maxlength="11" autocomplete="one-time-code" required autofocus>`
+        : `        <label for="email">Email</label>
+        <input type="email" id="email" name="email" value="${escapeHtml(options.email ?? '')}" autocomplete="username" required>
+        <label for="password">Password</label>
+        <input type="password" id="password" name="password" autocomplete="current-password" required>`;
+
+    return renderPage('Sign in', `        <h1>Sign in to continue to ${escapeHtml(options.client.client_name)}</h1>
+${errorMessage}        <p>${escapeHtml(options.client.client_name)} will be able to see:</p>
+        <ul>
+${scopeItems}
+        </ul>
+        <form method="POST" action="/oauth/authorize">
+${hiddenFields}
+${credentialFields}
+        <div class="actions">
+            <button type="submit" name="decision" value="deny" formnovalidate>Cancel</button>
+            <button type="submit" name="decision" value="allow">Allow</button>
+        </div>
+        </form>`);
+};
+
+/**
+ * Error page for requests that can't safely be redirected back to the client
+ */
+export const renderOAuthErrorPage = (message: string): string => {
+    return renderPage('Authorization error', `        <h1>Something went wrong</h1>
+        <p class="error">${escapeHtml(message)}</p>
+        <p>Return to the application and try again.</p>`);
+};
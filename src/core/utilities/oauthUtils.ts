@@ -0,0 +1,324 @@
+// src/core/utilities/oauthUtils.ts
+import { createHash } from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { IUser, OAUTH_CODE_EXPIRY_SECONDS } from '@models';
+import { getPool, Queryable } from './database';
+import { generateSecureToken, hashToken, secureCompare } from './credentialingUtils';
+import { issueRefreshToken, revokeRefreshTokenFamily, IssuedRefreshToken } from './refreshTokenUtils';
+import { generateAccessToken } from './tokenUtils';
+import { buildIdToken, hasScope } from './oidcUtils';
+import { withTransaction } from './transactionUtils';
+
+/**
+ * Registered OAuth client (OAuth_Client row)
+ */
+export interface OAuthClient {
+    client_id: string;
+    client_name: string;
+    client_secret_hash: string | null;
+    redirect_uris: string[];
+    allowed_scopes: string;
+}
+
+/**
+ * Parameters of an /oauth/authorize request (query string on GET, form on POST)
+ */
+export interface AuthorizationRequest {
+    response_type?: string;
+    client_id?: string;
+    redirect_uri?: string;
+    scope?: string;
+    state?: string;
+    code_challenge?: string;
+    code_challenge_method?: string;
+    nonce?: string;
+}
+
+/**
+ * Outcome of validating an authorization request
+ * - valid: show the login/consent page
+ * - fatal: client or redirect URI can't be trusted - show an error page, never redirect
+ * - redirect: send the error back to the client's redirect URI (RFC 6749 §4.1.2.1)
+ */
+export type AuthorizationRequestValidation =
+    | { status: 'valid'; client: OAuthClient; redirectUri: string; scope: string }
+    | { status: 'fatal'; message: string }
+    | { status: 'redirect'; redirectUri: string; error: string; description: string };
+
+/**
+ * Outcome of exchanging an authorization code
+ * - redeemed: tokens can be issued; the refresh token has already been stored
+ * - invalid: unknown, expired, already used, or presented with the wrong
+ *   client, redirect URI or PKCE verifier
+ */
+export type AuthorizationCodeRedemption =
+    | { status: 'redeemed'; accountId: number; scope: string; nonce: string | null; refreshToken: IssuedRefreshToken }
+    | { status: 'invalid' };
+
+/**
+ * Account columns needed to issue OAuth tokens (and id_token claims)
+ */
+export interface OAuthTokenAccount extends IUser {
+    token_version: number;
+}
+
+/**
+ * Token endpoint success response (RFC 6749 §5.1)
+ */
+export interface OAuthTokenResponse {
+    access_token: string;
+    token_type: 'Bearer';
+    expires_in: number;
+    refresh_token: string;
+    scope: string;
+    id_token?: string;  // Only when the openid scope was granted
+}
+
+/**
+ * Look up a registered client
+ */
+export const getOAuthClient = async (clientId: string): Promise<OAuthClient | null> => {
+    const result = await getPool().query(
+        `SELECT Client_ID, Client_Name, Client_Secret_Hash, Redirect_URIs, Allowed_Scopes
+         FROM OAuth_Client WHERE Client_ID = $1`,
+        [clientId]
+    );
+    return result.rowCount > 0 ? result.rows[0] : null;
+};
+
+/**
+ * Check a client's secret
+ * Public clients have no secret and authenticate with PKCE alone
+ */
+export const verifyClientSecret = (client: OAuthClient, secret?: string): boolean => {
+    if (client.client_secret_hash === null) {
+        return true;
+    }
+    return typeof secret === 'string' && secureCompare(hashToken(secret), client.client_secret_hash);
+};
+
+/**
+ * Work out which scopes to grant
+ * No requested scope means everything the client is allowed
+ * @returns The granted scope string, or null if anything requested isn't allowed
+ */
+export const resolveScope = (requested: string | undefined, allowed: string): string | null => {
+    const allowedScopes = allowed.split(' ').filter(Boolean);
+    if (!requested || requested.trim() === '') {
+        return allowedScopes.join(' ');
+    }
+
+    const requestedScopes = [...new Set(requested.split(' ').filter(Boolean))];
+    if (!requestedScopes.every(scope => allowedScopes.includes(scope))) {
+        return null;
+    }
+    return requestedScopes.join(' ');
+};
+
+/**
+ * Check a PKCE code_verifier against the stored S256 challenge (RFC 7636)
+ */
+export const verifyPkce = (verifier: string | undefined, challenge: string): boolean => {
+    if (typeof verifier !== 'string' || !/^[A-Za-z0-9\-._~]{43,128}$/.test(verifier)) {
+        return false;
+    }
+    const computed = createHash('sha256').update(verifier).digest('base64url');
+    return secureCompare(computed, challenge);
+};
+
+/**
+ * Validate the parameters of an authorization request
+ * The client and redirect URI are checked first: until both are known to be
+ * good, errors must not be sent to the redirect URI (open redirector)
+ */
+export const validateAuthorizationRequest = async (
+    params: AuthorizationRequest
+): Promise<AuthorizationRequestValidation> => {
+    if (!params.client_id) {
+        return { status: 'fatal', message: 'The request is missing a client_id.' };
+    }
+
+    const client = await getOAuthClient(params.client_id);
+    if (!client) {
+        return { status: 'fatal', message: 'Unknown client.' };
+    }
+
+    if (!params.redirect_uri || !client.redirect_uris.includes(params.redirect_uri)) {
+        return { status: 'fatal', message: 'The redirect_uri is not registered for this client.' };
+    }
+
+    const redirectUri = params.redirect_uri;
+
+    if (params.response_type !== 'code') {
+        return { status: 'redirect', redirectUri, error: 'unsupported_response_type', description: 'Only response_type=code is supported' };
+    }
+
+    if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+        return { status: 'redirect', redirectUri, error: 'invalid_request', description: 'PKCE with code_challenge_method=S256 is required' };
+    }
+
+    const scope = resolveScope(params.scope, client.allowed_scopes);
+    if (scope === null) {
+        return { status: 'redirect', redirectUri, error: 'invalid_scope', description: 'Requested scope is not allowed for this client' };
+    }
+
+    return { status: 'valid', client, redirectUri, scope };
+};
+
+/**
+ * Build the URL to send the browser back to the client
+ * state is echoed back unchanged so the client can match the response
+ */
+export const buildRedirectUrl = (
+    redirectUri: string,
+    params: Record<string, string | undefined>
+): string => {
+    const url = new URL(redirectUri);
+    Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+            url.searchParams.set(key, value);
+        }
+    });
+    return url.toString();
+};
+
+/**
+ * Create a single-use authorization code after the user approves
+ * Only the hash is stored; the raw code goes to the client via the redirect
+ */
+export const createAuthorizationCode = async (
+    db: Queryable,
+    grant: {
+        clientId: string;
+        accountId: number;
+        redirectUri: string;
+        scope: string;
+        codeChallenge: string;
+        nonce?: string;
+    }
+): Promise<string> => {
+    const code = generateSecureToken();
+
+    await db.query(
+        `INSERT INTO OAuth_Authorization_Code
+         (Code_Hash, Client_ID, Account_ID, Redirect_URI, Scope, Code_Challenge, Nonce, Expires_At)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+            hashToken(code),
+            grant.clientId,
+            grant.accountId,
+            grant.redirectUri,
+            grant.scope,
+            grant.codeChallenge,
+            grant.nonce ?? null,
+            new Date(Date.now() + OAUTH_CODE_EXPIRY_SECONDS * 1000),
+        ]
+    );
+
+    return code;
+};
+
+/**
+ * Exchange an authorization code for a refresh token (the caller adds the access token)
+ *
+ * Codes are single use. A code that comes back a second time has leaked,
+ * so the refresh token family issued for it the first time is revoked
+ * (RFC 6749 §4.1.2).
+ */
+export const redeemAuthorizationCode = async (
+    code: string,
+    exchange: { clientId: string; redirectUri?: string; codeVerifier?: string }
+): Promise<AuthorizationCodeRedemption> => {
+    const result = await withTransaction<AuthorizationCodeRedemption>(async (client) => {
+        const codeResult = await client.query(
+            `SELECT Code_Hash, Client_ID, Account_ID, Redirect_URI, Scope, Code_Challenge, Nonce,
+                    Expires_At, Used_At, Refresh_Family_ID
+             FROM OAuth_Authorization_Code
+             WHERE Code_Hash = $1
+             FOR UPDATE`,
+            [hashToken(code)]
+        );
+
+        if (codeResult.rowCount === 0) {
+            return { status: 'invalid' };
+        }
+
+        const stored = codeResult.rows[0];
+
+        if (stored.used_at !== null) {
+            if (stored.refresh_family_id) {
+                await revokeRefreshTokenFamily(client, stored.refresh_family_id);
+            }
+            return { status: 'invalid' };
+        }
+
+        if (
+            stored.client_id !== exchange.clientId ||
+            stored.redirect_uri !== exchange.redirectUri ||
+            new Date() > new Date(stored.expires_at) ||
+            !verifyPkce(exchange.codeVerifier, stored.code_challenge)
+        ) {
+            return { status: 'invalid' };
+        }
+
+        const refreshToken = await issueRefreshToken(client, stored.account_id, {
+            clientId: stored.client_id,
+            scope: stored.scope,
+        });
+
+        await client.query(
+            `UPDATE OAuth_Authorization_Code
+             SET Used_At = NOW(), Refresh_Family_ID = $1
+             WHERE Code_Hash = $2`,
+            [refreshToken.familyId, stored.code_hash]
+        );
+
+        return {
+            status: 'redeemed',
+            accountId: stored.account_id,
+            scope: stored.scope,
+            nonce: stored.nonce,
+            refreshToken,
+        };
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+
+    return result.data!;
+};
+
+/**
+ * Issue the access token for an OAuth grant and format the token response
+ * Uses the same claims as first-party tokens, plus scope and client_id, and
+ * is typed as an OAuth token so it only works on scope-checked endpoints.
+ * An id_token is added when the openid scope was granted
+ */
+export const buildOAuthTokenResponse = (
+    account: OAuthTokenAccount,
+    clientId: string,
+    scope: string,
+    refreshToken: IssuedRefreshToken,
+    nonce?: string | null
+): OAuthTokenResponse => {
+    const accessToken = generateAccessToken({
+        id: account.account_id,
+        email: account.email,
+        role: account.account_role,
+        tokenVersion: account.token_version,
+        scope,
+        clientId,
+    });
+
+    const { iat, exp } = jwt.decode(accessToken) as JwtPayload;
+
+    return {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: exp - iat,
+        refresh_token: refreshToken.token,
+        scope,
+        ...(hasScope(scope, 'openid') && { id_token: buildIdToken(account, clientId, scope, nonce) }),
+    };
+};
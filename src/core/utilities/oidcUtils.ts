@@ -0,0 +1,154 @@
+// src/core/utilities/oidcUtils.ts
+import { IUser, OIDC_SCOPES } from '@models';
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+import { generateIdToken } from './tokenUtils';
+import { getActiveSigningKey } from './signingKeyStore';
+
+/**
+ * Standard OpenID Connect claims we can release about a user
+ * (OIDC Core §5.1). Which ones are included depends on the granted scope
+ */
+export interface OidcUserClaims {
+    sub: string;
+    name?: string;
+    given_name?: string;
+    family_name?: string;
+    preferred_username?: string;
+    updated_at?: number;
+    email?: string;
+    email_verified?: boolean;
+    phone_number?: string;
+    phone_number_verified?: boolean;
+}
+
+/**
+ * OpenID Provider metadata served at /.well-known/openid-configuration
+ */
+export interface OpenIdConfiguration {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint: string;
+    jwks_uri: string;
+    introspection_endpoint: string;
+    response_types_supported: string[];
+    grant_types_supported: string[];
+    subject_types_supported: string[];
+    id_token_signing_alg_values_supported: string[];
+    scopes_supported: string[];
+    claims_supported: string[];
+    token_endpoint_auth_methods_supported: string[];
+    code_challenge_methods_supported: string[];
+}
+
+/**
+ * Our issuer identifier - the public base URL of this service
+ * Clients compare it byte-for-byte with the id_token's iss claim
+ */
+export const getIssuer = (): string => {
+    const baseUrl = getEnvVar('APP_BASE_URL', `http://localhost:${getEnvVar('PORT', '8000')}`);
+    return baseUrl.replace(/\/+$/, '');
+};
+
+/**
+ * Check whether a space-separated scope string includes a scope
+ */
+export const hasScope = (scope: string | undefined, name: string): boolean => {
+    return (scope ?? '').split(' ').includes(name);
+};
+
+/**
+ * Map a user to the standard claims the granted scope allows
+ * - profile: name, given_name, family_name, preferred_username, updated_at
+ * - email: email, email_verified
+ * - phone: phone_number, phone_number_verified
+ */
+export const buildUserClaims = (user: IUser, scope: string): OidcUserClaims => {
+    const claims: OidcUserClaims = { sub: String(user.account_id) };
+
+    if (hasScope(scope, 'profile')) {
+        claims.name = `${user.firstname} ${user.lastname}`.trim();
+        claims.given_name = user.firstname;
+        claims.family_name = user.lastname;
+        claims.preferred_username = user.username;
+        if (user.updated_at) {
+            claims.updated_at = Math.floor(new Date(user.updated_at).getTime() / 1000);
+        }
+    }
+
+    if (hasScope(scope, 'email')) {
+        claims.email = user.email;
+        claims.email_verified = user.email_verified;
+    }
+
+    if (hasScope(scope, 'phone') && user.phone) {
+        claims.phone_number = user.phone;
+        claims.phone_number_verified = user.phone_verified;
+    }
+
+    return claims;
+};
+
+/**
+ * Load the account columns needed for userinfo and id_token claims
+ */
+export const getUserForClaims = async (accountId: number): Promise<IUser | null> => {
+    const result = await getPool().query(
+        `SELECT Account_ID, FirstName, LastName, Username, Email, Phone, Account_Role,
+                Email_Verified, Phone_Verified, Account_Status, Created_At, Updated_At
+         FROM Account WHERE Account_ID = $1`,
+        [accountId]
+    );
+    return result.rowCount > 0 ? result.rows[0] : null;
+};
+
+/**
+ * Issue an id_token for a user signing in to a client
+ * The nonce from the authorization request is echoed back so the client
+ * can tie the token to its own login attempt
+ */
+export const buildIdToken = (
+    user: IUser,
+    clientId: string,
+    scope: string,
+    nonce?: string | null
+): string => {
+    const { sub, ...claims } = buildUserClaims(user, scope);
+
+    return generateIdToken({
+        issuer: getIssuer(),
+        subject: sub,
+        audience: clientId,
+        nonce: nonce ?? undefined,
+        claims,
+    });
+};
+
+/**
+ * Build the OpenID Provider metadata document (OIDC Discovery §3)
+ */
+export const getOpenIdConfiguration = (): OpenIdConfiguration => {
+    const issuer = getIssuer();
+
+    return {
+        issuer,
+        authorization_endpoint: `${issuer}/oauth/authorize`,
+        token_endpoint: `${issuer}/oauth/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        jwks_uri: `${issuer}/.well-known/jwks.json`,
+        introspection_endpoint: `${issuer}/oauth/introspect`,
+        response_types_supported: ['code'],
+        grant_types_supported: ['authorization_code', 'refresh_token', 'client_credentials'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: [getActiveSigningKey().alg],
+        scopes_supported: OIDC_SCOPES,
+        claims_supported: [
+            'sub', 'iss', 'aud', 'exp', 'iat', 'nonce',
+            'name', 'given_name', 'family_name', 'preferred_username', 'updated_at',
+            'email', 'email_verified', 'phone_number', 'phone_number_verified',
+        ],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+        code_challenge_methods_supported: ['S256'],
+    };
+};
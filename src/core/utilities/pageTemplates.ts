@@ -0,0 +1,137 @@
+/**
+ * Layout and templating for the HTML pages this service serves itself
+ *
+ * Every page is wrapped in one layout. Deployments brand the pages with
+ * APP_NAME and, optionally, a PAGE_TEMPLATE_DIR holding their own layout.html
+ * and/or replacements for individual pages (<page-name>.html). Templates use
+ * {{name}} placeholders; values are HTML-escaped unless the page passes them
+ * as markup it built itself.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getEnvVar } from './envConfig';
+
+/**
+ * Template files read so far, keyed by path (null: no such file)
+ * Changing a template needs a restart, like any other configuration
+ */
+const loadedTemplates = new Map<string, string | null>();
+
+const DEFAULT_LAYOUT = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>{{title}} - {{appName}}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
+            background-color: #f6f8fa;
+            color: #24292f;
+            display: flex;
+            justify-content: center;
+            padding: 40px 16px;
+        }
+        main {
+            background: #ffffff;
+            border: 1px solid #d0d7de;
+            border-radius: 6px;
+            padding: 24px;
+            width: 100%;
+            max-width: 360px;
+        }
+        h1 { font-size: 1.25em; margin-top: 0; }
+        label { display: block; font-weight: 600; margin-top: 12px; }
+        input[type=email], input[type=password], input[type=text] {
+            width: 100%;
+            box-sizing: border-box;
+            padding: 8px;
+            margin-top: 4px;
+            border: 1px solid #d0d7de;
+            border-radius: 6px;
+        }
+        .error { color: #cf222e; }
+        .success { color: #1a7f37; }
+        .actions { display: flex; gap: 8px; margin-top: 20px; }
+        button { flex: 1; padding: 8px; border-radius: 6px; border: 1px solid #d0d7de; cursor: pointer; }
+        button[value=allow], button.primary { background: #1f883d; color: #ffffff; border-color: #1f883d; }
+    </style>
+</head>
+<body>
+    <main>
+{{content}}
+    </main>
+</body>
+</html>`;
+
+/**
+ * Escape text for safe use in HTML content and attribute values
+ */
+export const escapeHtml = (value: string): string => {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+};
+
+/**
+ * Name shown in page titles and text (APP_NAME)
+ */
+export const getAppName = (): string => getEnvVar('APP_NAME', 'Auth²');
+
+/**
+ * Replace {{name}} placeholders: values are escaped, markup is inserted as is
+ * Unknown placeholders become empty, so a template can't leak its own syntax
+ */
+export const fillTemplate = (
+    template: string,
+    values: Record<string, string> = {},
+    markup: Record<string, string> = {}
+): string => {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_placeholder, name: string) => {
+        if (name in markup) {
+            return markup[name];
+        }
+        return name in values ? escapeHtml(values[name]) : '';
+    });
+};
+
+/**
+ * A deployment's own template from PAGE_TEMPLATE_DIR, or null to use the built-in one
+ * A template that can't be read is logged and skipped rather than breaking the page
+ */
+export const loadPageTemplate = (name: string): string | null => {
+    const directory = process.env.PAGE_TEMPLATE_DIR;
+    if (!directory) {
+        return null;
+    }
+
+    const location = path.resolve(directory, `${name}.html`);
+    if (!loadedTemplates.has(location)) {
+        try {
+            loadedTemplates.set(location, fs.readFileSync(location, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`Page template error (${location}):`, error);
+            }
+            loadedTemplates.set(location, null);
+        }
+    }
+    return loadedTemplates.get(location);
+};
+
+/**
+ * Wrap page content in the layout
+ * @param title Plain text for the <title>
+ * @param content The page's markup, already escaped
+ */
+export const renderPage = (title: string, content: string): string => {
+    return fillTemplate(
+        loadPageTemplate('layout') ?? DEFAULT_LAYOUT,
+        { title, appName: getAppName() },
+        { content }
+    );
+};
@@ -0,0 +1,227 @@
+// src/core/utilities/passwordPolicyUtils.ts
+import { Queryable } from './database';
+import { getEnvVar } from './envConfig';
+import { generateSaltedHash, verifyPassword, readPasswordHash } from './credentialingUtils';
+import { isBreachedPassword } from './breachedPasswordUtils';
+
+export type CharacterClass = 'uppercase' | 'lowercase' | 'digit' | 'symbol';
+
+/**
+ * Which rule a password broke
+ * - length: shorter than the minimum or longer than the maximum
+ * - uppercase/lowercase/digit/symbol: a required character class is missing
+ * - personal_info: contains the username or the email's local part
+ * - breached: appears in the breached/common-password corpus
+ * - reused: matches the current password or one of the previous ones
+ */
+export type PasswordRule = 'length' | CharacterClass | 'personal_info' | 'breached' | 'reused';
+
+export interface PasswordViolation {
+    field: string;
+    rule: PasswordRule;
+    message: string;
+}
+
+export interface PasswordPolicy {
+    minLength: number;
+    maxLength: number;
+    requiredClasses: CharacterClass[];
+    /** How many recent passwords (the current one included) can't be reused; 0 allows any */
+    historyCount: number;
+}
+
+const CHARACTER_CLASSES: Record<CharacterClass, { pattern: RegExp; description: string }> = {
+    uppercase: { pattern: /[A-Z]/, description: 'an uppercase letter' },
+    lowercase: { pattern: /[a-z]/, description: 'a lowercase letter' },
+    digit: { pattern: /\d/, description: 'a number' },
+    symbol: { pattern: /[^A-Za-z0-9]/, description: 'a symbol' },
+};
+
+/**
+ * Usernames and email local parts shorter than this aren't checked, so a
+ * two-letter username doesn't rule out every password containing those letters
+ */
+const MIN_PERSONAL_INFO_LENGTH = 3;
+
+/**
+ * The policy from PASSWORD_MIN_LENGTH, PASSWORD_MAX_LENGTH,
+ * PASSWORD_REQUIRED_CLASSES (comma-separated) and PASSWORD_HISTORY_COUNT
+ */
+export const getPasswordPolicy = (): PasswordPolicy => {
+    const requiredClasses = getEnvVar('PASSWORD_REQUIRED_CLASSES', 'uppercase,lowercase,digit')
+        .split(',')
+        .map(name => name.trim())
+        .filter((name): name is CharacterClass => name in CHARACTER_CLASSES);
+
+    return {
+        minLength: parseInt(getEnvVar('PASSWORD_MIN_LENGTH', '8'), 10),
+        maxLength: parseInt(getEnvVar('PASSWORD_MAX_LENGTH', '128'), 10),
+        requiredClasses,
+        historyCount: parseInt(getEnvVar('PASSWORD_HISTORY_COUNT', '5'), 10),
+    };
+};
+
+/**
+ * Check a password against the rules that don't need the database
+ * @param context The account's username and email, when known
+ * @param field The request field to report violations against
+ */
+export const checkPasswordRules = (
+    password: string,
+    context: { username?: string; email?: string } = {},
+    field: string = 'password'
+): PasswordViolation[] => {
+    const policy = getPasswordPolicy();
+    const violations: PasswordViolation[] = [];
+
+    if (password.length < policy.minLength || password.length > policy.maxLength) {
+        violations.push({
+            field,
+            rule: 'length',
+            message: `Password must be between ${policy.minLength} and ${policy.maxLength} characters`,
+        });
+    }
+
+    for (const name of policy.requiredClasses) {
+        const { pattern, description } = CHARACTER_CLASSES[name];
+        if (!pattern.test(password)) {
+            violations.push({ field, rule: name, message: `Password must contain ${description}` });
+        }
+    }
+
+    const lowered = password.toLowerCase();
+    const personalInfo = [context.username, context.email?.split('@')[0]]
+        .filter(value => value && value.length >= MIN_PERSONAL_INFO_LENGTH)
+        .map(value => value.toLowerCase());
+    if (personalInfo.some(value => lowered.includes(value))) {
+        violations.push({
+            field,
+            rule: 'personal_info',
+            message: 'Password must not contain your username or email address',
+        });
+    }
+
+    return violations;
+};
+
+/**
+ * Check whether a password matches the account's current password or one of
+ * its last PASSWORD_HISTORY_COUNT - 1 previous ones
+ */
+export const isPasswordReused = async (db: Queryable, accountId: number, password: string): Promise<boolean> => {
+    const { historyCount } = getPasswordPolicy();
+    if (historyCount < 1) {
+        return false;
+    }
+
+    const current = await db.query(
+        'SELECT Salted_Hash, Salt, Hash_Algorithm, Hash_Params FROM Account_Credential WHERE Account_ID = $1',
+        [accountId]
+    );
+    const previous = historyCount > 1
+        ? await db.query(
+            `SELECT Salted_Hash, Salt, Hash_Algorithm, Hash_Params FROM Password_History
+             WHERE Account_ID = $1 ORDER BY History_ID DESC LIMIT $2`,
+            [accountId, historyCount - 1]
+        )
+        : { rows: [] };
+
+    // One at a time: each scrypt check holds its own block of memory
+    for (const row of [...current.rows, ...previous.rows]) {
+        if (await verifyPassword(password, readPasswordHash(row))) {
+            return true;
+        }
+    }
+    return false;
+};
+
+/**
+ * Check a new password against the whole policy
+ * With an accountId, the account's username and email are looked up (unless
+ * given) and reuse is checked; without one (new accounts) it isn't.
+ * The corpus and reuse are only checked once the rules pass, as reuse costs a
+ * hash per password.
+ * @returns Every violation, ready for sendValidationError; empty if the password is allowed
+ */
+export const checkNewPassword = async (
+    db: Queryable,
+    password: string,
+    options: { accountId?: number; username?: string; email?: string; field?: string } = {}
+): Promise<PasswordViolation[]> => {
+    const field = options.field ?? 'password';
+    let { username, email } = options;
+
+    if (options.accountId && (username === undefined || email === undefined)) {
+        const account = await db.query('SELECT Username, Email FROM Account WHERE Account_ID = $1', [options.accountId]);
+        username = username ?? account.rows[0]?.username;
+        email = email ?? account.rows[0]?.email;
+    }
+
+    const violations = checkPasswordRules(password, { username, email }, field);
+    if (violations.length > 0) {
+        return violations;
+    }
+
+    if (await isBreachedPassword(password)) {
+        violations.push({
+            field,
+            rule: 'breached',
+            message: 'Password appears in a list of breached or common passwords',
+        });
+    } else if (options.accountId && await isPasswordReused(db, options.accountId, password)) {
+        violations.push({
+            field,
+            rule: 'reused',
+            message: 'Password must be different from your recent passwords',
+        });
+    }
+    return violations;
+};
+
+/**
+ * Hash and store a new password for an account
+ * The password it replaces moves to Password_History, which keeps the
+ * PASSWORD_HISTORY_COUNT - 1 most recent, and outstanding reset links stop working
+ */
+export const savePassword = async (db: Queryable, accountId: number, password: string): Promise<void> => {
+    const { historyCount } = getPasswordPolicy();
+    const { algorithm, params, salt, hash } = await generateSaltedHash(password);
+
+    if (historyCount > 1) {
+        await db.query(
+            `INSERT INTO Password_History (Account_ID, Salted_Hash, Salt, Hash_Algorithm, Hash_Params)
+             SELECT Account_ID, Salted_Hash, Salt, Hash_Algorithm, Hash_Params
+             FROM Account_Credential WHERE Account_ID = $1`,
+            [accountId]
+        );
+    }
+
+    const updated = await db.query(
+        `UPDATE Account_Credential
+         SET Salted_Hash = $1, Salt = $2, Hash_Algorithm = $3, Hash_Params = $4, Password_Breached = FALSE
+         WHERE Account_ID = $5`,
+        [hash, salt, algorithm, params, accountId]
+    );
+    if (updated.rowCount === 0) {
+        await db.query(
+            `INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt, Hash_Algorithm, Hash_Params)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [accountId, hash, salt, algorithm, params]
+        );
+    }
+
+    await db.query('DELETE FROM Password_Reset_Token WHERE Account_ID = $1', [accountId]);
+
+    // Drop everything older than the newest historyCount - 1 entries
+    const oldestKept = await db.query(
+        `SELECT History_ID FROM Password_History WHERE Account_ID = $1
+         ORDER BY History_ID DESC LIMIT 1 OFFSET $2`,
+        [accountId, Math.max(historyCount - 1, 0)]
+    );
+    if (oldestKept.rowCount > 0) {
+        await db.query(
+            'DELETE FROM Password_History WHERE Account_ID = $1 AND History_ID <= $2',
+            [accountId, oldestKept.rows[0].history_id]
+        );
+    }
+};
@@ -0,0 +1,71 @@
+// src/core/utilities/passwordResetUtils.ts
+import { PASSWORD_RESET_EXPIRY_MINUTES } from '@models';
+import { getPool, Queryable } from './database';
+import { generateSecureToken, hashToken } from './credentialingUtils';
+
+/**
+ * Issue a password reset token for an account's (verified) email
+ * Only the newest token works - issuing one cancels any still outstanding -
+ * and setting the password in any way cancels them all (see savePassword)
+ * @returns The raw token for the URL; only its hash is stored
+ */
+export const issuePasswordResetToken = async (accountId: number, email: string): Promise<string> => {
+    const pool = getPool();
+    const token = generateSecureToken();
+
+    await pool.query('DELETE FROM Password_Reset_Token WHERE Account_ID = $1', [accountId]);
+    await pool.query(
+        `INSERT INTO Password_Reset_Token (Token_Hash, Account_ID, Email, Expires_At)
+         VALUES ($1, $2, $3, $4)`,
+        [hashToken(token), accountId, email, new Date(Date.now() + PASSWORD_RESET_EXPIRY_MINUTES * 60 * 1000)]
+    );
+
+    return token;
+};
+
+/**
+ * What a reset link is good for: 'expired' links get their own message so
+ * people know to ask for a new one; used, replaced and unknown ones are 'invalid'
+ */
+export type PasswordResetTokenStatus =
+    | { status: 'valid'; accountId: number; expiresAt: Date }
+    | { status: 'expired' | 'invalid' };
+
+/**
+ * Look up a reset token without spending it
+ * Tokens stop working once used, once expired, or if the account's email has
+ * changed since the token was sent
+ */
+export const findPasswordResetToken = async (token: string): Promise<PasswordResetTokenStatus> => {
+    const result = await getPool().query(
+        `SELECT t.Account_ID, t.Expires_At
+         FROM Password_Reset_Token t
+         JOIN Account a ON a.Account_ID = t.Account_ID
+         WHERE t.Token_Hash = $1 AND t.Used_At IS NULL AND a.Email = t.Email`,
+        [hashToken(token)]
+    );
+
+    if (result.rowCount === 0) {
+        return { status: 'invalid' };
+    }
+
+    const expiresAt = new Date(result.rows[0].expires_at);
+    if (expiresAt.getTime() <= Date.now()) {
+        return { status: 'expired' };
+    }
+    return { status: 'valid', accountId: result.rows[0].account_id, expiresAt };
+};
+
+/**
+ * Spend a reset token
+ * Marked used in one statement, so two submissions can't both reset the password
+ * @returns Whether the token was still usable for this account
+ */
+export const redeemPasswordResetToken = async (db: Queryable, token: string, accountId: number): Promise<boolean> => {
+    const redeemed = await db.query(
+        `UPDATE Password_Reset_Token SET Used_At = NOW()
+         WHERE Token_Hash = $1 AND Account_ID = $2 AND Used_At IS NULL AND Expires_At > NOW()`,
+        [hashToken(token), accountId]
+    );
+    return redeemed.rowCount > 0;
+};
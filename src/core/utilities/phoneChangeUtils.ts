@@ -0,0 +1,112 @@
+// src/core/utilities/phoneChangeUtils.ts
+import { PHONE_CHANGE_CODE_EXPIRY_MINUTES, PHONE_CHANGE_MAX_ATTEMPTS } from '@models';
+import { getPool } from './database';
+import { generateVerificationCode, secureCompare } from './credentialingUtils';
+import { withTransaction } from './transactionUtils';
+
+/**
+ * Outcome of submitting the code texted to a new number
+ * - changed: the account now uses the new number, which counts as verified
+ * - no_code: no change is pending
+ * - expired / too_many_attempts: the code can't be used; request a new one
+ * - invalid_code: wrong code; remainingAttempts are left
+ * - phone_taken: another account took the number since the change was staged
+ */
+export type PhoneChangeConfirmation =
+    | { status: 'changed'; phone: string }
+    | { status: 'no_code' | 'expired' | 'too_many_attempts' | 'phone_taken' }
+    | { status: 'invalid_code'; remainingAttempts: number };
+
+/**
+ * Stage a change of number, replacing any change already pending
+ * The code is stored as a Phone_Verification row with purpose 'change' and
+ * the new number; the account keeps its current phone until it's confirmed
+ * @returns The code to text to the new number
+ */
+export const stagePhoneChange = async (
+    accountId: number,
+    newPhone: string
+): Promise<{ code: string; expiresAt: Date }> => {
+    const pool = getPool();
+    const code = generateVerificationCode();
+    const expiresAt = new Date(Date.now() + PHONE_CHANGE_CODE_EXPIRY_MINUTES * 60 * 1000);
+
+    await pool.query(
+        `DELETE FROM Phone_Verification WHERE Account_ID = $1 AND Purpose = 'change'`,
+        [accountId]
+    );
+    await pool.query(
+        `INSERT INTO Phone_Verification (Account_ID, Phone, Verification_Code, Code_Expires, Attempts, Purpose)
+         VALUES ($1, $2, $3, $4, 0, 'change')`,
+        [accountId, newPhone, code, expiresAt]
+    );
+
+    return { code, expiresAt };
+};
+
+/**
+ * Switch the account to its pending new number if the code matches
+ * The attempt is counted before the code is compared, and only while attempts
+ * remain, so parallel guesses can't get past PHONE_CHANGE_MAX_ATTEMPTS.
+ * In one transaction: the number changes and is marked verified, every
+ * verification code for the account is deleted, and any sign-in code texted
+ * to the old number stops working
+ */
+export const confirmPhoneChange = async (accountId: number, code: string): Promise<PhoneChangeConfirmation> => {
+    const pool = getPool();
+    const pending = await pool.query(
+        `SELECT Phone, Verification_Code, Code_Expires FROM Phone_Verification
+         WHERE Account_ID = $1 AND Purpose = 'change'`,
+        [accountId]
+    );
+
+    if (pending.rowCount === 0) {
+        return { status: 'no_code' };
+    }
+
+    const change = pending.rows[0];
+
+    if (new Date(change.code_expires).getTime() <= Date.now()) {
+        return { status: 'expired' };
+    }
+
+    const attempt = await pool.query(
+        `UPDATE Phone_Verification SET Attempts = Attempts + 1
+         WHERE Account_ID = $1 AND Purpose = 'change' AND Attempts < $2
+         RETURNING Attempts`,
+        [accountId, PHONE_CHANGE_MAX_ATTEMPTS]
+    );
+    if (attempt.rowCount === 0) {
+        return { status: 'too_many_attempts' };
+    }
+    if (!secureCompare(code, change.verification_code)) {
+        return { status: 'invalid_code', remainingAttempts: PHONE_CHANGE_MAX_ATTEMPTS - attempt.rows[0].attempts };
+    }
+
+    const result = await withTransaction(async (client) => {
+        const taken = await client.query(
+            'SELECT Account_ID FROM Account WHERE Phone = $1 AND Account_ID <> $2',
+            [change.phone, accountId]
+        );
+        if (taken.rowCount > 0) {
+            return false;
+        }
+
+        await client.query(
+            'UPDATE Account SET Phone = $1, Phone_Verified = TRUE, Updated_At = NOW() WHERE Account_ID = $2',
+            [change.phone, accountId]
+        );
+        await client.query('DELETE FROM Phone_Verification WHERE Account_ID = $1', [accountId]);
+        await client.query('DELETE FROM SMS_Login_Code WHERE Account_ID = $1', [accountId]);
+        return true;
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+    if (!result.data) {
+        return { status: 'phone_taken' };
+    }
+
+    return { status: 'changed', phone: change.phone };
+};
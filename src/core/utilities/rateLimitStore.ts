@@ -0,0 +1,129 @@
+// src/core/utilities/rateLimitStore.ts
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+
+/**
+ * Where rate-limit counters live
+ * Counters are per key and per window, identified by the window's start time
+ * (ms since epoch), so both fixed and sliding windows can be built on top
+ */
+export interface RateLimitStore {
+    /**
+     * Count a hit in a window
+     * @returns The number of hits in that window, including this one
+     */
+    increment(key: string, windowStart: number, windowMs: number): Promise<number>;
+
+    /**
+     * Read the hits in a window without counting one
+     */
+    get(key: string, windowStart: number): Promise<number>;
+}
+
+/**
+ * How often expired counters are swept out of either store
+ */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Counters kept in this process
+ * Fine for a single instance; with several instances each one counts on its
+ * own, so use the Postgres store instead
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+    const counters = new Map<string, { count: number; expiresAt: number }>();
+    let lastSweep = Date.now();
+
+    const sweep = (now: number): void => {
+        if (now - lastSweep < SWEEP_INTERVAL_MS) {
+            return;
+        }
+        lastSweep = now;
+        for (const [bucket, counter] of counters) {
+            if (counter.expiresAt <= now) {
+                counters.delete(bucket);
+            }
+        }
+    };
+
+    return {
+        async increment(key, windowStart, windowMs) {
+            const now = Date.now();
+            sweep(now);
+
+            const bucket = `${key}@${windowStart}`;
+            const counter = counters.get(bucket);
+            if (counter) {
+                counter.count += 1;
+                return counter.count;
+            }
+
+            // Kept for a second window so sliding windows can still read it
+            counters.set(bucket, { count: 1, expiresAt: windowStart + 2 * windowMs });
+            return 1;
+        },
+
+        async get(key, windowStart) {
+            return counters.get(`${key}@${windowStart}`)?.count ?? 0;
+        },
+    };
+};
+
+/**
+ * Counters in the Rate_Limit_Counter table, shared by every instance
+ */
+export const createPostgresRateLimitStore = (): RateLimitStore => {
+    let lastSweep = 0;
+
+    const sweep = async (now: number): Promise<void> => {
+        if (now - lastSweep < SWEEP_INTERVAL_MS) {
+            return;
+        }
+        lastSweep = now;
+        await getPool().query('DELETE FROM Rate_Limit_Counter WHERE Expires_At <= NOW()');
+    };
+
+    return {
+        async increment(key, windowStart, windowMs) {
+            await sweep(Date.now());
+
+            const result = await getPool().query(
+                `INSERT INTO Rate_Limit_Counter (Bucket_Key, Window_Start, Hit_Count, Expires_At)
+                 VALUES ($1, $2, 1, $3)
+                 ON CONFLICT (Bucket_Key, Window_Start) DO UPDATE SET Hit_Count = Rate_Limit_Counter.Hit_Count + 1
+                 RETURNING Hit_Count`,
+                [key, new Date(windowStart), new Date(windowStart + 2 * windowMs)]
+            );
+            return result.rows[0].hit_count;
+        },
+
+        async get(key, windowStart) {
+            const result = await getPool().query(
+                'SELECT Hit_Count FROM Rate_Limit_Counter WHERE Bucket_Key = $1 AND Window_Start = $2',
+                [key, new Date(windowStart)]
+            );
+            return result.rowCount > 0 ? result.rows[0].hit_count : 0;
+        },
+    };
+};
+
+let defaultStore: RateLimitStore | null = null;
+
+/**
+ * The store chosen by RATE_LIMIT_STORE ('memory' or 'postgres'), created on first use
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+    if (!defaultStore) {
+        defaultStore = getEnvVar('RATE_LIMIT_STORE', 'memory') === 'postgres'
+            ? createPostgresRateLimitStore()
+            : createMemoryRateLimitStore();
+    }
+    return defaultStore;
+};
+
+/**
+ * Forget the default store so the next request picks it again (used by tests)
+ */
+export const resetRateLimitStore = (): void => {
+    defaultStore = null;
+};
@@ -0,0 +1,169 @@
+// src/core/utilities/refreshTokenUtils.ts
+import { randomUUID } from 'crypto';
+import { Queryable } from './database';
+import { generateSecureToken, hashToken } from './credentialingUtils';
+import { getEnvVar } from './envConfig';
+import { withTransaction } from './transactionUtils';
+import { REFRESH_TOKEN_EXPIRY_DAYS } from '@models';
+
+export interface IssuedRefreshToken {
+    token: string;
+    familyId: string;
+    expiresAt: Date;
+}
+
+/**
+ * Options for issuing a refresh token
+ * - familyId: continue an existing family (omit to start a new session)
+ * - clientId/scope: set for tokens issued to OAuth clients; first-party
+ *   sessions leave them null
+ */
+export interface RefreshTokenOptions {
+    familyId?: string;
+    clientId?: string | null;
+    scope?: string | null;
+}
+
+/**
+ * Outcome of presenting a refresh token
+ * - rotated: token was valid, a replacement has been issued
+ * - invalid: unknown token, a token whose family was already revoked,
+ *   or a token that was issued to a different client
+ * - expired: token is past its expiry
+ * - reused: token was already rotated - the whole family has been revoked
+ */
+export type RefreshTokenRotationResult =
+    | { status: 'rotated'; accountId: number; scope: string | null; refreshToken: IssuedRefreshToken }
+    | { status: 'invalid' }
+    | { status: 'expired' }
+    | { status: 'reused'; accountId: number };
+
+/**
+ * Calculate the expiry date for a newly issued refresh token
+ */
+const getRefreshTokenExpiry = (): Date => {
+    const days = parseInt(
+        getEnvVar('REFRESH_TOKEN_EXPIRY_DAYS', String(REFRESH_TOKEN_EXPIRY_DAYS))
+    );
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Issue a new refresh token and store its hash
+ * Omit familyId to start a new family (i.e. a new login session)
+ */
+export const issueRefreshToken = async (
+    db: Queryable,
+    accountId: number,
+    { familyId = randomUUID(), clientId = null, scope = null }: RefreshTokenOptions = {}
+): Promise<IssuedRefreshToken> => {
+    const token = generateSecureToken();
+    const expiresAt = getRefreshTokenExpiry();
+
+    await db.query(
+        `INSERT INTO Refresh_Token (Account_ID, Family_ID, Token_Hash, Expires_At, Client_ID, Scope)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [accountId, familyId, hashToken(token), expiresAt, clientId, scope]
+    );
+
+    return { token, familyId, expiresAt };
+};
+
+/**
+ * Exchange a refresh token for a new one (rotation)
+ *
+ * Each refresh token can be used exactly once. Presenting a token that was
+ * already rotated means it has been copied, so every token in its family is
+ * revoked and the legitimate holder has to log in again.
+ *
+ * Tokens are bound to the OAuth client they were issued to (null for our own
+ * login), so a client can't redeem another client's token - or upgrade a
+ * scoped token by presenting it to the first-party refresh endpoint.
+ */
+export const rotateRefreshToken = async (
+    token: string,
+    clientId: string | null = null
+): Promise<RefreshTokenRotationResult> => {
+    const result = await withTransaction<RefreshTokenRotationResult>(async (client) => {
+        const tokenResult = await client.query(
+            `SELECT Token_ID, Account_ID, Family_ID, Expires_At, Revoked_At, Replaced_By, Client_ID, Scope
+             FROM Refresh_Token
+             WHERE Token_Hash = $1
+             FOR UPDATE`,
+            [hashToken(token)]
+        );
+
+        if (tokenResult.rowCount === 0) {
+            return { status: 'invalid' };
+        }
+
+        const stored = tokenResult.rows[0];
+
+        if (stored.client_id !== clientId) {
+            return { status: 'invalid' };
+        }
+
+        if (stored.replaced_by !== null) {
+            await revokeRefreshTokenFamily(client, stored.family_id);
+            return { status: 'reused', accountId: stored.account_id };
+        }
+
+        if (stored.revoked_at !== null) {
+            return { status: 'invalid' };
+        }
+
+        if (new Date() > new Date(stored.expires_at)) {
+            return { status: 'expired' };
+        }
+
+        const refreshToken = await issueRefreshToken(client, stored.account_id, {
+            familyId: stored.family_id,
+            clientId: stored.client_id,
+            scope: stored.scope,
+        });
+
+        await client.query(
+            `UPDATE Refresh_Token
+             SET Revoked_At = NOW(),
+                 Replaced_By = (SELECT Token_ID FROM Refresh_Token WHERE Token_Hash = $1)
+             WHERE Token_ID = $2`,
+            [hashToken(refreshToken.token), stored.token_id]
+        );
+
+        return { status: 'rotated', accountId: stored.account_id, scope: stored.scope, refreshToken };
+    });
+
+    if (!result.success) {
+        throw result.error;
+    }
+
+    return result.data!;
+};
+
+/**
+ * Revoke every token in a refresh token family
+ */
+export const revokeRefreshTokenFamily = async (
+    db: Queryable,
+    familyId: string
+): Promise<void> => {
+    await db.query(
+        `UPDATE Refresh_Token SET Revoked_At = NOW()
+         WHERE Family_ID = $1 AND Revoked_At IS NULL`,
+        [familyId]
+    );
+};
+
+/**
+ * Revoke all refresh tokens belonging to an account (every session)
+ */
+export const revokeAllRefreshTokens = async (
+    db: Queryable,
+    accountId: number
+): Promise<void> => {
+    await db.query(
+        `UPDATE Refresh_Token SET Revoked_At = NOW()
+         WHERE Account_ID = $1 AND Revoked_At IS NULL`,
+        [accountId]
+    );
+};
@@ -1,5 +1,5 @@
 // src/core/utilities/responseUtils.ts
-import { Response } from 'express';
+import { Request, Response } from 'express';
 
 /**
  * Standard success response
@@ -55,4 +55,45 @@ export const sendValidationError = (
         message: 'Validation failed',
         errors,
     });
-};
\ No newline at end of file
+};
+/**
+ * Whether the client would rather have a page than JSON
+ * Browsers following an emailed link ask for text/html; API clients that send
+ * Accept: application/json (or no preference at all) keep getting JSON
+ */
+export const prefersHtml = (request: Request): boolean => {
+    return request.accepts(['json', 'html']) === 'html';
+};
+
+/**
+ * Send a file to download, e.g. a personal data export
+ * It's never cached, since these files hold personal data
+ * @param response - Express response object
+ * @param filename - Name the browser saves the file as
+ * @param contentType - MIME type of the body
+ * @param body - File contents
+ */
+export const sendAttachment = (response: Response, filename: string, contentType: string, body: Buffer | string) => {
+    response.set({
+        'Cache-Control': 'no-store',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+    response.status(200).type(contentType).send(body);
+};
+
+/**
+ * Send an HTML page that must never be cached or framed (it may collect
+ * passwords), and whose URL - often carrying a token - isn't sent on as a referrer
+ * @param response - Express response object
+ * @param status - HTTP status code
+ * @param html - The rendered page
+ */
+export const sendPage = (response: Response, status: number, html: string) => {
+    response.set({
+        'Cache-Control': 'no-store',
+        'X-Frame-Options': 'DENY',
+        'Content-Security-Policy': "frame-ancestors 'none'",
+        'Referrer-Policy': 'no-referrer',
+    });
+    response.status(status).type('html').send(html);
+};
@@ -0,0 +1,83 @@
+// src/core/utilities/serviceClientUtils.ts
+import { randomBytes } from 'crypto';
+import { getPool } from './database';
+import { generateSecureToken, hashToken, secureCompare } from './credentialingUtils';
+import { ClientCredentials } from './clientAuthUtils';
+
+/**
+ * Machine client (Service_Client row) as used for authentication
+ */
+export interface ServiceClient {
+    client_id: string;
+    client_name: string;
+    allowed_scopes: string;
+    is_active: boolean;
+    token_version: number;
+}
+
+/**
+ * Freshly generated client ID and secret
+ * The secret is only ever shown once - we keep its hash
+ */
+export interface ServiceClientCredentials {
+    clientId: string;
+    clientSecret: string;
+    secretHash: string;
+}
+
+/**
+ * Generate credentials for a new machine client
+ */
+export const generateServiceClientCredentials = (): ServiceClientCredentials => {
+    const clientSecret = generateSecureToken();
+    return {
+        clientId: `svc_${randomBytes(8).toString('hex')}`,
+        clientSecret,
+        secretHash: hashToken(clientSecret),
+    };
+};
+
+/**
+ * Generate a replacement secret for an existing client
+ */
+export const generateServiceClientSecret = (): { clientSecret: string; secretHash: string } => {
+    const clientSecret = generateSecureToken();
+    return { clientSecret, secretHash: hashToken(clientSecret) };
+};
+
+/**
+ * Look up a machine client
+ */
+export const getServiceClient = async (clientId: string): Promise<ServiceClient | null> => {
+    const result = await getPool().query(
+        `SELECT Client_ID, Client_Name, Allowed_Scopes, Is_Active, Token_Version
+         FROM Service_Client WHERE Client_ID = $1`,
+        [clientId]
+    );
+    return result.rowCount > 0 ? result.rows[0] : null;
+};
+
+/**
+ * Authenticate a machine client by ID and secret
+ * @returns The client, or null for unknown, disabled or wrong-secret clients
+ */
+export const authenticateServiceClient = async (
+    credentials: ClientCredentials
+): Promise<ServiceClient | null> => {
+    const result = await getPool().query(
+        `SELECT Client_ID, Client_Name, Client_Secret_Hash, Allowed_Scopes, Is_Active, Token_Version
+         FROM Service_Client WHERE Client_ID = $1`,
+        [credentials.clientId]
+    );
+
+    if (result.rowCount === 0) {
+        return null;
+    }
+
+    const { client_secret_hash: secretHash, ...client } = result.rows[0];
+    if (!client.is_active || !secureCompare(hashToken(credentials.clientSecret), secretHash)) {
+        return null;
+    }
+
+    return client;
+};
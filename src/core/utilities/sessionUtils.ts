@@ -0,0 +1,211 @@
+// src/core/utilities/sessionUtils.ts
+import { RoleName, UserRole } from '@models';
+import { getPool, Queryable } from './database';
+import { verifyPassword, needsRehash, readPasswordHash, generateSaltedHash } from './credentialingUtils';
+import { generateAccessToken } from './tokenUtils';
+import { issueRefreshToken } from './refreshTokenUtils';
+import { getAccountStatusError, AccountStatusError } from './accountStatusUtils';
+import { getLoginLockout, recordFailedLogin, recordSuccessfulLogin, LoginLockout } from './loginLockoutUtils';
+import { flagBreachedPassword } from './breachedPasswordUtils';
+import { cancelAccountDeletion } from './accountClosureUtils';
+
+/**
+ * Account columns needed to start a session
+ */
+export interface SessionAccount {
+    account_id: number;
+    firstname: string;
+    lastname: string;
+    username: string;
+    email: string;
+    account_role: UserRole;
+    email_verified: boolean;
+    phone_verified: boolean;
+    account_status: string;
+    token_version: number;
+}
+
+/**
+ * User object returned alongside tokens
+ */
+export interface LoginUser {
+    id: number;
+    email: string;
+    name: string;
+    lastname: string;
+    username: string;
+    role: string;
+    emailVerified: boolean;
+    phoneVerified: boolean;
+    accountStatus: string;
+}
+
+/**
+ * Tokens and user details returned by login/registration
+ */
+export interface LoginSession {
+    accessToken: string;
+    refreshToken: string;
+    user: LoginUser;
+}
+
+/**
+ * Outcome of checking an email and password
+ * - authenticated: credentials are correct and the account may sign in
+ * - invalid_credentials: unknown email or wrong password (deliberately indistinguishable)
+ * - blocked: the account is suspended, locked or deleted
+ * - locked_out: too many recent failures for this email or IP; the password was not checked
+ */
+export type PasswordAuthenticationResult =
+    | { status: 'authenticated'; account: SessionAccount }
+    | { status: 'invalid_credentials' }
+    | { status: 'blocked'; statusError: AccountStatusError }
+    | { status: 'locked_out'; lockout: LoginLockout };
+
+/**
+ * Replace a stored password hash with one in the current format
+ * Best effort: a failure is logged and the old hash keeps working
+ */
+const upgradePasswordHash = async (accountId: number, password: string): Promise<void> => {
+    try {
+        const { algorithm, params, salt, hash } = await generateSaltedHash(password);
+        await getPool().query(
+            `UPDATE Account_Credential SET Salted_Hash = $1, Salt = $2, Hash_Algorithm = $3, Hash_Params = $4
+             WHERE Account_ID = $5`,
+            [hash, salt, algorithm, params, accountId]
+        );
+    } catch (error) {
+        console.error('Password rehash error:', error);
+    }
+};
+
+/**
+ * Count a failed attempt, reporting the lockout if it triggered one
+ */
+const rejectCredentials = async (
+    email: string,
+    accountId: number | null,
+    ipAddress?: string
+): Promise<PasswordAuthenticationResult> => {
+    const lockout = await recordFailedLogin(email, accountId, ipAddress);
+    return lockout ? { status: 'locked_out', lockout } : { status: 'invalid_credentials' };
+};
+
+/**
+ * Check an email and password
+ * Shared by POST /auth/login and the OAuth login page so both apply the same rules
+ * A suspended, locked or deleted account is only reported as such once the
+ * password is right. Failures count towards the email's and the IP's lockout, a correct
+ * password stored in an outdated format is re-hashed with the current one,
+ * and the account is flagged if its password is in the breached corpus
+ */
+export const authenticateWithPassword = async (
+    email: string,
+    password: string,
+    ipAddress?: string
+): Promise<PasswordAuthenticationResult> => {
+    const lockout = await getLoginLockout(email, ipAddress);
+    if (lockout) {
+        return { status: 'locked_out', lockout };
+    }
+
+    const accountResult = await getPool().query(
+        `SELECT 
+            a.Account_ID, a.FirstName, a.LastName, a.Username, 
+            a.Email, a.Account_Role, a.Email_Verified, 
+            a.Phone_Verified, a.Account_Status, a.Token_Version,
+            ac.Salted_Hash, ac.Salt, ac.Hash_Algorithm, ac.Hash_Params
+        FROM Account a 
+        LEFT JOIN Account_Credential ac ON a.Account_ID = ac.Account_ID 
+        WHERE a.Email = $1`,
+        [email]
+    );
+
+    if (accountResult.rowCount === 0) {
+        // Hash anyway so unknown emails take as long as wrong passwords
+        await generateSaltedHash(password);
+        return rejectCredentials(email, null, ipAddress);
+    }
+
+    const account = accountResult.rows[0];
+
+    // Verify password
+    if (!account.salted_hash) {
+        return rejectCredentials(email, account.account_id, ipAddress);
+    }
+    const stored = readPasswordHash(account);
+    if (!await verifyPassword(password, stored)) {
+        return rejectCredentials(email, account.account_id, ipAddress);
+    }
+
+    // Only now report the account status, so it can't be learned from the email alone
+    const statusError = getAccountStatusError(account.account_status);
+    if (statusError) {
+        return { status: 'blocked', statusError };
+    }
+
+    if (needsRehash(stored)) {
+        await upgradePasswordHash(account.account_id, password);
+    }
+    await flagBreachedPassword(account.account_id, password);
+
+    await recordSuccessfulLogin(email, account.account_id, ipAddress);
+
+    return { status: 'authenticated', account };
+};
+
+/**
+ * Load the account columns needed to start a session
+ */
+export const getSessionAccount = async (accountId: number): Promise<SessionAccount | null> => {
+    const result = await getPool().query(
+        `SELECT Account_ID, FirstName, LastName, Username, Email, Account_Role,
+                Email_Verified, Phone_Verified, Account_Status, Token_Version
+         FROM Account WHERE Account_ID = $1`,
+        [accountId]
+    );
+    return result.rowCount > 0 ? result.rows[0] : null;
+};
+
+/**
+ * Format an account row as the user object returned to clients
+ */
+export const formatLoginUser = (account: SessionAccount): LoginUser => {
+    return {
+        id: account.account_id,
+        email: account.email,
+        name: account.firstname,
+        lastname: account.lastname,
+        username: account.username,
+        role: RoleName[account.account_role] || 'User',
+        emailVerified: account.email_verified,
+        phoneVerified: account.phone_verified,
+        accountStatus: account.account_status,
+    };
+};
+
+/**
+ * Start a new session for an account
+ * Issues a short-lived access token and a refresh token that begins a new family.
+ * Signing in to a closed account cancels its scheduled deletion
+ */
+export const createLoginSession = async (
+    db: Queryable,
+    account: SessionAccount
+): Promise<LoginSession> => {
+    const accessToken = generateAccessToken({
+        id: account.account_id,
+        email: account.email,
+        role: account.account_role,
+        tokenVersion: account.token_version
+    });
+
+    const refreshToken = await issueRefreshToken(db, account.account_id);
+    await cancelAccountDeletion(db, account.account_id);
+
+    return {
+        accessToken,
+        refreshToken: refreshToken.token,
+        user: formatLoginUser(account),
+    };
+};
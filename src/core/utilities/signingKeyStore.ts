@@ -0,0 +1,236 @@
+// src/core/utilities/signingKeyStore.ts
+import { generateKeyPairSync, createPublicKey, randomBytes } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getEnvVar } from './envConfig';
+
+/**
+ * Supported asymmetric JWT algorithms
+ */
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+/**
+ * A signing key pair as stored on disk
+ * The private key is encrypted with JWT_SECRET so a copied key file alone
+ * can't be used to mint tokens
+ */
+export interface SigningKey {
+    kid: string;
+    alg: SigningAlgorithm;
+    privateKey: string;
+    publicKey: string;
+    createdAt: string;
+    retiredAt: string | null;
+}
+
+/**
+ * Public half of a signing key in JWK form (kty/n/e for RSA, kty/crv/x/y for EC)
+ */
+export interface PublicJwk {
+    kid: string;
+    alg: SigningAlgorithm;
+    use: 'sig';
+    [parameter: string]: unknown;
+}
+
+/**
+ * JSON Web Key Set published at /.well-known/jwks.json
+ */
+export interface JsonWebKeySet {
+    keys: PublicJwk[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minimum time between re-reads of the keys directory on an unknown kid
+ */
+const KEY_RELOAD_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Shape of the key IDs generateSigningKey creates
+ */
+const KID_PATTERN = /^[0-9a-f]{16}$/;
+
+/**
+ * Keys currently loaded from disk (null until first use)
+ */
+let keyring: SigningKey[] | null = null;
+
+/**
+ * When an unknown kid last caused the keys directory to be re-read
+ */
+let lastReloadAt = 0;
+
+const getKeysDirectory = (): string => {
+    return path.resolve(getEnvVar('JWT_KEYS_DIR', './keys'));
+};
+
+const getConfiguredAlgorithm = (): SigningAlgorithm => {
+    const algorithm = getEnvVar('JWT_ALGORITHM', 'RS256');
+    if (algorithm !== 'RS256' && algorithm !== 'ES256') {
+        throw new Error(`Unsupported JWT_ALGORITHM "${algorithm}" - use RS256 or ES256`);
+    }
+    return algorithm;
+};
+
+const getKeyFilePath = (kid: string): string => {
+    return path.join(getKeysDirectory(), `${kid}.json`);
+};
+
+const saveKey = (key: SigningKey): void => {
+    fs.mkdirSync(getKeysDirectory(), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(getKeyFilePath(key.kid), JSON.stringify(key, null, 2), { mode: 0o600 });
+};
+
+/**
+ * Read every stored key from the keys directory, newest first
+ */
+const readKeysFromDisk = (): SigningKey[] => {
+    const directory = getKeysDirectory();
+    if (!fs.existsSync(directory)) {
+        return [];
+    }
+
+    return fs.readdirSync(directory)
+        .filter(file => file.endsWith('.json'))
+        .map(file => JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8')) as SigningKey)
+        .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+};
+
+/**
+ * Generate a new key pair with a random key ID
+ */
+export const generateSigningKey = (alg: SigningAlgorithm = getConfiguredAlgorithm()): SigningKey => {
+    const encryption = {
+        cipher: 'aes-256-cbc',
+        passphrase: getEnvVar('JWT_SECRET'),
+    };
+
+    const { privateKey, publicKey } = alg === 'RS256'
+        ? generateKeyPairSync('rsa', {
+              modulusLength: 2048,
+              publicKeyEncoding: { type: 'spki', format: 'pem' },
+              privateKeyEncoding: { type: 'pkcs8', format: 'pem', ...encryption },
+          })
+        : generateKeyPairSync('ec', {
+              namedCurve: 'prime256v1',
+              publicKeyEncoding: { type: 'spki', format: 'pem' },
+              privateKeyEncoding: { type: 'pkcs8', format: 'pem', ...encryption },
+          });
+
+    return {
+        kid: randomBytes(8).toString('hex'),
+        alg,
+        privateKey,
+        publicKey,
+        createdAt: new Date().toISOString(),
+        retiredAt: null,
+    };
+};
+
+/**
+ * Make sure a current signing key exists, rotating if it is due
+ *
+ * A new key is generated when there is none, when the active key is older
+ * than JWT_KEY_ROTATION_DAYS, when JWT_ALGORITHM has changed, or when forced.
+ * The previous key is retired rather than deleted: it stops signing but keeps
+ * verifying for JWT_KEY_OVERLAP_DAYS so tokens it already signed stay valid.
+ * Keys past the overlap window are removed.
+ *
+ * Call at startup and periodically afterwards.
+ *
+ * @returns The active signing key
+ */
+export const rotateSigningKeys = (force: boolean = false): SigningKey => {
+    const rotationMs = parseInt(getEnvVar('JWT_KEY_ROTATION_DAYS', '30')) * DAY_MS;
+    const overlapMs = parseInt(getEnvVar('JWT_KEY_OVERLAP_DAYS', '2')) * DAY_MS;
+    const algorithm = getConfiguredAlgorithm();
+    const now = Date.now();
+
+    const keys = readKeysFromDisk();
+    let active = keys.find(key => key.retiredAt === null);
+
+    const rotationDue = !active ||
+        force ||
+        active.alg !== algorithm ||
+        now - Date.parse(active.createdAt) > rotationMs;
+
+    if (rotationDue) {
+        keys.filter(key => key.retiredAt === null).forEach(key => {
+            key.retiredAt = new Date(now).toISOString();
+            saveKey(key);
+        });
+
+        active = generateSigningKey(algorithm);
+        saveKey(active);
+        keys.unshift(active);
+        console.log(`🔑 Generated new ${algorithm} signing key (kid: ${active.kid})`);
+    }
+
+    keyring = keys.filter(key => {
+        const expired = key.retiredAt !== null && now - Date.parse(key.retiredAt) > overlapMs;
+        if (expired) {
+            fs.rmSync(getKeyFilePath(key.kid), { force: true });
+        }
+        return !expired;
+    });
+
+    return active!;
+};
+
+/**
+ * Get the key new tokens should be signed with
+ */
+export const getActiveSigningKey = (): SigningKey => {
+    const active = keyring?.find(key => key.retiredAt === null);
+    return active ?? rotateSigningKeys();
+};
+
+/**
+ * Find the key that signed a token by its key ID
+ * Re-reads the keys directory on a miss in case another process sharing it
+ * rotated, but at most once every KEY_RELOAD_INTERVAL_MS and never for a kid
+ * we could not have generated - random kid headers can't force disk reads
+ */
+export const getVerificationKey = (kid: string): SigningKey | undefined => {
+    if (!keyring) {
+        rotateSigningKeys();
+    }
+
+    let key = keyring!.find(candidate => candidate.kid === kid);
+    const now = Date.now();
+    if (!key && KID_PATTERN.test(kid) && now - lastReloadAt >= KEY_RELOAD_INTERVAL_MS) {
+        lastReloadAt = now;
+        keyring = readKeysFromDisk();
+        key = keyring.find(candidate => candidate.kid === kid);
+    }
+    return key;
+};
+
+/**
+ * Public keys for every key that may still have valid tokens outstanding
+ * Contains no private key material - safe to publish
+ */
+export const getJwks = (): JsonWebKeySet => {
+    if (!keyring) {
+        rotateSigningKeys();
+    }
+
+    return {
+        keys: keyring!.map(key => ({
+            ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+            kid: key.kid,
+            alg: key.alg,
+            use: 'sig',
+        })),
+    };
+};
+
+/**
+ * Forget the loaded keys so the next call reads from disk (used by tests)
+ */
+export const resetSigningKeyCache = (): void => {
+    keyring = null;
+    lastReloadAt = 0;
+};
@@ -0,0 +1,108 @@
+// src/core/utilities/smsLoginUtils.ts
+import { SMS_LOGIN_CODE_EXPIRY_MINUTES, SMS_LOGIN_MAX_ATTEMPTS, SMS_LOGIN_RESEND_SECONDS } from '@models';
+import { getPool } from './database';
+import { generateVerificationCode, hashToken } from './credentialingUtils';
+import { getSessionAccount, SessionAccount } from './sessionUtils';
+import { getAccountStatusError, AccountStatusError } from './accountStatusUtils';
+
+/**
+ * Account that can receive a sign-in code, looked up by phone number
+ */
+export interface SmsLoginAccount {
+    account_id: number;
+    firstname: string;
+    phone: string;
+}
+
+/**
+ * Outcome of submitting a sign-in code
+ * - valid: the code matched and has been spent
+ * - invalid: no such verified phone, no code outstanding, wrong or expired
+ *   code, or the attempts are used up
+ * - blocked: the account is suspended, locked or deleted
+ */
+export type SmsLoginRedemption =
+    | { status: 'valid'; account: SessionAccount }
+    | { status: 'invalid' }
+    | { status: 'blocked'; statusError: AccountStatusError };
+
+/**
+ * Find the account whose verified phone this is
+ * Unverified numbers can't be used to sign in
+ */
+export const findSmsLoginAccount = async (phone: string): Promise<SmsLoginAccount | null> => {
+    const result = await getPool().query(
+        'SELECT Account_ID, FirstName, Phone FROM Account WHERE Phone = $1 AND Phone_Verified = TRUE',
+        [phone]
+    );
+    return result.rowCount > 0 ? result.rows[0] : null;
+};
+
+/**
+ * Issue a sign-in code for an account's verified phone
+ * Replaces any outstanding code, but at most once per SMS_LOGIN_RESEND_SECONDS
+ * @returns The 6-digit code to text (only its hash is stored), or null if one was sent too recently
+ */
+export const issueSmsLoginCode = async (account: SmsLoginAccount): Promise<string | null> => {
+    const pool = getPool();
+
+    const recent = await pool.query(
+        'SELECT 1 FROM SMS_Login_Code WHERE Account_ID = $1 AND Created_At > $2',
+        [account.account_id, new Date(Date.now() - SMS_LOGIN_RESEND_SECONDS * 1000)]
+    );
+    if (recent.rowCount > 0) {
+        return null;
+    }
+
+    const code = generateVerificationCode();
+
+    await pool.query('DELETE FROM SMS_Login_Code WHERE Account_ID = $1', [account.account_id]);
+    await pool.query(
+        `INSERT INTO SMS_Login_Code (Account_ID, Phone, Code_Hash, Expires_At, Attempts)
+         VALUES ($1, $2, $3, $4, 0)`,
+        [account.account_id, account.phone, hashToken(code), new Date(Date.now() + SMS_LOGIN_CODE_EXPIRY_MINUTES * 60 * 1000)]
+    );
+
+    return code;
+};
+
+/**
+ * Spend a sign-in code
+ * An attempt is counted before the code is compared, so parallel guesses
+ * can't get past SMS_LOGIN_MAX_ATTEMPTS; a correct code is deleted so it
+ * only works once
+ */
+export const redeemSmsLoginCode = async (phone: string, code: string): Promise<SmsLoginRedemption> => {
+    const pool = getPool();
+
+    const owner = await findSmsLoginAccount(phone);
+    if (!owner) {
+        return { status: 'invalid' };
+    }
+
+    const attempt = await pool.query(
+        `UPDATE SMS_Login_Code SET Attempts = Attempts + 1
+         WHERE Account_ID = $1 AND Phone = $2 AND Attempts < $3 AND Expires_At > NOW()
+         RETURNING Attempts`,
+        [owner.account_id, phone, SMS_LOGIN_MAX_ATTEMPTS]
+    );
+    if (attempt.rowCount === 0) {
+        return { status: 'invalid' };
+    }
+
+    const spent = await pool.query(
+        'DELETE FROM SMS_Login_Code WHERE Account_ID = $1 AND Code_Hash = $2 RETURNING Account_ID',
+        [owner.account_id, hashToken(code)]
+    );
+    if (spent.rowCount === 0) {
+        return { status: 'invalid' };
+    }
+
+    const account = await getSessionAccount(owner.account_id);
+    const statusError = getAccountStatusError(account.account_status);
+    if (statusError) {
+        return { status: 'blocked', statusError };
+    }
+
+    return { status: 'valid', account };
+};
@@ -0,0 +1,55 @@
+// src/core/utilities/tokenRevocationUtils.ts
+import { getPool, Queryable } from './database';
+import { revokeAllRefreshTokens } from './refreshTokenUtils';
+
+/**
+ * Add a single access token to the revocation list (logout)
+ * Rows are only needed until the token would have expired anyway,
+ * so expired entries are cleaned up on the way in
+ */
+export const revokeAccessToken = async (
+    db: Queryable,
+    jti: string,
+    accountId: number,
+    expiresAt: Date
+): Promise<void> => {
+    await db.query('DELETE FROM Revoked_Token WHERE Expires_At < NOW()');
+
+    await db.query(
+        `INSERT INTO Revoked_Token (JTI, Account_ID, Expires_At)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (JTI) DO NOTHING`,
+        [jti, accountId, expiresAt]
+    );
+};
+
+/**
+ * Check whether an access token has been individually revoked
+ */
+export const isAccessTokenRevoked = async (jti: string): Promise<boolean> => {
+    const result = await getPool().query(
+        'SELECT 1 FROM Revoked_Token WHERE JTI = $1',
+        [jti]
+    );
+    return result.rowCount > 0;
+};
+
+/**
+ * Invalidate every outstanding token for an account
+ * Bumping the token version rejects all access tokens issued so far,
+ * and all refresh tokens are revoked so they can't mint new ones
+ *
+ * Use after logout-all, password changes/resets, and admin deletion.
+ * Callers must call invalidateAccountState once this is committed: dropping
+ * the cached state earlier lets a concurrent request cache the old version
+ */
+export const revokeAllSessions = async (
+    db: Queryable,
+    accountId: number
+): Promise<void> => {
+    await db.query(
+        'UPDATE Account SET Token_Version = Token_Version + 1 WHERE Account_ID = $1',
+        [accountId]
+    );
+    await revokeAllRefreshTokens(db, accountId);
+};
@@ -1,51 +1,131 @@
-import jwt from 'jsonwebtoken';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 import { getEnvVar } from './envConfig';
+import { getActiveSigningKey, getVerificationKey } from './signingKeyStore';
+import { JWT_EXPIRY, MFA_CHALLENGE_EXPIRY } from '@models';
 
 export interface AccessTokenPayload {
     id: number;
     email: string;
     role: number;
+    tokenVersion: number;
+    scope?: string;     // Only for tokens issued to OAuth clients
+    clientId?: string;
 }
 
-export interface ResetTokenPayload {
-    id: number;
-    email: string;
-    type: 'password_reset';
-    timestamp: number;
+export interface ServiceAccessTokenPayload {
+    clientId: string;
+    scope: string;
+    tokenVersion: number;
+}
+
+export interface IdTokenPayload {
+    issuer: string;
+    subject: string;
+    audience: string;   // Client the user signed in to
+    nonce?: string;
+    claims: object;     // Profile claims allowed by the granted scope
 }
 
 /**
- * Generate access token for authenticated user sessions
+ * Sign a payload with the active signing key
+ * The key ID goes in the header so verifiers can pick the matching public key
  */
-export const generateAccessToken = (payload: AccessTokenPayload): string => {
-    const jwtSecret = getEnvVar('JWT_SECRET');
+const signWithActiveKey = (payload: object, options: SignOptions): string => {
+    const signingKey = getActiveSigningKey();
 
     return jwt.sign(
+        payload,
+        { key: signingKey.privateKey, passphrase: getEnvVar('JWT_SECRET') },
+        { ...options, algorithm: signingKey.alg, keyid: signingKey.kid }
+    );
+};
+
+/**
+ * Type claim of access tokens issued to OAuth clients
+ * First-party routes turn these away; only scope-checked endpoints accept them
+ */
+export const OAUTH_ACCESS_TOKEN_TYPE = 'oauth_access';
+
+/**
+ * Generate access token for authenticated user sessions
+ * Access tokens are short-lived; clients renew them with a refresh token
+ * The jti identifies this token for logout, and ver ties it to the account's
+ * token version so every outstanding token can be invalidated at once.
+ * Tokens for an OAuth client are typed so they can't act as a session
+ */
+export const generateAccessToken = (payload: AccessTokenPayload): string => {
+    return signWithActiveKey(
         {
             id: payload.id,
             email: payload.email,
-            role: payload.role
+            role: payload.role,
+            ver: payload.tokenVersion,
+            ...(payload.scope !== undefined && { scope: payload.scope }),
+            ...(payload.clientId !== undefined && {
+                client_id: payload.clientId,
+                type: OAUTH_ACCESS_TOKEN_TYPE
+            })
         },
-        jwtSecret,
-        { expiresIn: '14d' }
+        {
+            expiresIn: getEnvVar('JWT_EXPIRY', JWT_EXPIRY) as SignOptions['expiresIn'],
+            jwtid: randomUUID()
+        }
     );
 };
 
 /**
- * Generate password reset token with short expiry
+ * Generate access token for a machine client (client_credentials grant)
+ * The subject is the client itself - there is no account behind it
  */
-export const generatePasswordResetToken = (userId: number, email: string): string => {
-    const jwtSecret = getEnvVar('JWT_SECRET');
+export const generateServiceAccessToken = (payload: ServiceAccessTokenPayload): string => {
+    return signWithActiveKey(
+        {
+            client_id: payload.clientId,
+            scope: payload.scope,
+            ver: payload.tokenVersion
+        },
+        {
+            subject: payload.clientId,
+            expiresIn: getEnvVar('JWT_EXPIRY', JWT_EXPIRY) as SignOptions['expiresIn'],
+            jwtid: randomUUID()
+        }
+    );
+};
 
-    return jwt.sign(
+/**
+ * Generate an OpenID Connect ID token
+ * ID tokens tell the client who signed in; they carry no jti or token
+ * version, so they can never be used as access tokens
+ */
+export const generateIdToken = (payload: IdTokenPayload): string => {
+    return signWithActiveKey(
+        {
+            ...payload.claims,
+            ...(payload.nonce !== undefined && { nonce: payload.nonce })
+        },
+        {
+            issuer: payload.issuer,
+            subject: payload.subject,
+            audience: payload.audience,
+            expiresIn: getEnvVar('JWT_EXPIRY', JWT_EXPIRY) as SignOptions['expiresIn']
+        }
+    );
+};
+
+/**
+ * Generate the token handed out after a correct password when the account
+ * has two-factor authentication enabled. It only proves the first factor and
+ * is exchanged for a session once the second factor checks out
+ */
+export const generateMfaChallengeToken = (userId: number, tokenVersion: number): string => {
+    return signWithActiveKey(
         {
             id: userId,
-            email,
-            type: 'password_reset',
-            timestamp: Date.now()
+            type: 'mfa_challenge',
+            ver: tokenVersion
         },
-        jwtSecret,
-        { expiresIn: '15m' }
+        { expiresIn: MFA_CHALLENGE_EXPIRY, jwtid: randomUUID() }
     );
 };
 
@@ -53,23 +133,31 @@ export const generatePasswordResetToken = (userId: number, email: string): strin
  * Generate verification token for email/phone verification
  */
 export const generateVerificationToken = (userId: number, type: 'email' | 'phone'): string => {
-    const jwtSecret = getEnvVar('JWT_SECRET');
-
-    return jwt.sign(
+    return signWithActiveKey(
         {
             id: userId,
             type: `${type}_verification`,
             timestamp: Date.now()
         },
-        jwtSecret,
-        { expiresIn: '24h' }
+        { expiresIn: '24h', jwtid: randomUUID() }
     );
 };
 
 /**
  * Verify and decode any token type
+ * The header's kid selects the public key; tokens signed by unknown or
+ * pruned keys, or with a different algorithm than the key's, are rejected
  */
 export const verifyToken = <T = any>(token: string): T => {
-    const jwtSecret = getEnvVar('JWT_SECRET');
-    return jwt.verify(token, jwtSecret) as T;
-};
\ No newline at end of file
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    const verificationKey = kid ? getVerificationKey(kid) : undefined;
+
+    if (!verificationKey) {
+        throw new jwt.JsonWebTokenError('unknown signing key');
+    }
+
+    return jwt.verify(token, verificationKey.publicKey, {
+        algorithms: [verificationKey.alg]
+    }) as T;
+};
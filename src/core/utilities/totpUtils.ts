@@ -0,0 +1,131 @@
+// src/core/utilities/totpUtils.ts
+import { createHmac, randomBytes } from 'crypto';
+import { secureCompare } from './credentialingUtils';
+
+/**
+ * TOTP parameters - the defaults every authenticator app supports
+ * (SHA-1, 6 digits, 30 second steps)
+ */
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as unpadded base32 (RFC 4648), the format authenticator apps expect
+ */
+export const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+};
+
+/**
+ * Decode base32 (case-insensitive, padding and spaces ignored)
+ * @throws Error on characters outside the base32 alphabet
+ */
+export const base32Decode = (encoded: string): Buffer => {
+    const cleaned = encoded.toUpperCase().replace(/[\s=]/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Invalid base32 character');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+};
+
+/**
+ * Generate a new random TOTP secret (160 bits, base32 encoded)
+ */
+export const generateTotpSecret = (): string => {
+    return base32Encode(randomBytes(20));
+};
+
+/**
+ * Time step number for a moment in time
+ */
+export const getTotpStep = (timeMs: number = Date.now()): number => {
+    return Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+};
+
+/**
+ * Compute the code for a time step (RFC 6238 / RFC 4226 dynamic truncation)
+ */
+export const generateTotp = (
+    secret: string,
+    step: number = getTotpStep(),
+    digits: number = TOTP_DIGITS
+): string => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+
+    return binary.toString().padStart(digits, '0');
+};
+
+/**
+ * Check a code against the current step and one step either side
+ * (allows for clock drift and codes typed just as they changed)
+ * @returns The matching time step, or null if the code is wrong
+ */
+export const verifyTotp = (
+    secret: string,
+    code: string,
+    timeMs: number = Date.now(),
+    window: number = 1
+): number | null => {
+    if (!/^\d{6}$/.test(code)) {
+        return null;
+    }
+
+    const currentStep = getTotpStep(timeMs);
+    for (let offset = -window; offset <= window; offset++) {
+        const step = currentStep + offset;
+        if (secureCompare(generateTotp(secret, step), code)) {
+            return step;
+        }
+    }
+    return null;
+};
+
+/**
+ * Build the otpauth:// URI that authenticator apps import (usually as a QR code)
+ */
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -4,9 +4,11 @@ import { sendError } from './responseUtils';
 import { ErrorCodes } from './errorCodes';
 
 export interface UserExistenceCheck {
-    email: string;
-    username: string;
-    phone: string;
+    email?: string;
+    username?: string;
+    phone?: string;
+    /** The account being updated, which may keep its own values */
+    excludeAccountId?: number;
 }
 
 export interface ExistenceResult {
@@ -16,21 +18,31 @@ export interface ExistenceResult {
     message?: string;
 }
 
+/**
+ * Whether another account already uses a value in the given column
+ */
+const isTaken = async (column: 'Email' | 'Username' | 'Phone', value: string, excludeAccountId?: number): Promise<boolean> => {
+    const result = excludeAccountId === undefined
+        ? await getPool().query(`SELECT Account_ID FROM Account WHERE ${column} = $1`, [value])
+        : await getPool().query(
+            `SELECT Account_ID FROM Account WHERE ${column} = $1 AND Account_ID <> $2`,
+            [value, excludeAccountId]
+        );
+    return result.rowCount > 0;
+};
+
 /**
  * Check if user exists by email, username, or phone
+ * Only the fields given are checked
  * Returns null if no conflicts, or conflict details if found
  */
 export const checkUserExistence = async (
     userData: UserExistenceCheck
 ): Promise<ExistenceResult> => {
-    const pool = getPool();
+    const { excludeAccountId } = userData;
 
     // Check for existing email
-    const emailCheck = await pool.query(
-        'SELECT Account_ID FROM Account WHERE Email = $1',
-        [userData.email]
-    );
-    if (emailCheck.rowCount > 0) {
+    if (userData.email !== undefined && await isTaken('Email', userData.email, excludeAccountId)) {
         return {
             exists: true,
             field: 'email',
@@ -40,11 +52,7 @@ export const checkUserExistence = async (
     }
 
     // Check for existing username
-    const usernameCheck = await pool.query(
-        'SELECT Account_ID FROM Account WHERE Username = $1',
-        [userData.username]
-    );
-    if (usernameCheck.rowCount > 0) {
+    if (userData.username !== undefined && await isTaken('Username', userData.username, excludeAccountId)) {
         return {
             exists: true,
             field: 'username',
@@ -54,11 +62,7 @@ export const checkUserExistence = async (
     }
 
     // Check for existing phone
-    const phoneCheck = await pool.query(
-        'SELECT Account_ID FROM Account WHERE Phone = $1',
-        [userData.phone]
-    );
-    if (phoneCheck.rowCount > 0) {
+    if (userData.phone !== undefined && await isTaken('Phone', userData.phone, excludeAccountId)) {
         return {
             exists: true,
             field: 'phone',
@@ -0,0 +1,653 @@
+// src/core/utilities/webauthnUtils.ts
+import { createHash, createHmac, createPublicKey, randomBytes, verify, KeyObject, X509Certificate } from 'crypto';
+import { WEBAUTHN_CHALLENGE_EXPIRY_SECONDS } from '@models';
+import { getPool } from './database';
+import { getEnvVar } from './envConfig';
+import { getIssuer } from './oidcUtils';
+import { secureCompare } from './credentialingUtils';
+import { decodeCbor, decodeCborPrefix, CborValue } from './cborUtils';
+import { SessionAccount } from './sessionUtils';
+
+/**
+ * COSE algorithms we accept, in order of preference (ES256, EdDSA, RS256)
+ */
+const SUPPORTED_ALGORITHMS = [-7, -8, -257];
+
+/**
+ * Authenticator data flags (WebAuthn §6.1)
+ */
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+type Ceremony = 'registration' | 'authentication';
+
+/**
+ * Relying party settings
+ * The RP ID must be the site's domain (or a parent of it) and origins are the
+ * exact pages allowed to run the ceremony, e.g. a separate front end
+ */
+export interface WebAuthnConfig {
+    rpId: string;
+    rpName: string;
+    origins: string[];
+}
+
+/**
+ * Registration response from navigator.credentials.create(), binary fields base64url encoded
+ */
+export interface RegistrationCredential {
+    id: string;
+    type: string;
+    response: {
+        clientDataJSON: string;
+        attestationObject: string;
+        transports?: string[];
+    };
+}
+
+/**
+ * Authentication response from navigator.credentials.get(), binary fields base64url encoded
+ */
+export interface AuthenticationCredential {
+    id: string;
+    type: string;
+    response: {
+        clientDataJSON: string;
+        authenticatorData: string;
+        signature: string;
+        userHandle?: string | null;
+    };
+}
+
+/**
+ * A registered passkey as shown to its owner
+ */
+export interface WebAuthnCredentialSummary {
+    id: string;
+    name: string;
+    transports: string[];
+    createdAt: Date;
+    lastUsedAt: Date | null;
+}
+
+/**
+ * Outcome of a registration ceremony
+ * - registered: the credential was verified and saved
+ * - duplicate: the credential is already registered
+ * - invalid: the response failed verification (reason says why)
+ */
+export type RegistrationVerificationResult =
+    | { status: 'registered'; credential: WebAuthnCredentialSummary }
+    | { status: 'duplicate' }
+    | { status: 'invalid'; reason: string };
+
+/**
+ * Outcome of an authentication ceremony
+ * userVerified says whether the authenticator checked a PIN or biometric,
+ * which decides whether the passkey also counts as a second factor
+ */
+export type AuthenticationVerificationResult =
+    | { status: 'verified'; accountId: number; userVerified: boolean }
+    | { status: 'invalid'; reason: string };
+
+/**
+ * Parsed authenticator data (WebAuthn §6.1)
+ */
+interface AuthenticatorData {
+    rpIdHash: Buffer;
+    flags: number;
+    signCount: number;
+    attestedCredential?: {
+        aaguid: string;
+        credentialId: Buffer;
+        publicKey: Map<CborValue, CborValue>;
+    };
+}
+
+/**
+ * Thrown while parsing or checking a response; the message is safe to show
+ */
+class WebAuthnVerificationError extends Error {}
+
+const fail = (reason: string): never => {
+    throw new WebAuthnVerificationError(reason);
+};
+
+/**
+ * Relying party settings from the environment
+ * Defaults to the host and origin of APP_BASE_URL
+ */
+export const getWebAuthnConfig = (): WebAuthnConfig => {
+    const baseUrl = new URL(getIssuer());
+    const origins = (process.env.WEBAUTHN_ORIGINS || '')
+        .split(',')
+        .map(origin => origin.trim().replace(/\/+$/, ''))
+        .filter(Boolean);
+
+    return {
+        rpId: process.env.WEBAUTHN_RP_ID || baseUrl.hostname,
+        rpName: getEnvVar('WEBAUTHN_RP_NAME', 'Auth2'),
+        origins: origins.length > 0 ? origins : [baseUrl.origin],
+    };
+};
+
+/**
+ * The WebAuthn user handle for an account
+ * Authenticators store it with discoverable credentials and return it at sign-in
+ */
+const getUserHandle = (accountId: number): string => Buffer.from(String(accountId)).toString('base64url');
+
+const decodeBase64Url = (value: unknown, field: string): Buffer => {
+    if (typeof value !== 'string' || !/^[A-Za-z0-9_-]*$/.test(value)) {
+        return fail(`${field} must be base64url encoded`);
+    }
+    return Buffer.from(value, 'base64url');
+};
+
+/**
+ * Issue a single-use challenge for a ceremony
+ */
+const issueChallenge = async (ceremony: Ceremony, accountId: number | null): Promise<string> => {
+    const pool = getPool();
+    const challenge = randomBytes(32).toString('base64url');
+
+    // Abandoned ceremonies leave rows behind; clear them as we go
+    await pool.query('DELETE FROM WebAuthn_Challenge WHERE Expires_At < NOW()');
+    await pool.query(
+        `INSERT INTO WebAuthn_Challenge (Challenge, Ceremony, Account_ID, Expires_At)
+         VALUES ($1, $2, $3, $4)`,
+        [challenge, ceremony, accountId, new Date(Date.now() + WEBAUTHN_CHALLENGE_EXPIRY_SECONDS * 1000)]
+    );
+    return challenge;
+};
+
+/**
+ * Use up a challenge so a captured response can't be replayed
+ * @returns Whether the challenge was outstanding for this ceremony and account
+ */
+const consumeChallenge = async (
+    challenge: string,
+    ceremony: Ceremony,
+    accountId: number | null
+): Promise<boolean> => {
+    const result = accountId === null
+        ? await getPool().query(
+            `DELETE FROM WebAuthn_Challenge
+             WHERE Challenge = $1 AND Ceremony = $2 AND Account_ID IS NULL AND Expires_At > NOW()`,
+            [challenge, ceremony]
+        )
+        : await getPool().query(
+            `DELETE FROM WebAuthn_Challenge
+             WHERE Challenge = $1 AND Ceremony = $2 AND Account_ID = $3 AND Expires_At > NOW()`,
+            [challenge, ceremony, accountId]
+        );
+    return result.rowCount > 0;
+};
+
+/**
+ * Decode CBOR from a response, reporting malformed data as a verification failure
+ */
+const readCbor = (decode: () => CborValue, field: string): CborValue => {
+    try {
+        return decode();
+    } catch {
+        return fail(`${field} is not valid CBOR`);
+    }
+};
+
+/**
+ * Check clientDataJSON against the expected ceremony type and origins
+ * @returns The challenge it was signed over
+ */
+const readClientData = (clientDataJSON: Buffer, expectedType: string): string => {
+    let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+    try {
+        clientData = JSON.parse(clientDataJSON.toString('utf8'));
+    } catch {
+        return fail('clientDataJSON is not valid JSON');
+    }
+
+    if (clientData.type !== expectedType) {
+        fail(`clientDataJSON type must be ${expectedType}`);
+    }
+    if (typeof clientData.challenge !== 'string') {
+        fail('clientDataJSON has no challenge');
+    }
+    if (typeof clientData.origin !== 'string' || !getWebAuthnConfig().origins.includes(clientData.origin)) {
+        fail('Origin is not allowed');
+    }
+    return clientData.challenge as string;
+};
+
+/**
+ * Parse authenticator data and check it is for this relying party
+ */
+const readAuthenticatorData = (authData: Buffer): AuthenticatorData => {
+    if (authData.length < 37) {
+        fail('Authenticator data is too short');
+    }
+
+    const rpIdHash = authData.subarray(0, 32);
+    const flags = authData[32];
+    const signCount = authData.readUInt32BE(33);
+
+    const expectedRpIdHash = createHash('sha256').update(getWebAuthnConfig().rpId).digest();
+    if (!rpIdHash.equals(expectedRpIdHash)) {
+        fail('Credential was created for a different relying party');
+    }
+    if (!(flags & FLAG_USER_PRESENT)) {
+        fail('User presence was not confirmed');
+    }
+
+    if (!(flags & FLAG_ATTESTED_CREDENTIAL_DATA)) {
+        return { rpIdHash, flags, signCount };
+    }
+
+    // aaguid (16) | credentialIdLength (2) | credentialId | COSE public key | extensions
+    if (authData.length < 55) {
+        fail('Attested credential data is truncated');
+    }
+    const aaguidHex = authData.subarray(37, 53).toString('hex');
+    const credentialIdLength = authData.readUInt16BE(53);
+    const credentialId = authData.subarray(55, 55 + credentialIdLength);
+    if (credentialId.length !== credentialIdLength) {
+        fail('Attested credential data is truncated');
+    }
+
+    const publicKey = readCbor(
+        () => decodeCborPrefix(authData.subarray(55 + credentialIdLength)).value,
+        'Credential public key'
+    );
+    if (!(publicKey instanceof Map)) {
+        fail('Credential public key is not a COSE key');
+    }
+
+    return {
+        rpIdHash,
+        flags,
+        signCount,
+        attestedCredential: {
+            aaguid: aaguidHex.replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5'),
+            credentialId: Buffer.from(credentialId),
+            publicKey: publicKey as Map<CborValue, CborValue>,
+        },
+    };
+};
+
+const coseBytes = (coseKey: Map<CborValue, CborValue>, label: number): string => {
+    const value = coseKey.get(label);
+    if (!Buffer.isBuffer(value)) {
+        return fail('Credential public key is incomplete');
+    }
+    return value.toString('base64url');
+};
+
+/**
+ * Convert a COSE public key (RFC 9053) to a Node key
+ */
+const importCoseKey = (coseKey: Map<CborValue, CborValue>): { key: KeyObject; alg: number } => {
+    const keyType = coseKey.get(1);
+    const alg = coseKey.get(3);
+    let jwk: { kty: string; crv?: string; x?: string; y?: string; n?: string; e?: string };
+
+    if (keyType === 2 && alg === -7 && coseKey.get(-1) === 1) {
+        jwk = { kty: 'EC', crv: 'P-256', x: coseBytes(coseKey, -2), y: coseBytes(coseKey, -3) };
+    } else if (keyType === 1 && alg === -8 && coseKey.get(-1) === 6) {
+        jwk = { kty: 'OKP', crv: 'Ed25519', x: coseBytes(coseKey, -2) };
+    } else if (keyType === 3 && alg === -257) {
+        jwk = { kty: 'RSA', n: coseBytes(coseKey, -1), e: coseBytes(coseKey, -2) };
+    } else {
+        return fail('Unsupported credential algorithm');
+    }
+
+    try {
+        return { key: createPublicKey({ key: jwk, format: 'jwk' }), alg: alg as number };
+    } catch {
+        return fail('Credential public key is invalid');
+    }
+};
+
+/**
+ * Check a WebAuthn signature (ECDSA signatures are DER encoded, as Node expects)
+ */
+const verifySignature = (alg: number, key: KeyObject, data: Buffer, signature: Buffer): boolean => {
+    try {
+        return verify(alg === -8 ? null : 'sha256', data, key, signature);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Verify the attestation statement (WebAuthn §8)
+ * "none" carries no statement. "packed" is signed either by the credential key
+ * itself (self attestation) or by an attestation certificate; we check the
+ * signature but don't require the certificate to chain to a known vendor
+ */
+const verifyAttestation = (
+    format: CborValue,
+    statement: CborValue,
+    signedData: Buffer,
+    credential: { key: KeyObject; alg: number }
+): void => {
+    if (!(statement instanceof Map)) {
+        fail('Attestation statement is malformed');
+    }
+    const attStmt = statement as Map<CborValue, CborValue>;
+
+    if (format === 'none') {
+        if (attStmt.size !== 0) {
+            fail('"none" attestation must have an empty statement');
+        }
+        return;
+    }
+
+    if (format !== 'packed') {
+        fail('Unsupported attestation format');
+    }
+
+    const alg = attStmt.get('alg');
+    const sig = attStmt.get('sig');
+    const x5c = attStmt.get('x5c');
+    if (typeof alg !== 'number' || !Buffer.isBuffer(sig)) {
+        fail('Packed attestation statement is malformed');
+    }
+
+    let signer = credential.key;
+    if (x5c !== undefined) {
+        if (!Array.isArray(x5c) || !Buffer.isBuffer(x5c[0])) {
+            fail('Attestation certificate is malformed');
+        }
+        try {
+            signer = new X509Certificate(x5c[0] as Buffer).publicKey;
+        } catch {
+            fail('Attestation certificate is malformed');
+        }
+    } else if (alg !== credential.alg) {
+        fail('Self attestation must use the credential algorithm');
+    }
+
+    if (!verifySignature(alg as number, signer, signedData, sig as Buffer)) {
+        fail('Attestation signature is invalid');
+    }
+};
+
+const formatCredentialSummary = (row: {
+    credential_id: string;
+    name: string;
+    transports: string[] | null;
+    created_at: Date;
+    last_used_at: Date | null;
+}): WebAuthnCredentialSummary => ({
+    id: row.credential_id,
+    name: row.name,
+    transports: row.transports ?? [],
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+});
+
+/**
+ * Options for navigator.credentials.create() to register a new passkey
+ * Existing passkeys are excluded so the same authenticator isn't registered twice
+ */
+export const createRegistrationOptions = async (account: SessionAccount) => {
+    const config = getWebAuthnConfig();
+    const existing = await getPool().query(
+        'SELECT Credential_ID, Transports FROM WebAuthn_Credential WHERE Account_ID = $1',
+        [account.account_id]
+    );
+
+    return {
+        challenge: await issueChallenge('registration', account.account_id),
+        rp: { id: config.rpId, name: config.rpName },
+        user: {
+            id: getUserHandle(account.account_id),
+            name: account.email,
+            displayName: `${account.firstname} ${account.lastname}`,
+        },
+        pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+        timeout: WEBAUTHN_CHALLENGE_EXPIRY_SECONDS * 1000,
+        attestation: 'direct',
+        excludeCredentials: existing.rows.map(row => ({
+            type: 'public-key',
+            id: row.credential_id,
+            transports: row.transports ?? undefined,
+        })),
+        authenticatorSelection: {
+            residentKey: 'preferred',
+            userVerification: 'preferred',
+        },
+    };
+};
+
+/**
+ * Verify a registration response and save the new passkey (WebAuthn §7.1)
+ */
+export const verifyRegistration = async (
+    accountId: number,
+    credential: RegistrationCredential,
+    name?: string
+): Promise<RegistrationVerificationResult> => {
+    try {
+        if (credential.type !== 'public-key') {
+            fail('Credential type must be public-key');
+        }
+
+        const clientDataJSON = decodeBase64Url(credential.response.clientDataJSON, 'clientDataJSON');
+        const challenge = readClientData(clientDataJSON, 'webauthn.create');
+
+        const attestationObject = decodeBase64Url(credential.response.attestationObject, 'attestationObject');
+        const attestation = readCbor(() => decodeCbor(attestationObject), 'attestationObject');
+        if (!(attestation instanceof Map) || !Buffer.isBuffer(attestation.get('authData'))) {
+            fail('attestationObject is malformed');
+        }
+        const attestationMap = attestation as Map<CborValue, CborValue>;
+        const rawAuthData = attestationMap.get('authData') as Buffer;
+
+        const authData = readAuthenticatorData(rawAuthData);
+        if (!authData.attestedCredential) {
+            fail('Authenticator data has no credential');
+        }
+
+        const { credentialId, publicKey, aaguid } = authData.attestedCredential;
+        if (credentialId.toString('base64url') !== credential.id) {
+            fail('Credential ID does not match the authenticator data');
+        }
+
+        const credentialKey = importCoseKey(publicKey);
+        const clientDataHash = createHash('sha256').update(clientDataJSON).digest();
+        verifyAttestation(
+            attestationMap.get('fmt'),
+            attestationMap.get('attStmt'),
+            Buffer.concat([rawAuthData, clientDataHash]),
+            credentialKey
+        );
+
+        // Consumed only once the response checks out, so a garbled response can be retried
+        if (!(await consumeChallenge(challenge, 'registration', accountId))) {
+            fail('Challenge is invalid or has expired');
+        }
+
+        const pool = getPool();
+        const duplicate = await pool.query(
+            'SELECT 1 FROM WebAuthn_Credential WHERE Credential_ID = $1',
+            [credential.id]
+        );
+        if (duplicate.rowCount > 0) {
+            return { status: 'duplicate' };
+        }
+
+        const transports = Array.isArray(credential.response.transports)
+            ? credential.response.transports.filter(transport => typeof transport === 'string')
+            : null;
+
+        const saved = await pool.query(
+            `INSERT INTO WebAuthn_Credential
+                (Credential_ID, Account_ID, Public_Key, Public_Key_Alg, Sign_Count,
+                 Transports, AAGUID, Attestation_Format, Name)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+             RETURNING Credential_ID, Name, Transports, Created_At, Last_Used_At`,
+            [
+                credential.id,
+                accountId,
+                credentialKey.key.export({ format: 'der', type: 'spki' }).toString('base64url'),
+                credentialKey.alg,
+                authData.signCount,
+                transports,
+                aaguid,
+                attestationMap.get('fmt'),
+                name || 'Passkey',
+            ]
+        );
+
+        return { status: 'registered', credential: formatCredentialSummary(saved.rows[0]) };
+    } catch (error) {
+        if (error instanceof WebAuthnVerificationError) {
+            return { status: 'invalid', reason: error.message };
+        }
+        throw error;
+    }
+};
+
+/**
+ * Stand-in credential ID for an email without passkeys
+ * Derived from the email with a server secret, so repeated requests for the
+ * same email get the same ID, like a real account's would
+ */
+const getDecoyCredentialId = (email: string): string => {
+    return createHmac('sha256', `webauthn-decoy:${getEnvVar('JWT_SECRET')}`)
+        .update(email.trim().toLowerCase())
+        .digest()
+        .subarray(0, 32)
+        .toString('base64url');
+};
+
+/**
+ * Options for navigator.credentials.get()
+ * With an email, the account's passkeys are listed; without one the browser
+ * offers any discoverable passkey for this site. An unknown email, or one
+ * without passkeys, gets a decoy credential ID instead of an empty list, so
+ * the response doesn't reveal which emails have accounts or passkeys
+ */
+export const createAuthenticationOptions = async (email?: string) => {
+    const credentials = email
+        ? await getPool().query(
+            `SELECT c.Credential_ID, c.Transports
+             FROM WebAuthn_Credential c
+             JOIN Account a ON a.Account_ID = c.Account_ID
+             WHERE a.Email = $1`,
+            [email]
+        )
+        : { rows: [] };
+
+    const allowCredentials = credentials.rows.map(row => ({
+        type: 'public-key',
+        id: row.credential_id,
+        transports: row.transports ?? undefined,
+    }));
+    if (email && allowCredentials.length === 0) {
+        allowCredentials.push({ type: 'public-key', id: getDecoyCredentialId(email), transports: undefined });
+    }
+
+    return {
+        challenge: await issueChallenge('authentication', null),
+        rpId: getWebAuthnConfig().rpId,
+        timeout: WEBAUTHN_CHALLENGE_EXPIRY_SECONDS * 1000,
+        userVerification: 'preferred',
+        allowCredentials,
+    };
+};
+
+/**
+ * Verify an authentication response (WebAuthn §7.2)
+ * The signature counter must move forward whenever the authenticator keeps
+ * one - a counter that goes backwards suggests a cloned authenticator
+ */
+export const verifyAuthentication = async (
+    credential: AuthenticationCredential
+): Promise<AuthenticationVerificationResult> => {
+    try {
+        if (credential.type !== 'public-key' || typeof credential.id !== 'string') {
+            fail('Credential type must be public-key');
+        }
+
+        const pool = getPool();
+        const stored = await pool.query(
+            `SELECT Account_ID, Public_Key, Public_Key_Alg, Sign_Count
+             FROM WebAuthn_Credential WHERE Credential_ID = $1`,
+            [credential.id]
+        );
+        if (stored.rowCount === 0) {
+            fail('Passkey is not registered');
+        }
+        const { account_id: accountId, public_key: publicKey, public_key_alg: alg } = stored.rows[0];
+        const storedSignCount = Number(stored.rows[0].sign_count);
+
+        const userHandle = credential.response.userHandle;
+        if (userHandle && !secureCompare(userHandle, getUserHandle(accountId))) {
+            fail('Passkey belongs to a different user');
+        }
+
+        const clientDataJSON = decodeBase64Url(credential.response.clientDataJSON, 'clientDataJSON');
+        const challenge = readClientData(clientDataJSON, 'webauthn.get');
+        const rawAuthData = decodeBase64Url(credential.response.authenticatorData, 'authenticatorData');
+        const authData = readAuthenticatorData(rawAuthData);
+
+        const key = createPublicKey({ key: Buffer.from(publicKey, 'base64url'), format: 'der', type: 'spki' });
+        const clientDataHash = createHash('sha256').update(clientDataJSON).digest();
+        const signature = decodeBase64Url(credential.response.signature, 'signature');
+        if (!verifySignature(alg, key, Buffer.concat([rawAuthData, clientDataHash]), signature)) {
+            fail('Signature is invalid');
+        }
+
+        if (!(await consumeChallenge(challenge, 'authentication', null))) {
+            fail('Challenge is invalid or has expired');
+        }
+
+        if ((authData.signCount > 0 || storedSignCount > 0) && authData.signCount <= storedSignCount) {
+            fail('Signature counter did not increase; the authenticator may have been cloned');
+        }
+
+        await pool.query(
+            'UPDATE WebAuthn_Credential SET Sign_Count = $1, Last_Used_At = NOW() WHERE Credential_ID = $2',
+            [authData.signCount, credential.id]
+        );
+
+        return {
+            status: 'verified',
+            accountId,
+            userVerified: (authData.flags & FLAG_USER_VERIFIED) !== 0,
+        };
+    } catch (error) {
+        if (error instanceof WebAuthnVerificationError) {
+            return { status: 'invalid', reason: error.message };
+        }
+        throw error;
+    }
+};
+
+/**
+ * List an account's passkeys, newest first
+ */
+export const listWebAuthnCredentials = async (accountId: number): Promise<WebAuthnCredentialSummary[]> => {
+    const result = await getPool().query(
+        `SELECT Credential_ID, Name, Transports, Created_At, Last_Used_At
+         FROM WebAuthn_Credential WHERE Account_ID = $1
+         ORDER BY Created_At DESC`,
+        [accountId]
+    );
+    return result.rows.map(formatCredentialSummary);
+};
+
+/**
+ * Remove one of an account's passkeys
+ * @returns Whether the passkey existed and belonged to the account
+ */
+export const deleteWebAuthnCredential = async (accountId: number, credentialId: string): Promise<boolean> => {
+    const result = await getPool().query(
+        'DELETE FROM WebAuthn_Credential WHERE Account_ID = $1 AND Credential_ID = $2',
+        [accountId, credentialId]
+    );
+    return result.rowCount > 0;
+};
@@ -0,0 +1,110 @@
+// src/core/utilities/zipUtils.ts
+import { deflateRawSync } from 'zlib';
+
+/**
+ * A file to put in a ZIP archive
+ */
+export interface ZipEntry {
+    name: string;
+    content: Buffer | string;
+}
+
+/**
+ * CRC-32 (IEEE) lookup table, as required by every ZIP entry
+ */
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * CRC-32 checksum of a buffer
+ */
+export const crc32 = (data: Buffer): number => {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Date and time of day in MS-DOS format, as used by ZIP headers
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+};
+
+/**
+ * Build a ZIP archive in memory
+ * Entries are deflated; names are stored as UTF-8. No ZIP64, so each file and
+ * the whole archive must stay under 4 GB - far beyond anything this service builds
+ */
+export const createZip = (entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer => {
+    const { time, date } = toDosDateTime(modifiedAt);
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const data = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content, 'utf8');
+        const compressed = deflateRawSync(data);
+        const checksum = crc32(data);
+
+        // Local file header (signature PK\3\4)
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);          // version needed: 2.0 (deflate)
+        local.writeUInt16LE(0x0800, 6);      // flags: UTF-8 names
+        local.writeUInt16LE(8, 8);           // method: deflate
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(checksum, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);          // extra field length
+
+        // Central directory header (signature PK\1\2)
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);        // version made by
+        central.writeUInt16LE(20, 6);        // version needed
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(date, 14);
+        central.writeUInt32LE(checksum, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);   // where the local header starts
+
+        localParts.push(local, name, compressed);
+        centralParts.push(central, name);
+        offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+
+    // End of central directory record (signature PK\5\6)
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+};
@@ -18,10 +18,65 @@
 
 import { app } from './app';
 import { connectToDatabase, disconnectFromDatabase } from '@db';
-import { validateEnv, initializeEmailService } from '@utilities';
+import {
+    validateEnv,
+    initializeEmailService,
+    rotateSigningKeys,
+    purgeClosedAccounts,
+    deleteExpiredDataExports,
+    retryDataExports,
+    deleteOldLoginAttempts
+} from '@utilities';
 
 const PORT = parseInt(process.env.PORT || '8000');
 
+/**
+ * How often to check whether the JWT signing key is due for rotation
+ */
+const KEY_ROTATION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * How often to anonymize closed accounts whose grace period is over, retry
+ * background data exports that failed, delete those whose download link
+ * has expired and delete old sign-in attempts
+ */
+const ACCOUNT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Remove personal data that is due to go, logging rather than throwing
+ */
+const runAccountPurge = async (): Promise<void> => {
+    try {
+        const purged = await purgeClosedAccounts();
+        if (purged > 0) {
+            console.log(`🧹 Anonymized ${purged} closed account(s)`);
+        }
+    } catch (error) {
+        console.error('❌ Closed account purge failed:', error);
+    }
+
+    try {
+        const retried = await retryDataExports();
+        if (retried > 0) {
+            console.log(`📦 Retried ${retried} data export(s)`);
+        }
+    } catch (error) {
+        console.error('❌ Data export retry failed:', error);
+    }
+
+    try {
+        await deleteExpiredDataExports();
+    } catch (error) {
+        console.error('❌ Expired data export cleanup failed:', error);
+    }
+
+    try {
+        await deleteOldLoginAttempts();
+    } catch (error) {
+        console.error('❌ Sign-in attempt cleanup failed:', error);
+    }
+};
+
 /**
  * Start the Express server with complete application lifecycle management
  * Handles database connection, HTTP server startup, and graceful shutdown
@@ -73,10 +128,24 @@ async function startServer() {
         // Initialize email service
         initializeEmailService();
 
+        // Load (or generate) JWT signing keys, then keep them rotating
+        rotateSigningKeys();
+        setInterval(() => {
+            try {
+                rotateSigningKeys();
+            } catch (error) {
+                console.error('❌ Signing key rotation failed:', error);
+            }
+        }, KEY_ROTATION_CHECK_INTERVAL_MS).unref();
+
         // Connect to database
         await connectToDatabase();
         console.log('✅ Database connection established successfully');
 
+        // Remove closed accounts and expired data exports once they're due
+        await runAccountPurge();
+        setInterval(runAccountPurge, ACCOUNT_PURGE_INTERVAL_MS).unref();
+
         // Start HTTP server
         const server = app.listen(PORT);
 
@@ -5,6 +5,7 @@ import {
     requireRole,
     requireAdminForUserModification,
     canManageRole,
+    canModifyTargetUser,
     ROLES
 } from '@core/middleware/adminAuth';
 import {
@@ -12,8 +13,13 @@ import {
     validateUserIdParam,
     validateAdminCreateUser,
     validateUserUpdate,
+    validateUserDeletion,
+    validateDataExport,
     validateAdminPasswordReset,
-    validateRoleChange
+    validateRoleChange,
+    validateClientIdParam,
+    validateServiceClientCreate,
+    validateServiceClientUpdate
 } from '@core/middleware/validation';
 import {
     createUser,
@@ -24,7 +30,16 @@ import {
     deleteUser,
     resetUserPassword,
     changeUserRole,
-    getDashboardStats
+    resetUserMfa,
+    unlockUser,
+    exportUser,
+    getDashboardStats,
+    listServiceClients,
+    createServiceClient,
+    getServiceClientById,
+    updateServiceClient,
+    rotateServiceClientSecret,
+    deleteServiceClient
 } from '../../controllers/adminController';
 
 const adminRoutes = Router();
@@ -110,12 +125,13 @@ adminRoutes.put(
 
 /**
  * DELETE /admin/users/:id
- * Soft delete a user
+ * Soft delete a user, recording when and (optionally) why
  * Requires: Moderator role (2+), cannot delete self
  */
 adminRoutes.delete(
     '/users/:id',
     validateUserIdParam,
+    validateUserDeletion,
     requireAdminForUserModification,
     deleteUser
 );
@@ -147,4 +163,120 @@ adminRoutes.put(
     changeUserRole
 );
 
+/**
+ * DELETE /admin/users/:id/mfa
+ * Reset user's two-factor authentication (lost authenticator)
+ * Requires: Admin role (3+), cannot modify self
+ */
+adminRoutes.delete(
+    '/users/:id/mfa',
+    requireRole(ROLES.ADMIN),
+    validateUserIdParam,
+    requireAdminForUserModification,
+    resetUserMfa
+);
+
+/**
+ * GET /admin/users/:id/export?format=json|zip
+ * Export everything stored about a user (data-access requests)
+ * Requires: Admin role (3+), cannot export a user with a higher role
+ */
+adminRoutes.get(
+    '/users/:id/export',
+    requireRole(ROLES.ADMIN),
+    validateUserIdParam,
+    validateDataExport,
+    canModifyTargetUser,
+    exportUser
+);
+
+/**
+ * POST /admin/users/:id/unlock
+ * Lift a lockout from repeated failed sign-ins (or a 'locked' status)
+ * Requires: Admin role (3+), cannot modify self
+ */
+adminRoutes.post(
+    '/users/:id/unlock',
+    requireRole(ROLES.ADMIN),
+    validateUserIdParam,
+    requireAdminForUserModification,
+    unlockUser
+);
+
+// ============================================
+// SERVICE CLIENT ROUTES
+// ============================================
+
+/**
+ * GET /admin/clients
+ * List machine clients for the client_credentials grant
+ * Requires: Admin role (3+)
+ */
+adminRoutes.get(
+    '/clients',
+    requireRole(ROLES.ADMIN),
+    listServiceClients
+);
+
+/**
+ * POST /admin/clients
+ * Register a machine client - the secret is returned once
+ * Requires: Admin role (3+)
+ */
+adminRoutes.post(
+    '/clients',
+    requireRole(ROLES.ADMIN),
+    validateServiceClientCreate,
+    createServiceClient
+);
+
+/**
+ * GET /admin/clients/:clientId
+ * Get a specific machine client
+ * Requires: Admin role (3+)
+ */
+adminRoutes.get(
+    '/clients/:clientId',
+    requireRole(ROLES.ADMIN),
+    validateClientIdParam,
+    getServiceClientById
+);
+
+/**
+ * PUT /admin/clients/:clientId
+ * Update name, scopes or enabled flag
+ * Requires: Admin role (3+)
+ */
+adminRoutes.put(
+    '/clients/:clientId',
+    requireRole(ROLES.ADMIN),
+    validateClientIdParam,
+    validateServiceClientUpdate,
+    updateServiceClient
+);
+
+/**
+ * POST /admin/clients/:clientId/secret
+ * Rotate the client secret
+ * Requires: Admin role (3+)
+ */
+adminRoutes.post(
+    '/clients/:clientId/secret',
+    requireRole(ROLES.ADMIN),
+    validateClientIdParam,
+    rotateServiceClientSecret
+);
+
+/**
+ * DELETE /admin/clients/:clientId
+ * Delete a machine client
+ * Requires: Admin role (3+)
+ */
+adminRoutes.delete(
+    '/clients/:clientId',
+    requireRole(ROLES.ADMIN),
+    validateClientIdParam,
+    deleteServiceClient
+);
+
 export { adminRoutes };
\ No newline at end of file
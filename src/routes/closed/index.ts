@@ -1,10 +1,20 @@
 import express, { Router } from 'express';
-import { AuthController, VerificationController } from '@controllers';
+import { AuthController, VerificationController, WebAuthnController } from '@controllers';
 import {
     checkToken,
+    validateLogout,
     validatePasswordChange,
+    validateProfileUpdate,
+    validateAccountClosure,
+    validateDataExport,
+    validateEmailChange,
+    validatePhoneChange,
     validatePhoneSend,
-    validatePhoneVerify
+    validatePhoneVerify,
+    validateTotpCode,
+    validateRecoveryCodeRegeneration,
+    validateWebAuthnRegistration,
+    validateCredentialIdParam
 } from '@middleware';
 
 const closedRoutes: Router = express.Router();
@@ -16,6 +26,68 @@ closedRoutes.use(checkToken);
 
 // ===== AUTHENTICATED AUTH ROUTES =====
 
+/**
+ * Log out the current session (revokes this access token and refresh token)
+ * POST /auth/logout
+ * Validates: refreshToken (optional)
+ */
+closedRoutes.post('/auth/logout', validateLogout, AuthController.logout);
+
+/**
+ * Log out of every session for this account
+ * POST /auth/logout/all
+ */
+closedRoutes.post('/auth/logout/all', AuthController.logoutAll);
+
+/**
+ * The signed-in user's profile (same shape as the login response's user)
+ * GET /auth/user/me
+ */
+closedRoutes.get('/auth/user/me', AuthController.getProfile);
+
+/**
+ * Update the signed-in user's first name, last name and/or username
+ * PATCH /auth/user/me
+ * Validates: firstname, lastname, username (all optional, as the admin update)
+ */
+closedRoutes.patch('/auth/user/me', validateProfileUpdate, AuthController.updateProfile);
+
+/**
+ * Close the signed-in user's account (restorable until the grace period ends)
+ * DELETE /auth/user/me
+ * Validates: password presence, reason (optional, up to 500 characters)
+ */
+closedRoutes.delete('/auth/user/me', validateAccountClosure, AuthController.closeAccount);
+
+/**
+ * Download everything stored about you (JSON, or ZIP with ?format=zip)
+ * Large histories are built in the background and the link is emailed (202)
+ * GET /auth/user/me/export
+ * Validates: format (optional, json or zip)
+ */
+closedRoutes.get('/auth/user/me/export', validateDataExport, AuthController.exportData);
+
+/**
+ * Start an email change: confirmation link to the new address, cancel link to the old
+ * POST /auth/user/email/change
+ * Validates: newEmail format, password presence
+ */
+closedRoutes.post('/auth/user/email/change', validateEmailChange, VerificationController.requestEmailChange);
+
+/**
+ * Start a phone number change: texts a code to the new number
+ * POST /auth/user/phone/change
+ * Validates: newPhone (at least 10 digits), password presence, carrier (optional)
+ */
+closedRoutes.post('/auth/user/phone/change', validatePhoneChange, VerificationController.requestPhoneChange);
+
+/**
+ * Finish a phone number change with the texted code
+ * POST /auth/user/phone/change/verify
+ * Validates: code (required, exactly 6 digits)
+ */
+closedRoutes.post('/auth/user/phone/change/verify', validatePhoneVerify, VerificationController.verifyPhoneChange);
+
 /**
  * Change password (requires authentication and old password)
  * POST /auth/user/password/change
@@ -44,4 +116,53 @@ closedRoutes.post('/auth/verify/phone/verify', validatePhoneVerify, Verification
  */
 closedRoutes.post('/auth/verify/email/send', VerificationController.sendEmailVerification);
 
+// ===== TWO-FACTOR AUTHENTICATION =====
+
+/**
+ * Start TOTP enrollment - returns the secret and otpauth:// URI
+ * POST /auth/mfa/totp/setup
+ */
+closedRoutes.post('/auth/mfa/totp/setup', AuthController.setupTotp);
+
+/**
+ * Confirm TOTP enrollment with a code from the authenticator app
+ * POST /auth/mfa/totp/confirm
+ * Validates: code (required, exactly 6 digits)
+ */
+closedRoutes.post('/auth/mfa/totp/confirm', validateTotpCode, AuthController.confirmTotp);
+
+/**
+ * Replace the recovery codes with a fresh set
+ * POST /auth/mfa/recovery-codes
+ * Validates: code (current TOTP code or an unused recovery code)
+ */
+closedRoutes.post('/auth/mfa/recovery-codes', validateRecoveryCodeRegeneration, AuthController.regenerateRecoveryCodes);
+
+// ===== PASSKEYS (WEBAUTHN) =====
+
+/**
+ * Start passkey registration - returns options for navigator.credentials.create()
+ * POST /auth/webauthn/register/options
+ */
+closedRoutes.post('/auth/webauthn/register/options', WebAuthnController.registrationOptions);
+
+/**
+ * Finish passkey registration with the authenticator's attestation
+ * POST /auth/webauthn/register/verify
+ * Validates: credential fields are base64url encoded, name (optional)
+ */
+closedRoutes.post('/auth/webauthn/register/verify', validateWebAuthnRegistration, WebAuthnController.verifyRegistration);
+
+/**
+ * List the user's passkeys
+ * GET /auth/webauthn/credentials
+ */
+closedRoutes.get('/auth/webauthn/credentials', WebAuthnController.listCredentials);
+
+/**
+ * Remove a passkey
+ * DELETE /auth/webauthn/credentials/:credentialId
+ */
+closedRoutes.delete('/auth/webauthn/credentials/:credentialId', validateCredentialIdParam, WebAuthnController.deleteCredential);
+
 export { closedRoutes };
\ No newline at end of file
@@ -2,12 +2,16 @@ import { Router } from 'express';
 import { openRoutes } from './open';
 import { closedRoutes } from './closed';
 import {adminRoutes} from './admin';
+import { oauthRoutes } from './oauth';
 
 const routes = Router();
 
 // Mount all route groups
 routes.use('', openRoutes);
 
+// Mounted before closedRoutes, whose checkToken applies to everything after it
+routes.use('/oauth', oauthRoutes);
+
 routes.use('', closedRoutes);
 
 routes.use('/admin', adminRoutes);
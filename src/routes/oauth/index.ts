@@ -0,0 +1,36 @@
+import express, { Router } from 'express';
+import { OAuthController } from '@controllers';
+import { loginLimit, oauthTokenLimit, oauthIntrospectLimit, publicLimit } from '../rateLimits';
+
+const oauthRoutes: Router = express.Router();
+
+// OAuth endpoints authenticate their callers themselves (client credentials),
+// so they sit outside checkToken and accept form-encoded bodies
+
+/**
+ * Start the authorization code flow - shows the login/consent page
+ * GET /oauth/authorize?response_type=code&client_id=...&redirect_uri=...&code_challenge=...
+ */
+oauthRoutes.get('/authorize', publicLimit, OAuthController.authorize);
+
+/**
+ * Submit the login/consent form - redirects back to the client with a code
+ * POST /oauth/authorize
+ */
+oauthRoutes.post('/authorize', loginLimit, OAuthController.authorizeDecision);
+
+/**
+ * Exchange an authorization code or refresh token for tokens
+ * POST /oauth/token
+ * Auth: client credentials for confidential clients; PKCE for public clients
+ */
+oauthRoutes.post('/token', oauthTokenLimit, OAuthController.token);
+
+/**
+ * Token introspection for resource servers (RFC 7662)
+ * POST /oauth/introspect
+ * Auth: HTTP Basic (INTROSPECTION_CLIENTS)
+ */
+oauthRoutes.post('/introspect', oauthIntrospectLimit, OAuthController.introspect);
+
+export { oauthRoutes };
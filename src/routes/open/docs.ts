@@ -91,7 +91,7 @@ router.get(
             }
 
             const docsPath = path.join(__dirname, '../../../docs-2.0');
-            const filePath = path.join(docsPath, filename);
+            const filePath = path.join(docsPath, filename as string);
 
             // Security check: ensure the resolved path is within docs directory
             const resolvedPath = path.resolve(filePath);
@@ -173,7 +173,7 @@ router.get(
             }
 
             const docsPath = path.join(__dirname, '../../../docs-2.0');
-            const filePath = path.join(docsPath, filename);
+            const filePath = path.join(docsPath, filename as string);
 
             // Security check: ensure the resolved path is within docs directory
             const resolvedPath = path.resolve(filePath);
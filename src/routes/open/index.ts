@@ -1,14 +1,34 @@
 import express, { Router } from 'express';
-import { AuthController, VerificationController } from '@controllers';
+import { AuthController, VerificationController, WellKnownController, WebAuthnController, OAuthController } from '@controllers';
 import { docsRoutes } from './docs';
 import {
     validateLogin,
     validateRegister,
+    validateRefreshToken,
     validatePasswordResetRequest,
     validatePasswordReset,
+    validatePasswordResetToken,
     validateEmailToken,
-    checkToken
+    validateMfaLogin,
+    validateMagicLinkRequest,
+    validateMagicLinkToken,
+    validateSmsLoginRequest,
+    validateSmsLogin,
+    validateWebAuthnLoginOptions,
+    validateWebAuthnLogin,
+    checkToken,
+    checkOAuthToken
 } from '@middleware';
+import {
+    loginLimit,
+    registerLimit,
+    emailSendLimit,
+    smsSendLimit,
+    tokenRefreshLimit,
+    passwordResetLimit,
+    publicLimit,
+    jwtTestLimit
+} from '../rateLimits';
 
 const openRoutes: Router = express.Router();
 
@@ -19,14 +39,70 @@ const openRoutes: Router = express.Router();
  * POST /auth/login
  * Validates: email format, password presence
  */
-openRoutes.post('/auth/login', validateLogin, AuthController.login);
+openRoutes.post('/auth/login', loginLimit, validateLogin, AuthController.login);
+
+/**
+ * Complete login with a second factor (accounts with two-factor enabled)
+ * POST /auth/login/mfa
+ * Validates: mfaToken presence, 6-digit code or recovery code
+ */
+openRoutes.post('/auth/login/mfa', loginLimit, validateMfaLogin, AuthController.loginWithMfa);
+
+/**
+ * Email a single-use sign-in link (verified emails only; same response either way)
+ * POST /auth/login/magic-link
+ * Validates: email format
+ */
+openRoutes.post('/auth/login/magic-link', emailSendLimit, validateMagicLinkRequest, AuthController.requestMagicLink);
+
+/**
+ * Sign in with the emailed link
+ * GET /auth/login/magic-link/verify?token=xxx
+ * Validates: token query parameter
+ */
+openRoutes.get('/auth/login/magic-link/verify', loginLimit, validateMagicLinkToken, AuthController.loginWithMagicLink);
+
+/**
+ * Text a one-time sign-in code (verified phones only; same response either way)
+ * POST /auth/login/sms
+ * Validates: phone format, optional carrier
+ */
+openRoutes.post('/auth/login/sms', smsSendLimit, validateSmsLoginRequest, AuthController.requestSmsLoginCode);
+
+/**
+ * Sign in with the texted code
+ * POST /auth/login/sms/verify
+ * Validates: phone format, 6-digit code
+ */
+openRoutes.post('/auth/login/sms/verify', loginLimit, validateSmsLogin, AuthController.loginWithSmsCode);
+
+/**
+ * Start passkey sign-in - returns options for navigator.credentials.get()
+ * POST /auth/webauthn/login/options
+ * Validates: email (optional)
+ */
+openRoutes.post('/auth/webauthn/login/options', publicLimit, validateWebAuthnLoginOptions, WebAuthnController.authenticationOptions);
+
+/**
+ * Finish passkey sign-in with the authenticator's assertion
+ * POST /auth/webauthn/login/verify
+ * Validates: credential fields are base64url encoded
+ */
+openRoutes.post('/auth/webauthn/login/verify', loginLimit, validateWebAuthnLogin, WebAuthnController.verifyAuthentication);
 
 /**
  * Register a new user (always creates basic user with role 1)
  * POST /auth/register
  * Validates: firstname, lastname, email, username, password, phone
  */
-openRoutes.post('/auth/register', validateRegister, AuthController.register);
+openRoutes.post('/auth/register', registerLimit, validateRegister, AuthController.register);
+
+/**
+ * Exchange a refresh token for a new access token (refresh token is rotated)
+ * POST /auth/token/refresh
+ * Validates: refreshToken presence
+ */
+openRoutes.post('/auth/token/refresh', tokenRefreshLimit, validateRefreshToken, AuthController.refreshToken);
 
 // ===== PASSWORD RESET ROUTES =====
 
@@ -35,14 +111,28 @@ openRoutes.post('/auth/register', validateRegister, AuthController.register);
  * POST /auth/password/reset-request
  * Validates: email format
  */
-openRoutes.post('/auth/password/reset-request', validatePasswordResetRequest, AuthController.requestPasswordReset);
+openRoutes.post('/auth/password/reset-request', emailSendLimit, validatePasswordResetRequest, AuthController.requestPasswordReset);
 
 /**
- * Reset password with token
+ * Page for the link in the reset email: the new-password form, or the
+ * expired/invalid page (JSON like /validate with Accept: application/json)
+ * GET /auth/password/reset?token=xxx
+ */
+openRoutes.get('/auth/password/reset', passwordResetLimit, AuthController.showPasswordResetPage);
+
+/**
+ * Check a reset token before showing the new-password form (does not use it up)
+ * GET /auth/password/reset/validate?token=xxx
+ * Validates: token query parameter
+ */
+openRoutes.get('/auth/password/reset/validate', passwordResetLimit, validatePasswordResetToken, AuthController.validatePasswordResetToken);
+
+/**
+ * Reset password with token (single-use); the hosted form posts here as well
  * POST /auth/password/reset
- * Validates: token presence, password length
+ * Validates: token format, password presence
  */
-openRoutes.post('/auth/password/reset', validatePasswordReset, AuthController.resetPassword);
+openRoutes.post('/auth/password/reset', passwordResetLimit, validatePasswordReset, AuthController.resetPassword);
 
 // ===== VERIFICATION ROUTES =====
 
@@ -50,14 +140,45 @@ openRoutes.post('/auth/password/reset', validatePasswordReset, AuthController.re
  * Get list of supported carriers
  * GET /auth/verify/carriers
  */
-openRoutes.get('/auth/verify/carriers', VerificationController.getCarriers);
+openRoutes.get('/auth/verify/carriers', publicLimit, VerificationController.getCarriers);
 
 /**
  * Verify email token (can be accessed via link without authentication)
+ * Browsers get a result page; JSON with Accept: application/json
  * GET /auth/verify/email/confirm?token=xxx
  * Validates: token query parameter
  */
-openRoutes.get('/auth/verify/email/confirm', validateEmailToken, VerificationController.confirmEmailVerification);
+openRoutes.get('/auth/verify/email/confirm', publicLimit, validateEmailToken, VerificationController.confirmEmailVerification);
+
+/**
+ * Confirm a new email address (link sent to the new address)
+ * Browsers get a result page; JSON with Accept: application/json
+ * GET /auth/user/email/change/confirm?token=xxx
+ * Validates: token query parameter
+ */
+openRoutes.get('/auth/user/email/change/confirm', publicLimit, validateEmailToken, VerificationController.confirmEmailChange);
+
+/**
+ * Cancel a pending email change (link sent to the old address)
+ * GET /auth/user/email/change/cancel?token=xxx
+ * Validates: token query parameter
+ */
+openRoutes.get('/auth/user/email/change/cancel', publicLimit, validateEmailToken, VerificationController.cancelEmailChange);
+
+/**
+ * Restore a closed account before its data is removed (link in the closure email)
+ * Browsers get a result page; JSON with Accept: application/json
+ * GET /auth/user/restore?token=xxx
+ * Validates: token query parameter
+ */
+openRoutes.get('/auth/user/restore', publicLimit, validateEmailToken, AuthController.restoreAccount);
+
+/**
+ * Download a personal data export (link emailed when it was built in the background)
+ * GET /auth/user/export/download?token=xxx
+ * Validates: token query parameter
+ */
+openRoutes.get('/auth/user/export/download', publicLimit, validateEmailToken, AuthController.downloadDataExport);
 
 // ===== TESTING ROUTES =====
 
@@ -65,7 +186,31 @@ openRoutes.get('/auth/verify/email/confirm', validateEmailToken, VerificationCon
  * Simple test endpoint (no authentication required)
  * GET /jwt_test
  */
-openRoutes.get('/jwt_test', checkToken, AuthController.testJWT);
+openRoutes.get('/jwt_test', checkToken, jwtTestLimit, AuthController.testJWT);
+
+// ===== OPENID CONNECT =====
+
+/**
+ * Claims about the signed-in user, filtered by the token's scope
+ * GET /userinfo
+ * Accepts OAuth client tokens as well as first-party ones
+ * Requires: openid scope (implied for first-party login tokens)
+ */
+openRoutes.get('/userinfo', publicLimit, checkOAuthToken, OAuthController.userinfo);
+
+// ===== DISCOVERY ROUTES =====
+
+/**
+ * Public keys for verifying access tokens, keyed by kid
+ * GET /.well-known/jwks.json
+ */
+openRoutes.get('/.well-known/jwks.json', publicLimit, WellKnownController.getJwks);
+
+/**
+ * OpenID Connect discovery document
+ * GET /.well-known/openid-configuration
+ */
+openRoutes.get('/.well-known/openid-configuration', publicLimit, WellKnownController.getOpenIdConfiguration);
 
 // ===== DOCUMENTATION ROUTES =====
 
@@ -75,6 +220,6 @@ openRoutes.get('/jwt_test', checkToken, AuthController.testJWT);
  * GET /doc/:filename - Rendered markdown file
  * GET /doc/raw/:filename - Raw markdown file
  */
-openRoutes.use('/doc', docsRoutes);
+openRoutes.use('/doc', publicLimit, docsRoutes);
 
 export { openRoutes };
\ No newline at end of file
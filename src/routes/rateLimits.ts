@@ -0,0 +1,30 @@
+import { rateLimit } from '@middleware';
+
+// Defaults per limit; each can be changed with RATE_LIMIT_<NAME> (see .env.example).
+// Routes that share a limit share its budget.
+
+/** Everything that checks a password, code or sign-in token */
+export const loginLimit = rateLimit({ name: 'login', max: 10, windowSeconds: 60, algorithm: 'sliding' });
+
+export const registerLimit = rateLimit({ name: 'register', max: 5, windowSeconds: 3600 });
+
+/** Sign-in links and reset emails, counted per recipient so one inbox can't be flooded */
+export const emailSendLimit = rateLimit({ name: 'email_send', max: 3, windowSeconds: 900, keyBy: 'email' });
+
+export const smsSendLimit = rateLimit({ name: 'sms_send', max: 5, windowSeconds: 900 });
+
+export const tokenRefreshLimit = rateLimit({ name: 'token_refresh', max: 30, windowSeconds: 60 });
+
+/** OAuth token endpoint: client secrets, authorization codes and refresh tokens */
+export const oauthTokenLimit = rateLimit({ name: 'oauth_token', max: 30, windowSeconds: 60, algorithm: 'sliding' });
+
+/** Token introspection: resource servers call it per request, but it checks their client secret */
+export const oauthIntrospectLimit = rateLimit({ name: 'oauth_introspect', max: 300, windowSeconds: 60, algorithm: 'sliding' });
+
+export const passwordResetLimit = rateLimit({ name: 'password_reset', max: 10, windowSeconds: 900 });
+
+/** Read-only lookups and links opened from emails */
+export const publicLimit = rateLimit({ name: 'public', max: 100, windowSeconds: 60, algorithm: 'sliding' });
+
+/** Counted per account once the token is checked */
+export const jwtTestLimit = rateLimit({ name: 'jwt_test', max: 60, windowSeconds: 60, keyBy: 'account' });
@@ -0,0 +1,71 @@
+// src/test/helpers/pgMemSetup.ts
+import fs from 'fs';
+import path from 'path';
+import { Pool } from 'pg';
+import { newDb, IMemoryDb } from 'pg-mem';
+import { setPool, resetPool } from '../../core/utilities/database';
+import { generateSaltedHash } from '../../core/utilities/credentialingUtils';
+
+export interface TestDatabase {
+    db: IMemoryDb;
+    pool: Pool;
+}
+
+/**
+ * Create an in-memory PostgreSQL database from data/init.sql and install it
+ * as the application's pool, so routes can be exercised end to end
+ */
+export const createTestDatabase = (): TestDatabase => {
+    const db = newDb();
+    db.public.none(fs.readFileSync(path.join(__dirname, '../../../data/init.sql'), 'utf8'));
+
+    const pgAdapter = db.adapters.createPg();
+    const pool = new pgAdapter.Pool() as Pool;
+    setPool(pool);
+
+    return { db, pool };
+};
+
+/**
+ * Close the in-memory pool and detach it from the application
+ */
+export const closeTestDatabase = async ({ pool }: TestDatabase): Promise<void> => {
+    await pool.end();
+    resetPool();
+};
+
+/**
+ * Insert an account with a password credential
+ * @returns The new Account_ID
+ */
+export const createTestAccount = async (
+    pool: Pool,
+    overrides: { email?: string; password?: string; role?: number; status?: string } = {}
+): Promise<number> => {
+    const email = overrides.email ?? 'test@example.com';
+    const username = email.split('@')[0];
+
+    const accountResult = await pool.query(
+        `INSERT INTO Account
+         (FirstName, LastName, Username, Email, Phone, Account_Role, Email_Verified, Phone_Verified, Account_Status)
+         VALUES ('Test', 'User', $1, $2, $3, $4, TRUE, FALSE, $5)
+         RETURNING Account_ID`,
+        [
+            username,
+            email,
+            String(Math.floor(1000000000 + Math.random() * 9000000000)),
+            overrides.role ?? 1,
+            overrides.status ?? 'active',
+        ]
+    );
+    const accountId = accountResult.rows[0].account_id;
+
+    const { algorithm, params, salt, hash } = await generateSaltedHash(overrides.password ?? 'Password123!');
+    await pool.query(
+        `INSERT INTO Account_Credential (Account_ID, Salted_Hash, Salt, Hash_Algorithm, Hash_Params)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [accountId, hash, salt, algorithm, params]
+    );
+
+    return accountId;
+};
@@ -0,0 +1,179 @@
+// src/test/helpers/softwareAuthenticator.ts
+import { createHash, generateKeyPairSync, randomBytes, sign, KeyObject } from 'crypto';
+
+type CborInput = number | string | boolean | null | Buffer | CborInput[] | Map<CborInput, CborInput>;
+
+const cborHeader = (majorType: number, length: number): Buffer => {
+    if (length < 24) {
+        return Buffer.from([(majorType << 5) | length]);
+    }
+    if (length < 0x100) {
+        return Buffer.from([(majorType << 5) | 24, length]);
+    }
+    const header = Buffer.alloc(3);
+    header[0] = (majorType << 5) | 25;
+    header.writeUInt16BE(length, 1);
+    return header;
+};
+
+/**
+ * Minimal CBOR encoder - enough for attestation objects and COSE keys
+ */
+export const encodeCbor = (value: CborInput): Buffer => {
+    if (typeof value === 'number') {
+        return value >= 0 ? cborHeader(0, value) : cborHeader(1, -1 - value);
+    }
+    if (typeof value === 'string') {
+        const bytes = Buffer.from(value, 'utf8');
+        return Buffer.concat([cborHeader(3, bytes.length), bytes]);
+    }
+    if (typeof value === 'boolean') {
+        return Buffer.from([value ? 0xf5 : 0xf4]);
+    }
+    if (value === null) {
+        return Buffer.from([0xf6]);
+    }
+    if (Buffer.isBuffer(value)) {
+        return Buffer.concat([cborHeader(2, value.length), value]);
+    }
+    if (Array.isArray(value)) {
+        return Buffer.concat([cborHeader(4, value.length), ...value.map(encodeCbor)]);
+    }
+    const entries = [...value.entries()].flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]);
+    return Buffer.concat([cborHeader(5, value.size), ...entries]);
+};
+
+interface CreationOptions {
+    challenge: string;
+    rp: { id: string };
+    user: { id: string };
+}
+
+interface RequestOptions {
+    challenge: string;
+    rpId: string;
+}
+
+export interface SoftwareAuthenticatorOptions {
+    origin?: string;
+    attestation?: 'none' | 'packed';
+    userVerification?: boolean;
+    /** Signature counter step per assertion; 0 models authenticators without a counter */
+    counterStep?: number;
+}
+
+/**
+ * An in-memory WebAuthn authenticator with one ES256 credential
+ * Produces the JSON a browser would send after navigator.credentials.create()/get()
+ */
+export const createSoftwareAuthenticator = (options: SoftwareAuthenticatorOptions = {}) => {
+    const origin = options.origin ?? 'http://localhost:8000';
+    const counterStep = options.counterStep ?? 1;
+    const credentialId = randomBytes(16);
+    let { privateKey, publicKey }: { privateKey: KeyObject; publicKey: KeyObject } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    let signCount = 0;
+    let userHandle: string | null = null;
+
+    const flags = (attested: boolean): number =>
+        0x01 | (options.userVerification === false ? 0 : 0x04) | (attested ? 0x40 : 0);
+
+    const clientData = (type: string, challenge: string): Buffer =>
+        Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+
+    const coseKey = (): Buffer => {
+        const jwk = publicKey.export({ format: 'jwk' });
+        return encodeCbor(new Map<CborInput, CborInput>([
+            [1, 2],
+            [3, -7],
+            [-1, 1],
+            [-2, Buffer.from(jwk.x as string, 'base64url')],
+            [-3, Buffer.from(jwk.y as string, 'base64url')],
+        ]));
+    };
+
+    const authenticatorData = (rpId: string, attested: boolean): Buffer => {
+        const header = Buffer.alloc(37);
+        createHash('sha256').update(rpId).digest().copy(header, 0);
+        header[32] = flags(attested);
+        header.writeUInt32BE(signCount, 33);
+        if (!attested) {
+            return header;
+        }
+
+        const idLength = Buffer.alloc(2);
+        idLength.writeUInt16BE(credentialId.length);
+        return Buffer.concat([header, Buffer.alloc(16), idLength, credentialId, coseKey()]);
+    };
+
+    return {
+        credentialId: credentialId.toString('base64url'),
+
+        /**
+         * Respond to registration options
+         */
+        createCredential(creation: CreationOptions) {
+            userHandle = creation.user.id;
+            const clientDataJSON = clientData('webauthn.create', creation.challenge);
+            const authData = authenticatorData(creation.rp.id, true);
+            const clientDataHash = createHash('sha256').update(clientDataJSON).digest();
+
+            const attStmt = options.attestation === 'packed'
+                ? new Map<CborInput, CborInput>([
+                    ['alg', -7],
+                    ['sig', sign('sha256', Buffer.concat([authData, clientDataHash]), privateKey)],
+                ])
+                : new Map<CborInput, CborInput>();
+
+            return {
+                id: credentialId.toString('base64url'),
+                rawId: credentialId.toString('base64url'),
+                type: 'public-key',
+                response: {
+                    clientDataJSON: clientDataJSON.toString('base64url'),
+                    attestationObject: encodeCbor(new Map<CborInput, CborInput>([
+                        ['fmt', options.attestation ?? 'none'],
+                        ['attStmt', attStmt],
+                        ['authData', authData],
+                    ])).toString('base64url'),
+                    transports: ['internal'],
+                },
+            };
+        },
+
+        /**
+         * Respond to sign-in options
+         */
+        getAssertion(request: RequestOptions) {
+            signCount += counterStep;
+            const clientDataJSON = clientData('webauthn.get', request.challenge);
+            const authData = authenticatorData(request.rpId, false);
+            const clientDataHash = createHash('sha256').update(clientDataJSON).digest();
+
+            return {
+                id: credentialId.toString('base64url'),
+                rawId: credentialId.toString('base64url'),
+                type: 'public-key',
+                response: {
+                    clientDataJSON: clientDataJSON.toString('base64url'),
+                    authenticatorData: authData.toString('base64url'),
+                    signature: sign('sha256', Buffer.concat([authData, clientDataHash]), privateKey).toString('base64url'),
+                    userHandle,
+                },
+            };
+        },
+
+        /**
+         * Swap in a different key pair, as an attacker without the real key would
+         */
+        replaceKey() {
+            ({ privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' }));
+        },
+
+        /**
+         * Wind the signature counter back, as a cloned authenticator would
+         */
+        resetCounter() {
+            signCount = 0;
+        },
+    };
+};